@@ -0,0 +1,181 @@
+import { AutoReplyService, BusinessHours } from "../services/AutoReplyService";
+
+jest.mock("pino", () => ({
+  __esModule: true,
+  default: () => ({
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  }),
+}));
+
+jest.mock("@google-cloud/firestore", () => {
+  const timestamp = (millis: number) => ({ toMillis: () => millis, toDate: () => new Date(millis) });
+  return {
+    Timestamp: {
+      now: () => timestamp(Date.now()),
+      fromMillis: (millis: number) => timestamp(millis),
+    },
+    FieldValue: {
+      increment: (n: number) => ({ increment: n }),
+    },
+  };
+});
+
+describe("AutoReplyService", () => {
+  let service: AutoReplyService;
+  let docs: Map<string, any>;
+  let contacts: any[];
+  let mockConnectionPool: any;
+  let mockLimitChecker: any;
+  let nextId: number;
+
+  const userId = "user123";
+  const phoneNumber = "+1234567890";
+  const contact = "+31612345678";
+  const message = (body: string, receivedAt = new Date()) => ({ fromNumber: contact, body, receivedAt });
+
+  beforeEach(() => {
+    docs = new Map();
+    contacts = [];
+    nextId = 0;
+
+    const docRef = (path: string): any => ({
+      path,
+      id: path.split("/").pop(),
+      get: async () => ({ exists: docs.has(path), data: () => docs.get(path) }),
+      set: async (data: any) => docs.set(path, data),
+      update: async (changes: any) => docs.set(path, { ...docs.get(path), ...changes }),
+      delete: async () => docs.delete(path),
+      collection: (name: string) => collectionRef(`${path}/${name}`),
+    });
+
+    const collectionRef = (path: string): any => {
+      const inCollection = () =>
+        Array.from(docs.entries()).filter(([docPath]) => docPath.startsWith(`${path}/`) && !docPath.slice(path.length + 1).includes("/"));
+      return {
+        doc: (id?: string) => docRef(`${path}/${id || `rule${++nextId}`}`),
+        get: async () => ({ docs: inCollection().map(([, data]) => ({ data: () => data })) }),
+        where: (field: string, _op: string, value: any) => ({
+          get: async () => ({
+            docs: inCollection()
+              .filter(([, data]) => data[field] === value)
+              .map(([, data]) => ({ data: () => data })),
+          }),
+        }),
+      };
+    };
+
+    const contactsQuery = (filters: Array<[string, any]>): any => ({
+      where: (field: string, _op: string, value: any) => contactsQuery([...filters, [field, value]]),
+      limit: () => contactsQuery(filters),
+      get: async () => {
+        const matches = contacts.filter((data) => filters.every(([field, value]) => field === "user" || data[field] === value));
+        return { empty: matches.length === 0, docs: matches };
+      },
+    });
+
+    const mockFirestore: any = {
+      collection: (name: string) => (name === "contacts" ? contactsQuery([]) : collectionRef(name)),
+      runTransaction: async (callback: any) =>
+        callback({
+          get: (ref: any) => ref.get(),
+          set: (ref: any, data: any) => docs.set(ref.path, data),
+        }),
+    };
+
+    mockConnectionPool = { sendMessage: jest.fn().mockResolvedValue({ id: "auto-reply-1" }) };
+    mockLimitChecker = { checkLimits: jest.fn().mockResolvedValue({ allowed: true }) };
+
+    service = new AutoReplyService(mockFirestore, mockConnectionPool, mockLimitChecker);
+  });
+
+  it("should validate rules per trigger", () => {
+    const base = { name: "Rule", reply: "Thanks!" };
+
+    expect(AutoReplyService.validate({ ...base, trigger: "keyword", keywords: ["price"] })).toBeNull();
+    expect(AutoReplyService.validate({ ...base, trigger: "keyword", keywords: [] })).toBe("keywords must be a non-empty array of strings");
+    const invalidPattern = "pattern is not a valid regular expression (lookarounds and backreferences aren't supported)";
+    expect(AutoReplyService.validate({ ...base, trigger: "regex", pattern: "(" })).toBe(invalidPattern);
+    expect(AutoReplyService.validate({ ...base, trigger: "regex", pattern: "^order #?\\d+( is late)?$" })).toBeNull();
+    expect(AutoReplyService.validate({ ...base, trigger: "regex", pattern: "(x)\\1" })).toBe(invalidPattern);
+    expect(AutoReplyService.validate({ ...base, trigger: "regex", pattern: "price(?! list)" })).toBe(invalidPattern);
+    expect(AutoReplyService.validate({ ...base, trigger: "new_contact", cooldownMinutes: 0 })).toBe("cooldownMinutes must be at least 1");
+    expect(
+      AutoReplyService.validate({
+        ...base,
+        trigger: "outside_business_hours",
+        businessHours: { timezone: "Mars/Olympus", days: [1], start: "09:00", end: "17:00" },
+      })
+    ).toBe("businessHours.timezone must be an IANA timezone, e.g. Europe/Amsterdam");
+  });
+
+  it("should evaluate business hours in the rule's timezone", () => {
+    const hours: BusinessHours = { timezone: "Europe/Amsterdam", days: [1, 2, 3, 4, 5], start: "09:00", end: "17:00" };
+
+    // Monday 2024-01-15: 08:30 UTC is 09:30 in Amsterdam, 16:30 UTC is 17:30
+    expect(AutoReplyService.isWithinBusinessHours(hours, new Date("2024-01-15T08:30:00Z"))).toBe(true);
+    expect(AutoReplyService.isWithinBusinessHours(hours, new Date("2024-01-15T16:30:00Z"))).toBe(false);
+    // Saturday
+    expect(AutoReplyService.isWithinBusinessHours(hours, new Date("2024-01-20T10:00:00Z"))).toBe(false);
+
+    // Overnight window from Friday 22:00 to 06:00 still covers early Saturday
+    const nightShift: BusinessHours = { timezone: "UTC", days: [5], start: "22:00", end: "06:00" };
+    expect(AutoReplyService.isWithinBusinessHours(nightShift, new Date("2024-01-20T03:00:00Z"))).toBe(true);
+  });
+
+  it("should return the first matching rule by priority", async () => {
+    await service.create(userId, phoneNumber, { name: "Any price", trigger: "regex", pattern: "pric(e|ing)", reply: "See our site", priority: 2 });
+    const keywordRule = await service.create(userId, phoneNumber, { name: "Price", trigger: "keyword", keywords: ["PRICE"], reply: "It's €10", priority: 1 });
+    await service.create(userId, phoneNumber, { name: "Off", trigger: "keyword", keywords: ["price"], reply: "Disabled", priority: 0, active: false });
+
+    await expect(service.match(userId, phoneNumber, message("What's the price?"))).resolves.toMatchObject({ id: keywordRule.id });
+    await expect(service.match(userId, phoneNumber, message("Hello"))).resolves.toBeNull();
+  });
+
+  it("should match regex rules in linear time", async () => {
+    // Backtracking takes minutes on this pattern against a long run of "a"s
+    await service.create(userId, phoneNumber, { name: "Slow", trigger: "regex", pattern: "a*a*a*a*a*a*b", reply: "Hi" });
+
+    const startedAt = Date.now();
+    await expect(service.match(userId, phoneNumber, message("a".repeat(5000)))).resolves.toBeNull();
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+
+    await expect(service.match(userId, phoneNumber, message("AAAB"))).resolves.toMatchObject({ name: "Slow" });
+  });
+
+  it("should only match new_contact rules for contacts without a contact document", async () => {
+    await service.create(userId, phoneNumber, { name: "Welcome", trigger: "new_contact", reply: "Welcome!" });
+
+    await expect(service.match(userId, phoneNumber, message("Hi"))).resolves.toMatchObject({ name: "Welcome" });
+
+    contacts.push({ phone_number: contact });
+    await expect(service.match(userId, phoneNumber, message("Hi again"))).resolves.toBeNull();
+  });
+
+  it("should reply through the limit checker once per cooldown", async () => {
+    const rule = await service.create(userId, phoneNumber, {
+      name: "Hours",
+      trigger: "keyword",
+      keywords: ["open"],
+      reply: "We open at 9",
+      cooldownMinutes: 30,
+    });
+
+    await expect(service.reply(userId, phoneNumber, contact, rule)).resolves.toBe(true);
+    await expect(service.reply(userId, phoneNumber, contact, rule)).resolves.toBe(false);
+
+    expect(mockLimitChecker.checkLimits).toHaveBeenCalledWith(userId, phoneNumber, contact);
+    expect(mockConnectionPool.sendMessage).toHaveBeenCalledTimes(1);
+    expect(mockConnectionPool.sendMessage).toHaveBeenCalledWith(userId, phoneNumber, contact, { text: "We open at 9" });
+  });
+
+  it("should not reply when the sender is over its limits", async () => {
+    mockLimitChecker.checkLimits.mockResolvedValue({ allowed: false, error: "Daily limit reached" });
+    const rule = await service.create(userId, phoneNumber, { name: "Welcome", trigger: "new_contact", reply: "Welcome!" });
+
+    await expect(service.reply(userId, phoneNumber, contact, rule)).resolves.toBe(false);
+    expect(mockConnectionPool.sendMessage).not.toHaveBeenCalled();
+  });
+});
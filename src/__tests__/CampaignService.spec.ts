@@ -0,0 +1,216 @@
+import { CampaignService } from "../services/CampaignService";
+import { LimitChecker } from "../services/limitChecker";
+
+jest.mock("../services/limitChecker");
+jest.mock("@google-cloud/firestore", () => {
+  const actual = jest.requireActual("@google-cloud/firestore");
+  return {
+    ...actual,
+    FieldValue: {
+      increment: (n: number) => ({ __increment: n }),
+    },
+  };
+});
+jest.mock("pino", () => ({
+  __esModule: true,
+  default: () => ({
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  }),
+}));
+
+/**
+ * Minimal in-memory Firestore supporting the document/collection operations used by CampaignService
+ */
+function createFakeFirestore() {
+  const store = new Map<string, any>();
+  let autoId = 0;
+
+  const applyUpdate = (path: string, update: Record<string, any>) => {
+    const data = { ...store.get(path) };
+    for (const [key, value] of Object.entries(update)) {
+      const parts = key.split(".");
+      let target = data;
+      for (const part of parts.slice(0, -1)) {
+        target[part] = { ...target[part] };
+        target = target[part];
+      }
+      const field = parts[parts.length - 1];
+      target[field] = value && value.__increment !== undefined ? (target[field] || 0) + value.__increment : value;
+    }
+    store.set(path, data);
+  };
+
+  const docRef = (path: string): any => ({
+    id: path.split("/").pop(),
+    path,
+    get: async () => ({ exists: store.has(path), id: path.split("/").pop(), data: () => store.get(path) }),
+    set: async (data: any) => store.set(path, data),
+    update: async (update: any) => applyUpdate(path, update),
+    collection: (name: string) => collectionRef(`${path}/${name}`),
+  });
+
+  const query = (prefix: string, filters: Array<[string, any]>, order?: string, max?: number): any => ({
+    where: (field: string, _op: string, value: any) => query(prefix, [...filters, [field, value]], order, max),
+    orderBy: (field: string) => query(prefix, filters, field, max),
+    limit: (n: number) => query(prefix, filters, order, n),
+    get: async () => {
+      let docs = Array.from(store.entries())
+        .filter(([path]) => path.startsWith(`${prefix}/`) && !path.slice(prefix.length + 1).includes("/"))
+        .filter(([, data]) => filters.every(([field, value]) => data[field] === value))
+        .map(([path]) => path);
+      if (order) {
+        docs.sort((a, b) => store.get(a)[order] - store.get(b)[order]);
+      }
+      if (max) {
+        docs = docs.slice(0, max);
+      }
+      const snapshots = docs.map((path) => ({ id: path.split("/").pop(), ref: docRef(path), data: () => store.get(path) }));
+      return { empty: snapshots.length === 0, size: snapshots.length, docs: snapshots };
+    },
+  });
+
+  const collectionRef = (path: string): any => ({
+    ...query(path, []),
+    doc: (id?: string) => docRef(`${path}/${id || `auto-${++autoId}`}`),
+  });
+
+  return {
+    store,
+    collection: (name: string) => collectionRef(name),
+    collectionGroup: () => query("__none__", []),
+    batch: () => {
+      const writes: Array<() => void> = [];
+      return {
+        set: (ref: any, data: any) => writes.push(() => store.set(ref.path, data)),
+        commit: async () => writes.forEach((write) => write()),
+      };
+    },
+    runTransaction: async (callback: any) =>
+      callback({
+        get: (ref: any) => ref.get(),
+        update: (ref: any, update: any) => applyUpdate(ref.path, update),
+      }),
+  };
+}
+
+describe("CampaignService", () => {
+  let service: CampaignService;
+  let fakeFirestore: ReturnType<typeof createFakeFirestore>;
+  let mockConnectionPool: any;
+  let mockLimitChecker: jest.Mocked<LimitChecker>;
+
+  const userId = "user123";
+  const phoneNumber = "+1234567890";
+
+  const waitForStatus = async (campaignId: string, status: string) => {
+    const path = `users/${userId}/phone_numbers/${phoneNumber}/campaigns/${campaignId}`;
+    for (let i = 0; i < 200 && fakeFirestore.store.get(path)?.status !== status; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+    return fakeFirestore.store.get(path);
+  };
+
+  beforeEach(() => {
+    fakeFirestore = createFakeFirestore();
+
+    mockConnectionPool = {
+      sendMessage: jest.fn().mockImplementation(async (_userId: string, _phone: string, toNumber: string) => ({ id: `wa-${toNumber}` })),
+    };
+
+    mockLimitChecker = new LimitChecker() as jest.Mocked<LimitChecker>;
+    mockLimitChecker.checkLimits.mockResolvedValue({ allowed: true } as any);
+    mockLimitChecker.getPacingDelayMs.mockResolvedValue(0);
+
+    service = new CampaignService(fakeFirestore as any, mockConnectionPool, "instance-test", mockLimitChecker);
+  });
+
+  afterEach(() => {
+    service.stop();
+  });
+
+  it("should create a draft campaign with de-duplicated recipients", async () => {
+    const campaign = await service.create(userId, phoneNumber, {
+      name: "Launch",
+      message: "Hello!",
+      recipients: ["+1111111111", "+2222222222", "+1111111111"],
+    });
+
+    expect(campaign.status).toBe("draft");
+    expect(campaign.totals).toEqual({ total: 2, sent: 0, failed: 0 });
+
+    const recipients = await service.getRecipients(userId, phoneNumber, campaign.id);
+    expect(recipients.map((r) => r.to_number)).toEqual(["+1111111111", "+2222222222"]);
+    expect(recipients.every((r) => r.status === "pending")).toBe(true);
+  });
+
+  it("should send to every recipient with pacing and complete the campaign", async () => {
+    const progress: any[] = [];
+    service.on("campaign-progress", (data) => progress.push(data));
+
+    const campaign = await service.create(userId, phoneNumber, {
+      name: "Launch",
+      message: "Hello!",
+      recipients: ["+1111111111", "+2222222222"],
+    });
+
+    await service.applyAction(userId, phoneNumber, campaign.id, "start");
+    const stored = await waitForStatus(campaign.id, "completed");
+
+    expect(stored.status).toBe("completed");
+    expect(stored.totals).toEqual({ total: 2, sent: 2, failed: 0 });
+    expect(mockConnectionPool.sendMessage).toHaveBeenCalledTimes(2);
+    expect(mockConnectionPool.sendMessage).toHaveBeenCalledWith(userId, phoneNumber, "+1111111111", { text: "Hello!" });
+    expect(mockLimitChecker.getPacingDelayMs).toHaveBeenCalledWith(userId);
+    expect(progress).toHaveLength(2);
+    expect(progress[1].recipient).toEqual({ toNumber: "+2222222222", status: "sent", messageId: "wa-+2222222222", error: null });
+  });
+
+  it("should record failed recipients and keep going", async () => {
+    mockConnectionPool.sendMessage.mockResolvedValueOnce(null);
+
+    const campaign = await service.create(userId, phoneNumber, {
+      name: "Launch",
+      message: "Hello!",
+      recipients: ["+1111111111", "+2222222222"],
+    });
+
+    await service.applyAction(userId, phoneNumber, campaign.id, "start");
+    const stored = await waitForStatus(campaign.id, "completed");
+
+    expect(stored.totals).toEqual({ total: 2, sent: 1, failed: 1 });
+    const failed = await service.getRecipients(userId, phoneNumber, campaign.id, "failed");
+    expect(failed).toEqual([expect.objectContaining({ to_number: "+1111111111", error: "Failed to send message" })]);
+  });
+
+  it("should pause the campaign when limits are reached", async () => {
+    mockLimitChecker.checkLimits.mockResolvedValue({ allowed: false, error: "Daily limit of 25 new contacts reached" } as any);
+
+    const campaign = await service.create(userId, phoneNumber, {
+      name: "Launch",
+      message: "Hello!",
+      recipients: ["+1111111111"],
+    });
+
+    await service.applyAction(userId, phoneNumber, campaign.id, "start");
+    const stored = await waitForStatus(campaign.id, "paused");
+
+    expect(stored.pause_reason).toBe("Daily limit of 25 new contacts reached");
+    expect(mockConnectionPool.sendMessage).not.toHaveBeenCalled();
+  });
+
+  it("should reject actions that are invalid for the current status", async () => {
+    const campaign = await service.create(userId, phoneNumber, {
+      name: "Launch",
+      message: "Hello!",
+      recipients: ["+1111111111"],
+    });
+
+    await expect(service.applyAction(userId, phoneNumber, campaign.id, "resume")).resolves.toEqual({ changed: false, status: "draft" });
+    await expect(service.applyAction(userId, phoneNumber, campaign.id, "cancel")).resolves.toEqual({ changed: true, status: "cancelled" });
+    await expect(service.applyAction(userId, phoneNumber, campaign.id, "start")).resolves.toEqual({ changed: false, status: "cancelled" });
+    await expect(service.applyAction(userId, phoneNumber, "missing", "start")).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,117 @@
+import { ChatStateService } from "../services/ChatStateService";
+import { Timestamp } from "@google-cloud/firestore";
+import { LidMappingService } from "../services/LidMappingService";
+
+jest.mock("pino", () => ({
+  __esModule: true,
+  default: () => ({
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  }),
+}));
+
+describe("ChatStateService", () => {
+  let service: ChatStateService;
+  let mockLidMappingService: any;
+  let mockSocket: any;
+  let contactRef: any;
+  let lastMessageDocs: any[];
+
+  const userId = "user123";
+  const contactNumber = "+31612345678";
+  const contactJid = "31612345678@s.whatsapp.net";
+
+  beforeEach(() => {
+    lastMessageDocs = [{ data: () => ({ message_sid: "MSG1", direction: "inbound", timestamp: Timestamp.fromMillis(1700000000000) }) }];
+
+    const messagesQuery: any = {
+      orderBy: () => messagesQuery,
+      limit: () => messagesQuery,
+      get: async () => ({ empty: lastMessageDocs.length === 0, docs: lastMessageDocs }),
+    };
+    contactRef = {
+      update: jest.fn().mockResolvedValue(undefined),
+      collection: () => messagesQuery,
+    };
+
+    const contactsQuery: any = {
+      where: () => contactsQuery,
+      limit: () => contactsQuery,
+      get: async () => ({ empty: false, docs: [{ ref: contactRef }] }),
+    };
+    const mockFirestore: any = {
+      collection: () => ({ doc: () => ({}), where: () => contactsQuery }),
+    };
+
+    mockLidMappingService = {
+      resolveLidToPhone: jest.fn((_userId: string, lid: string) => (lid === "123456@lid" ? contactNumber : null)),
+      resolveJidToPhone: LidMappingService.prototype.resolveJidToPhone,
+    };
+
+    mockSocket = {
+      chatModify: jest.fn().mockResolvedValue(undefined),
+    };
+
+    service = new ChatStateService(mockFirestore, mockLidMappingService);
+  });
+
+  describe("apply", () => {
+    it("should archive with the last stored message as the message range", async () => {
+      const state = await service.apply(mockSocket, userId, contactNumber, "archive");
+
+      expect(mockSocket.chatModify).toHaveBeenCalledWith(
+        { archive: true, lastMessages: [{ key: { remoteJid: contactJid, fromMe: false, id: "MSG1" }, messageTimestamp: 1700000000 }] },
+        contactJid
+      );
+      expect(state).toMatchObject({ chat_archived: true });
+      expect(contactRef.update).toHaveBeenCalledWith(expect.objectContaining({ chat_archived: true }));
+    });
+
+    it("should mute until the requested time", async () => {
+      const before = Date.now();
+
+      const state = await service.apply(mockSocket, userId, contactNumber, "mute", { muteSeconds: 3600 });
+
+      const muteUntil = mockSocket.chatModify.mock.calls[0][0].mute;
+      expect(muteUntil).toBeGreaterThanOrEqual(before + 3600 * 1000);
+      expect(state?.chat_muted).toBe(true);
+      expect(state?.chat_muted_until?.toMillis()).toBe(muteUntil);
+    });
+
+    it("should mark a chat unread", async () => {
+      await service.apply(mockSocket, userId, contactNumber, "mark_unread");
+
+      expect(mockSocket.chatModify).toHaveBeenCalledWith(expect.objectContaining({ markRead: false }), contactJid);
+      expect(contactRef.update).toHaveBeenCalledWith(expect.objectContaining({ chat_marked_unread: true }));
+    });
+  });
+
+  describe("mirror", () => {
+    it("should mirror changes made on the phone onto the contact", async () => {
+      const mirrored = await service.mirror(userId, "+1234567890", [{ id: "123456@lid", archived: true, pinned: 1700000000 }]);
+
+      expect(mirrored).toBe(1);
+      expect(contactRef.update).toHaveBeenCalledWith(expect.objectContaining({ chat_archived: true, chat_pinned: true }));
+    });
+
+    it("should ignore updates without chat state and group chats", async () => {
+      const mirrored = await service.mirror(userId, "+1234567890", [
+        { id: contactJid, conversationTimestamp: 1700000000, unreadCount: 3 },
+        { id: "120363000000000000@g.us", archived: true },
+      ]);
+
+      expect(mirrored).toBe(0);
+      expect(contactRef.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("toChatState", () => {
+    it("should read mute end times and mark-unread actions", () => {
+      expect(ChatStateService.toChatState({ muteEndTime: -1 })).toMatchObject({ chat_muted: true, chat_muted_until: null });
+      expect(ChatStateService.toChatState({ muteEndTime: null })).toMatchObject({ chat_muted: false, chat_muted_until: null });
+      expect(ChatStateService.toChatState({ unreadCount: -1 })).toMatchObject({ chat_marked_unread: true });
+    });
+  });
+});
@@ -827,9 +827,115 @@ describe("ConnectionPool", () => {
     });
   });
 
+  describe("Outbound Pacing Queue", () => {
+    beforeEach(() => {
+      connectionPool = new ConnectionPool(
+        mockProxyManager,
+        mockSessionManager,
+        mockFirestore,
+        mockPubsub,
+        mockConnectionStateManager,
+        mockWsManager,
+        mockErrorHandler,
+        mockInstanceCoordinator
+      );
+    });
+
+    const waitForEvents = (events: any[], count: number) =>
+      new Promise<void>((resolve) => {
+        const check = () => (events.length >= count ? resolve() : setTimeout(check, 5));
+        check();
+      });
+
+    it("should return a queued id immediately and emit the outcome", async () => {
+      const sendSpy = jest.spyOn(connectionPool, "sendMessage").mockResolvedValue({ id: "wa-msg-1" } as any);
+      const events: any[] = [];
+      connectionPool.on("queued-message-sent", (data) => events.push(data));
+
+      const queued = connectionPool.queueOutboundMessage("user123", "+1234567890", "+9876543210", { conversation: "Hello" }, 0);
+
+      expect(queued.queuedId).toMatch(/^queued_/);
+      expect(queued.position).toBe(1);
+
+      await waitForEvents(events, 1);
+
+      expect(sendSpy).toHaveBeenCalledWith("user123", "+1234567890", "+9876543210", { conversation: "Hello" }, queued.queuedId);
+      expect(events[0]).toMatchObject({ queuedId: queued.queuedId, messageId: "wa-msg-1", toNumber: "+9876543210" });
+      expect(connectionPool.getOutboundQueueLength("user123", "+1234567890")).toBe(0);
+    });
+
+    it("should space messages by their delay and keep order", async () => {
+      const sendTimes: number[] = [];
+      jest.spyOn(connectionPool, "sendMessage").mockImplementation(async (_u, _p, toNumber) => {
+        sendTimes.push(Date.now());
+        return { id: `wa-${toNumber}` } as any;
+      });
+      const events: any[] = [];
+      connectionPool.on("queued-message-sent", (data) => events.push(data));
+
+      connectionPool.queueOutboundMessage("user123", "+1234567890", "+1111111111", { conversation: "First" }, 0);
+      connectionPool.queueOutboundMessage("user123", "+1234567890", "+2222222222", { conversation: "Second" }, 100);
+
+      expect(connectionPool.getOutboundQueueLength("user123", "+1234567890")).toBe(1);
+
+      await waitForEvents(events, 2);
+
+      expect(events.map((e) => e.toNumber)).toEqual(["+1111111111", "+2222222222"]);
+      expect(sendTimes[1] - sendTimes[0]).toBeGreaterThanOrEqual(90);
+    });
+
+    it("should pace a message queued after the queue drained", async () => {
+      const sendTimes: number[] = [];
+      jest.spyOn(connectionPool, "sendMessage").mockImplementation(async (_u, _p, toNumber) => {
+        sendTimes.push(Date.now());
+        return { id: `wa-${toNumber}` } as any;
+      });
+      const events: any[] = [];
+      connectionPool.on("queued-message-sent", (data) => events.push(data));
+
+      connectionPool.queueOutboundMessage("user123", "+1234567890", "+1111111111", { conversation: "First" }, 0);
+      await waitForEvents(events, 1);
+
+      // A separate API call, after the first message went out and its queue emptied
+      connectionPool.queueOutboundMessage("user123", "+1234567890", "+2222222222", { conversation: "Second" }, 100);
+      await waitForEvents(events, 2);
+
+      expect(sendTimes[1] - sendTimes[0]).toBeGreaterThanOrEqual(90);
+    });
+
+    it("should emit a failure when the send returns no key", async () => {
+      jest.spyOn(connectionPool, "sendMessage").mockResolvedValue(null);
+      const events: any[] = [];
+      connectionPool.on("queued-message-failed", (data) => events.push(data));
+
+      const queued = connectionPool.queueOutboundMessage("user123", "+1234567890", "+9876543210", { conversation: "Hello" }, 0);
+
+      await waitForEvents(events, 1);
+
+      expect(events[0]).toMatchObject({ queuedId: queued.queuedId, error: "Failed to send message" });
+    });
+
+    it("should fail waiting messages on shutdown", async () => {
+      const sendSpy = jest.spyOn(connectionPool, "sendMessage").mockResolvedValue({ id: "wa-msg-1" } as any);
+      const events: any[] = [];
+      connectionPool.on("queued-message-failed", (data) => events.push(data));
+
+      // First message goes out straight away, the second waits out its delay
+      connectionPool.queueOutboundMessage("user123", "+1234567890", "+1111111111", { conversation: "First" }, 60000);
+      const waiting = connectionPool.queueOutboundMessage("user123", "+1234567890", "+2222222222", { conversation: "Second" }, 60000);
+
+      await connectionPool.shutdown(false);
+
+      expect(sendSpy).toHaveBeenCalledTimes(1);
+      expect(events).toEqual([expect.objectContaining({ queuedId: waiting.queuedId, error: "Service shutting down" })]);
+      expect(connectionPool.getOutboundQueueLength("user123", "+1234567890")).toBe(0);
+    });
+  });
+
   describe("Message Event Handling", () => {
     let mockFetch: jest.Mock;
     let messagesUpsertHandler: (upsert: any) => Promise<void>;
+    let messagesUpdateHandler: (updates: any[]) => Promise<void>;
 
     beforeEach(async () => {
       // Clear all mocks first
@@ -887,6 +993,9 @@ describe("ConnectionPool", () => {
         if (event === "messages.upsert") {
           messagesUpsertHandler = handler;
         }
+        if (event === "messages.update") {
+          messagesUpdateHandler = handler;
+        }
       });
 
       // Add a connection to register the event handlers
@@ -978,6 +1087,205 @@ describe("ConnectionPool", () => {
       // Group messages should be skipped
       expect(mockFetch).not.toHaveBeenCalled();
     });
+
+    it("should store group messages with the participant sender when group sync is enabled", async () => {
+      const groupService = (connectionPool as any).groupConversationService;
+      jest.spyOn(groupService, "isEnabled").mockResolvedValue(true);
+      jest.spyOn(groupService, "needsMetadata").mockResolvedValue(false);
+      const storeMessage = jest.spyOn(groupService, "storeMessage").mockResolvedValue(true);
+      (connectionPool as any).lidMappingService.resolveLidToPhone = jest.fn().mockReturnValue("+31612345678");
+      const received: any[] = [];
+      connectionPool.on("message-received", (data) => received.push(data));
+
+      await messagesUpsertHandler({
+        type: "notify",
+        messages: [
+          {
+            key: { id: "group-msg-456", remoteJid: "123456789@g.us", participant: "144246610911481@lid", fromMe: false },
+            message: { conversation: "Hello group" },
+            pushName: "Alice",
+            messageTimestamp: Math.floor(Date.now() / 1000),
+          },
+        ],
+      });
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(storeMessage).toHaveBeenCalledWith(
+        "user123",
+        "+1234567890",
+        "123456789@g.us",
+        expect.objectContaining({
+          message_sid: "group-msg-456",
+          direction: "inbound",
+          participant_phone_number: "+31612345678",
+          participant_lid: "144246610911481@lid",
+          participant_name: "Alice",
+          body: "Hello group",
+        })
+      );
+      expect(received).toEqual([expect.objectContaining({ groupId: "123456789@g.us", fromNumber: "+31612345678", body: "Hello group" })]);
+    });
+
+    it("should attach reactions to the reacted message instead of forwarding them", async () => {
+      const mockMessageRef = { update: jest.fn().mockResolvedValue(undefined) };
+      const getStoredMessageSpy = jest
+        .spyOn(connectionPool, "getStoredMessage")
+        .mockResolvedValue({ ref: mockMessageRef as any, data: { message_sid: "original-msg-1", direction: "outbound" } });
+      const reactions: any[] = [];
+      connectionPool.on("message-reaction", (data) => reactions.push(data));
+
+      await messagesUpsertHandler({
+        type: "notify",
+        messages: [
+          {
+            key: { id: "reaction-msg-1", remoteJid: "31612345678@s.whatsapp.net", fromMe: false },
+            message: {
+              reactionMessage: {
+                key: { id: "original-msg-1", remoteJid: "31612345678@s.whatsapp.net", fromMe: true },
+                text: "👍",
+              },
+            },
+            messageTimestamp: Math.floor(Date.now() / 1000),
+          },
+        ],
+      });
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(getStoredMessageSpy).toHaveBeenCalledWith("user123", "+31612345678", "original-msg-1");
+      expect(mockMessageRef.update).toHaveBeenCalledWith({ "reactions.inbound": expect.objectContaining({ emoji: "👍" }) });
+      expect(reactions).toEqual([
+        expect.objectContaining({ contactNumber: "+31612345678", messageId: "original-msg-1", direction: "inbound", emoji: "👍", removed: false }),
+      ]);
+    });
+
+    it("should update the stored message for incoming edits", async () => {
+      const mockMessageRef = { update: jest.fn().mockResolvedValue(undefined) };
+      jest
+        .spyOn(connectionPool, "getStoredMessage")
+        .mockResolvedValue({ ref: mockMessageRef as any, data: { message_sid: "original-msg-1", direction: "inbound", body: "Helo" } });
+      const edits: any[] = [];
+      connectionPool.on("message-edited", (data) => edits.push(data));
+
+      await messagesUpsertHandler({
+        type: "notify",
+        messages: [
+          {
+            key: { id: "edit-msg-1", remoteJid: "31612345678@s.whatsapp.net", fromMe: false },
+            message: {
+              protocolMessage: {
+                type: 14, // MESSAGE_EDIT
+                key: { id: "original-msg-1", remoteJid: "31612345678@s.whatsapp.net", fromMe: false },
+                editedMessage: { conversation: "Hello" },
+              },
+            },
+            messageTimestamp: Math.floor(Date.now() / 1000),
+          },
+        ],
+      });
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(mockMessageRef.update).toHaveBeenCalledWith(expect.objectContaining({ body: "Hello", edited: true, original_body: "Helo" }));
+      expect(edits).toEqual([expect.objectContaining({ messageId: "original-msg-1", body: "Hello" })]);
+    });
+
+    it("should ignore edits and revokes of our messages sent by the contact", async () => {
+      const mockMessageRef = { update: jest.fn().mockResolvedValue(undefined) };
+      jest
+        .spyOn(connectionPool, "getStoredMessage")
+        .mockResolvedValue({ ref: mockMessageRef as any, data: { message_sid: "original-msg-1", direction: "outbound", body: "Your code is 1234" } });
+      const updates: any[] = [];
+      connectionPool.on("message-edited", (data) => updates.push(data));
+      connectionPool.on("message-deleted", (data) => updates.push(data));
+
+      await messagesUpsertHandler({
+        type: "notify",
+        messages: [
+          {
+            key: { id: "edit-msg-1", remoteJid: "31612345678@s.whatsapp.net", fromMe: false },
+            message: {
+              protocolMessage: {
+                type: 14, // MESSAGE_EDIT
+                key: { id: "original-msg-1", remoteJid: "31612345678@s.whatsapp.net", fromMe: true },
+                editedMessage: { conversation: "Your code is 9999" },
+              },
+            },
+            messageTimestamp: Math.floor(Date.now() / 1000),
+          },
+          {
+            key: { id: "revoke-msg-1", remoteJid: "31612345678@s.whatsapp.net", fromMe: false },
+            message: {
+              protocolMessage: {
+                type: 0, // REVOKE
+                key: { id: "original-msg-1", remoteJid: "31612345678@s.whatsapp.net", fromMe: true },
+              },
+            },
+            messageTimestamp: Math.floor(Date.now() / 1000),
+          },
+        ],
+      });
+
+      expect(mockMessageRef.update).not.toHaveBeenCalled();
+      expect(updates).toEqual([]);
+    });
+
+    it("should persist read receipts on the stored message and emit message-status", async () => {
+      const mockMessageRef = { update: jest.fn().mockResolvedValue(undefined) };
+      const getStoredMessageSpy = jest
+        .spyOn(connectionPool, "getStoredMessage")
+        .mockResolvedValue({ ref: mockMessageRef as any, data: { message_sid: "sent-msg-1", direction: "outbound", status: "delivered" } });
+      const statuses: any[] = [];
+      connectionPool.on("message-status", (data) => statuses.push(data));
+
+      await messagesUpdateHandler([{ key: { id: "sent-msg-1", remoteJid: "31612345678@s.whatsapp.net", fromMe: true }, update: { status: 4 } }]);
+
+      expect(getStoredMessageSpy).toHaveBeenCalledWith("user123", "+31612345678", "sent-msg-1");
+      const update = mockMessageRef.update.mock.calls[0][0];
+      expect(update).toHaveProperty("status", "read");
+      expect(update).toHaveProperty("read_at");
+      expect(statuses).toEqual([expect.objectContaining({ messageId: "sent-msg-1", contactNumber: "+31612345678", status: "read" })]);
+    });
+
+    it("should not move a message status backwards for late receipts", async () => {
+      const mockMessageRef = { update: jest.fn().mockResolvedValue(undefined) };
+      jest
+        .spyOn(connectionPool, "getStoredMessage")
+        .mockResolvedValue({ ref: mockMessageRef as any, data: { message_sid: "sent-msg-1", direction: "outbound", status: "read" } });
+
+      await messagesUpdateHandler([{ key: { id: "sent-msg-1", remoteJid: "31612345678@s.whatsapp.net", fromMe: true }, update: { status: 3 } }]);
+
+      const update = mockMessageRef.update.mock.calls[0][0];
+      expect(update).toHaveProperty("delivered_at");
+      expect(update).not.toHaveProperty("status");
+    });
+
+    it("should flag the stored message as deleted for incoming revokes", async () => {
+      const mockMessageRef = { update: jest.fn().mockResolvedValue(undefined) };
+      jest
+        .spyOn(connectionPool, "getStoredMessage")
+        .mockResolvedValue({ ref: mockMessageRef as any, data: { message_sid: "original-msg-1", direction: "inbound", body: "Oops" } });
+      const deletions: any[] = [];
+      connectionPool.on("message-deleted", (data) => deletions.push(data));
+
+      await messagesUpsertHandler({
+        type: "notify",
+        messages: [
+          {
+            key: { id: "revoke-msg-1", remoteJid: "31612345678@s.whatsapp.net", fromMe: false },
+            message: {
+              protocolMessage: {
+                type: 0, // REVOKE
+                key: { id: "original-msg-1", remoteJid: "31612345678@s.whatsapp.net", fromMe: false },
+              },
+            },
+            messageTimestamp: Math.floor(Date.now() / 1000),
+          },
+        ],
+      });
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(mockMessageRef.update).toHaveBeenCalledWith(expect.objectContaining({ deleted: true }));
+      expect(deletions).toEqual([expect.objectContaining({ contactNumber: "+31612345678", messageId: "original-msg-1" })]);
+    });
   });
 
   describe("Shutdown", () => {
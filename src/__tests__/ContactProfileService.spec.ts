@@ -0,0 +1,132 @@
+import { ContactProfileService } from "../services/ContactProfileService";
+import { Timestamp } from "@google-cloud/firestore";
+
+jest.mock("pino", () => ({
+  __esModule: true,
+  default: () => ({
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  }),
+}));
+
+describe("ContactProfileService", () => {
+  let service: ContactProfileService;
+  let mockMediaService: any;
+  let mockSocket: any;
+  let contactRef: any;
+  let contactData: any;
+
+  const userId = "user123";
+  const phoneNumber = "+1234567890";
+  const contactPhone = "+31612345678";
+
+  beforeEach(() => {
+    contactData = { phone_number: contactPhone };
+    contactRef = {
+      get: jest.fn(async () => ({ data: () => contactData })),
+      update: jest.fn(async (update: any) => Object.assign(contactData, update)),
+    };
+
+    const query: any = {
+      where: () => query,
+      limit: () => query,
+      get: async () => ({ empty: false, docs: [{ ref: contactRef }] }),
+    };
+    const mockFirestore: any = {
+      collection: () => ({ doc: () => ({}), where: () => query }),
+    };
+
+    mockMediaService = {
+      uploadMedia: jest.fn().mockResolvedValue({ url: "https://signed-url.com/avatar.jpg", mediaId: "bWVkaWE" }),
+    };
+
+    mockSocket = {
+      profilePictureUrl: jest.fn().mockResolvedValue("https://pps.whatsapp.net/v/avatar.jpg"),
+      fetchStatus: jest.fn().mockResolvedValue({ status: "Available", setAt: new Date("2026-01-01T00:00:00Z") }),
+    };
+
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      headers: { get: () => "image/jpeg" },
+      arrayBuffer: async () => new ArrayBuffer(4),
+    }) as any;
+
+    service = new ContactProfileService(mockFirestore, mockMediaService);
+  });
+
+  describe("refresh", () => {
+    it("should cache the profile picture in Cloud Storage and store the about text", async () => {
+      const profile = await service.refresh(mockSocket, userId, phoneNumber, contactPhone);
+
+      expect(mockSocket.profilePictureUrl).toHaveBeenCalledWith("31612345678@s.whatsapp.net", "image");
+      expect(mockMediaService.uploadMedia).toHaveBeenCalledWith(expect.objectContaining({ mimetype: "image/jpeg", size: 4 }), userId, phoneNumber);
+      expect(profile).toMatchObject({
+        avatar_url: "https://signed-url.com/avatar.jpg",
+        avatar_media_id: "bWVkaWE",
+        about: "Available",
+      });
+      expect(contactRef.update).toHaveBeenCalledWith(
+        expect.objectContaining({ about: "Available", profile_fetched_at: expect.any(Timestamp), avatar_fetched_at: expect.any(Timestamp) })
+      );
+    });
+
+    it("should store no picture when it is hidden or missing", async () => {
+      mockSocket.profilePictureUrl.mockRejectedValue(Object.assign(new Error("not-authorized"), { output: { statusCode: 401 } }));
+
+      const profile = await service.refresh(mockSocket, userId, phoneNumber, contactPhone);
+
+      expect(profile).toMatchObject({ avatar_url: null, avatar_media_id: null, about: "Available" });
+      expect(mockMediaService.uploadMedia).not.toHaveBeenCalled();
+    });
+
+    it("should read the about text from Baileys 7 USync results", async () => {
+      mockSocket.fetchStatus.mockResolvedValue([{ id: "31612345678@s.whatsapp.net", status: { status: "At work", setAt: new Date() } }]);
+
+      const profile = await service.refresh(mockSocket, userId, phoneNumber, contactPhone);
+
+      expect(profile?.about).toBe("At work");
+    });
+
+    it("should keep the stored profile when the picture can't be downloaded", async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({ ok: false, status: 403 });
+
+      await expect(service.refresh(mockSocket, userId, phoneNumber, contactPhone)).rejects.toThrow("HTTP 403");
+      expect(contactRef.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("enqueue", () => {
+    it("should retry a failed refresh after a short back-off instead of the full TTL", async () => {
+      (global.fetch as jest.Mock).mockRejectedValue(new Error("The operation was aborted due to timeout"));
+      jest.useFakeTimers();
+      try {
+        service.enqueue(mockSocket, userId, phoneNumber, contactPhone);
+        await jest.advanceTimersByTimeAsync(1000);
+        expect(mockSocket.profilePictureUrl).toHaveBeenCalledTimes(1);
+
+        // Within the back-off
+        service.enqueue(mockSocket, userId, phoneNumber, contactPhone);
+        await jest.advanceTimersByTimeAsync(1000);
+        expect(mockSocket.profilePictureUrl).toHaveBeenCalledTimes(1);
+
+        // Well before the 72 hour TTL
+        jest.setSystemTime(Date.now() + 20 * 60 * 1000);
+        service.enqueue(mockSocket, userId, phoneNumber, contactPhone);
+        await jest.advanceTimersByTimeAsync(1000);
+        expect(mockSocket.profilePictureUrl).toHaveBeenCalledTimes(2);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe("isStale", () => {
+    it("should treat missing and old profiles as stale", () => {
+      expect(service.isStale({})).toBe(true);
+      expect(service.isStale({ profile_fetched_at: Timestamp.fromMillis(Date.now() - 96 * 60 * 60 * 1000) })).toBe(true);
+      expect(service.isStale({ profile_fetched_at: Timestamp.now() })).toBe(false);
+    });
+  });
+});
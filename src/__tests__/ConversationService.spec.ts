@@ -0,0 +1,137 @@
+import { ConversationService } from "../services/ConversationService";
+import { Timestamp } from "@google-cloud/firestore";
+
+jest.mock("pino", () => ({
+  __esModule: true,
+  default: () => ({
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  }),
+}));
+
+describe("ConversationService", () => {
+  let service: ConversationService;
+  let mockLidMappingService: any;
+  let contacts: Record<string, any>;
+  let mockContactsCollection: jest.Mock;
+
+  const userId = "user123";
+  const phone = "+31612345678";
+  const lid = "123456@lid";
+
+  const ts = (seconds: number) => Timestamp.fromMillis(seconds * 1000);
+
+  // Messages are returned newest first, like the orderBy in the service; filters and cursors aren't simulated
+  const makeContact = (id: string, data: any, messages: Array<{ id: string; data: any }>) => {
+    const messageQuery: any = {
+      orderBy: () => messageQuery,
+      where: () => messageQuery,
+      startAfter: () => messageQuery,
+      limit: (n: number) => ({
+        get: async () => ({
+          docs: [...messages]
+            .sort((a, b) => b.data.timestamp.toMillis() - a.data.timestamp.toMillis())
+            .slice(0, n)
+            .map((message) => ({ id: message.id, data: () => message.data })),
+        }),
+      }),
+    };
+    return { id, ref: { collection: () => messageQuery }, data: () => data };
+  };
+
+  beforeEach(() => {
+    contacts = {
+      [phone]: makeContact(
+        "contact-phone",
+        { phone_number: phone, first_name: "Anna", last_message_timestamp: ts(100), last_message: { direction: "outbound", timestamp: ts(100) } },
+        [
+          { id: "m1", data: { message_sid: "A", direction: "inbound", body: "hi", timestamp: ts(90) } },
+          { id: "m2", data: { message_sid: "B", direction: "outbound", body: "hello", timestamp: ts(100) } },
+        ]
+      ),
+      [lid]: makeContact(
+        "contact-lid",
+        { phone_number: lid, last_message_timestamp: ts(200), last_message: { direction: "inbound", body: "are you there?", timestamp: ts(200) } },
+        [{ id: "m3", data: { message_sid: "C", direction: "inbound", body: "are you there?", timestamp: ts(200) } }]
+      ),
+    };
+
+    const contactsQuery = (phoneNumbers?: string[]): any => ({
+      where: (field: string, _op: string, value: any) => (field === "phone_number" ? contactsQuery(value) : contactsQuery(phoneNumbers)),
+      orderBy: () => contactsQuery(phoneNumbers),
+      startAfter: () => contactsQuery(phoneNumbers),
+      get: async () => {
+        const docs = (phoneNumbers || []).map((number) => contacts[number]).filter(Boolean);
+        return { empty: docs.length === 0, size: docs.length, docs };
+      },
+      limit: (n: number) => ({
+        get: async () => {
+          const docs = [contacts[lid], contacts[phone]].slice(0, n);
+          return { empty: docs.length === 0, size: docs.length, docs };
+        },
+      }),
+    });
+    mockContactsCollection = jest.fn(() => contactsQuery());
+    const mockFirestore: any = {
+      collection: (name: string) => (name === "contacts" ? mockContactsCollection() : { doc: () => ({}) }),
+    };
+
+    mockLidMappingService = {
+      loadMappingsForUser: jest.fn().mockResolvedValue(1),
+      resolveLidToPhone: jest.fn((_userId: string, value: string) => (value === lid ? phone : null)),
+      resolvePhoneToLid: jest.fn((_userId: string, value: string) => (value === phone ? lid : null)),
+    };
+
+    service = new ConversationService(mockFirestore, mockLidMappingService);
+  });
+
+  describe("listChats", () => {
+    it("should list a contact split across its phone number and LID once", async () => {
+      const page = await service.listChats(userId, { limit: 20 });
+
+      expect(page.items).toHaveLength(1);
+      expect(page.items[0]).toMatchObject({
+        contactNumber: phone,
+        lid,
+        name: "Anna",
+        lastMessage: { direction: "inbound", body: "are you there?" },
+        unreadCount: 1,
+      });
+      expect(page.nextCursor).toBeNull();
+      expect(mockContactsCollection).toHaveBeenCalledTimes(2); // The page, and one lookup for the other halves
+    });
+
+    it("should not scan messages of chats read since their last message", async () => {
+      contacts[lid].data().chat_read_at = ts(300);
+
+      const page = await service.listChats(userId, { limit: 20 });
+
+      expect(page.items[0].unreadCount).toBe(0);
+    });
+
+    it("should reject cursors without a contact id", async () => {
+      const cursor = Buffer.from(JSON.stringify({ id: "" })).toString("base64url");
+
+      await expect(service.listChats(userId, { limit: 20, cursor })).rejects.toThrow("Invalid cursor");
+    });
+  });
+
+  describe("listMessages", () => {
+    it("should merge both halves of a split conversation, newest first", async () => {
+      const page = await service.listMessages(userId, lid, { limit: 2 });
+
+      expect(page?.items.map((message) => message.id)).toEqual(["C", "B"]);
+      expect(page?.nextCursor).not.toBeNull();
+    });
+
+    it("should return null for unknown contacts", async () => {
+      expect(await service.listMessages(userId, "+4915112345678", { limit: 10 })).toBeNull();
+    });
+
+    it("should reject malformed cursors", async () => {
+      await expect(service.listMessages(userId, phone, { limit: 10, cursor: "not-a-cursor" })).rejects.toThrow("Invalid cursor");
+    });
+  });
+});
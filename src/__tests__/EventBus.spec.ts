@@ -0,0 +1,93 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { createEventBus, EmitterEventSink, EventBus, EventSink, NdjsonFileEventSink, WebhookEventSink } from "../services/EventBus";
+
+jest.mock("pino", () => ({
+  __esModule: true,
+  default: () => ({
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  }),
+}));
+
+describe("EventBus", () => {
+  it("should fan events out to every sink with a common envelope", async () => {
+    const emitterSink = new EmitterEventSink();
+    const received: any[] = [];
+    emitterSink.emitter.on("event", (event) => received.push(event));
+
+    const bus = new EventBus([emitterSink]);
+    await bus.publish("connection-update", { userId: "user123", phoneNumber: "+1234567890", status: "connected" });
+
+    expect(received).toEqual([
+      expect.objectContaining({
+        type: "connection-update",
+        userId: "user123",
+        phoneNumber: "+1234567890",
+        data: { userId: "user123", phoneNumber: "+1234567890", status: "connected" },
+      }),
+    ]);
+    expect(received[0].id).toBeDefined();
+  });
+
+  it("should keep publishing to other sinks when one fails", async () => {
+    const failing: EventSink = { name: "broken", publish: jest.fn().mockRejectedValue(new Error("down")) };
+    const working: EventSink = { name: "working", publish: jest.fn().mockResolvedValue(undefined) };
+
+    await expect(new EventBus([failing, working]).publish("message-update", { userId: "user123" })).resolves.toBeUndefined();
+
+    expect(working.publish).toHaveBeenCalled();
+  });
+
+  it("should append one JSON line per event to the file sink", async () => {
+    const filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "events-")), "nested", "events.ndjson");
+    const sink = new NdjsonFileEventSink(filePath);
+    const bus = new EventBus([sink]);
+
+    await bus.publish("qr-generated", { userId: "user123", qr: "abc" });
+    await bus.publish("connection-update", { userId: "user123", status: "connected" });
+    await bus.close();
+
+    const lines = fs
+      .readFileSync(filePath, "utf8")
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(lines.map((event) => event.type)).toEqual(["qr-generated", "connection-update"]);
+
+    fs.rmSync(path.dirname(path.dirname(filePath)), { recursive: true, force: true });
+  });
+
+  it("should map events to webhook types without raw Baileys messages", async () => {
+    const webhookService = { dispatch: jest.fn().mockResolvedValue(undefined) };
+    const bus = new EventBus([new WebhookEventSink(webhookService as any)]);
+
+    await bus.publish("message-received", { userId: "user123", phoneNumber: "+1234567890", message: { key: {} }, body: "Hi" });
+    await bus.publish("sync:progress", { userId: "user123", count: 10 });
+
+    expect(webhookService.dispatch).toHaveBeenCalledTimes(1);
+    expect(webhookService.dispatch).toHaveBeenCalledWith("user123", "message:received", { phoneNumber: "+1234567890", body: "Hi" });
+  });
+
+  it("should dispatch message:sent once for direct and paced sends", async () => {
+    const webhookService = { dispatch: jest.fn().mockResolvedValue(undefined) };
+    const bus = new EventBus([new WebhookEventSink(webhookService as any)]);
+
+    await bus.publish("message-sent", { userId: "user123", phoneNumber: "+1234567890", messageId: "wa-1", trackingId: "msg_1" });
+    await bus.publish("message-sent", { userId: "user123", phoneNumber: "+1234567890", messageId: "wa-2", trackingId: "queued_1" });
+    await bus.publish("queued-message-sent", { userId: "user123", phoneNumber: "+1234567890", messageId: "wa-2", queuedId: "queued_1" });
+
+    expect(webhookService.dispatch).toHaveBeenCalledTimes(2);
+    expect(webhookService.dispatch).toHaveBeenCalledWith("user123", "message:sent", { phoneNumber: "+1234567890", messageId: "wa-1", trackingId: "msg_1" });
+    expect(webhookService.dispatch).toHaveBeenCalledWith("user123", "message:sent", { phoneNumber: "+1234567890", messageId: "wa-2", queuedId: "queued_1" });
+  });
+
+  it("should build the configured sinks from EVENT_SINKS", () => {
+    const bus = createEventBus("emitter, file, nonsense", {});
+
+    expect(bus.getSinkNames()).toEqual(["emitter", "file"]);
+  });
+});
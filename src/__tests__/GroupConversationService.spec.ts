@@ -0,0 +1,133 @@
+import { GroupConversationService, GroupMessageRecord } from "../services/GroupConversationService";
+
+jest.mock("pino", () => ({
+  __esModule: true,
+  default: () => ({
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  }),
+}));
+
+jest.mock("@google-cloud/firestore", () => {
+  const timestamp = (millis: number) => ({ toMillis: () => millis });
+  return {
+    Timestamp: {
+      now: () => timestamp(Date.now()),
+      fromMillis: (millis: number) => timestamp(millis),
+    },
+  };
+});
+
+describe("GroupConversationService", () => {
+  let service: GroupConversationService;
+  let docs: Map<string, any>;
+  let lidMappingService: any;
+
+  const userId = "user123";
+  const phoneNumber = "+1234567890";
+  const groupJid = "120363000000000001@g.us";
+  const groupPath = `users/${userId}/phone_numbers/${phoneNumber}/groups/${groupJid}`;
+
+  const groupMessage = (id: string, millis: number, overrides: Partial<GroupMessageRecord> = {}): GroupMessageRecord => ({
+    message_sid: id,
+    direction: "inbound",
+    participant_jid: "31612345678@s.whatsapp.net",
+    participant_phone_number: "+31612345678",
+    participant_lid: null,
+    participant_name: "Alice",
+    body: `Message ${id}`,
+    type: "text",
+    media_url: null,
+    media_id: null,
+    media_content_type: null,
+    thumbnail_url: null,
+    thumbnail_media_id: null,
+    timestamp: { toMillis: () => millis } as any,
+    synced_from_history: false,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    docs = new Map();
+
+    const docRef = (path: string): any => ({
+      path,
+      get: async () => ({ exists: docs.has(path), data: () => docs.get(path) }),
+      set: async (data: any, options?: { merge?: boolean }) => docs.set(path, options?.merge ? { ...docs.get(path), ...data } : data),
+      update: async (changes: any) => docs.set(path, { ...docs.get(path), ...changes }),
+      collection: (name: string) => collectionRef(`${path}/${name}`),
+    });
+    const collectionRef = (path: string): any => ({ doc: (id: string) => docRef(`${path}/${id}`) });
+
+    lidMappingService = {
+      resolveLidToPhone: jest.fn().mockReturnValue(null),
+      resolvePhoneToLid: jest.fn().mockReturnValue(null),
+      saveLidMapping: jest.fn().mockResolvedValue(undefined),
+    };
+
+    service = new GroupConversationService({ collection: (name: string) => collectionRef(name) } as any, lidMappingService);
+  });
+
+  it("should be opt-in per phone number", async () => {
+    await expect(service.isEnabled(userId, phoneNumber)).resolves.toBe(false);
+
+    await service.setEnabled(userId, phoneNumber, true);
+
+    expect(docs.get(`users/${userId}/phone_numbers/${phoneNumber}`)).toEqual({ whatsapp_web: { sync_groups: true } });
+    await expect(service.isEnabled(userId, phoneNumber)).resolves.toBe(true);
+  });
+
+  it("should resolve LID participants through the LID mappings", () => {
+    lidMappingService.resolveLidToPhone.mockReturnValue("+31612345678");
+
+    expect(service.resolveParticipant(userId, "144246610911481@lid")).toEqual({
+      jid: "144246610911481@lid",
+      phone_number: "+31612345678",
+      lid: "144246610911481@lid",
+    });
+  });
+
+  it("should learn LID mappings from participantAlt", () => {
+    const participant = service.resolveParticipant(userId, "144246610911481@lid", "31612345678@s.whatsapp.net");
+
+    expect(participant).toEqual({ jid: "144246610911481@lid", phone_number: "+31612345678", lid: "144246610911481@lid" });
+    expect(lidMappingService.saveLidMapping).toHaveBeenCalledWith(userId, "144246610911481@lid", "+31612345678");
+  });
+
+  it("should keep group metadata in sync", async () => {
+    await expect(service.needsMetadata(userId, phoneNumber, groupJid)).resolves.toBe(true);
+
+    await service.upsertMetadata(userId, phoneNumber, groupJid, {
+      subject: "Team",
+      owner: "31612345678@s.whatsapp.net",
+      participants: [{ id: "31612345678@s.whatsapp.net", admin: "superadmin" }, { id: "144246610911481@lid" }],
+    });
+    await service.upsertMetadata(userId, phoneNumber, groupJid, { subject: "Team (renamed)" });
+
+    expect(docs.get(groupPath)).toMatchObject({
+      group_id: groupJid,
+      subject: "Team (renamed)",
+      owner: "31612345678@s.whatsapp.net",
+      participant_count: 2,
+      participants: [
+        { jid: "31612345678@s.whatsapp.net", phone_number: "+31612345678", lid: null, admin: "superadmin" },
+        { jid: "144246610911481@lid", phone_number: null, lid: "144246610911481@lid", admin: null },
+      ],
+    });
+    await expect(service.needsMetadata(userId, phoneNumber, groupJid)).resolves.toBe(false);
+  });
+
+  it("should store messages once and keep the newest as last message", async () => {
+    await expect(service.storeMessage(userId, phoneNumber, groupJid, groupMessage("msg-2", 2000))).resolves.toBe(true);
+    await expect(service.storeMessage(userId, phoneNumber, groupJid, groupMessage("msg-1", 1000))).resolves.toBe(true);
+    await expect(service.storeMessage(userId, phoneNumber, groupJid, groupMessage("msg-2", 2000))).resolves.toBe(false);
+
+    expect(docs.get(`${groupPath}/messages/msg-1`)).toMatchObject({ participant_phone_number: "+31612345678", participant_name: "Alice" });
+    expect(docs.get(groupPath)).toMatchObject({
+      group_id: groupJid,
+      last_message: { direction: "inbound", body: "Message msg-2", participant_phone_number: "+31612345678" },
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { IdempotencyStore } from "../services/IdempotencyStore";
+
+jest.mock("pino", () => ({
+  __esModule: true,
+  default: () => ({
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  }),
+}));
+
+describe("IdempotencyStore", () => {
+  let store: IdempotencyStore;
+  let docs: Map<string, any>;
+  let mockFirestore: any;
+
+  const userId = "user123";
+  const phoneNumber = "+1234567890";
+  const fingerprint = IdempotencyStore.fingerprint({ toNumber: "+9876543210", message: "Hello" });
+
+  beforeEach(() => {
+    docs = new Map();
+
+    const docRef = (path: string): any => ({
+      path,
+      get: async () => ({ exists: docs.has(path), data: () => docs.get(path) }),
+      update: async (update: any) => docs.set(path, { ...docs.get(path), ...update }),
+      collection: (name: string) => ({ doc: (id: string) => docRef(`${path}/${name}/${id}`) }),
+    });
+
+    mockFirestore = {
+      collection: (name: string) => ({ doc: (id: string) => docRef(`${name}/${id}`) }),
+      runTransaction: async (callback: any) =>
+        callback({
+          get: (ref: any) => ref.get(),
+          set: (ref: any, data: any) => docs.set(ref.path, data),
+        }),
+    };
+
+    store = new IdempotencyStore(mockFirestore);
+  });
+
+  it("should acquire an unused key", async () => {
+    await expect(store.begin(userId, phoneNumber, "key-1", fingerprint)).resolves.toEqual({ state: "acquired" });
+
+    const [record] = Array.from(docs.values());
+    expect(record).toMatchObject({ key: "key-1", status: "in_progress", fingerprint });
+  });
+
+  it("should report in-progress keys until a result is recorded", async () => {
+    await store.begin(userId, phoneNumber, "key-1", fingerprint);
+
+    await expect(store.begin(userId, phoneNumber, "key-1", fingerprint)).resolves.toEqual({ state: "in_progress" });
+  });
+
+  it("should replay the recorded response", async () => {
+    await store.begin(userId, phoneNumber, "key-1", fingerprint);
+    await store.complete(userId, phoneNumber, "key-1", 200, { success: true, messageId: "wa-msg-1", extra: undefined });
+
+    await expect(store.begin(userId, phoneNumber, "key-1", fingerprint)).resolves.toEqual({
+      state: "replay",
+      statusCode: 200,
+      body: { success: true, messageId: "wa-msg-1" },
+    });
+  });
+
+  it("should replay recorded errors", async () => {
+    await store.begin(userId, phoneNumber, "key-1", fingerprint);
+    await store.complete(userId, phoneNumber, "key-1", 500, { error: "Failed to send message" });
+
+    await expect(store.begin(userId, phoneNumber, "key-1", fingerprint)).resolves.toMatchObject({ state: "replay", statusCode: 500 });
+  });
+
+  it("should reject a key reused with a different payload", async () => {
+    await store.begin(userId, phoneNumber, "key-1", fingerprint);
+
+    const otherFingerprint = IdempotencyStore.fingerprint({ toNumber: "+9876543210", message: "Different" });
+    await expect(store.begin(userId, phoneNumber, "key-1", otherFingerprint)).resolves.toEqual({ state: "mismatch" });
+  });
+
+  it("should treat expired keys as unused", async () => {
+    await store.begin(userId, phoneNumber, "key-1", fingerprint);
+    const [path, record] = Array.from(docs.entries())[0];
+    docs.set(path, { ...record, expires_at: { toMillis: () => Date.now() - 1 } });
+
+    await expect(store.begin(userId, phoneNumber, "key-1", fingerprint)).resolves.toEqual({ state: "acquired" });
+  });
+
+  it("should scope keys per sender number", async () => {
+    await store.begin(userId, phoneNumber, "key-1", fingerprint);
+
+    await expect(store.begin(userId, "+1999999999", "key-1", fingerprint)).resolves.toEqual({ state: "acquired" });
+  });
+});
@@ -0,0 +1,118 @@
+import { LabelService } from "../services/LabelService";
+import { FieldValue, FieldPath } from "@google-cloud/firestore";
+import { LidMappingService } from "../services/LidMappingService";
+
+jest.mock("pino", () => ({
+  __esModule: true,
+  default: () => ({
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  }),
+}));
+
+describe("LabelService", () => {
+  let service: LabelService;
+  let mockLidMappingService: any;
+  let mockSocket: any;
+  let contactRef: any;
+  let phoneCollections: Record<string, any>;
+  let batchUpdate: jest.Mock;
+  let batchCommit: jest.Mock;
+
+  const userId = "user123";
+  const phoneNumber = "+1234567890";
+  const contactNumber = "+31612345678";
+
+  const makeCollection = () => {
+    const docs = new Map<string, any>();
+    return {
+      docs,
+      doc: (id: string) => ({
+        set: jest.fn(async (data: any) => docs.set(id, data)),
+        get: async () => ({ exists: docs.has(id), data: () => docs.get(id) }),
+      }),
+      where: () => ({
+        get: async () => ({ docs: [...docs.entries()].map(([id, data]) => ({ id, ref: `chat_labels/${id}`, data: () => data })) }),
+      }),
+    };
+  };
+
+  beforeEach(() => {
+    phoneCollections = { labels: makeCollection(), chat_labels: makeCollection() };
+    contactRef = { update: jest.fn().mockResolvedValue(undefined) };
+    batchUpdate = jest.fn();
+    batchCommit = jest.fn().mockResolvedValue(undefined);
+
+    const contactsQuery: any = {
+      where: () => contactsQuery,
+      limit: () => contactsQuery,
+      get: async () => ({ empty: false, docs: [{ ref: contactRef }] }),
+    };
+    const phoneRef = { collection: (name: string) => phoneCollections[name] };
+    const mockFirestore: any = {
+      collection: (name: string) =>
+        name === "contacts" ? contactsQuery : { doc: () => ({ collection: () => ({ doc: () => phoneRef }) }) },
+      batch: () => ({ update: batchUpdate, commit: batchCommit }),
+    };
+
+    mockLidMappingService = {
+      resolveLidToPhone: jest.fn((_userId: string, lid: string) => (lid === "123456@lid" ? contactNumber : null)),
+      resolveJidToPhone: LidMappingService.prototype.resolveJidToPhone,
+    };
+
+    mockSocket = {
+      addChatLabel: jest.fn().mockResolvedValue(undefined),
+      removeChatLabel: jest.fn().mockResolvedValue(undefined),
+    };
+
+    service = new LabelService(mockFirestore, mockLidMappingService);
+  });
+
+  it("should store labels from labels.edit", async () => {
+    await service.handleLabelsEdit(userId, phoneNumber, [{ id: "1", name: "New customer", color: 3, predefinedId: "1" }]);
+
+    expect(phoneCollections.labels.docs.get("1")).toMatchObject({ id: "1", name: "New customer", color: 3, predefined_id: "1", deleted: false });
+  });
+
+  it("should put chat label associations on the contact", async () => {
+    await service.handleLabelAssociation(userId, phoneNumber, { type: "add", association: { type: "label_jid", chatId: "123456@lid", labelId: "1" } });
+
+    expect(phoneCollections.chat_labels.docs.get(contactNumber)).toMatchObject({ label_ids: FieldValue.arrayUnion("1") });
+    expect(contactRef.update).toHaveBeenCalledWith(new FieldPath("whatsapp_labels", phoneNumber), FieldValue.arrayUnion("1"));
+  });
+
+  it("should ignore message label associations", async () => {
+    await service.handleLabelAssociation(userId, phoneNumber, { type: "add", association: { type: "label_message", chatId: "31612345678@s.whatsapp.net", labelId: "1" } });
+
+    expect(contactRef.update).not.toHaveBeenCalled();
+  });
+
+  it("should remove a label through the phone and from the contact", async () => {
+    await service.setChatLabel(mockSocket, userId, phoneNumber, contactNumber, "1", false);
+
+    expect(mockSocket.removeChatLabel).toHaveBeenCalledWith("31612345678@s.whatsapp.net", "1");
+    expect(contactRef.update).toHaveBeenCalledWith(new FieldPath("whatsapp_labels", phoneNumber), FieldValue.arrayRemove("1"));
+  });
+
+  it("should take deleted labels off chats and contacts", async () => {
+    phoneCollections.chat_labels.docs.set(contactNumber, { label_ids: ["1"] });
+
+    await service.handleLabelsEdit(userId, phoneNumber, [{ id: "1", name: "Old", deleted: true }]);
+
+    expect(batchUpdate).toHaveBeenCalledWith(`chat_labels/${contactNumber}`, "label_ids", FieldValue.arrayRemove("1"));
+    expect(batchUpdate).toHaveBeenCalledWith(contactRef, new FieldPath("whatsapp_labels", phoneNumber), FieldValue.arrayRemove("1"));
+  });
+
+  it("should split deleted label cleanup into batches", async () => {
+    for (let i = 0; i < 450; i++) {
+      phoneCollections.chat_labels.docs.set(`+3161234${String(i).padStart(4, "0")}`, { label_ids: ["1"] });
+    }
+
+    await service.handleLabelsEdit(userId, phoneNumber, [{ id: "1", name: "Old", deleted: true }]);
+
+    expect(batchUpdate).toHaveBeenCalledTimes(451);
+    expect(batchCommit).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,105 @@
+import { MediaRetentionService } from "../services/MediaRetentionService";
+import { MediaService } from "../services/MediaService";
+
+jest.mock("pino", () => ({
+  __esModule: true,
+  default: () => ({
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  }),
+}));
+
+describe("MediaRetentionService", () => {
+  let service: MediaRetentionService;
+  let mockMediaService: any;
+  let mockFirestore: any;
+  let lockDoc: any;
+  let usersWithRetention: Array<{ id: string; data: () => any }>;
+
+  beforeEach(() => {
+    lockDoc = undefined;
+    usersWithRetention = [{ id: "user123", data: () => ({ whatsapp_web: { media_retention_days: 90 } }) }];
+
+    mockMediaService = {
+      listUserMediaBefore: jest.fn().mockResolvedValue({ filenames: ["whatsapp-media/user123/+1234567890/old.jpg"], nextPageToken: null }),
+      deleteMedia: jest.fn().mockResolvedValue(undefined),
+      listMediaReusedSince: jest.fn().mockResolvedValue(new Set()),
+      forgetStoredMedia: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const lockRef = { path: "service_locks/media_retention" };
+    mockFirestore = {
+      collection: (name: string) =>
+        name === "service_locks"
+          ? { doc: () => lockRef }
+          : { where: () => ({ get: async () => ({ docs: usersWithRetention, size: usersWithRetention.length }) }) },
+      runTransaction: async (callback: any) =>
+        callback({
+          get: async () => ({ data: () => lockDoc }),
+          set: (_ref: any, data: any) => (lockDoc = data),
+        }),
+    };
+
+    service = new MediaRetentionService(mockFirestore, mockMediaService);
+  });
+
+  describe("sweep", () => {
+    it("should delete media created before the user's retention cutoff", async () => {
+      await service.sweep();
+
+      const [userId, cutoff] = mockMediaService.listUserMediaBefore.mock.calls[0];
+      expect(userId).toBe("user123");
+      expect(Date.now() - cutoff.getTime()).toBeGreaterThanOrEqual(90 * 24 * 60 * 60 * 1000);
+      expect(mockMediaService.deleteMedia).toHaveBeenCalledWith("whatsapp-media/user123/+1234567890/old.jpg");
+      expect(mockMediaService.forgetStoredMedia).toHaveBeenCalledWith("user123", "whatsapp-media/user123/+1234567890/old.jpg");
+    });
+
+    it("should keep old media that was reused since the cutoff", async () => {
+      mockMediaService.listMediaReusedSince.mockResolvedValue(new Set(["whatsapp-media/user123/+1234567890/old.jpg"]));
+
+      await service.sweep();
+
+      expect(mockMediaService.deleteMedia).not.toHaveBeenCalled();
+      expect(mockMediaService.forgetStoredMedia).not.toHaveBeenCalled();
+    });
+
+    it("should skip the sweep when another instance swept recently", async () => {
+      await service.sweep();
+      await service.sweep();
+
+      expect(mockMediaService.listUserMediaBefore).toHaveBeenCalledTimes(1);
+    });
+
+    it("should treat already deleted objects as done", async () => {
+      mockMediaService.deleteMedia.mockRejectedValue(Object.assign(new Error("No such object"), { code: 404 }));
+
+      await expect(service.sweep()).resolves.toBeUndefined();
+    });
+  });
+
+  describe("migrateLegacyMediaUrls", () => {
+    it("should derive media ids from expired signed URLs", async () => {
+      const filename = "whatsapp-media/user123/+1234567890/1700000000000_abc.jpg";
+      const update = jest.fn();
+      const messageDocs = [
+        { ref: "msg-1", data: () => ({ media_url: `https://storage.googleapis.com/test-bucket/${filename.replace("+", "%2B")}?X-Goog-Expires=604800` }) },
+        { ref: "msg-2", data: () => ({ media_url: "https://example.com/brochure.pdf" }) },
+        { ref: "msg-3", data: () => ({ media_url: "https://storage.googleapis.com/test-bucket/x.jpg", media_id: "existing" }) },
+      ];
+      const messagesCollection = { where: () => ({ get: async () => ({ docs: messageDocs }) }) };
+
+      mockFirestore.collection = (name: string) =>
+        name === "contacts"
+          ? { where: () => ({ get: async () => ({ docs: [{ ref: { collection: () => messagesCollection } }] }) }) }
+          : { doc: () => ({ collection: () => ({ get: async () => ({ docs: [] }) }) }) };
+      mockFirestore.batch = () => ({ update, commit: jest.fn() });
+
+      const result = await service.migrateLegacyMediaUrls("user123");
+
+      expect(result).toEqual({ scanned: 3, migrated: 1, skipped: 1 });
+      expect(update).toHaveBeenCalledWith("msg-1", { media_id: MediaService.toMediaId(filename), thumbnail_media_id: null });
+    });
+  });
+});
@@ -0,0 +1,257 @@
+import { MessageScheduler } from "../services/MessageScheduler";
+import { LimitChecker } from "../services/limitChecker";
+
+jest.mock("../services/limitChecker");
+jest.mock("pino", () => ({
+  __esModule: true,
+  default: () => ({
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  }),
+}));
+
+describe("MessageScheduler", () => {
+  let scheduler: MessageScheduler;
+  let mockFirestore: any;
+  let mockConnectionPool: any;
+  let mockLimitChecker: jest.Mocked<LimitChecker>;
+  let dueDocs: any[];
+  let staleDocs: any[];
+  let storedDocs: Map<string, any>;
+  let poolListeners: Map<string, (data: any) => void>;
+
+  const createDueDoc = (id: string, data: any) => {
+    storedDocs.set(id, { id, ...data });
+    return {
+      id,
+      ref: {
+        id,
+        path: `users/user123/phone_numbers/+1234567890/scheduled_messages/${id}`,
+        update: jest.fn(async (update: any) => {
+          storedDocs.set(id, { ...storedDocs.get(id), ...update });
+        }),
+      },
+    };
+  };
+
+  const createQuery = (getDocs: () => any[]) => {
+    const query: any = {
+      where: jest.fn(() => query),
+      orderBy: jest.fn(() => query),
+      limit: jest.fn(() => query),
+      get: jest.fn(async () => {
+        const docs = getDocs();
+        return { empty: docs.length === 0, size: docs.length, docs };
+      }),
+    };
+    return query;
+  };
+
+  beforeEach(() => {
+    dueDocs = [];
+    staleDocs = [];
+    storedDocs = new Map();
+    poolListeners = new Map();
+
+    const scheduleDocRef = {
+      id: "schedule-new",
+      set: jest.fn().mockResolvedValue(undefined),
+    };
+
+    mockFirestore = {
+      collection: jest.fn(() => ({
+        doc: jest.fn(() => ({
+          collection: jest.fn(() => ({
+            doc: jest.fn(() => ({
+              collection: jest.fn(() => ({
+                doc: jest.fn((id?: string) => (id ? { id, update: jest.fn() } : scheduleDocRef)),
+              })),
+            })),
+          })),
+        })),
+      })),
+      collectionGroup: jest.fn(() => {
+        const pendingQuery = createQuery(() => dueDocs);
+        const staleQuery = createQuery(() => staleDocs);
+        return {
+          where: jest.fn((_field: string, _op: string, value: string) => (value === "pending" ? pendingQuery : staleQuery)),
+        };
+      }),
+      runTransaction: jest.fn(async (callback: any) => {
+        const transaction = {
+          get: jest.fn(async (ref: any) => {
+            const data = storedDocs.get(ref.id);
+            return { exists: !!data, data: () => data };
+          }),
+          update: jest.fn((ref: any, update: any) => {
+            storedDocs.set(ref.id, { ...storedDocs.get(ref.id), ...update });
+          }),
+        };
+        return callback(transaction);
+      }),
+    };
+
+    mockConnectionPool = {
+      sendMessage: jest.fn().mockResolvedValue({ id: "wa-message-1" }),
+      getOutboundQueueLength: jest.fn().mockReturnValue(0),
+      queueOutboundMessage: jest.fn().mockReturnValue({ queuedId: "queued_1", position: 1, estimatedSendAt: new Date(Date.now() + 30000) }),
+      on: jest.fn((event: string, listener: (data: any) => void) => poolListeners.set(event, listener)),
+    };
+
+    mockLimitChecker = new LimitChecker() as jest.Mocked<LimitChecker>;
+    mockLimitChecker.checkLimits.mockResolvedValue({ allowed: true, delayMs: 0 } as any);
+
+    scheduler = new MessageScheduler(mockFirestore, mockConnectionPool, mockLimitChecker);
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+  });
+
+  describe("schedule", () => {
+    it("should persist a pending scheduled message", async () => {
+      const sendAt = new Date(Date.now() + 60000);
+      const result = await scheduler.schedule("user123", "+1234567890", {
+        toNumber: "+1987654321",
+        message: "Hello later",
+        sendAt,
+      });
+
+      expect(result.id).toBe("schedule-new");
+      expect(result.status).toBe("pending");
+      expect(result.to_number).toBe("+1987654321");
+      expect(result.send_at.toDate().getTime()).toBe(sendAt.getTime());
+    });
+  });
+
+  describe("poll", () => {
+    const pendingData = {
+      user_id: "user123",
+      phone_number: "+1234567890",
+      to_number: "+1987654321",
+      message: "Hello later",
+      media: null,
+      status: "pending",
+    };
+
+    it("should check limits, send due messages and mark them as sent", async () => {
+      dueDocs = [createDueDoc("schedule-1", pendingData)];
+
+      await scheduler.poll();
+
+      expect(mockLimitChecker.checkLimits).toHaveBeenCalledWith("user123", "+1234567890", "+1987654321");
+      expect(mockConnectionPool.sendMessage).toHaveBeenCalledWith("user123", "+1234567890", "+1987654321", { text: "Hello later" });
+      expect(storedDocs.get("schedule-1")).toMatchObject({ status: "sent", message_id: "wa-message-1" });
+    });
+
+    it("should build media content from the stored URL", async () => {
+      dueDocs = [
+        createDueDoc("schedule-1", {
+          ...pendingData,
+          media: { type: "image", url: "https://storage.example.com/image.jpg" },
+        }),
+      ];
+
+      await scheduler.poll();
+
+      expect(mockConnectionPool.sendMessage).toHaveBeenCalledWith("user123", "+1234567890", "+1987654321", {
+        image: { url: "https://storage.example.com/image.jpg" },
+        caption: "Hello later",
+      });
+    });
+
+    it("should mark the message as failed when blocked by limits", async () => {
+      mockLimitChecker.checkLimits.mockResolvedValue({ allowed: false, error: "Daily limit of 25 new contacts reached" } as any);
+      dueDocs = [createDueDoc("schedule-1", pendingData)];
+
+      await scheduler.poll();
+
+      expect(mockConnectionPool.sendMessage).not.toHaveBeenCalled();
+      expect(storedDocs.get("schedule-1")).toMatchObject({ status: "failed", error: "Daily limit of 25 new contacts reached" });
+    });
+
+    it("should mark the message as failed when the send returns no key", async () => {
+      mockConnectionPool.sendMessage.mockResolvedValue(null);
+      dueDocs = [createDueDoc("schedule-1", pendingData)];
+
+      await scheduler.poll();
+
+      expect(storedDocs.get("schedule-1")).toMatchObject({ status: "failed", error: "Failed to send message" });
+    });
+
+    it("should send paced messages through the outbound queue and mark them sent once it reports back", async () => {
+      mockLimitChecker.checkLimits.mockResolvedValue({ allowed: true, delayMs: 30000 } as any);
+      dueDocs = [createDueDoc("schedule-1", pendingData)];
+
+      await scheduler.poll();
+
+      expect(mockConnectionPool.sendMessage).not.toHaveBeenCalled();
+      expect(mockConnectionPool.queueOutboundMessage).toHaveBeenCalledWith("user123", "+1234567890", "+1987654321", { text: "Hello later" }, 30000);
+      expect(storedDocs.get("schedule-1")).toMatchObject({ status: "processing", queued_id: "queued_1" });
+
+      poolListeners.get("queued-message-sent")!({ queuedId: "queued_1", messageId: "wa-message-2" });
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(storedDocs.get("schedule-1")).toMatchObject({ status: "sent", message_id: "wa-message-2" });
+    });
+
+    it("should queue behind messages already waiting and fail when the queued send fails", async () => {
+      mockConnectionPool.getOutboundQueueLength.mockReturnValue(2);
+      dueDocs = [createDueDoc("schedule-1", pendingData)];
+
+      await scheduler.poll();
+
+      expect(mockConnectionPool.queueOutboundMessage).toHaveBeenCalledWith("user123", "+1234567890", "+1987654321", { text: "Hello later" }, 0);
+
+      poolListeners.get("queued-message-failed")!({ queuedId: "queued_1", error: "Connection closed" });
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(storedDocs.get("schedule-1")).toMatchObject({ status: "failed", error: "Connection closed" });
+    });
+
+    it("should skip messages already claimed by another instance", async () => {
+      dueDocs = [createDueDoc("schedule-1", { ...pendingData, status: "processing" })];
+
+      await scheduler.poll();
+
+      expect(mockLimitChecker.checkLimits).not.toHaveBeenCalled();
+      expect(mockConnectionPool.sendMessage).not.toHaveBeenCalled();
+    });
+
+    it("should fail stale claims instead of re-sending them", async () => {
+      staleDocs = [createDueDoc("schedule-stale", { ...pendingData, status: "processing" })];
+
+      await scheduler.poll();
+
+      expect(mockConnectionPool.sendMessage).not.toHaveBeenCalled();
+      expect(storedDocs.get("schedule-stale")).toMatchObject({ status: "failed", error: "Interrupted before send was confirmed" });
+    });
+  });
+
+  describe("cancel", () => {
+    it("should cancel a pending message", async () => {
+      storedDocs.set("schedule-1", { id: "schedule-1", status: "pending" });
+
+      const result = await scheduler.cancel("user123", "+1234567890", "schedule-1");
+
+      expect(result).toEqual({ cancelled: true, status: "cancelled" });
+      expect(storedDocs.get("schedule-1").status).toBe("cancelled");
+    });
+
+    it("should not cancel a message that was already sent", async () => {
+      storedDocs.set("schedule-1", { id: "schedule-1", status: "sent" });
+
+      const result = await scheduler.cancel("user123", "+1234567890", "schedule-1");
+
+      expect(result).toEqual({ cancelled: false, status: "sent" });
+    });
+
+    it("should return null for unknown messages", async () => {
+      const result = await scheduler.cancel("user123", "+1234567890", "missing");
+
+      expect(result).toBeNull();
+    });
+  });
+});
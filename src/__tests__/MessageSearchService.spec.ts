@@ -0,0 +1,178 @@
+import { MessageSearchService, IndexedMessage } from "../services/MessageSearchService";
+import { gunzipSync } from "zlib";
+
+const mockSave = jest.fn();
+const mockDownload = jest.fn();
+const mockGetFiles = jest.fn();
+
+jest.mock("@google-cloud/storage", () => ({
+  Storage: jest.fn().mockImplementation(() => ({
+    bucket: () => ({
+      file: (path: string) => ({ save: (...args: any[]) => mockSave(path, ...args), download: () => mockDownload(path) }),
+      getFiles: (options: any) => mockGetFiles(options),
+    }),
+  })),
+}));
+jest.mock("pino", () => ({
+  __esModule: true,
+  default: () => ({
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  }),
+}));
+
+describe("MessageSearchService", () => {
+  let service: MessageSearchService;
+  let mockLidMappingService: any;
+
+  const userId = "user123";
+  const phoneNumber = "+1234567890";
+  const contactNumber = "+31612345678";
+  const lid = "123456@lid";
+
+  const message = (id: string, body: string, timestamp: number, overrides: Partial<IndexedMessage> = {}): IndexedMessage => ({
+    id,
+    phoneNumber,
+    contactNumber,
+    direction: "inbound",
+    body,
+    timestamp,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    mockSave.mockReset().mockResolvedValue(undefined);
+    mockDownload.mockReset().mockRejectedValue({ code: 404 });
+    mockGetFiles.mockReset().mockResolvedValue([[]]);
+
+    mockLidMappingService = {
+      loadMappingsForUser: jest.fn().mockResolvedValue(1),
+      resolveLidToPhone: jest.fn((_userId: string, value: string) => (value === lid ? contactNumber : null)),
+      resolvePhoneToLid: jest.fn((_userId: string, value: string) => (value === contactNumber ? lid : null)),
+    };
+
+    service = new MessageSearchService(mockLidMappingService);
+  });
+
+  it("should tokenize without case and accents", () => {
+    expect(MessageSearchService.tokenize("Café, CRÈME-brûlée!")).toEqual(["cafe", "creme", "brulee"]);
+  });
+
+  it("should match words inside indexed words, newest first", async () => {
+    await service.add(userId, message("A", "Your invoice is attached", 1000));
+    await service.add(userId, message("B", "Voice note please", 2000));
+    await service.add(userId, message("C", "Unrelated", 3000));
+
+    const results = await service.search(userId, "voice", { limit: 10 });
+
+    expect(results.map((result) => result.id)).toEqual(["B", "A"]);
+  });
+
+  it("should require every query word to match", async () => {
+    await service.add(userId, message("A", "Your invoice is attached", 1000));
+    await service.add(userId, message("B", "Invoice paid", 2000));
+
+    const results = await service.search(userId, "invoice attached", { limit: 10 });
+
+    expect(results.map((result) => result.id)).toEqual(["A"]);
+  });
+
+  it("should find a contact's messages stored under its LID", async () => {
+    await service.add(userId, message("A", "Order shipped", 1000, { contactNumber: lid }));
+    await service.add(userId, message("B", "Order cancelled", 2000, { contactNumber: "+4915112345678" }));
+
+    const results = await service.search(userId, "order", { contactNumber, limit: 10 });
+
+    expect(results.map((result) => result.id)).toEqual(["A"]);
+  });
+
+  it("should follow edits and deletions", async () => {
+    await service.add(userId, message("A", "See you at noon", 1000));
+    await service.add(userId, message("B", "Noon works", 2000));
+
+    await service.updateBody(userId, phoneNumber, "A", "See you at three");
+    await service.remove(userId, phoneNumber, "B");
+
+    expect(await service.search(userId, "noon", { limit: 10 })).toEqual([]);
+    expect((await service.search(userId, "three", { limit: 10 })).map((result) => result.id)).toEqual(["A"]);
+  });
+
+  it("should write changed indexes on flush", async () => {
+    await service.add(userId, message("A", "Hello there", 1000));
+
+    await service.flush();
+    await service.flush();
+
+    expect(mockSave).toHaveBeenCalledTimes(1);
+    expect(mockSave.mock.calls[0][0]).toBe("search-index/user123/1234567890.json.gz");
+    const stored = JSON.parse(gunzipSync(mockSave.mock.calls[0][1]).toString("utf8"));
+    expect(stored.messages).toEqual([message("A", "Hello there", 1000)]);
+  });
+
+  it("should keep one index per phone number and search across a user's numbers", async () => {
+    const otherNumber = "+31687654321";
+    // Another instance runs the user's other number and already wrote its index
+    const otherInstance = new MessageSearchService(mockLidMappingService);
+    await otherInstance.add(userId, message("B", "Invoice for March", 2000, { phoneNumber: otherNumber }));
+    await otherInstance.flush();
+    const [otherPath, otherPayload] = mockSave.mock.calls[0];
+
+    await service.add(userId, message("A", "Invoice for February", 1000));
+    await service.flush();
+
+    expect(mockSave.mock.calls.map(([path]) => path)).toEqual(["search-index/user123/31687654321.json.gz", "search-index/user123/1234567890.json.gz"]);
+
+    mockGetFiles.mockResolvedValue([[{ name: otherPath }]]);
+    mockDownload.mockImplementation(async (path: string) => {
+      if (path === otherPath) {
+        return [otherPayload];
+      }
+      throw { code: 404 };
+    });
+
+    const results = await service.search(userId, "invoice", { limit: 10 });
+    expect(results.map((result) => result.id)).toEqual(["B", "A"]);
+    expect(mockGetFiles).toHaveBeenCalledWith({ prefix: "search-index/user123/" });
+
+    const filtered = await service.search(userId, "invoice", { phoneNumber, limit: 10 });
+    expect(filtered.map((result) => result.id)).toEqual(["A"]);
+  });
+
+  it("should unload written indexes that weren't used since the last flush", async () => {
+    await service.add(userId, message("A", "Hello there", 1000));
+    await service.flush();
+
+    jest.spyOn(Date, "now").mockReturnValue(Date.now() + 120000);
+    try {
+      await service.flush();
+      await service.search(userId, "hello", { phoneNumber, limit: 10 });
+    } finally {
+      jest.restoreAllMocks();
+    }
+
+    // Reloaded from Cloud Storage for the search
+    expect(mockDownload).toHaveBeenCalledTimes(2);
+  });
+
+  it("should unload the least recently used indexes past the memory budget", async () => {
+    process.env.SEARCH_MAX_LOADED_MESSAGES = "2";
+    try {
+      service = new MessageSearchService(mockLidMappingService);
+    } finally {
+      delete process.env.SEARCH_MAX_LOADED_MESSAGES;
+    }
+
+    await service.add(userId, message("A", "First", 1000));
+    await service.add(userId, message("B", "Second", 2000));
+    await service.add("user456", message("C", "Third", 3000));
+    await service.flush();
+
+    expect(mockDownload).toHaveBeenCalledTimes(2);
+    await service.search("user456", "third", { phoneNumber, limit: 10 });
+    expect(mockDownload).toHaveBeenCalledTimes(2);
+    await service.search(userId, "first", { phoneNumber, limit: 10 });
+    expect(mockDownload).toHaveBeenCalledTimes(3);
+  });
+});
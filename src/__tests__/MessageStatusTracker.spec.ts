@@ -0,0 +1,150 @@
+import { MessageStatusTracker } from "../services/MessageStatusTracker";
+
+jest.mock("pino", () => ({
+  __esModule: true,
+  default: () => ({
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  }),
+}));
+
+jest.mock("@google-cloud/firestore", () => ({
+  Timestamp: {
+    now: () => ({ toMillis: () => Date.now() }),
+    fromMillis: (millis: number) => ({ toMillis: () => millis }),
+  },
+  FieldValue: {
+    arrayUnion: (...elements: any[]) => ({ arrayUnion: elements }),
+  },
+}));
+
+describe("MessageStatusTracker", () => {
+  let tracker: MessageStatusTracker;
+  let docs: Map<string, any>;
+  let mockFirestore: any;
+
+  const userId = "user123";
+  const phoneNumber = "+1234567890";
+
+  beforeEach(() => {
+    docs = new Map();
+
+    const applyChanges = (path: string, changes: any) => {
+      const current = { ...docs.get(path) };
+      for (const [field, value] of Object.entries<any>(changes)) {
+        current[field] = value?.arrayUnion ? [...(current[field] || []), ...value.arrayUnion] : value;
+      }
+      docs.set(path, current);
+    };
+
+    const docRef = (path: string): any => ({
+      path,
+      id: path.split("/").pop(),
+      get: async () => ({ exists: docs.has(path), data: () => docs.get(path) }),
+    });
+
+    const collectionRef = (path: string): any => ({
+      doc: (id: string) => docRef(`${path}/${id}`),
+      where: (field: string, _op: string, value: any) => ({
+        limit: () => ({
+          get: async () => {
+            const matches = Array.from(docs.entries())
+              .filter(([docPath, data]) => docPath.startsWith(`${path}/`) && data[field] === value)
+              .map(([docPath, data]) => ({ id: docPath.split("/").pop(), ref: docRef(docPath), data: () => data }));
+            return { empty: matches.length === 0, docs: matches };
+          },
+        }),
+      }),
+    });
+
+    const nested = (path: string): any => ({
+      ...collectionRef(path),
+      doc: (id: string) => ({ ...docRef(`${path}/${id}`), collection: (name: string) => nested(`${path}/${id}/${name}`) }),
+    });
+
+    mockFirestore = {
+      collection: (name: string) => nested(name),
+      runTransaction: async (callback: any) =>
+        callback({
+          get: (refOrQuery: any) => refOrQuery.get(),
+          set: (ref: any, data: any) => docs.set(ref.path, data),
+          update: (ref: any, changes: any) => applyChanges(ref.path, changes),
+        }),
+    };
+
+    tracker = new MessageStatusTracker(mockFirestore);
+  });
+
+  it("should follow a queued message through to read", async () => {
+    await tracker.record(userId, phoneNumber, "queued_1", { status: "queued", toNumber: "+1987654321", path: "paced_queue" });
+    await tracker.record(userId, phoneNumber, "queued_1", { status: "sent", messageId: "wa-msg-1" });
+    await tracker.recordReceipt(userId, phoneNumber, "wa-msg-1", "server_ack");
+    await tracker.recordReceipt(userId, phoneNumber, "wa-msg-1", "read");
+
+    const record = await tracker.get(userId, phoneNumber, "queued_1");
+    expect(record).toMatchObject({ tracking_id: "queued_1", message_id: "wa-msg-1", path: "paced_queue", status: "read" });
+    expect(record!.queued_at).toBeTruthy();
+    expect(record!.read_at).toBeTruthy();
+    expect(record!.events.map((event) => event.status)).toEqual(["queued", "sent", "server_ack", "read"]);
+  });
+
+  it("should look up records by WhatsApp message id", async () => {
+    await tracker.record(userId, phoneNumber, "msg_1", { status: "sent", toNumber: "+1987654321", messageId: "wa-msg-1" });
+
+    await expect(tracker.get(userId, phoneNumber, "wa-msg-1")).resolves.toMatchObject({ tracking_id: "msg_1", path: "direct" });
+    await expect(tracker.get(userId, phoneNumber, "unknown")).resolves.toBeNull();
+  });
+
+  it("should not move the status backwards for late receipts", async () => {
+    await tracker.record(userId, phoneNumber, "msg_1", { status: "sent", messageId: "wa-msg-1" });
+    await tracker.recordReceipt(userId, phoneNumber, "wa-msg-1", "read");
+    await tracker.recordReceipt(userId, phoneNumber, "wa-msg-1", "delivered");
+
+    const record = await tracker.get(userId, phoneNumber, "msg_1");
+    expect(record!.status).toBe("read");
+    expect(record!.delivered_at).toBeTruthy();
+  });
+
+  it("should keep the first failure reason", async () => {
+    await tracker.record(userId, phoneNumber, "msg_1", { status: "queued", path: "recovery_queue" });
+    await tracker.record(userId, phoneNumber, "msg_1", { status: "failed", reason: "recovery_timeout" });
+    await tracker.record(userId, phoneNumber, "msg_1", { status: "failed", reason: "no_connection" });
+
+    await expect(tracker.get(userId, phoneNumber, "msg_1")).resolves.toMatchObject({ status: "failed", failure_reason: "recovery_timeout" });
+  });
+
+  it("should record a receipt that arrives before the sent record", async () => {
+    jest.useFakeTimers();
+    try {
+      await tracker.recordReceipt(userId, phoneNumber, "wa-msg-1", "delivered");
+      await tracker.record(userId, phoneNumber, "msg_1", { status: "sent", messageId: "wa-msg-1" });
+      await jest.advanceTimersByTimeAsync(5000);
+    } finally {
+      jest.useRealTimers();
+    }
+
+    const record = await tracker.get(userId, phoneNumber, "msg_1");
+    expect(record!.status).toBe("delivered");
+    expect(record!.delivered_at).toBeTruthy();
+  });
+
+  it("should ignore receipts for untracked messages", async () => {
+    jest.useFakeTimers();
+    try {
+      await tracker.recordReceipt(userId, phoneNumber, "sent-from-phone", "delivered");
+      await jest.advanceTimersByTimeAsync(5000);
+    } finally {
+      jest.useRealTimers();
+    }
+
+    expect(docs.size).toBe(0);
+  });
+
+  it("should never throw when Firestore fails", async () => {
+    mockFirestore.runTransaction = jest.fn().mockRejectedValue(new Error("unavailable"));
+
+    await expect(tracker.record(userId, phoneNumber, "msg_1", { status: "sent" })).resolves.toBeUndefined();
+  });
+});
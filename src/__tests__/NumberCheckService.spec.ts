@@ -0,0 +1,197 @@
+import { NumberCheckService } from "../services/NumberCheckService";
+import { Timestamp } from "@google-cloud/firestore";
+
+jest.mock("pino", () => ({
+  __esModule: true,
+  default: () => ({
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  }),
+}));
+
+describe("NumberCheckService", () => {
+  let service: NumberCheckService;
+  let mockLidMappingService: any;
+  let mockSocket: any;
+  let cachedDocs: Map<string, any>;
+  let jobDocs: Map<string, any>;
+
+  const userId = "user123";
+
+  beforeEach(() => {
+    cachedDocs = new Map();
+    jobDocs = new Map();
+
+    const checksCollection = { doc: (id: string) => ({ id }) };
+    const jobsCollection = {
+      doc: (id: string) => ({
+        get: async () => ({ exists: jobDocs.has(id), data: () => jobDocs.get(id) }),
+        set: async (data: any) => jobDocs.set(id, data),
+        update: async (data: any) => jobDocs.set(id, { ...jobDocs.get(id), ...data }),
+      }),
+    };
+    const mockFirestore: any = {
+      collection: () => ({ doc: () => ({ collection: (name: string) => (name === "number_check_jobs" ? jobsCollection : checksCollection) }) }),
+      getAll: jest.fn(async (...refs: Array<{ id: string }>) => refs.map((ref) => ({ id: ref.id, data: () => cachedDocs.get(ref.id) }))),
+      batch: () => ({
+        set: (ref: { id: string }, data: any) => cachedDocs.set(ref.id, data),
+        commit: jest.fn().mockResolvedValue(undefined),
+      }),
+    };
+
+    mockLidMappingService = {
+      saveLidMapping: jest.fn().mockResolvedValue(undefined),
+    };
+
+    mockSocket = {
+      onWhatsApp: jest.fn().mockResolvedValue([{ jid: "31612345678@s.whatsapp.net", exists: true, lid: "123456@lid" }]),
+    };
+
+    service = new NumberCheckService(mockFirestore, mockLidMappingService);
+  });
+
+  it("should look up numbers, cache the results and save discovered LIDs", async () => {
+    const results = await service.check(mockSocket, userId, [
+      { input: "+31 6 12345678", phoneNumber: "+31612345678" },
+      { input: "+4915112345678", phoneNumber: "+4915112345678" },
+      { input: "not a number", phoneNumber: null },
+    ]);
+
+    expect(mockSocket.onWhatsApp).toHaveBeenCalledWith("31612345678@s.whatsapp.net", "4915112345678@s.whatsapp.net");
+    expect(results).toEqual([
+      expect.objectContaining({ phoneNumber: "+31612345678", exists: true, jid: "31612345678@s.whatsapp.net", lid: "123456@lid", cached: false }),
+      expect.objectContaining({ phoneNumber: "+4915112345678", exists: false, jid: null, cached: false }),
+      expect.objectContaining({ input: "not a number", phoneNumber: null, exists: false, cached: false }),
+    ]);
+    expect(mockLidMappingService.saveLidMapping).toHaveBeenCalledWith(userId, "123456@lid", "+31612345678");
+    expect(cachedDocs.get("+4915112345678")).toMatchObject({ exists: false });
+  });
+
+  it("should answer repeat checks from the cache", async () => {
+    cachedDocs.set("+31612345678", { phone_number: "+31612345678", exists: true, jid: "31612345678@s.whatsapp.net", lid: null, checked_at: Timestamp.now() });
+
+    const [result] = await service.check(mockSocket, userId, [{ input: "+31612345678", phoneNumber: "+31612345678" }]);
+
+    expect(mockSocket.onWhatsApp).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ exists: true, cached: true });
+  });
+
+  it("should check expired cache entries again", async () => {
+    cachedDocs.set("+31612345678", {
+      phone_number: "+31612345678",
+      exists: false,
+      jid: null,
+      lid: null,
+      checked_at: Timestamp.fromMillis(Date.now() - 60 * 24 * 60 * 60 * 1000),
+    });
+
+    const [result] = await service.check(mockSocket, userId, [{ input: "+31612345678", phoneNumber: "+31612345678" }]);
+
+    expect(mockSocket.onWhatsApp).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({ exists: true, cached: false });
+  });
+
+  it("should not cache numbers from a failed lookup", async () => {
+    mockSocket.onWhatsApp.mockRejectedValue(new Error("timed out"));
+
+    const [result] = await service.check(mockSocket, userId, [{ input: "+31612345678", phoneNumber: "+31612345678" }]);
+
+    expect(result).toMatchObject({ exists: null, error: "lookup_failed", checkedAt: null });
+    expect(cachedDocs.size).toBe(0);
+  });
+
+  it("should match a number WhatsApp reports in another form to the number queried", async () => {
+    mockSocket.onWhatsApp.mockResolvedValue([
+      { jid: "31612345678@s.whatsapp.net", exists: true },
+      { jid: "5215512345678@s.whatsapp.net", exists: true },
+    ]);
+
+    const results = await service.check(mockSocket, userId, [
+      { input: "+525512345678", phoneNumber: "+525512345678" },
+      { input: "+31612345678", phoneNumber: "+31612345678" },
+    ]);
+
+    expect(mockSocket.onWhatsApp).toHaveBeenCalledTimes(1);
+    expect(results).toEqual([
+      expect.objectContaining({ phoneNumber: "+525512345678", exists: true, jid: "5215512345678@s.whatsapp.net" }),
+      expect.objectContaining({ phoneNumber: "+31612345678", exists: true, jid: "31612345678@s.whatsapp.net" }),
+    ]);
+    expect(cachedDocs.get("+525512345678")).toMatchObject({ exists: true });
+  });
+
+  it("should look up unmatched numbers one by one when results can't be paired", async () => {
+    mockSocket.onWhatsApp.mockImplementation(async (...jids: string[]) => {
+      const all = [
+        { jid: "5215512345678@s.whatsapp.net", exists: true },
+        { jid: "5491112345678@s.whatsapp.net", exists: true },
+      ];
+      if (jids.length > 1) {
+        return all;
+      }
+      return jids[0] === "525512345678@s.whatsapp.net" ? [all[0]] : jids[0] === "541112345678@s.whatsapp.net" ? [all[1]] : [];
+    });
+
+    const results = await service.check(mockSocket, userId, [
+      { input: "+525512345678", phoneNumber: "+525512345678" },
+      { input: "+541112345678", phoneNumber: "+541112345678" },
+      { input: "+31612345678", phoneNumber: "+31612345678" },
+    ]);
+
+    expect(mockSocket.onWhatsApp).toHaveBeenCalledTimes(4);
+    expect(results.map((result) => [result.phoneNumber, result.exists, result.jid])).toEqual([
+      ["+525512345678", true, "5215512345678@s.whatsapp.net"],
+      ["+541112345678", true, "5491112345678@s.whatsapp.net"],
+      ["+31612345678", false, null],
+    ]);
+  });
+
+  it("should run a job in the background and return its results once completed", async () => {
+    cachedDocs.set("+4915112345678", {
+      phone_number: "+4915112345678",
+      exists: false,
+      jid: null,
+      lid: null,
+      checked_at: Timestamp.fromMillis(Date.now() - 1000),
+    });
+
+    const job = await service.startJob(mockSocket, userId, "+1234567890", [
+      { input: "+31612345678", phoneNumber: "+31612345678" },
+      { input: "+4915112345678", phoneNumber: "+4915112345678" },
+      { input: "not a number", phoneNumber: null },
+    ]);
+    expect(job).toMatchObject({ status: "running", total: 2, checked: 0 });
+
+    await new Promise((resolve) => setImmediate(resolve));
+
+    const found = await service.getJob(userId, job.id);
+    expect(found!.job).toMatchObject({ status: "completed", checked: 2, failed_numbers: [] });
+    expect(found!.results).toEqual([
+      expect.objectContaining({ phoneNumber: "+31612345678", exists: true, cached: false }),
+      expect.objectContaining({ phoneNumber: "+4915112345678", exists: false, cached: true }),
+      expect.objectContaining({ phoneNumber: null }),
+    ]);
+  });
+
+  it("should report a job that stopped updating as interrupted", async () => {
+    const stale = Timestamp.fromMillis(Date.now() - 10 * 60 * 1000);
+    jobDocs.set("job1", {
+      id: "job1",
+      status: "running",
+      inputs: [],
+      total: 5,
+      checked: 2,
+      failed_numbers: [],
+      error: null,
+      created_at: stale,
+      updated_at: stale,
+    });
+
+    const found = await service.getJob(userId, "job1");
+
+    expect(found!.job).toMatchObject({ status: "failed", error: "interrupted" });
+    expect(found!.results).toBeNull();
+    expect(await service.getJob(userId, "missing")).toBeNull();
+  });
+});
@@ -0,0 +1,116 @@
+import { PresenceService } from "../services/PresenceService";
+import { Timestamp } from "@google-cloud/firestore";
+import { LidMappingService } from "../services/LidMappingService";
+
+jest.mock("pino", () => ({
+  __esModule: true,
+  default: () => ({
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  }),
+}));
+
+describe("PresenceService", () => {
+  let service: PresenceService;
+  let mockLidMappingService: any;
+  let mockSocket: any;
+  let storedDocs: Map<string, any>;
+
+  const userId = "user123";
+  const phoneNumber = "+1234567890";
+  const contactNumber = "+31612345678";
+  const contactJid = "31612345678@s.whatsapp.net";
+
+  beforeEach(() => {
+    storedDocs = new Map();
+
+    const presenceCollection: any = {
+      doc: (id: string) => ({
+        set: jest.fn(async (data: any) => storedDocs.set(id, { ...storedDocs.get(id), ...data })),
+        get: async () => ({ exists: storedDocs.has(id), data: () => storedDocs.get(id) }),
+      }),
+      where: () => ({
+        get: async () => ({
+          docs: [...storedDocs.entries()].filter(([, data]) => data.subscribed).map(([id, data]) => ({ id, data: () => data })),
+        }),
+      }),
+    };
+    const chain: any = { collection: () => chain, doc: () => chain };
+    chain.collection = (name: string) => (name === "presence" ? presenceCollection : chain);
+    const mockFirestore: any = { collection: () => chain };
+
+    mockLidMappingService = {
+      resolveLidToPhone: jest.fn((_userId: string, lid: string) => (lid === "123456@lid" ? contactNumber : null)),
+      resolveJidToPhone: LidMappingService.prototype.resolveJidToPhone,
+    };
+
+    mockSocket = {
+      presenceSubscribe: jest.fn().mockResolvedValue(undefined),
+    };
+
+    service = new PresenceService(mockFirestore, mockLidMappingService);
+  });
+
+  describe("subscribe", () => {
+    it("should subscribe on WhatsApp and renew stored subscriptions on reconnect", async () => {
+      await service.subscribe(mockSocket, userId, phoneNumber, contactNumber);
+
+      expect(mockSocket.presenceSubscribe).toHaveBeenCalledWith(contactJid);
+      expect(storedDocs.get(contactNumber)).toMatchObject({ jid: contactJid, subscribed: true });
+
+      const reconnectedSocket = { presenceSubscribe: jest.fn().mockResolvedValue(undefined) };
+      const renewed = await service.resubscribe(reconnectedSocket as any, userId, phoneNumber);
+
+      expect(renewed).toBe(1);
+      expect(reconnectedSocket.presenceSubscribe).toHaveBeenCalledWith(contactJid);
+    });
+  });
+
+  describe("record", () => {
+    it("should store online changes and last-seen", async () => {
+      const lastSeen = Math.floor(Date.now() / 1000) - 60;
+
+      const changes = await service.record(userId, phoneNumber, { [contactJid]: { lastKnownPresence: "unavailable", lastSeen } });
+
+      expect(changes).toEqual([{ contactNumber, jid: contactJid, presence: "unavailable", lastSeen: new Date(lastSeen * 1000).toISOString() }]);
+      expect(storedDocs.get(contactNumber).last_seen_at.toMillis()).toBe(lastSeen * 1000);
+    });
+
+    it("should keep typing states in memory only", async () => {
+      await service.record(userId, phoneNumber, { [contactJid]: { lastKnownPresence: "available" } });
+      storedDocs.clear();
+
+      await service.record(userId, phoneNumber, { [contactJid]: { lastKnownPresence: "composing" } });
+
+      expect(storedDocs.size).toBe(0);
+      expect(await service.get(userId, phoneNumber, contactNumber)).toMatchObject({ presence: "composing", live: true });
+    });
+
+    it("should use the time a contact went offline as last-seen when none is shared", async () => {
+      await service.record(userId, phoneNumber, { [contactJid]: { lastKnownPresence: "available" } });
+      const [change] = await service.record(userId, phoneNumber, { [contactJid]: { lastKnownPresence: "unavailable" } });
+
+      expect(change.lastSeen).not.toBeNull();
+    });
+
+    it("should resolve LIDs and skip participants it can't identify", async () => {
+      const changes = await service.record(userId, phoneNumber, {
+        "123456@lid": { lastKnownPresence: "available" },
+        "999999@lid": { lastKnownPresence: "available" },
+      });
+
+      expect(changes.map((change) => change.contactNumber)).toEqual([contactNumber]);
+    });
+  });
+
+  describe("get", () => {
+    it("should fall back to the stored presence after a restart", async () => {
+      storedDocs.set(contactNumber, { presence: "unavailable", last_seen_at: Timestamp.fromMillis(1700000000000), subscribed: true });
+
+      expect(await service.get(userId, phoneNumber, contactNumber)).toMatchObject({ presence: "unavailable", live: false });
+      expect(await service.get(userId, phoneNumber, "+4915112345678")).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,216 @@
+import { createHmac } from "crypto";
+import { lookup } from "dns/promises";
+import { WebhookService } from "../services/WebhookService";
+
+jest.mock("dns/promises", () => ({ lookup: jest.fn() }));
+
+jest.mock("pino", () => ({
+  __esModule: true,
+  default: () => ({
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  }),
+}));
+
+jest.mock("@google-cloud/firestore", () => {
+  const timestamp = (millis: number) => ({ toMillis: () => millis, toDate: () => new Date(millis) });
+  return {
+    Timestamp: {
+      now: () => timestamp(Date.now()),
+      fromMillis: (millis: number) => timestamp(millis),
+    },
+  };
+});
+
+describe("WebhookService", () => {
+  let service: WebhookService;
+  let docs: Map<string, any>;
+  let mockFetch: jest.Mock;
+  let nextId: number;
+
+  const userId = "user123";
+
+  beforeEach(() => {
+    docs = new Map();
+    nextId = 0;
+
+    const docRef = (path: string): any => ({
+      path,
+      id: path.split("/").pop(),
+      get: async () => ({ exists: docs.has(path), data: () => docs.get(path) }),
+      set: async (data: any) => docs.set(path, data),
+      update: async (changes: any) => docs.set(path, { ...docs.get(path), ...changes }),
+      delete: async () => docs.delete(path),
+      collection: (name: string) => collectionRef(`${path}/${name}`),
+    });
+
+    const collectionRef = (path: string): any => ({
+      doc: (id?: string) => docRef(`${path}/${id || `doc${++nextId}`}`),
+      where: (field: string, _op: string, value: any) => ({
+        get: async () => {
+          const matches = Array.from(docs.entries())
+            .filter(([docPath, data]) => docPath.startsWith(`${path}/`) && !docPath.slice(path.length + 1).includes("/") && data[field] === value)
+            .map(([docPath, data]) => ({ data: () => data, ref: docRef(docPath) }));
+          return { empty: matches.length === 0, docs: matches };
+        },
+      }),
+    });
+
+    // Collection group query over all deliveries, honouring == and <= filters
+    const groupQuery = (name: string, filters: Array<[string, string, any]> = []): any => ({
+      where: (field: string, op: string, value: any) => groupQuery(name, [...filters, [field, op, value]]),
+      orderBy: () => groupQuery(name, filters),
+      limit: () => groupQuery(name, filters),
+      get: async () => {
+        const matches = Array.from(docs.entries())
+          .filter(([docPath]) => docPath.split("/").slice(-2)[0] === name)
+          .filter(([, data]) =>
+            filters.every(([field, op, value]) => (op === "==" ? data[field] === value : data[field] != null && data[field].toMillis() <= value.toMillis()))
+          )
+          .map(([docPath, data]) => ({ data: () => data, ref: docRef(docPath) }));
+        return { empty: matches.length === 0, docs: matches };
+      },
+    });
+
+    const mockFirestore: any = {
+      collection: (name: string) => collectionRef(name),
+      collectionGroup: (name: string) => groupQuery(name),
+      runTransaction: async (callback: any) =>
+        callback({
+          get: (ref: any) => ref.get(),
+          update: (ref: any, changes: any) => docs.set(ref.path, { ...docs.get(ref.path), ...changes }),
+        }),
+    };
+
+    // Test hosts: example.com is public, internal.example.com points into the VPC
+    const hosts: Record<string, Array<{ address: string; family: number }>> = {
+      "example.com": [{ address: "93.184.216.34", family: 4 }],
+      "internal.example.com": [
+        { address: "93.184.216.34", family: 4 },
+        { address: "10.0.0.5", family: 4 },
+      ],
+    };
+    (lookup as unknown as jest.Mock).mockReset().mockImplementation(async (hostname: string) => {
+      if (/^[\d.]+$/.test(hostname)) {
+        return [{ address: hostname, family: 4 }];
+      }
+      if (hostname.includes(":")) {
+        return [{ address: hostname, family: 6 }];
+      }
+      if (!hosts[hostname]) {
+        throw Object.assign(new Error(`getaddrinfo ENOTFOUND ${hostname}`), { code: "ENOTFOUND" });
+      }
+      return hosts[hostname];
+    });
+
+    mockFetch = jest.fn().mockResolvedValue({ ok: true, status: 200 });
+    global.fetch = mockFetch as any;
+
+    service = new WebhookService(mockFirestore);
+  });
+
+  const deliveries = () => Array.from(docs.entries()).filter(([path]) => path.includes("/webhook_deliveries/"));
+
+  it("should validate webhook URLs", async () => {
+    await expect(WebhookService.validateUrl("https://example.com/hooks")).resolves.toBeNull();
+    await expect(WebhookService.validateUrl("http://example.com/hooks")).resolves.toBe("url must use https");
+    await expect(WebhookService.validateUrl("not a url")).resolves.toBe("url is not a valid URL");
+    await expect(WebhookService.validateUrl("https://unknown.example.com/hooks")).resolves.toBe("url host could not be resolved");
+  });
+
+  it.each([
+    "https://internal.example.com/hooks",
+    "https://127.0.0.1/hooks",
+    "https://10.1.2.3/hooks",
+    "https://169.254.169.254/computeMetadata/v1/",
+    "https://192.168.1.10/hooks",
+    "https://[::1]/hooks",
+    "https://[fd00::1]/hooks",
+    "https://[::ffff:10.0.0.1]/hooks",
+  ])("should reject %s", async (url) => {
+    await expect(WebhookService.validateUrl(url)).resolves.toBe("url must not point to a private, loopback or link-local address");
+  });
+
+  it("should not deliver to a host that started resolving to a private address", async () => {
+    await service.create(userId, { url: "https://internal.example.com/hooks", events: ["message:received"] });
+
+    await service.dispatch(userId, "message:received", { body: "Hi" });
+
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(deliveries()[0][1]).toMatchObject({
+      status: "pending",
+      attempts: 1,
+      last_error: "url must not point to a private, loopback or link-local address",
+    });
+  });
+
+  it("should deliver subscribed events with an HMAC-SHA256 signature", async () => {
+    const webhook = await service.create(userId, { url: "https://example.com/hooks", events: ["message:received"] });
+
+    await service.dispatch(userId, "message:received", { phoneNumber: "+1234567890", body: "Hi" });
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    const [url, request] = mockFetch.mock.calls[0];
+    const timestamp = request.headers["X-Webhook-Timestamp"];
+    const expected = createHmac("sha256", webhook.secret).update(`${timestamp}.${request.body}`).digest("hex");
+
+    expect(url).toBe("https://example.com/hooks");
+    expect(request.redirect).toBe("manual");
+    expect(request.headers["X-Webhook-Signature"]).toBe(`sha256=${expected}`);
+    expect(JSON.parse(request.body)).toMatchObject({ event: "message:received", data: { phoneNumber: "+1234567890", body: "Hi" } });
+    expect(deliveries()[0][1]).toMatchObject({ status: "delivered", attempts: 1, last_status_code: 200 });
+  });
+
+  it("should skip webhooks that aren't subscribed to the event", async () => {
+    await service.create(userId, { url: "https://example.com/hooks", events: ["qr:code"] });
+
+    await service.dispatch(userId, "message:status", { status: "read" });
+
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(deliveries()).toHaveLength(0);
+  });
+
+  it("should back off exponentially and dead-letter after the last attempt", async () => {
+    mockFetch.mockResolvedValue({ ok: false, status: 503 });
+    await service.create(userId, { url: "https://example.com/hooks", events: ["message:received"] });
+
+    await service.dispatch(userId, "message:received", { body: "Hi" });
+
+    const [path, first] = deliveries()[0];
+    expect(first).toMatchObject({ status: "pending", attempts: 1, last_status_code: 503, last_error: "HTTP 503" });
+    const firstDelay = first.next_attempt_at.toMillis() - Date.now();
+    expect(firstDelay).toBeGreaterThan(25000);
+    expect(firstDelay).toBeLessThanOrEqual(30000);
+
+    // Make each retry due and let the poller pick it up
+    for (let attempt = 2; attempt <= 6; attempt++) {
+      const due = Date.now() - 1;
+      docs.set(path, { ...docs.get(path), next_attempt_at: { toMillis: () => due } });
+      await service.poll();
+
+      if (attempt === 2) {
+        expect(docs.get(path).next_attempt_at.toMillis() - Date.now()).toBeGreaterThan(55000);
+      }
+    }
+
+    expect(docs.get(path)).toMatchObject({ status: "dead_letter", attempts: 6, next_attempt_at: null });
+    expect(mockFetch).toHaveBeenCalledTimes(6);
+  });
+
+  it("should redeliver dead-lettered deliveries", async () => {
+    mockFetch.mockRejectedValueOnce(new Error("ECONNREFUSED"));
+    const webhook = await service.create(userId, { url: "https://example.com/hooks", events: ["message:received"] });
+    await service.dispatch(userId, "message:received", { body: "Hi" });
+
+    const [path, delivery] = deliveries()[0];
+    docs.set(path, { ...delivery, status: "dead_letter" });
+
+    await expect(service.redeliver(userId, webhook.id, delivery.id)).resolves.toBe(true);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(docs.get(path)).toMatchObject({ status: "delivered" });
+    await expect(service.redeliver(userId, webhook.id, delivery.id)).resolves.toBe(false);
+  });
+});
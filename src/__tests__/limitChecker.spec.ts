@@ -845,7 +845,7 @@ describe("LimitChecker", () => {
     });
 
     describe("Delay behavior", () => {
-      it("should return zero delay (deprecated functionality)", async () => {
+      it("should return a pacing delay for new contacts", async () => {
         mockUserDoc.data.mockReturnValue({
           whatsapp_web_settings: {
             delay_between_new_messages: 100,
@@ -870,7 +870,37 @@ describe("LimitChecker", () => {
 
         const result = await limitChecker.checkLimits(userId, phoneNumber, recipientNumber);
 
-        // Delays have been removed - always 0
+        // 100s +/- 50s
+        expect(result.delayMs).toBeGreaterThanOrEqual(50000);
+        expect(result.delayMs).toBeLessThanOrEqual(150000);
+      });
+
+      it("should not delay messages to existing contacts", async () => {
+        mockUserDoc.data.mockReturnValue({
+          whatsapp_web_settings: {
+            delay_between_new_messages: 100,
+            delay_random_variation: 50,
+            warning_threshold: 0.8,
+            enabled: true,
+          },
+        });
+
+        mockContactsQuery.empty = false;
+
+        mockPhoneDoc.data.mockReturnValue({
+          messaging_limit: 25,
+          whatsapp_web_usage: {
+            today_date: "2025-01-15",
+            new_contacts_today: 0,
+            total_messages_today: 0,
+            last_reset: admin.firestore.Timestamp.now(),
+            monthly_new_contacts: 0,
+          },
+        });
+
+        const result = await limitChecker.checkLimits(userId, phoneNumber, recipientNumber);
+
+        expect(result.isNewContact).toBe(false);
         expect(result.delayMs).toBe(0);
       });
     });
@@ -928,6 +958,48 @@ describe("LimitChecker", () => {
     });
   });
 
+  describe("getPacingDelayMs", () => {
+    afterEach(() => {
+      jest.spyOn(Math, "random").mockRestore();
+    });
+
+    it("should apply the configured delay and variation", async () => {
+      mockUserDoc.data.mockReturnValue({
+        whatsapp_web_settings: { delay_between_new_messages: 20, delay_random_variation: 10, warning_threshold: 0.8, enabled: true },
+      });
+
+      jest.spyOn(Math, "random").mockReturnValue(1);
+      await expect(limitChecker.getPacingDelayMs("user123")).resolves.toBe(30000);
+
+      jest.spyOn(Math, "random").mockReturnValue(0);
+      await expect(limitChecker.getPacingDelayMs("user123")).resolves.toBe(10000);
+    });
+
+    it("should use default settings when none are configured", async () => {
+      mockUserDoc.data.mockReturnValue({});
+      jest.spyOn(Math, "random").mockReturnValue(0.5);
+
+      await expect(limitChecker.getPacingDelayMs("user123")).resolves.toBe(45000);
+    });
+
+    it("should never return a negative delay", async () => {
+      mockUserDoc.data.mockReturnValue({
+        whatsapp_web_settings: { delay_between_new_messages: 5, delay_random_variation: 30, warning_threshold: 0.8, enabled: true },
+      });
+      jest.spyOn(Math, "random").mockReturnValue(0);
+
+      await expect(limitChecker.getPacingDelayMs("user123")).resolves.toBe(0);
+    });
+
+    it("should not delay when limits are disabled", async () => {
+      mockUserDoc.data.mockReturnValue({
+        whatsapp_web_settings: { delay_between_new_messages: 45, delay_random_variation: 30, warning_threshold: 0.8, enabled: false },
+      });
+
+      await expect(limitChecker.getPacingDelayMs("user123")).resolves.toBe(0);
+    });
+  });
+
   describe("Edge cases", () => {
     const userId = "user123";
     const phoneNumber = "+1234567890";
@@ -1,9 +1,12 @@
 import { MediaService, MediaFile } from "../services/MediaService";
 import { Storage } from "@google-cloud/storage";
 import { Jimp } from "jimp";
+import { execFile } from "child_process";
+import { promises as fs } from "fs";
 
 // Mock dependencies
 jest.mock("@google-cloud/storage");
+jest.mock("child_process");
 jest.mock("jimp");
 jest.mock("pino", () => ({
   __esModule: true,
@@ -67,6 +70,7 @@ describe("MediaService", () => {
 
       expect(result).toEqual({
         url: "https://signed-url.com/file.jpg",
+        mediaId: expect.any(String),
         filename: expect.stringMatching(/whatsapp-media\/user123\/\+1234567890\/\d+_.+\.jpg/),
         contentType: "image/jpeg",
         size: expect.any(Number), // Size may change due to processing
@@ -151,6 +155,52 @@ describe("MediaService", () => {
     });
   });
 
+  describe("content deduplication", () => {
+    const testMediaFile: MediaFile = {
+      buffer: Buffer.from("brochure pdf"),
+      mimetype: "application/pdf",
+      size: 12,
+      originalname: "brochure.pdf",
+    };
+    let hashDocs: Map<string, any>;
+    let dedupService: MediaService;
+
+    beforeEach(() => {
+      hashDocs = new Map();
+      const docRef = (hash: string) => ({
+        get: jest.fn(async () => ({ exists: hashDocs.has(hash), data: () => hashDocs.get(hash) })),
+        set: jest.fn(async (data: any) => void hashDocs.set(hash, data)),
+        update: jest.fn(async () => undefined),
+        delete: jest.fn(async () => void hashDocs.delete(hash)),
+      });
+      const firestore: any = {
+        collection: () => ({ doc: () => ({ collection: () => ({ doc: docRef }) }) }),
+      };
+      mockStorageFile.exists = jest.fn().mockResolvedValue([true]);
+
+      dedupService = new MediaService(firestore);
+    });
+
+    it("should reuse the stored object for identical content", async () => {
+      const first = await dedupService.uploadMedia(testMediaFile, "user123", "+1234567890");
+      const second = await dedupService.uploadMedia(testMediaFile, "user123", "+1987654321");
+
+      expect(second.filename).toBe(first.filename);
+      expect(mockStorageFile.save).toHaveBeenCalledTimes(1);
+      expect(dedupService.getMetrics()).toEqual({ uploads: 1, deduplicated: 1, dedupRatio: 0.5, bytesSaved: first.size });
+    });
+
+    it("should upload again when the stored object was deleted", async () => {
+      await dedupService.uploadMedia(testMediaFile, "user123", "+1234567890");
+      mockStorageFile.exists.mockResolvedValueOnce([false]);
+
+      await dedupService.uploadMedia(testMediaFile, "user123", "+1234567890");
+
+      expect(mockStorageFile.save).toHaveBeenCalledTimes(2);
+      expect(dedupService.getMetrics().deduplicated).toBe(0);
+    });
+  });
+
   describe("downloadAndUploadWhatsAppMedia", () => {
     it("should download and upload WhatsApp media", async () => {
       const mockDownload = jest.fn().mockResolvedValue(Buffer.from("whatsapp media"));
@@ -170,6 +220,61 @@ describe("MediaService", () => {
     });
   });
 
+  describe("generateVideoThumbnail", () => {
+    const mockExecFile = execFile as unknown as jest.Mock;
+
+    it("should return the first frame extracted by ffmpeg", async () => {
+      mockExecFile.mockImplementation((_command: string, args: string[], _options: any, callback: any) => {
+        fs.writeFile(args[args.length - 1], Buffer.from("jpeg data")).then(() => callback(null, "", ""));
+      });
+
+      const thumbnail = await mediaService.generateVideoThumbnail(Buffer.from("video data"));
+
+      expect(thumbnail).toEqual(Buffer.from("jpeg data"));
+      expect(mockExecFile).toHaveBeenCalledWith("ffmpeg", expect.arrayContaining(["-frames:v", "1"]), expect.any(Object), expect.any(Function));
+    });
+
+    it("should return null when ffmpeg is unavailable", async () => {
+      mockExecFile.mockImplementation((_command: string, _args: string[], _options: any, callback: any) => {
+        callback(Object.assign(new Error("spawn ffmpeg ENOENT"), { code: "ENOENT" }));
+      });
+
+      await expect(mediaService.generateVideoThumbnail(Buffer.from("video data"))).resolves.toBeNull();
+    });
+  });
+
+  describe("media ids", () => {
+    const filename = "whatsapp-media/user123/+1234567890/1700000000000_abc.jpg";
+
+    it("should round-trip an object path through its media id", () => {
+      const mediaId = MediaService.toMediaId(filename);
+
+      expect(mediaId).toMatch(/^[A-Za-z0-9_-]+$/);
+      expect(MediaService.parseMediaId(mediaId)).toBe(filename);
+      expect(MediaService.isOwnedBy(filename, "user123")).toBe(true);
+      expect(MediaService.isOwnedBy(filename, "user12")).toBe(false);
+    });
+
+    it("should reject ids outside the media folder", () => {
+      expect(MediaService.parseMediaId(MediaService.toMediaId("sessions/user123/creds.json"))).toBeNull();
+      expect(MediaService.parseMediaId("not/base64url")).toBeNull();
+    });
+
+    it("should extract the object path from a signed URL", () => {
+      const url = "https://storage.googleapis.com/test-bucket/whatsapp-media/user123/%2B1234567890/1700000000000_abc.jpg?X-Goog-Signature=abc";
+
+      expect(MediaService.objectPathFromUrl(url)).toBe(filename);
+      expect(MediaService.objectPathFromUrl("https://example.com/whatsapp-media/a.jpg")).toBeNull();
+    });
+
+    it("should sign a fresh URL only for existing objects", async () => {
+      mockStorageFile.exists = jest.fn().mockResolvedValueOnce([true]).mockResolvedValueOnce([false]);
+
+      await expect(mediaService.getSignedUrl(filename, 3600 * 1000)).resolves.toBe("https://signed-url.com/file.jpg");
+      await expect(mediaService.getSignedUrl(filename, 3600 * 1000)).resolves.toBeNull();
+    });
+  });
+
   describe("deleteMedia", () => {
     it("should delete media file", async () => {
       const filename = "whatsapp-media/user123/+1234567890/test.jpg";
@@ -277,6 +382,7 @@ describe("MediaService Integration", () => {
       contentType: "image/jpeg",
       size: expect.any(Number),
       bucket: expect.any(String), // Bucket name depends on environment
+      mediaId: expect.any(String),
     });
 
     // Verify no compression was attempted for small image
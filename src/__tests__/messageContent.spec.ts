@@ -0,0 +1,149 @@
+import {
+  applyReplyContext,
+  buildMessageContent,
+  buildStructuredContent,
+  extractContactCards,
+  extractJpegThumbnail,
+  extractLocation,
+  extractStructuredFields,
+  formatContactCardsText,
+  formatLocationText,
+  toMentionJids,
+} from "../utils/messageContent";
+
+describe("messageContent", () => {
+  describe("toMentionJids", () => {
+    it("should convert phone numbers to WhatsApp JIDs", () => {
+      expect(toMentionJids(["+31612345678", "+14155552671"])).toEqual(["31612345678@s.whatsapp.net", "14155552671@s.whatsapp.net"]);
+    });
+
+    it("should pass JIDs through unchanged", () => {
+      expect(toMentionJids(["144246610911481@lid"])).toEqual(["144246610911481@lid"]);
+    });
+
+    it("should reject invalid entries", () => {
+      expect(toMentionJids(["+31612345678", "not-a-number"])).toBeNull();
+      expect(toMentionJids([12345])).toBeNull();
+    });
+  });
+
+  describe("applyReplyContext", () => {
+    const quoted = { id: "3EB0ABC123", participant: "31612345678@s.whatsapp.net", body: "Original message" };
+
+    it("should quote the stored message", () => {
+      const content = applyReplyContext(buildMessageContent("Reply")!, quoted);
+
+      expect(content).toEqual({
+        text: "Reply",
+        contextInfo: {
+          stanzaId: "3EB0ABC123",
+          participant: "31612345678@s.whatsapp.net",
+          quotedMessage: { conversation: "Original message" },
+        },
+      });
+    });
+
+    it("should add mentions to media messages", () => {
+      const content = applyReplyContext(buildMessageContent("Look @31612345678", { type: "image" }, "https://example.com/a.jpg")!, null, [
+        "31612345678@s.whatsapp.net",
+      ]);
+
+      expect(content).toMatchObject({ caption: "Look @31612345678", mentions: ["31612345678@s.whatsapp.net"] });
+      expect(content).not.toHaveProperty("contextInfo");
+    });
+
+    it("should leave content unchanged without reply context", () => {
+      expect(applyReplyContext(buildMessageContent("Hello")!, null, [])).toEqual({ text: "Hello" });
+    });
+  });
+
+  describe("buildMessageContent", () => {
+    it("should embed a video thumbnail as base64", () => {
+      const content = buildMessageContent("Watch", { type: "video", thumbnail: Buffer.from("jpeg") }, "https://example.com/a.mp4");
+
+      expect(content).toEqual({ video: { url: "https://example.com/a.mp4" }, caption: "Watch", jpegThumbnail: Buffer.from("jpeg").toString("base64") });
+    });
+  });
+
+  describe("buildStructuredContent", () => {
+    it("should return no content when nothing structured is requested", () => {
+      expect(buildStructuredContent({})).toEqual({ content: null });
+    });
+
+    it("should build a location message", () => {
+      expect(buildStructuredContent({ location: { latitude: 52.3791, longitude: 4.9003, name: "Central Station" } })).toEqual({
+        content: { location: { degreesLatitude: 52.3791, degreesLongitude: 4.9003, name: "Central Station" } },
+      });
+    });
+
+    it("should reject out-of-range coordinates", () => {
+      expect(buildStructuredContent({ location: { latitude: 120, longitude: 4.9 } }).error).toBeDefined();
+    });
+
+    it("should build a vCard for each contact", () => {
+      const { content } = buildStructuredContent({ contacts: [{ name: "Jane Doe", phoneNumber: "+31612345678", organization: "Acme" }] });
+
+      expect((content as any).contacts.displayName).toBe("Jane Doe");
+      expect((content as any).contacts.contacts[0].vcard).toContain("TEL;type=CELL;type=VOICE;waid=31612345678:+31612345678");
+      expect((content as any).contacts.contacts[0].vcard).toContain("ORG:Acme");
+    });
+
+    it("should reject contacts without a valid phone number", () => {
+      expect(buildStructuredContent({ contacts: [{ name: "Jane Doe", phoneNumber: "nope" }] }).error).toBeDefined();
+    });
+
+    it("should build a poll", () => {
+      expect(buildStructuredContent({ poll: { question: "Lunch?", options: ["Pizza", "Sushi"], selectableCount: 0 } })).toEqual({
+        content: { poll: { name: "Lunch?", values: ["Pizza", "Sushi"], selectableCount: 0 } },
+      });
+    });
+
+    it("should reject polls with duplicate or too few options", () => {
+      expect(buildStructuredContent({ poll: { question: "Lunch?", options: ["Pizza", "Pizza"] } }).error).toBeDefined();
+      expect(buildStructuredContent({ poll: { question: "Lunch?", options: ["Pizza"] } }).error).toBeDefined();
+    });
+
+    it("should reject more than one structured type", () => {
+      expect(buildStructuredContent({ location: { latitude: 1, longitude: 1 }, poll: { question: "?", options: ["a", "b"] } }).error).toBeDefined();
+    });
+  });
+
+  describe("inbound extraction", () => {
+    it("should extract coordinates from location messages", () => {
+      const location = extractLocation({ locationMessage: { degreesLatitude: 52.3791, degreesLongitude: 4.9003, name: "Central Station" } });
+
+      expect(location).toEqual({ latitude: 52.3791, longitude: 4.9003, name: "Central Station", address: null, url: null, live: false });
+      expect(formatLocationText(location!)).toBe("[Location: Central Station (52.3791, 4.9003)]");
+    });
+
+    it("should extract names and phone numbers from vCards", () => {
+      const cards = extractContactCards({
+        contactMessage: {
+          displayName: "Jane Doe",
+          vcard: "BEGIN:VCARD\nVERSION:3.0\nFN:Jane Doe\nitem1.TEL;waid=31612345678:+31 6 12345678\nTEL;type=HOME:+1 (415) 555-2671\nEND:VCARD",
+        },
+      });
+
+      expect(cards).toEqual([expect.objectContaining({ name: "Jane Doe", phoneNumbers: ["+31612345678", "+14155552671"] })]);
+      expect(formatContactCardsText(cards!)).toBe("[Contact: Jane Doe +31612345678 +14155552671]");
+    });
+
+    it("should extract embedded JPEG thumbnails", () => {
+      expect(extractJpegThumbnail({ videoMessage: { jpegThumbnail: new Uint8Array([0xff, 0xd8]) } })).toEqual(Buffer.from([0xff, 0xd8]));
+      expect(extractJpegThumbnail({ documentMessage: { jpegThumbnail: Buffer.from([0xff, 0xd8]).toString("base64") } })).toEqual(Buffer.from([0xff, 0xd8]));
+    });
+
+    it("should return null for other message types", () => {
+      expect(extractLocation({ conversation: "Hi" })).toBeNull();
+      expect(extractContactCards({ conversation: "Hi" })).toBeNull();
+      expect(extractJpegThumbnail({ audioMessage: { mimetype: "audio/ogg" } })).toBeNull();
+    });
+
+    it("should only return the structured fields a message carries", () => {
+      expect(extractStructuredFields({ conversation: "Hi" })).toEqual({});
+      expect(extractStructuredFields({ locationMessage: { degreesLatitude: 52.3791, degreesLongitude: 4.9003 } })).toEqual({
+        location: expect.objectContaining({ latitude: 52.3791, longitude: 4.9003 }),
+      });
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import express from "express";
+import { Server } from "http";
+import { AddressInfo } from "net";
+import { createApiRoutes } from "../api/routes";
+
+jest.mock("pino", () => ({
+  __esModule: true,
+  default: () => ({
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  }),
+}));
+
+describe("API routes", () => {
+  let server: Server;
+  let baseUrl: string;
+  let mockSocket: any;
+  let mockConnectionPool: any;
+  let connection: any;
+
+  const phoneNumber = "+31687654321";
+  const groupId = "120363041234567890";
+  const knownLid = "144246610911481@lid"; // Mapped to +31611111111
+
+  const request = async (method: string, path: string, body?: unknown) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { "content-type": "application/json", "x-api-key": "test-api-key", "x-user-id": "user123" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: response.status, body: (await response.json()) as any };
+  };
+
+  beforeAll(async () => {
+    mockConnectionPool = {
+      getConnection: jest.fn(() => connection),
+      listChats: jest.fn().mockResolvedValue({ items: [], nextCursor: null }),
+      resolveGroupParticipants: jest.fn(async (_userId: string, participants: Array<{ jid: string; alt?: string | null }>) =>
+        participants.map(({ jid, alt }) => {
+          const phoneJid = [jid, alt].find((value) => value?.endsWith("@s.whatsapp.net"));
+          const lid = [jid, alt].find((value) => value?.endsWith("@lid")) || null;
+          const phone = phoneJid ? `+${phoneJid.split("@")[0]}` : lid === knownLid ? "+31611111111" : null;
+          return { jid, phone_number: phone, lid };
+        })
+      ),
+    };
+
+    const app = express();
+    app.use(express.json());
+    app.use("/api", createApiRoutes(mockConnectionPool, {} as any, {} as any));
+
+    server = app.listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    mockConnectionPool.getConnection.mockClear();
+    mockSocket = {
+      groupParticipantsUpdate: jest.fn(async (_jid: string, participants: string[]) => participants.map((jid) => ({ jid, status: "200" }))),
+      groupMetadata: jest.fn(async (jid: string) => ({
+        id: jid,
+        subject: "Team",
+        creation: 1700000000,
+        participants: [
+          { id: "31612345678@s.whatsapp.net", admin: "superadmin" },
+          { id: knownLid, admin: null },
+          { id: "999999999999@lid", admin: null },
+        ],
+      })),
+    };
+    connection = { socket: mockSocket, state: { connection: "open" } };
+  });
+
+  describe("POST /messages/send", () => {
+    it.each([
+      ["location", { latitude: 52.3791, longitude: 4.9003 }],
+      ["contacts", [{ name: "Jane Doe", phoneNumber: "+31612345678" }]],
+    ])("should reject text combined with %s", async (field, value) => {
+      const { status, body } = await request("POST", "/messages/send", { phoneNumber, toNumber: "+31612345678", message: "See you there", [field]: value });
+
+      expect(status).toBe(400);
+      expect(body.error).toBe("message can't be combined with location, contacts or poll; send the text as a separate message");
+      expect(mockConnectionPool.getConnection).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("GET /chats", () => {
+    it.each([
+      ["-5", 1],
+      ["abc", 20],
+      ["500", 100],
+    ])("should clamp limit=%s to %d", async (limit, expected) => {
+      const { status } = await request("GET", `/chats?limit=${limit}`);
+
+      expect(status).toBe(200);
+      expect(mockConnectionPool.listChats).toHaveBeenLastCalledWith("user123", { limit: expected, cursor: undefined });
+    });
+  });
+
+  describe("GET /groups/:groupId", () => {
+    it("should resolve participants to phone numbers through the LID mappings", async () => {
+      const { status, body } = await request("GET", `/groups/${groupId}?phoneNumber=${encodeURIComponent(phoneNumber)}`);
+
+      expect(status).toBe(200);
+      expect(body.participants).toEqual([
+        { jid: "31612345678@s.whatsapp.net", phoneNumber: "+31612345678", lid: null, admin: "superadmin" },
+        { jid: knownLid, phoneNumber: "+31611111111", lid: knownLid, admin: null },
+        { jid: "999999999999@lid", phoneNumber: null, lid: "999999999999@lid", admin: null },
+      ]);
+    });
+  });
+
+  describe("POST /groups/:groupId/participants", () => {
+    it.each(["add", "remove", "promote", "demote"])("should %s participants and report each result", async (action) => {
+      const { status, body } = await request("POST", `/groups/${groupId}/participants`, { phoneNumber, action, participants: ["+31612345678"] });
+
+      expect(status).toBe(200);
+      expect(mockSocket.groupParticipantsUpdate).toHaveBeenCalledWith(`${groupId}@g.us`, ["31612345678@s.whatsapp.net"], action);
+      expect(body).toEqual({
+        groupId: `${groupId}@g.us`,
+        action,
+        results: [{ jid: "31612345678@s.whatsapp.net", phoneNumber: "+31612345678", lid: null, status: "200", success: true }],
+      });
+    });
+
+    it("should resolve LID results to phone numbers and leave unknown LIDs without one", async () => {
+      mockSocket.groupParticipantsUpdate.mockResolvedValue([
+        { jid: knownLid, status: "200" },
+        { jid: "999999999999@lid", status: "403" },
+      ]);
+
+      const { body } = await request("POST", `/groups/${groupId}/participants`, {
+        phoneNumber,
+        action: "promote",
+        participants: ["+31611111111", "+31622222222"],
+      });
+
+      expect(body.results).toEqual([
+        { jid: knownLid, phoneNumber: "+31611111111", lid: knownLid, status: "200", success: true },
+        { jid: "999999999999@lid", phoneNumber: null, lid: "999999999999@lid", status: "403", success: false },
+      ]);
+    });
+
+    it("should reject unknown actions", async () => {
+      const { status, body } = await request("POST", `/groups/${groupId}/participants`, { phoneNumber, action: "ban", participants: ["+31612345678"] });
+
+      expect(status).toBe(400);
+      expect(body.error).toBe("action must be one of: add, remove, promote, demote");
+      expect(mockSocket.groupParticipantsUpdate).not.toHaveBeenCalled();
+    });
+
+    it("should reject a missing or empty participant list", async () => {
+      const { status, body } = await request("POST", `/groups/${groupId}/participants`, { phoneNumber, action: "add", participants: [] });
+
+      expect(status).toBe(400);
+      expect(body.error).toBe("participants must be a non-empty array of phone numbers");
+    });
+
+    it("should list invalid participant numbers", async () => {
+      const { status, body } = await request("POST", `/groups/${groupId}/participants`, {
+        phoneNumber,
+        action: "add",
+        participants: ["+31612345678", "not a number"],
+      });
+
+      expect(status).toBe(400);
+      expect(body).toEqual({ error: "Invalid participant phone numbers", invalid: ["not a number"] });
+      expect(mockSocket.groupParticipantsUpdate).not.toHaveBeenCalled();
+    });
+
+    it("should reject invalid group ids", async () => {
+      const { status, body } = await request("POST", "/groups/not-a-group/participants", { phoneNumber, action: "add", participants: ["+31612345678"] });
+
+      expect(status).toBe(400);
+      expect(body.error).toBe("Invalid group id");
+    });
+
+    it("should return 404 without an open connection", async () => {
+      connection = undefined;
+
+      const { status, body } = await request("POST", `/groups/${groupId}/participants`, { phoneNumber, action: "add", participants: ["+31612345678"] });
+
+      expect(status).toBe(404);
+      expect(body.error).toBe("No active connection");
+    });
+
+    it("should return 403 when we're not a group admin", async () => {
+      mockSocket.groupParticipantsUpdate.mockRejectedValue(Object.assign(new Error("forbidden"), { output: { statusCode: 403 } }));
+
+      const { status, body } = await request("POST", `/groups/${groupId}/participants`, { phoneNumber, action: "promote", participants: ["+31612345678"] });
+
+      expect(status).toBe(403);
+      expect(body.error).toBe("Not allowed to manage this group");
+    });
+  });
+});
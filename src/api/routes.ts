@@ -6,14 +6,40 @@ import { ProxyManager } from "../core/ProxyManager";
 import { ConnectionStateManager } from "../services/connectionStateManager";
 import { LimitChecker } from "../services/limitChecker";
 import { ReconnectionService } from "../services/ReconnectionService";
+import { MessageScheduler, ScheduledMessageStatus } from "../services/MessageScheduler";
+import { CampaignService, CampaignAction, CampaignRecipientStatus, Campaign } from "../services/CampaignService";
+import { IdempotencyStore } from "../services/IdempotencyStore";
+import { MessageStatusTracker, MessageStatusRecord } from "../services/MessageStatusTracker";
+import { AutoReplyService, AutoReplyRule, AutoReplyRuleInput, AUTO_REPLY_TRIGGERS } from "../services/AutoReplyService";
+import { MediaRetentionService } from "../services/MediaRetentionService";
+import { MediaService } from "../services/MediaService";
+import { NumberCheckService, NumberCheckJob, NumberCheckResult } from "../services/NumberCheckService";
+import { CHAT_ACTIONS, ChatAction } from "../services/ChatStateService";
+import { ConversationService } from "../services/ConversationService";
+import type { GroupParticipantRecord } from "../services/GroupConversationService";
+import { WebhookService, Webhook, WebhookDelivery, WebhookDeliveryStatus, WebhookEventType, WEBHOOK_EVENT_TYPES } from "../services/WebhookService";
 import pino from "pino";
-import { WAMessageContent } from "@whiskeysockets/baileys";
 import { formatPhoneNumberSafe } from "../utils/phoneNumber";
+import {
+  applyReplyContext,
+  buildMessageContent,
+  buildStructuredContent,
+  getDefaultMimetype,
+  OutboundMedia,
+  PersistedMedia,
+  QuotedMessageRef,
+  toMentionJids,
+} from "../utils/messageContent";
 import { Firestore } from "@google-cloud/firestore";
+import type { GroupMetadata } from "@whiskeysockets/baileys";
 
 const logger = pino({ name: "API" });
 const limitChecker = new LimitChecker();
 
+const MESSAGE_EDIT_WINDOW_MS = 15 * 60 * 1000; // WhatsApp rejects edits after 15 minutes
+const GROUP_PARTICIPANT_ACTIONS = ["add", "remove", "promote", "demote"] as const;
+const MEDIA_URL_TTL_MS = parseInt(process.env.MEDIA_URL_TTL_SECONDS || "3600") * 1000; // Signed URLs handed out by GET /media/:id
+
 // Extend Request to include authenticated user
 interface AuthenticatedRequest extends Request {
   user?: {
@@ -48,13 +74,286 @@ const authenticate = (req: AuthenticatedRequest, res: Response, next: Function)
   return;
 };
 
+/**
+ * Upload a base64/Buffer media payload to Cloud Storage and return its URL
+ */
+async function uploadRequestMedia(connectionPool: ConnectionPool, media: OutboundMedia, userId: string, phoneNumber: string): Promise<string> {
+  const mediaService = connectionPool.getMediaService();
+
+  // Convert base64 to buffer if needed
+  let buffer: Buffer;
+  if (typeof media.buffer === "string") {
+    // Assume base64 encoded
+    buffer = Buffer.from(media.buffer, "base64");
+  } else if (Buffer.isBuffer(media.buffer)) {
+    buffer = media.buffer;
+  } else {
+    throw new Error("Invalid buffer format");
+  }
+
+  const uploadResult = await mediaService.uploadMedia(
+    {
+      buffer,
+      mimetype: media.mimetype || getDefaultMimetype(media.type),
+      size: buffer.length,
+      originalname: media.fileName || `media_${Date.now()}`,
+    },
+    userId,
+    phoneNumber
+  );
+
+  return uploadResult.url;
+}
+
+/**
+ * JPEG preview (base64) for an outbound video - the caller's thumbnail, or one generated from an uploaded buffer
+ * Null for other media, and for videos sent by URL without one (Baileys then tries to generate its own)
+ */
+async function resolveVideoThumbnail(connectionPool: ConnectionPool, media: OutboundMedia): Promise<string | null> {
+  if (media.type !== "video") {
+    return null;
+  }
+  if (media.thumbnail) {
+    return Buffer.isBuffer(media.thumbnail) ? media.thumbnail.toString("base64") : media.thumbnail;
+  }
+  if (!media.buffer) {
+    return null;
+  }
+
+  const buffer = typeof media.buffer === "string" ? Buffer.from(media.buffer, "base64") : media.buffer;
+  const thumbnail = await connectionPool.getMediaService().generateVideoThumbnail(buffer);
+  return thumbnail ? thumbnail.toString("base64") : null;
+}
+
+/**
+ * Resolve request media into a URL-only attachment that can be persisted for a deferred send
+ * Returns an error message for invalid media instead of throwing
+ */
+async function resolvePersistedMedia(
+  connectionPool: ConnectionPool,
+  media: OutboundMedia | undefined,
+  userId: string,
+  phoneNumber: string
+): Promise<{ media: PersistedMedia | null; error?: string }> {
+  if (!media) {
+    return { media: null };
+  }
+
+  if (!buildMessageContent(undefined, media)) {
+    return { media: null, error: "Unsupported media type" };
+  }
+
+  let mediaUrl: string;
+  if (media.buffer && !media.url) {
+    mediaUrl = await uploadRequestMedia(connectionPool, media, userId, phoneNumber);
+  } else if (media.url) {
+    mediaUrl = media.url;
+  } else {
+    return { media: null, error: "Media must include either 'url' or 'buffer' field" };
+  }
+
+  return {
+    media: {
+      type: media.type,
+      url: mediaUrl,
+      mimetype: media.mimetype || null,
+      fileName: media.fileName || null,
+      voiceNote: media.voiceNote || false,
+      thumbnail: await resolveVideoThumbnail(connectionPool, media),
+    },
+  };
+}
+
+/**
+ * Convert a stored campaign into the API response shape
+ */
+function serializeCampaign(campaign: Campaign) {
+  return {
+    campaignId: campaign.id,
+    name: campaign.name,
+    message: campaign.message,
+    media: campaign.media,
+    status: campaign.status,
+    pauseReason: campaign.pause_reason || null,
+    totals: campaign.totals,
+    createdAt: campaign.created_at.toDate().toISOString(),
+    startedAt: campaign.started_at ? campaign.started_at.toDate().toISOString() : null,
+    completedAt: campaign.completed_at ? campaign.completed_at.toDate().toISOString() : null,
+  };
+}
+
+/**
+ * Convert a message lifecycle record into the API response shape
+ */
+function serializeMessageStatus(record: MessageStatusRecord) {
+  const toIso = (timestamp: { toDate(): Date } | null | undefined) => (timestamp ? timestamp.toDate().toISOString() : null);
+
+  return {
+    trackingId: record.tracking_id,
+    messageId: record.message_id,
+    toNumber: record.to_number,
+    path: record.path,
+    status: record.status,
+    failureReason: record.failure_reason,
+    queuedAt: toIso(record.queued_at),
+    sentAt: toIso(record.sent_at),
+    serverAckAt: toIso(record.server_ack_at),
+    deliveredAt: toIso(record.delivered_at),
+    readAt: toIso(record.read_at),
+    playedAt: toIso(record.played_at),
+    failedAt: toIso(record.failed_at),
+    events: (record.events || []).map((event) => ({ status: event.status, at: toIso(event.at), reason: event.reason || null })),
+    updatedAt: toIso(record.updated_at),
+  };
+}
+
+/**
+ * Convert a stored webhook into the API response shape (the secret is only returned on create)
+ */
+function serializeWebhook(webhook: Webhook) {
+  return {
+    webhookId: webhook.id,
+    url: webhook.url,
+    events: webhook.events,
+    description: webhook.description,
+    active: webhook.active,
+    createdAt: webhook.created_at.toDate().toISOString(),
+  };
+}
+
+/**
+ * Convert a webhook delivery log entry into the API response shape
+ */
+function serializeWebhookDelivery(delivery: WebhookDelivery) {
+  return {
+    deliveryId: delivery.id,
+    event: delivery.event,
+    status: delivery.status,
+    attempts: delivery.attempts,
+    lastStatusCode: delivery.last_status_code,
+    lastError: delivery.last_error,
+    nextAttemptAt: delivery.next_attempt_at ? delivery.next_attempt_at.toDate().toISOString() : null,
+    createdAt: delivery.created_at.toDate().toISOString(),
+    deliveredAt: delivery.delivered_at ? delivery.delivered_at.toDate().toISOString() : null,
+    payload: JSON.parse(delivery.body),
+  };
+}
+
+/**
+ * Convert a number check job into the API response shape (inputs and results are left out)
+ */
+function serializeNumberCheckJob(job: NumberCheckJob) {
+  return {
+    jobId: job.id,
+    phoneNumber: job.phone_number,
+    status: job.status,
+    total: job.total,
+    checked: job.checked,
+    error: job.error,
+    createdAt: job.created_at.toDate().toISOString(),
+    completedAt: job.completed_at ? job.completed_at.toDate().toISOString() : null,
+  };
+}
+
+/**
+ * Counts per outcome of a number check
+ */
+function summarizeNumberCheck(results: NumberCheckResult[]) {
+  return {
+    total: results.length,
+    invalid: results.filter((result) => !result.phoneNumber).length,
+    onWhatsApp: results.filter((result) => result.exists === true).length,
+    notOnWhatsApp: results.filter((result) => result.phoneNumber && result.exists === false).length,
+    lookupFailed: results.filter((result) => result.error === "lookup_failed").length,
+    cached: results.filter((result) => result.cached).length,
+  };
+}
+
+/**
+ * Page size from ?limit= - the default when missing or not a number, clamped to 1..max
+ */
+function parseLimit(value: unknown, defaultLimit: number, max: number): number {
+  const limit = parseInt(String(value ?? "")) || defaultLimit;
+  return Math.min(Math.max(limit, 1), max);
+}
+
+/**
+ * Accept a group id with or without the @g.us suffix - returns null if it isn't a group id
+ */
+function toGroupJid(groupId: string): string | null {
+  const id = groupId.replace(/@g\.us$/, "");
+  return /^\d+(-\d+)?$/.test(id) ? `${id}@g.us` : null;
+}
+
+/**
+ * Convert Baileys group metadata into the API response shape
+ * participants are the metadata's participants resolved to phone number and LID, in the same order
+ */
+function serializeGroupMetadata(metadata: GroupMetadata, participants: Array<Omit<GroupParticipantRecord, "admin">>) {
+  return {
+    groupId: metadata.id,
+    subject: metadata.subject,
+    description: metadata.desc || null,
+    owner: metadata.owner || null,
+    createdAt: metadata.creation ? new Date(metadata.creation * 1000).toISOString() : null,
+    announce: !!metadata.announce,
+    restrict: !!metadata.restrict,
+    size: metadata.size ?? metadata.participants.length,
+    participants: metadata.participants.map((participant, index) => ({
+      jid: participant.id,
+      phoneNumber: participants[index].phone_number,
+      lid: participants[index].lid,
+      admin: participant.admin || null,
+    })),
+  };
+}
+
+/**
+ * Convert a stored auto-reply rule into the API response shape
+ */
+function serializeAutoReplyRule(rule: AutoReplyRule) {
+  return {
+    ruleId: rule.id,
+    name: rule.name,
+    trigger: rule.trigger,
+    keywords: rule.keywords,
+    pattern: rule.pattern,
+    businessHours: rule.business_hours,
+    reply: rule.reply,
+    cooldownMinutes: rule.cooldown_minutes,
+    priority: rule.priority,
+    active: rule.active,
+    replyCount: rule.reply_count,
+    lastTriggeredAt: rule.last_triggered_at ? rule.last_triggered_at.toDate().toISOString() : null,
+    createdAt: rule.created_at.toDate().toISOString(),
+  };
+}
+
+/**
+ * Validate a webhook's event filter - returns an error message, or null if it's usable
+ */
+function validateWebhookEvents(events: unknown): string | null {
+  if (!Array.isArray(events) || events.length === 0) {
+    return "events must be a non-empty array";
+  }
+
+  const unknown = events.filter((event) => !WEBHOOK_EVENT_TYPES.includes(event));
+  return unknown.length > 0 ? `Unknown events: ${unknown.join(", ")}` : null;
+}
+
 export function createApiRoutes(
   connectionPool: ConnectionPool,
   sessionManager: SessionManager,
   proxyManager: ProxyManager,
   connectionStateManager?: ConnectionStateManager,
   reconnectionService?: ReconnectionService,
-  firestore?: Firestore
+  firestore?: Firestore,
+  messageScheduler?: MessageScheduler,
+  campaignService?: CampaignService,
+  idempotencyStore?: IdempotencyStore,
+  webhookService?: WebhookService,
+  autoReplyService?: AutoReplyService,
+  mediaRetentionService?: MediaRetentionService
 ): Router {
   const router = Router();
 
@@ -67,7 +366,7 @@ export function createApiRoutes(
    */
   router.post("/sessions/initialize", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
     try {
-      const { phoneNumber, proxyCountry, countryCode, browserName, forceNew, importExistingChats = false } = req.body;
+      const { phoneNumber, proxyCountry, countryCode, browserName, forceNew, importExistingChats = false, syncGroups } = req.body;
       const userId = req.user!.userId;
 
       if (!phoneNumber) {
@@ -96,6 +395,11 @@ export function createApiRoutes(
         });
       }
 
+      // Group sync is a stored per-number setting (survives reconnects), so only touch it when asked to
+      if (typeof syncGroups === "boolean") {
+        await connectionPool.setGroupSync(userId, formattedPhone, syncGroups);
+      }
+
       // Add connection to pool with optional country, country code, and browser name
       const added = await connectionPool.addConnection(userId, formattedPhone, proxyCountry, countryCode, false, browserName, forceNew, importExistingChats);
 
@@ -376,6 +680,43 @@ export function createApiRoutes(
     }
   });
 
+  /**
+   * PUT /sessions/:userId/group-sync
+   * Opt a phone number in or out of storing group chats
+   * Body: { phoneNumber, enabled }
+   */
+  router.put("/sessions/:userId/group-sync", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+    try {
+      const userId = req.params.userId as string;
+      const { phoneNumber, enabled } = req.body;
+
+      if (!phoneNumber) {
+        return res.status(400).json({ error: "Phone number required" });
+      }
+
+      if (typeof enabled !== "boolean") {
+        return res.status(400).json({ error: "enabled must be a boolean" });
+      }
+
+      const formattedPhone = formatPhoneNumberSafe(phoneNumber);
+      if (!formattedPhone) {
+        return res.status(400).json({ error: "Invalid phone number format" });
+      }
+
+      // Verify user access
+      if (req.user!.userId !== userId) {
+        return res.status(403).json({ error: "Forbidden" });
+      }
+
+      await connectionPool.setGroupSync(userId, formattedPhone, enabled);
+
+      res.json({ phoneNumber: formattedPhone, syncGroups: enabled });
+    } catch (error) {
+      logger.error({ error, userId: req.params.userId }, "Failed to update group sync setting");
+      return res.status(500).json({ error: "Failed to update group sync setting" });
+    }
+  });
+
   // Reconnection endpoints
   if (reconnectionService) {
     /**
@@ -552,13 +893,16 @@ export function createApiRoutes(
   /**
    * POST /messages/send
    * Send a WhatsApp message
+   * Instead of message/media, a location, contacts (vCards) or poll can be sent
+   * Optional quotedMessageId replies in-thread, mentions (phone numbers) @-mention people
+   * An optional Idempotency-Key header makes retries replay the first response instead of sending again
    */
   router.post("/messages/send", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
     const requestStart = Date.now();
     const correlationId = (req as any).correlationId || `msg_${Date.now()}`;
 
     try {
-      const { phoneNumber, toNumber, message, media } = req.body;
+      const { phoneNumber, toNumber, message, media, location, contacts, poll, quotedMessageId, mentions } = req.body;
       const userId = req.user!.userId;
 
       // Log incoming message request with sanitized data
@@ -574,17 +918,29 @@ export function createApiRoutes(
           hasMedia: !!media,
           mediaType: media?.type,
           mediaUrl: media?.url ? "provided" : "none",
+          structuredType: location ? "location" : contacts ? "contacts" : poll ? "poll" : undefined,
+          quotedMessageId,
+          mentionCount: Array.isArray(mentions) ? mentions.length : 0,
         },
         "Message send request received"
       );
 
-      if (!phoneNumber || !toNumber || (!message && !media)) {
+      if (!phoneNumber || !toNumber || (!message && !media && !location && !contacts && !poll)) {
         return res.status(400).json({
           error: "Missing required fields",
-          required: ["phoneNumber", "toNumber", "message or media"],
+          required: ["phoneNumber", "toNumber", "message, media, location, contacts or poll"],
         });
       }
 
+      // Location, contact cards and polls replace the text/media content
+      const structured = buildStructuredContent({ location, contacts, poll });
+      if (structured.error || (structured.content && media)) {
+        return res.status(400).json({ error: structured.error || "Media can't be combined with location, contacts or poll" });
+      }
+      if (structured.content && message) {
+        return res.status(400).json({ error: "message can't be combined with location, contacts or poll; send the text as a separate message" });
+      }
+
       // Format both phone numbers
       const formattedPhone = formatPhoneNumberSafe(phoneNumber);
       const formattedToNumber = formatPhoneNumberSafe(toNumber);
@@ -596,6 +952,61 @@ export function createApiRoutes(
         });
       }
 
+      const mentionJids = Array.isArray(mentions) ? toMentionJids(mentions) : null;
+      if (mentions != null && !mentionJids) {
+        return res.status(400).json({
+          error: "Invalid mentions",
+          message: "mentions must be an array of phone numbers with country codes",
+        });
+      }
+
+      // The quoted message must be part of this conversation
+      let quoted: QuotedMessageRef | null = null;
+      if (quotedMessageId) {
+        quoted = await connectionPool.getQuotedMessage(userId, formattedPhone, formattedToNumber, String(quotedMessageId));
+        if (!quoted) {
+          return res.status(404).json({ error: "Quoted message not found" });
+        }
+      }
+
+      // Retries with the same Idempotency-Key get the first response back instead of a second send
+      const idempotencyKey = req.header("Idempotency-Key");
+      if (idempotencyKey && idempotencyStore) {
+        if (idempotencyKey.length > IdempotencyStore.MAX_KEY_LENGTH) {
+          return res.status(400).json({ error: `Idempotency-Key must be at most ${IdempotencyStore.MAX_KEY_LENGTH} characters` });
+        }
+
+        const fingerprint = IdempotencyStore.fingerprint({ toNumber: formattedToNumber, message, media, location, contacts, poll, quotedMessageId, mentions });
+        const claim = await idempotencyStore.begin(userId, formattedPhone, idempotencyKey, fingerprint);
+
+        if (claim.state === "replay") {
+          logger.info({ correlationId, userId, idempotencyKey, statusCode: claim.statusCode }, "Replaying idempotent message response");
+          res.setHeader("Idempotent-Replayed", "true");
+          return res.status(claim.statusCode).json(claim.body);
+        }
+
+        if (claim.state === "in_progress") {
+          return res.status(409).json({
+            error: "Request in progress",
+            message: "A request with this Idempotency-Key is still being processed",
+          });
+        }
+
+        if (claim.state === "mismatch") {
+          return res.status(422).json({
+            error: "Idempotency-Key reused",
+            message: "This Idempotency-Key was already used with a different request",
+          });
+        }
+
+        // Record whatever this request ends up responding with (success or error)
+        const sendJson = res.json.bind(res);
+        res.json = (body: any) => {
+          void idempotencyStore.complete(userId, formattedPhone, idempotencyKey, res.statusCode, body);
+          return sendJson(body);
+        };
+      }
+
       // Check WhatsApp Web limits before sending
       const limitCheckStart = Date.now();
       const limitCheck = await limitChecker.checkLimits(userId, formattedPhone, formattedToNumber);
@@ -623,17 +1034,7 @@ export function createApiRoutes(
         });
       }
 
-      // Delay functionality removed - messages now send immediately
-      logger.info(
-        {
-          correlationId,
-          isNewContact: limitCheck.isNewContact,
-        },
-        "Message ready to send immediately"
-      );
-
-      // Build message content
-      let content: WAMessageContent;
+      // Resolve media URL (upload buffer if needed)
       let mediaUrl = null;
 
       if (media) {
@@ -642,60 +1043,13 @@ export function createApiRoutes(
         // Check if we need to upload media first
         if (media.buffer && !media.url) {
           try {
-            // Upload media to Cloud Storage
-            const mediaService = connectionPool.getMediaService();
-
-            // Convert base64 to buffer if needed
-            let buffer: Buffer;
-            if (typeof media.buffer === "string") {
-              // Assume base64 encoded
-              buffer = Buffer.from(media.buffer, "base64");
-            } else if (Buffer.isBuffer(media.buffer)) {
-              buffer = media.buffer;
-            } else {
-              throw new Error("Invalid buffer format");
-            }
-
-            // Determine mimetype from media type
-            let mimetype = media.mimetype;
-            if (!mimetype) {
-              switch (media.type) {
-                case "image":
-                  mimetype = "image/jpeg";
-                  break;
-                case "video":
-                  mimetype = "video/mp4";
-                  break;
-                case "audio":
-                  mimetype = "audio/ogg";
-                  break;
-                case "document":
-                  mimetype = "application/octet-stream";
-                  break;
-                default:
-                  mimetype = "application/octet-stream";
-              }
-            }
-
-            const uploadResult = await mediaService.uploadMedia(
-              {
-                buffer,
-                mimetype,
-                size: buffer.length,
-                originalname: media.fileName || `media_${Date.now()}`,
-              },
-              userId,
-              formattedPhone
-            );
-
-            mediaUrl = uploadResult.url;
+            mediaUrl = await uploadRequestMedia(connectionPool, media, userId, formattedPhone);
 
             logger.info(
               {
                 correlationId,
                 userId,
                 mediaType: media.type,
-                mediaSize: buffer.length,
                 uploadedUrl: mediaUrl,
               },
               "Media uploaded successfully for sending"
@@ -723,35 +1077,42 @@ export function createApiRoutes(
             error: "Media must include either 'url' or 'buffer' field",
           });
         }
+      }
 
-        // Build WhatsApp message content with media URL
-        if (media.type === "image") {
-          content = {
-            image: { url: mediaUrl },
-            caption: message,
-          } as WAMessageContent;
-        } else if (media.type === "video") {
-          content = {
-            video: { url: mediaUrl },
-            caption: message,
-          } as WAMessageContent;
-        } else if (media.type === "document") {
-          content = {
-            document: { url: mediaUrl },
-            fileName: media.fileName || "document",
-            caption: message,
-          } as WAMessageContent;
-        } else if (media.type === "audio") {
-          content = {
-            audio: { url: mediaUrl },
-            ptt: media.voiceNote || false,
-          } as WAMessageContent;
-        } else {
-          return res.status(400).json({ error: "Unsupported media type" });
-        }
-      } else {
-        // Text message
-        content = { text: message } as WAMessageContent;
+      // Build WhatsApp message content (text, or media with URL) plus any reply context
+      const thumbnail = media ? await resolveVideoThumbnail(connectionPool, media) : null;
+      const baseContent = structured.content || buildMessageContent(message, media && { ...media, thumbnail }, mediaUrl);
+      if (!baseContent) {
+        return res.status(400).json({ error: "Unsupported media type" });
+      }
+      const content = applyReplyContext(baseContent, quoted, mentionJids || undefined);
+
+      // New-contact messages are paced (and anything behind them keeps its order), so they go through
+      // the sender's outbound queue - the outcome arrives via message:sent / message:failed socket events
+      if (limitCheck.delayMs > 0 || connectionPool.getOutboundQueueLength(userId, formattedPhone) > 0) {
+        const queued = connectionPool.queueOutboundMessage(userId, formattedPhone, formattedToNumber, content, limitCheck.delayMs);
+
+        logger.info(
+          {
+            correlationId,
+            userId,
+            queuedId: queued.queuedId,
+            isNewContact: limitCheck.isNewContact,
+            delayMs: limitCheck.delayMs,
+            position: queued.position,
+          },
+          "Message queued for paced delivery"
+        );
+
+        return res.status(202).json({
+          success: true,
+          queued: true,
+          queuedId: queued.queuedId,
+          delayMs: limitCheck.delayMs,
+          position: queued.position,
+          estimatedSendAt: queued.estimatedSendAt.toISOString(),
+          correlationId,
+        });
       }
 
       // Send message using formatted phone numbers
@@ -766,7 +1127,8 @@ export function createApiRoutes(
         "Sending message to WhatsApp"
       );
 
-      const messageKey = await connectionPool.sendMessage(userId, formattedPhone, formattedToNumber, content);
+      const trackingId = MessageStatusTracker.createTrackingId();
+      const messageKey = await connectionPool.sendMessage(userId, formattedPhone, formattedToNumber, content, trackingId);
 
       const sendDuration = Date.now() - sendStart;
 
@@ -783,7 +1145,8 @@ export function createApiRoutes(
           },
           "Failed to send message - no key returned"
         );
-        return res.status(500).json({ error: "Failed to send message" });
+        // The failure reason can be looked up with GET /messages/:trackingId
+        return res.status(500).json({ error: "Failed to send message", trackingId });
       }
 
       // Log successful message send with all metrics
@@ -836,84 +1199,1664 @@ export function createApiRoutes(
     }
   });
 
-  /**
-   * POST /messages/typing
-   * Send typing indicator or presence subscription
-   */
-  router.post("/messages/typing", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
-    try {
-      const { phoneNumber, toNumber, isTyping, action } = req.body;
-      const userId = req.user!.userId;
-
-      const connection = connectionPool.getConnection(userId, phoneNumber);
+  // Scheduled message endpoints
+  if (messageScheduler) {
+    /**
+     * POST /messages/schedule
+     * Schedule a message to be sent at a future time (same payload as /messages/send plus sendAt)
+     */
+    router.post("/messages/schedule", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+      try {
+        const { phoneNumber, toNumber, message, media, sendAt } = req.body;
+        const userId = req.user!.userId;
 
-      if (!connection || connection.state.connection !== "open") {
-        return res.status(404).json({ error: "No active connection" });
-      }
+        if (!phoneNumber || !toNumber || (!message && !media) || !sendAt) {
+          return res.status(400).json({
+            error: "Missing required fields",
+            required: ["phoneNumber", "toNumber", "message or media", "sendAt"],
+          });
+        }
 
-      const jid = `${toNumber.replace(/\D/g, "")}@s.whatsapp.net`;
+        const formattedPhone = formatPhoneNumberSafe(phoneNumber);
+        const formattedToNumber = formatPhoneNumberSafe(toNumber);
 
-      // Handle new action-based approach
-      if (action) {
-        if (action === "subscribe") {
-          // Subscribe to presence updates for this contact
-          await connection.socket.presenceSubscribe(jid);
-          logger.debug({ userId, phoneNumber, toNumber }, "Subscribed to presence updates");
-        } else if (action === "composing") {
-          await connection.socket.sendPresenceUpdate("composing", jid);
-          logger.debug({ userId, phoneNumber, toNumber }, "Started typing indicator");
-        } else if (action === "paused") {
-          await connection.socket.sendPresenceUpdate("paused", jid);
-          logger.debug({ userId, phoneNumber, toNumber }, "Stopped typing indicator");
-        } else {
+        if (!formattedPhone || !formattedToNumber) {
           return res.status(400).json({
-            error: "Invalid action. Must be 'subscribe', 'composing', or 'paused'",
+            error: "Invalid phone number format",
+            message: "Please provide valid phone numbers with country codes",
           });
         }
-      } else {
-        // Fallback to legacy isTyping parameter for backward compatibility
-        if (isTyping) {
-          await connection.socket.sendPresenceUpdate("composing", jid);
-        } else {
-          await connection.socket.sendPresenceUpdate("paused", jid);
+
+        const sendAtDate = new Date(sendAt);
+        if (isNaN(sendAtDate.getTime())) {
+          return res.status(400).json({ error: "Invalid sendAt", message: "sendAt must be an ISO 8601 date" });
         }
+
+        if (sendAtDate.getTime() <= Date.now()) {
+          return res.status(400).json({ error: "Invalid sendAt", message: "sendAt must be in the future" });
+        }
+
+        // Media buffers are uploaded now so only the URL is persisted with the schedule
+        const persisted = await resolvePersistedMedia(connectionPool, media, userId, formattedPhone);
+        if (persisted.error) {
+          return res.status(400).json({ error: persisted.error });
+        }
+
+        const scheduled = await messageScheduler.schedule(userId, formattedPhone, {
+          toNumber: formattedToNumber,
+          message,
+          media: persisted.media,
+          sendAt: sendAtDate,
+        });
+
+        res.status(201).json({
+          success: true,
+          scheduleId: scheduled.id,
+          status: scheduled.status,
+          sendAt: sendAtDate.toISOString(),
+        });
+      } catch (error) {
+        logger.error({ error, userId: req.user?.userId }, "Failed to schedule message");
+        return res.status(500).json({ error: "Failed to schedule message" });
       }
+    });
 
-      res.json({ success: true });
-    } catch (error) {
-      logger.error({ error, userId: req.user?.userId }, "Failed to send typing indicator");
-      return res.status(500).json({ error: "Failed to send typing indicator" });
-    }
-  });
+    /**
+     * GET /messages/scheduled
+     * List scheduled messages for a phone number (optionally filtered by status)
+     */
+    router.get("/messages/scheduled", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+      try {
+        const phoneNumber = req.query.phoneNumber as string;
+        const status = req.query.status as ScheduledMessageStatus | undefined;
+        const userId = req.user!.userId;
 
-  /**
-   * POST /messages/read
-   * Mark messages as read
-   */
-  router.post("/messages/read", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
-    try {
-      const { phoneNumber, messageIds, chatJid } = req.body;
-      const userId = req.user!.userId;
+        if (!phoneNumber) {
+          return res.status(400).json({ error: "Phone number required" });
+        }
 
-      const connection = connectionPool.getConnection(userId, phoneNumber);
+        const formattedPhone = formatPhoneNumberSafe(phoneNumber);
+        if (!formattedPhone) {
+          return res.status(400).json({ error: "Invalid phone number format" });
+        }
 
-      if (!connection || connection.state.connection !== "open") {
-        return res.status(404).json({ error: "No active connection" });
+        const scheduled = await messageScheduler.list(userId, formattedPhone, status);
+
+        res.json({
+          phoneNumber: formattedPhone,
+          count: scheduled.length,
+          messages: scheduled.map((item) => ({
+            scheduleId: item.id,
+            toNumber: item.to_number,
+            message: item.message,
+            media: item.media,
+            status: item.status,
+            sendAt: item.send_at.toDate().toISOString(),
+            sentAt: item.sent_at ? item.sent_at.toDate().toISOString() : null,
+            messageId: item.message_id || null,
+            error: item.error || null,
+          })),
+        });
+      } catch (error) {
+        logger.error({ error, userId: req.user?.userId }, "Failed to list scheduled messages");
+        return res.status(500).json({ error: "Failed to list scheduled messages" });
       }
+    });
 
-      // Mark as read
-      await connection.socket.readMessages(
-        messageIds.map((id: string) => ({
-          remoteJid: chatJid,
-          id,
-          participant: undefined,
-        }))
-      );
+    /**
+     * DELETE /messages/scheduled/:scheduleId
+     * Cancel a pending scheduled message
+     */
+    router.delete("/messages/scheduled/:scheduleId", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+      try {
+        const scheduleId = req.params.scheduleId as string;
+        const phoneNumber = req.query.phoneNumber as string;
+        const userId = req.user!.userId;
 
-      res.json({ success: true });
-    } catch (error) {
-      logger.error({ error, userId: req.user?.userId }, "Failed to mark messages as read");
-      return res.status(500).json({ error: "Failed to mark messages as read" });
+        if (!phoneNumber) {
+          return res.status(400).json({ error: "Phone number required" });
+        }
+
+        const formattedPhone = formatPhoneNumberSafe(phoneNumber);
+        if (!formattedPhone) {
+          return res.status(400).json({ error: "Invalid phone number format" });
+        }
+
+        const result = await messageScheduler.cancel(userId, formattedPhone, scheduleId);
+
+        if (!result) {
+          return res.status(404).json({ error: "Scheduled message not found" });
+        }
+
+        if (!result.cancelled) {
+          return res.status(409).json({
+            error: "Scheduled message can no longer be cancelled",
+            status: result.status,
+          });
+        }
+
+        res.json({ success: true, scheduleId, status: result.status });
+      } catch (error) {
+        logger.error({ error, userId: req.user?.userId }, "Failed to cancel scheduled message");
+        return res.status(500).json({ error: "Failed to cancel scheduled message" });
+      }
+    });
+  }
+
+  // Broadcast campaign endpoints
+  if (campaignService) {
+    /**
+     * POST /campaigns
+     * Create a broadcast campaign (draft) - optionally start it right away with "start": true
+     */
+    router.post("/campaigns", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+      try {
+        const { phoneNumber, name, message, media, recipients, start = false } = req.body;
+        const userId = req.user!.userId;
+
+        if (!phoneNumber || !name || (!message && !media) || !Array.isArray(recipients) || recipients.length === 0) {
+          return res.status(400).json({
+            error: "Missing required fields",
+            required: ["phoneNumber", "name", "message or media", "recipients"],
+          });
+        }
+
+        const formattedPhone = formatPhoneNumberSafe(phoneNumber);
+        if (!formattedPhone) {
+          return res.status(400).json({ error: "Invalid phone number format" });
+        }
+
+        const formattedRecipients: string[] = [];
+        const invalidRecipients: string[] = [];
+        for (const recipient of recipients) {
+          const formatted = typeof recipient === "string" ? formatPhoneNumberSafe(recipient) : null;
+          if (formatted) {
+            formattedRecipients.push(formatted);
+          } else {
+            invalidRecipients.push(String(recipient));
+          }
+        }
+
+        if (invalidRecipients.length > 0) {
+          return res.status(400).json({
+            error: "Invalid recipient phone numbers",
+            invalidRecipients,
+          });
+        }
+
+        // Media buffers are uploaded now so only the URL is persisted with the campaign
+        const persisted = await resolvePersistedMedia(connectionPool, media, userId, formattedPhone);
+        if (persisted.error) {
+          return res.status(400).json({ error: persisted.error });
+        }
+
+        const campaign = await campaignService.create(userId, formattedPhone, {
+          name,
+          message,
+          media: persisted.media,
+          recipients: formattedRecipients,
+        });
+
+        if (start) {
+          const result = await campaignService.applyAction(userId, formattedPhone, campaign.id, "start");
+          campaign.status = result?.status || campaign.status;
+        }
+
+        res.status(201).json({ success: true, ...serializeCampaign(campaign) });
+      } catch (error) {
+        logger.error({ error, userId: req.user?.userId }, "Failed to create campaign");
+        return res.status(500).json({ error: "Failed to create campaign" });
+      }
+    });
+
+    /**
+     * GET /campaigns
+     * List campaigns for a phone number
+     */
+    router.get("/campaigns", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+      try {
+        const phoneNumber = req.query.phoneNumber as string;
+        const userId = req.user!.userId;
+
+        if (!phoneNumber) {
+          return res.status(400).json({ error: "Phone number required" });
+        }
+
+        const formattedPhone = formatPhoneNumberSafe(phoneNumber);
+        if (!formattedPhone) {
+          return res.status(400).json({ error: "Invalid phone number format" });
+        }
+
+        const campaigns = await campaignService.list(userId, formattedPhone);
+
+        res.json({
+          phoneNumber: formattedPhone,
+          count: campaigns.length,
+          campaigns: campaigns.map(serializeCampaign),
+        });
+      } catch (error) {
+        logger.error({ error, userId: req.user?.userId }, "Failed to list campaigns");
+        return res.status(500).json({ error: "Failed to list campaigns" });
+      }
+    });
+
+    /**
+     * GET /campaigns/:campaignId
+     * Get a campaign with its per-recipient delivery results
+     */
+    router.get("/campaigns/:campaignId", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+      try {
+        const campaignId = req.params.campaignId as string;
+        const phoneNumber = req.query.phoneNumber as string;
+        const recipientStatus = req.query.recipientStatus as CampaignRecipientStatus | undefined;
+        const userId = req.user!.userId;
+
+        if (!phoneNumber) {
+          return res.status(400).json({ error: "Phone number required" });
+        }
+
+        const formattedPhone = formatPhoneNumberSafe(phoneNumber);
+        if (!formattedPhone) {
+          return res.status(400).json({ error: "Invalid phone number format" });
+        }
+
+        const campaign = await campaignService.get(userId, formattedPhone, campaignId);
+        if (!campaign) {
+          return res.status(404).json({ error: "Campaign not found" });
+        }
+
+        const recipients = await campaignService.getRecipients(userId, formattedPhone, campaignId, recipientStatus);
+
+        res.json({
+          ...serializeCampaign(campaign),
+          recipients: recipients.map((recipient) => ({
+            toNumber: recipient.to_number,
+            status: recipient.status,
+            messageId: recipient.message_id || null,
+            error: recipient.error || null,
+            sentAt: recipient.sent_at ? recipient.sent_at.toDate().toISOString() : null,
+          })),
+        });
+      } catch (error) {
+        logger.error({ error, userId: req.user?.userId }, "Failed to get campaign");
+        return res.status(500).json({ error: "Failed to get campaign" });
+      }
+    });
+
+    /**
+     * POST /campaigns/:campaignId/:action
+     * Start, pause, resume or cancel a campaign
+     */
+    router.post("/campaigns/:campaignId/:action", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+      try {
+        const campaignId = req.params.campaignId as string;
+        const action = req.params.action as CampaignAction;
+        const { phoneNumber } = req.body;
+        const userId = req.user!.userId;
+
+        if (!["start", "pause", "resume", "cancel"].includes(action)) {
+          return res.status(404).json({ error: "Unknown campaign action" });
+        }
+
+        if (!phoneNumber) {
+          return res.status(400).json({ error: "Phone number required" });
+        }
+
+        const formattedPhone = formatPhoneNumberSafe(phoneNumber);
+        if (!formattedPhone) {
+          return res.status(400).json({ error: "Invalid phone number format" });
+        }
+
+        const result = await campaignService.applyAction(userId, formattedPhone, campaignId, action);
+
+        if (!result) {
+          return res.status(404).json({ error: "Campaign not found" });
+        }
+
+        if (!result.changed) {
+          return res.status(409).json({
+            error: `Cannot ${action} a campaign that is ${result.status}`,
+            status: result.status,
+          });
+        }
+
+        res.json({ success: true, campaignId, status: result.status });
+      } catch (error) {
+        logger.error({ error, userId: req.user?.userId }, "Failed to update campaign");
+        return res.status(500).json({ error: "Failed to update campaign" });
+      }
+    });
+  }
+
+  // Webhook endpoints
+  if (webhookService) {
+    /**
+     * POST /webhooks
+     * Register a webhook endpoint - the signing secret is only returned in this response
+     */
+    router.post("/webhooks", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+      try {
+        const { url, events, description } = req.body;
+        const userId = req.user!.userId;
+
+        const validationError = (await WebhookService.validateUrl(url)) || validateWebhookEvents(events);
+        if (validationError) {
+          return res.status(400).json({ error: validationError, availableEvents: WEBHOOK_EVENT_TYPES });
+        }
+
+        const webhook = await webhookService.create(userId, { url, events, description });
+
+        res.status(201).json({ success: true, ...serializeWebhook(webhook), secret: webhook.secret });
+      } catch (error) {
+        logger.error({ error, userId: req.user?.userId }, "Failed to create webhook");
+        return res.status(500).json({ error: "Failed to create webhook" });
+      }
+    });
+
+    /**
+     * GET /webhooks
+     * List webhook endpoints
+     */
+    router.get("/webhooks", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+      try {
+        const webhooks = await webhookService.list(req.user!.userId);
+
+        res.json({ count: webhooks.length, webhooks: webhooks.map(serializeWebhook) });
+      } catch (error) {
+        logger.error({ error, userId: req.user?.userId }, "Failed to list webhooks");
+        return res.status(500).json({ error: "Failed to list webhooks" });
+      }
+    });
+
+    /**
+     * PATCH /webhooks/:webhookId
+     * Change a webhook's url, events, description or active flag
+     */
+    router.patch("/webhooks/:webhookId", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+      try {
+        const webhookId = req.params.webhookId as string;
+        const { url, events, description, active } = req.body;
+
+        const validationError =
+          (url !== undefined && (await WebhookService.validateUrl(url))) ||
+          (events !== undefined && validateWebhookEvents(events)) ||
+          (active !== undefined && typeof active !== "boolean" && "active must be a boolean");
+        if (validationError) {
+          return res.status(400).json({ error: validationError });
+        }
+
+        const webhook = await webhookService.update(req.user!.userId, webhookId, {
+          url,
+          events: events as WebhookEventType[] | undefined,
+          description,
+          active,
+        });
+        if (!webhook) {
+          return res.status(404).json({ error: "Webhook not found" });
+        }
+
+        res.json({ success: true, ...serializeWebhook(webhook) });
+      } catch (error) {
+        logger.error({ error, userId: req.user?.userId }, "Failed to update webhook");
+        return res.status(500).json({ error: "Failed to update webhook" });
+      }
+    });
+
+    /**
+     * DELETE /webhooks/:webhookId
+     * Remove a webhook endpoint
+     */
+    router.delete("/webhooks/:webhookId", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+      try {
+        const webhookId = req.params.webhookId as string;
+
+        const deleted = await webhookService.delete(req.user!.userId, webhookId);
+        if (!deleted) {
+          return res.status(404).json({ error: "Webhook not found" });
+        }
+
+        res.json({ success: true, webhookId });
+      } catch (error) {
+        logger.error({ error, userId: req.user?.userId }, "Failed to delete webhook");
+        return res.status(500).json({ error: "Failed to delete webhook" });
+      }
+    });
+
+    /**
+     * GET /webhooks/:webhookId/deliveries
+     * Delivery log, newest first - ?status=dead_letter lists the dead-letter queue
+     */
+    router.get("/webhooks/:webhookId/deliveries", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+      try {
+        const webhookId = req.params.webhookId as string;
+        const status = req.query.status as WebhookDeliveryStatus | undefined;
+        const limit = parseLimit(req.query.limit, 50, 200);
+        const userId = req.user!.userId;
+
+        const webhook = await webhookService.get(userId, webhookId);
+        if (!webhook) {
+          return res.status(404).json({ error: "Webhook not found" });
+        }
+
+        const deliveries = await webhookService.listDeliveries(userId, webhookId, status, limit);
+
+        res.json({ webhookId, count: deliveries.length, deliveries: deliveries.map(serializeWebhookDelivery) });
+      } catch (error) {
+        logger.error({ error, userId: req.user?.userId }, "Failed to list webhook deliveries");
+        return res.status(500).json({ error: "Failed to list webhook deliveries" });
+      }
+    });
+
+    /**
+     * POST /webhooks/:webhookId/deliveries/:deliveryId/redeliver
+     * Retry a dead-lettered delivery
+     */
+    router.post("/webhooks/:webhookId/deliveries/:deliveryId/redeliver", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+      try {
+        const webhookId = req.params.webhookId as string;
+        const deliveryId = req.params.deliveryId as string;
+
+        const result = await webhookService.redeliver(req.user!.userId, webhookId, deliveryId);
+        if (result === null) {
+          return res.status(404).json({ error: "Delivery not found" });
+        }
+
+        if (!result) {
+          return res.status(409).json({ error: "Only dead-lettered deliveries can be redelivered" });
+        }
+
+        res.json({ success: true, deliveryId, status: "pending" });
+      } catch (error) {
+        logger.error({ error, userId: req.user?.userId }, "Failed to redeliver webhook");
+        return res.status(500).json({ error: "Failed to redeliver webhook" });
+      }
+    });
+  }
+
+  // Auto-reply rule endpoints
+  if (autoReplyService) {
+    const ruleFields = ["name", "trigger", "keywords", "pattern", "businessHours", "reply", "cooldownMinutes", "priority", "active"] as const;
+
+    /**
+     * POST /auto-replies
+     * Create an auto-reply rule for a phone number
+     * Body: { phoneNumber, name, trigger, keywords? | pattern? | businessHours?, reply, cooldownMinutes?, priority?, active? }
+     */
+    router.post("/auto-replies", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+      try {
+        const userId = req.user!.userId;
+        const formattedPhone = req.body.phoneNumber ? formatPhoneNumberSafe(req.body.phoneNumber) : null;
+        if (!formattedPhone) {
+          return res.status(400).json({ error: "Valid phone number required" });
+        }
+
+        const input: Partial<AutoReplyRuleInput> = {};
+        for (const field of ruleFields) {
+          if (req.body[field] !== undefined) {
+            (input as any)[field] = req.body[field];
+          }
+        }
+
+        const validationError = AutoReplyService.validate(input);
+        if (validationError) {
+          return res.status(400).json({ error: validationError, availableTriggers: AUTO_REPLY_TRIGGERS });
+        }
+
+        const rule = await autoReplyService.create(userId, formattedPhone, input as AutoReplyRuleInput);
+
+        res.status(201).json({ success: true, ...serializeAutoReplyRule(rule) });
+      } catch (error) {
+        logger.error({ error, userId: req.user?.userId }, "Failed to create auto-reply rule");
+        return res.status(500).json({ error: "Failed to create auto-reply rule" });
+      }
+    });
+
+    /**
+     * GET /auto-replies?phoneNumber=...
+     * List a phone number's rules in evaluation order
+     */
+    router.get("/auto-replies", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+      try {
+        const formattedPhone = req.query.phoneNumber ? formatPhoneNumberSafe(req.query.phoneNumber as string) : null;
+        if (!formattedPhone) {
+          return res.status(400).json({ error: "Valid phone number required" });
+        }
+
+        const rules = await autoReplyService.list(req.user!.userId, formattedPhone);
+
+        res.json({ count: rules.length, rules: rules.map(serializeAutoReplyRule) });
+      } catch (error) {
+        logger.error({ error, userId: req.user?.userId }, "Failed to list auto-reply rules");
+        return res.status(500).json({ error: "Failed to list auto-reply rules" });
+      }
+    });
+
+    /**
+     * PATCH /auto-replies/:ruleId
+     * Change any of a rule's settings - the resulting rule is validated as a whole
+     */
+    router.patch("/auto-replies/:ruleId", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+      try {
+        const userId = req.user!.userId;
+        const ruleId = req.params.ruleId as string;
+        const formattedPhone = req.body.phoneNumber ? formatPhoneNumberSafe(req.body.phoneNumber) : null;
+        if (!formattedPhone) {
+          return res.status(400).json({ error: "Valid phone number required" });
+        }
+
+        const existing = await autoReplyService.get(userId, formattedPhone, ruleId);
+        if (!existing) {
+          return res.status(404).json({ error: "Rule not found" });
+        }
+
+        const input = AutoReplyService.toInput(existing);
+        for (const field of ruleFields) {
+          if (req.body[field] !== undefined) {
+            (input as any)[field] = req.body[field];
+          }
+        }
+
+        const validationError = AutoReplyService.validate(input);
+        if (validationError) {
+          return res.status(400).json({ error: validationError });
+        }
+
+        const rule = await autoReplyService.update(userId, formattedPhone, ruleId, input);
+        if (!rule) {
+          return res.status(404).json({ error: "Rule not found" });
+        }
+
+        res.json({ success: true, ...serializeAutoReplyRule(rule) });
+      } catch (error) {
+        logger.error({ error, userId: req.user?.userId }, "Failed to update auto-reply rule");
+        return res.status(500).json({ error: "Failed to update auto-reply rule" });
+      }
+    });
+
+    /**
+     * DELETE /auto-replies/:ruleId?phoneNumber=...
+     */
+    router.delete("/auto-replies/:ruleId", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+      try {
+        const ruleId = req.params.ruleId as string;
+        const formattedPhone = req.query.phoneNumber ? formatPhoneNumberSafe(req.query.phoneNumber as string) : null;
+        if (!formattedPhone) {
+          return res.status(400).json({ error: "Valid phone number required" });
+        }
+
+        const deleted = await autoReplyService.delete(req.user!.userId, formattedPhone, ruleId);
+        if (!deleted) {
+          return res.status(404).json({ error: "Rule not found" });
+        }
+
+        res.json({ success: true, ruleId });
+      } catch (error) {
+        logger.error({ error, userId: req.user?.userId }, "Failed to delete auto-reply rule");
+        return res.status(500).json({ error: "Failed to delete auto-reply rule" });
+      }
+    });
+  }
+
+  // Media retention endpoints (registered before /media/:id so their paths aren't read as media ids)
+  if (mediaRetentionService) {
+    /**
+     * GET /media/retention
+     * Get the user's media retention period (null keeps media indefinitely)
+     */
+    router.get("/media/retention", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+      try {
+        const days = await mediaRetentionService.getRetentionDays(req.user!.userId);
+
+        res.json({ retentionDays: days });
+      } catch (error) {
+        logger.error({ error, userId: req.user?.userId }, "Failed to get media retention");
+        return res.status(500).json({ error: "Failed to get media retention" });
+      }
+    });
+
+    /**
+     * PUT /media/retention
+     * Delete the user's stored media after a number of days
+     * Body: { retentionDays: number | null }
+     */
+    router.put("/media/retention", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+      try {
+        const { retentionDays } = req.body;
+
+        if (
+          retentionDays !== null &&
+          (!Number.isInteger(retentionDays) || retentionDays < 1 || retentionDays > MediaRetentionService.MAX_RETENTION_DAYS)
+        ) {
+          return res.status(400).json({ error: `retentionDays must be null or a whole number from 1 to ${MediaRetentionService.MAX_RETENTION_DAYS}` });
+        }
+
+        await mediaRetentionService.setRetentionDays(req.user!.userId, retentionDays);
+
+        res.json({ success: true, retentionDays });
+      } catch (error) {
+        logger.error({ error, userId: req.user?.userId }, "Failed to update media retention");
+        return res.status(500).json({ error: "Failed to update media retention" });
+      }
+    });
+
+    /**
+     * POST /media/migrate
+     * Add stable media ids to the user's messages stored with only a signed media URL
+     */
+    router.post("/media/migrate", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+      try {
+        const result = await mediaRetentionService.migrateLegacyMediaUrls(req.user!.userId);
+
+        res.json({ success: true, ...result });
+      } catch (error) {
+        logger.error({ error, userId: req.user?.userId }, "Failed to migrate media URLs");
+        return res.status(500).json({ error: "Failed to migrate media URLs" });
+      }
+    });
+  }
+
+  /**
+   * GET /media/:id
+   * Redirect to a freshly signed URL for stored media (message media_id / thumbnail_media_id)
+   */
+  router.get("/media/:id", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+    try {
+      const filename = MediaService.parseMediaId(req.params.id as string);
+      if (!filename) {
+        return res.status(404).json({ error: "Media not found" });
+      }
+
+      // Verify user access
+      if (!MediaService.isOwnedBy(filename, req.user!.userId)) {
+        return res.status(403).json({ error: "Forbidden" });
+      }
+
+      const url = await connectionPool.getMediaService().getSignedUrl(filename, MEDIA_URL_TTL_MS);
+      if (!url) {
+        return res.status(404).json({ error: "Media not found or past retention" });
+      }
+
+      res.set("Cache-Control", `private, max-age=${Math.floor(MEDIA_URL_TTL_MS / 1000 / 2)}`);
+      res.redirect(302, url);
+    } catch (error) {
+      logger.error({ error, userId: req.user?.userId, mediaId: req.params.id }, "Failed to resolve media");
+      return res.status(500).json({ error: "Failed to resolve media" });
+    }
+  });
+
+  /**
+   * POST /contacts/check
+   * Check which numbers are on WhatsApp (cached results are reused)
+   * Uncached numbers are looked up in paced batches, so a list of MAX_SYNC_NUMBERS takes about 20 seconds.
+   * Longer lists (up to MAX_NUMBERS) are checked in the background - responds 202 with a job to poll
+   * Body: { phoneNumber, numbers: string[] }
+   */
+  router.post("/contacts/check", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+    try {
+      const userId = req.user!.userId;
+      const { phoneNumber, numbers } = req.body;
+
+      const formattedPhone = phoneNumber ? formatPhoneNumberSafe(phoneNumber) : null;
+      if (!formattedPhone) {
+        return res.status(400).json({ error: "Valid phone number required" });
+      }
+
+      if (!Array.isArray(numbers) || numbers.length === 0) {
+        return res.status(400).json({ error: "numbers must be a non-empty array" });
+      }
+      if (numbers.length > NumberCheckService.MAX_NUMBERS) {
+        return res.status(400).json({ error: `At most ${NumberCheckService.MAX_NUMBERS} numbers per check` });
+      }
+
+      const inputs = numbers.map((number: unknown) => {
+        const input = String(number);
+        const formatted = formatPhoneNumberSafe(input);
+        // formatPhoneNumberSafe passes JIDs through - only plain phone numbers can be checked
+        return { input, phoneNumber: formatted && formatted.startsWith("+") ? formatted : null };
+      });
+
+      if (inputs.length > NumberCheckService.MAX_SYNC_NUMBERS) {
+        const job = await connectionPool.startNumberCheckJob(userId, formattedPhone, inputs);
+        return res.status(202).json({ job: serializeNumberCheckJob(job) });
+      }
+
+      const results = await connectionPool.checkNumbers(userId, formattedPhone, inputs);
+
+      res.json({ results, summary: summarizeNumberCheck(results) });
+    } catch (error) {
+      if (error instanceof Error && error.message === "No active connection") {
+        return res.status(404).json({ error: "No active connection" });
+      }
+
+      logger.error({ error, userId: req.user?.userId }, "Failed to check numbers");
+      return res.status(500).json({ error: "Failed to check numbers" });
+    }
+  });
+
+  /**
+   * GET /contacts/check/:jobId
+   * Progress of a background number check - results and summary are included once it completed
+   */
+  router.get("/contacts/check/:jobId", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+    try {
+      const userId = req.user!.userId;
+
+      const found = await connectionPool.getNumberCheckJob(userId, req.params.jobId);
+      if (!found) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      const { job, results } = found;
+      res.json({
+        job: serializeNumberCheckJob(job),
+        ...(results ? { results, summary: summarizeNumberCheck(results) } : {}),
+      });
+    } catch (error) {
+      logger.error({ error, userId: req.user?.userId, jobId: req.params.jobId }, "Failed to get number check job");
+      return res.status(500).json({ error: "Failed to get number check job" });
+    }
+  });
+
+  /**
+   * GET /contacts/:number/profile
+   * Get a contact's profile picture and about text
+   * Stale profiles (or any, with refresh=true) are fetched again when phoneNumber's session is connected
+   * Query: phoneNumber?, refresh?
+   */
+  router.get("/contacts/:number/profile", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+    try {
+      const userId = req.user!.userId;
+      const contactNumber = formatPhoneNumberSafe(req.params.number as string);
+      if (!contactNumber) {
+        return res.status(400).json({ error: "Invalid contact number format" });
+      }
+
+      const formattedPhone = req.query.phoneNumber ? formatPhoneNumberSafe(String(req.query.phoneNumber)) : null;
+      if (req.query.phoneNumber && !formattedPhone) {
+        return res.status(400).json({ error: "Invalid phone number format" });
+      }
+
+      const forceRefresh = req.query.refresh === "true";
+      if (forceRefresh && !formattedPhone) {
+        return res.status(400).json({ error: "Phone number required to refresh" });
+      }
+
+      let profile = await connectionPool.getContactProfile(userId, contactNumber);
+      if (!profile) {
+        return res.status(404).json({ error: "Contact not found" });
+      }
+
+      if (formattedPhone && (forceRefresh || connectionPool.isContactProfileStale(profile))) {
+        try {
+          profile = (await connectionPool.refreshContactProfile(userId, formattedPhone, contactNumber)) || profile;
+        } catch (error) {
+          if (forceRefresh) {
+            throw error;
+          }
+          // Serve the stored profile - the periodic refresh catches up once the session is back
+          logger.debug({ error, userId, contactNumber }, "Could not refresh stale contact profile");
+        }
+      }
+
+      res.json({
+        contactNumber,
+        avatarUrl: profile.avatar_url ?? null,
+        avatarMediaId: profile.avatar_media_id ?? null,
+        about: profile.about ?? null,
+        aboutSetAt: profile.about_set_at ? profile.about_set_at.toDate().toISOString() : null,
+        fetchedAt: profile.profile_fetched_at ? profile.profile_fetched_at.toDate().toISOString() : null,
+        stale: connectionPool.isContactProfileStale(profile),
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === "No active connection") {
+        return res.status(404).json({ error: "No active connection" });
+      }
+
+      logger.error({ error, userId: req.user?.userId, contactNumber: req.params.number }, "Failed to get contact profile");
+      return res.status(500).json({ error: "Failed to get contact profile" });
+    }
+  });
+
+  /**
+   * POST /presence/subscribe
+   * Receive presence updates for a contact (renewed automatically when the session reconnects)
+   * Body: { phoneNumber, contactNumber } or { phoneNumber, jid }
+   */
+  router.post("/presence/subscribe", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+    try {
+      const userId = req.user!.userId;
+      const { phoneNumber, contactNumber, jid } = req.body;
+
+      const formattedPhone = phoneNumber ? formatPhoneNumberSafe(phoneNumber) : null;
+      if (!formattedPhone) {
+        return res.status(400).json({ error: "Valid phone number required" });
+      }
+
+      const rawContact = contactNumber || (typeof jid === "string" && jid.endsWith("@s.whatsapp.net") ? jid.split("@")[0] : null);
+      const formattedContact = rawContact ? formatPhoneNumberSafe(String(rawContact)) : null;
+      if (!formattedContact) {
+        return res.status(400).json({ error: "contactNumber or a user jid (…@s.whatsapp.net) required" });
+      }
+
+      await connectionPool.subscribePresence(userId, formattedPhone, formattedContact);
+
+      res.json({ success: true, phoneNumber: formattedPhone, contactNumber: formattedContact });
+    } catch (error) {
+      if (error instanceof Error && error.message === "No active connection") {
+        return res.status(404).json({ error: "No active connection" });
+      }
+
+      logger.error({ error, userId: req.user?.userId }, "Failed to subscribe to presence");
+      return res.status(500).json({ error: "Failed to subscribe to presence" });
+    }
+  });
+
+  /**
+   * GET /presence/:number
+   * Latest presence and last-seen of a contact
+   * Query: phoneNumber
+   */
+  router.get("/presence/:number", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+    try {
+      const userId = req.user!.userId;
+      const formattedPhone = req.query.phoneNumber ? formatPhoneNumberSafe(String(req.query.phoneNumber)) : null;
+      if (!formattedPhone) {
+        return res.status(400).json({ error: "Valid phone number required" });
+      }
+
+      const contactNumber = formatPhoneNumberSafe(req.params.number as string);
+      if (!contactNumber) {
+        return res.status(400).json({ error: "Invalid contact number format" });
+      }
+
+      const record = await connectionPool.getPresence(userId, formattedPhone, contactNumber);
+      if (!record) {
+        return res.status(404).json({ error: "No presence known for this contact - subscribe first" });
+      }
+
+      res.json({
+        contactNumber,
+        presence: record.presence ?? null,
+        lastSeen: record.last_seen_at ? record.last_seen_at.toDate().toISOString() : null,
+        subscribed: record.subscribed ?? false,
+        live: record.live,
+        updatedAt: record.updated_at ? record.updated_at.toDate().toISOString() : null,
+      });
+    } catch (error) {
+      logger.error({ error, userId: req.user?.userId, contactNumber: req.params.number }, "Failed to get presence");
+      return res.status(500).json({ error: "Failed to get presence" });
+    }
+  });
+
+  /**
+   * GET /chats
+   * Conversations ordered by last message, with unread counts
+   * Query: limit?, cursor?
+   */
+  router.get("/chats", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+    try {
+      const userId = req.user!.userId;
+      const limit = parseLimit(req.query.limit, 20, ConversationService.MAX_PAGE_SIZE);
+
+      const page = await connectionPool.listChats(userId, { limit, cursor: req.query.cursor as string | undefined });
+
+      res.json({ chats: page.items, nextCursor: page.nextCursor });
+    } catch (error) {
+      if (error instanceof Error && error.message === "Invalid cursor") {
+        return res.status(400).json({ error: "Invalid cursor" });
+      }
+
+      logger.error({ error, userId: req.user?.userId }, "Failed to list chats");
+      return res.status(500).json({ error: "Failed to list chats" });
+    }
+  });
+
+  /**
+   * GET /chats/:number/messages
+   * Messages of a conversation, newest first - a phone number and its LID are read as one thread
+   * Query: limit?, cursor?, before?, after? (ISO timestamps)
+   */
+  router.get("/chats/:number/messages", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+    try {
+      const userId = req.user!.userId;
+      const contactNumber = formatPhoneNumberSafe(req.params.number as string);
+      if (!contactNumber) {
+        return res.status(400).json({ error: "Invalid contact number format" });
+      }
+
+      const before = req.query.before ? new Date(String(req.query.before)) : undefined;
+      const after = req.query.after ? new Date(String(req.query.after)) : undefined;
+      if ((before && isNaN(before.getTime())) || (after && isNaN(after.getTime()))) {
+        return res.status(400).json({ error: "before and after must be ISO 8601 timestamps" });
+      }
+
+      const limit = parseLimit(req.query.limit, 50, ConversationService.MAX_PAGE_SIZE);
+
+      const page = await connectionPool.listConversationMessages(userId, contactNumber, {
+        limit,
+        cursor: req.query.cursor as string | undefined,
+        before,
+        after,
+      });
+      if (!page) {
+        return res.status(404).json({ error: "Contact not found" });
+      }
+
+      res.json({ contactNumber, messages: page.items, nextCursor: page.nextCursor });
+    } catch (error) {
+      if (error instanceof Error && error.message === "Invalid cursor") {
+        return res.status(400).json({ error: "Invalid cursor" });
+      }
+
+      logger.error({ error, userId: req.user?.userId, contactNumber: req.params.number }, "Failed to list messages");
+      return res.status(500).json({ error: "Failed to list messages" });
+    }
+  });
+
+  /**
+   * POST /chats/modify
+   * Archive, mute, pin or mark a chat unread on the linked phone (and the contact)
+   * Body: { phoneNumber, contactNumber, action, muteSeconds? }
+   */
+  router.post("/chats/modify", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+    try {
+      const userId = req.user!.userId;
+      const { phoneNumber, contactNumber, action, muteSeconds } = req.body;
+
+      if (!phoneNumber || !contactNumber || !action) {
+        return res.status(400).json({
+          error: "Missing required fields",
+          required: ["phoneNumber", "contactNumber", "action"],
+        });
+      }
+
+      if (!CHAT_ACTIONS.includes(action)) {
+        return res.status(400).json({ error: `Invalid action. Must be one of: ${CHAT_ACTIONS.join(", ")}` });
+      }
+
+      if (muteSeconds !== undefined && (action !== "mute" || !Number.isInteger(muteSeconds) || muteSeconds <= 0)) {
+        return res.status(400).json({ error: "muteSeconds must be a positive integer and is only valid with action 'mute'" });
+      }
+
+      const formattedPhone = formatPhoneNumberSafe(phoneNumber);
+      const formattedContact = formatPhoneNumberSafe(contactNumber);
+      if (!formattedPhone || !formattedContact) {
+        return res.status(400).json({
+          error: "Invalid phone number format",
+          message: "Please provide valid phone numbers with country codes",
+        });
+      }
+
+      const state = await connectionPool.applyChatAction(userId, formattedPhone, formattedContact, action as ChatAction, { muteSeconds });
+      if (!state) {
+        return res.status(404).json({ error: "Contact not found" });
+      }
+
+      // Only the flag the action changed is set - the others are left out of the response
+      res.json({
+        success: true,
+        contactNumber: formattedContact,
+        action,
+        archived: state.chat_archived,
+        pinned: state.chat_pinned,
+        muted: state.chat_muted,
+        mutedUntil: state.chat_muted_until?.toDate().toISOString(),
+        markedUnread: state.chat_marked_unread,
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === "No active connection") {
+        return res.status(404).json({ error: "No active connection" });
+      }
+
+      logger.error({ error, userId: req.user?.userId, action: req.body?.action }, "Failed to modify chat");
+      return res.status(500).json({ error: "Failed to modify chat" });
+    }
+  });
+
+  /**
+   * GET /labels
+   * WhatsApp Business labels of a phone number
+   * Query: phoneNumber
+   */
+  router.get("/labels", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+    try {
+      const userId = req.user!.userId;
+      const formattedPhone = req.query.phoneNumber ? formatPhoneNumberSafe(String(req.query.phoneNumber)) : null;
+      if (!formattedPhone) {
+        return res.status(400).json({ error: "Valid phone number required" });
+      }
+
+      const labels = await connectionPool.listLabels(userId, formattedPhone);
+
+      res.json({
+        labels: labels.map((label) => ({
+          id: label.id,
+          name: label.name,
+          color: label.color,
+          predefinedId: label.predefined_id,
+        })),
+      });
+    } catch (error) {
+      logger.error({ error, userId: req.user?.userId }, "Failed to list labels");
+      return res.status(500).json({ error: "Failed to list labels" });
+    }
+  });
+
+  /**
+   * Shared handler for adding (PUT) and removing (DELETE) a label on a chat
+   */
+  const setChatLabel = async (req: AuthenticatedRequest, res: Response, phoneNumber: unknown, add: boolean): Promise<any> => {
+    try {
+      const userId = req.user!.userId;
+      const formattedPhone = phoneNumber ? formatPhoneNumberSafe(String(phoneNumber)) : null;
+      const contactNumber = formatPhoneNumberSafe(req.params.number as string);
+      if (!formattedPhone || !contactNumber) {
+        return res.status(400).json({
+          error: "Invalid phone number format",
+          message: "Please provide valid phone numbers with country codes",
+        });
+      }
+
+      const labelId = req.params.labelId as string;
+      if (!(await connectionPool.setChatLabel(userId, formattedPhone, contactNumber, labelId, add))) {
+        return res.status(404).json({ error: "Label not found" });
+      }
+
+      res.json({ success: true, contactNumber, labelId, [add ? "added" : "removed"]: true });
+    } catch (error) {
+      if (error instanceof Error && error.message === "No active connection") {
+        return res.status(404).json({ error: "No active connection" });
+      }
+
+      logger.error({ error, userId: req.user?.userId, labelId: req.params.labelId }, "Failed to update chat label");
+      return res.status(500).json({ error: "Failed to update chat label" });
+    }
+  };
+
+  /**
+   * PUT /chats/:number/labels/:labelId
+   * Add a label to a chat
+   * Body: { phoneNumber }
+   */
+  router.put("/chats/:number/labels/:labelId", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+    return setChatLabel(req, res, req.body.phoneNumber, true);
+  });
+
+  /**
+   * DELETE /chats/:number/labels/:labelId
+   * Remove a label from a chat
+   * Query: phoneNumber
+   */
+  router.delete("/chats/:number/labels/:labelId", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+    return setChatLabel(req, res, req.query.phoneNumber, false);
+  });
+
+  /**
+   * POST /messages/typing
+   * Send typing indicator or presence subscription
+   */
+  router.post("/messages/typing", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+    try {
+      const { phoneNumber, toNumber, isTyping, action } = req.body;
+      const userId = req.user!.userId;
+
+      const connection = connectionPool.getConnection(userId, phoneNumber);
+
+      if (!connection || connection.state.connection !== "open") {
+        return res.status(404).json({ error: "No active connection" });
+      }
+
+      const jid = `${toNumber.replace(/\D/g, "")}@s.whatsapp.net`;
+
+      // Handle new action-based approach
+      if (action) {
+        if (action === "subscribe") {
+          // Subscribe to presence updates for this contact
+          await connection.socket.presenceSubscribe(jid);
+          logger.debug({ userId, phoneNumber, toNumber }, "Subscribed to presence updates");
+        } else if (action === "composing") {
+          await connection.socket.sendPresenceUpdate("composing", jid);
+          logger.debug({ userId, phoneNumber, toNumber }, "Started typing indicator");
+        } else if (action === "paused") {
+          await connection.socket.sendPresenceUpdate("paused", jid);
+          logger.debug({ userId, phoneNumber, toNumber }, "Stopped typing indicator");
+        } else {
+          return res.status(400).json({
+            error: "Invalid action. Must be 'subscribe', 'composing', or 'paused'",
+          });
+        }
+      } else {
+        // Fallback to legacy isTyping parameter for backward compatibility
+        if (isTyping) {
+          await connection.socket.sendPresenceUpdate("composing", jid);
+        } else {
+          await connection.socket.sendPresenceUpdate("paused", jid);
+        }
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      logger.error({ error, userId: req.user?.userId }, "Failed to send typing indicator");
+      return res.status(500).json({ error: "Failed to send typing indicator" });
+    }
+  });
+
+  /**
+   * POST /messages/read
+   * Mark messages as read
+   */
+  router.post("/messages/read", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+    try {
+      const { phoneNumber, messageIds, chatJid } = req.body;
+      const userId = req.user!.userId;
+
+      const connection = connectionPool.getConnection(userId, phoneNumber);
+
+      if (!connection || connection.state.connection !== "open") {
+        return res.status(404).json({ error: "No active connection" });
+      }
+
+      // Mark as read
+      await connection.socket.readMessages(
+        messageIds.map((id: string) => ({
+          remoteJid: chatJid,
+          id,
+          participant: undefined,
+        }))
+      );
+
+      res.json({ success: true });
+    } catch (error) {
+      logger.error({ error, userId: req.user?.userId }, "Failed to mark messages as read");
+      return res.status(500).json({ error: "Failed to mark messages as read" });
+    }
+  });
+
+  /**
+   * POST /messages/react
+   * React to a message with an emoji, or remove our reaction with an empty/null emoji
+   */
+  router.post("/messages/react", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+    try {
+      const { phoneNumber, toNumber, messageId, emoji } = req.body;
+      const userId = req.user!.userId;
+
+      if (!phoneNumber || !toNumber || !messageId) {
+        return res.status(400).json({
+          error: "Missing required fields",
+          required: ["phoneNumber", "toNumber", "messageId"],
+        });
+      }
+
+      if (emoji != null && (typeof emoji !== "string" || emoji.length > 16)) {
+        return res.status(400).json({ error: "emoji must be a single emoji, or empty to remove the reaction" });
+      }
+
+      const formattedPhone = formatPhoneNumberSafe(phoneNumber);
+      const formattedToNumber = formatPhoneNumberSafe(toNumber);
+
+      if (!formattedPhone || !formattedToNumber) {
+        return res.status(400).json({
+          error: "Invalid phone number format",
+          message: "Please provide valid phone numbers with country codes",
+        });
+      }
+
+      const target = await connectionPool.getStoredMessage(userId, formattedToNumber, String(messageId));
+      if (!target) {
+        return res.status(404).json({ error: "Message not found" });
+      }
+
+      const reactionKey = await connectionPool.sendReaction(userId, formattedPhone, formattedToNumber, target, emoji || "");
+      if (!reactionKey) {
+        return res.status(500).json({ error: "Failed to send reaction" });
+      }
+
+      res.json({
+        success: true,
+        messageId: String(messageId),
+        emoji: emoji || null,
+        removed: !emoji,
+      });
+    } catch (error) {
+      logger.error({ error, userId: req.user?.userId }, "Failed to send reaction");
+      return res.status(500).json({ error: "Failed to send reaction" });
+    }
+  });
+
+  /**
+   * Validate sender/recipient numbers and find one of our own sent messages in that conversation
+   * Sends the error response and returns null if the message can't be edited or revoked
+   */
+  const findOwnMessage = async (req: AuthenticatedRequest, res: Response, phoneNumber: unknown, toNumber: unknown, action: string) => {
+    const userId = req.user!.userId;
+    const messageId = req.params.messageId as string;
+
+    if (!phoneNumber || !toNumber) {
+      res.status(400).json({ error: "Missing required fields", required: ["phoneNumber", "toNumber"] });
+      return null;
+    }
+
+    const formattedPhone = formatPhoneNumberSafe(String(phoneNumber));
+    const formattedToNumber = formatPhoneNumberSafe(String(toNumber));
+    if (!formattedPhone || !formattedToNumber) {
+      res.status(400).json({ error: "Invalid phone number format", message: "Please provide valid phone numbers with country codes" });
+      return null;
+    }
+
+    const connection = connectionPool.getConnection(userId, formattedPhone);
+    if (!connection || connection.state.connection !== "open") {
+      res.status(404).json({ error: "No active connection" });
+      return null;
+    }
+
+    const target = await connectionPool.getStoredMessage(userId, formattedToNumber, messageId);
+    if (!target) {
+      res.status(404).json({ error: "Message not found" });
+      return null;
+    }
+
+    if (target.data.direction !== "outbound") {
+      res.status(403).json({ error: `Only messages sent from this number can be ${action}` });
+      return null;
+    }
+
+    return { userId, messageId, formattedPhone, formattedToNumber, target };
+  };
+
+  /**
+   * GET /messages/search
+   * Full-text search over stored message bodies, newest first
+   * Query: q, phoneNumber?, contactNumber?, before?, after?, limit?
+   */
+  router.get("/messages/search", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+    try {
+      const userId = req.user!.userId;
+      const query = typeof req.query.q === "string" ? req.query.q.trim() : "";
+      if (!query || query.length > 200) {
+        return res.status(400).json({ error: "q must be 1-200 characters" });
+      }
+
+      const phoneNumber = req.query.phoneNumber ? formatPhoneNumberSafe(String(req.query.phoneNumber)) : undefined;
+      const contactNumber = req.query.contactNumber ? formatPhoneNumberSafe(String(req.query.contactNumber)) : undefined;
+      if (phoneNumber === null || contactNumber === null) {
+        return res.status(400).json({ error: "Invalid phone number format" });
+      }
+
+      const before = req.query.before ? new Date(String(req.query.before)) : undefined;
+      const after = req.query.after ? new Date(String(req.query.after)) : undefined;
+      if ((before && isNaN(before.getTime())) || (after && isNaN(after.getTime()))) {
+        return res.status(400).json({ error: "before and after must be ISO 8601 timestamps" });
+      }
+
+      const limit = parseLimit(req.query.limit, 20, 100);
+
+      const results = await connectionPool.searchMessages(userId, query, { phoneNumber, contactNumber, before, after, limit });
+
+      res.json({
+        query,
+        results: results.map((message) => ({
+          id: message.id,
+          phoneNumber: message.phoneNumber,
+          contactNumber: message.contactNumber,
+          direction: message.direction,
+          body: message.body,
+          timestamp: new Date(message.timestamp).toISOString(),
+        })),
+      });
+    } catch (error) {
+      logger.error({ error, userId: req.user?.userId }, "Failed to search messages");
+      return res.status(500).json({ error: "Failed to search messages" });
+    }
+  });
+
+  /**
+   * GET /messages/:messageId
+   * Lifecycle of a message sent through this service (queued, sent, server_ack, delivered, read, played or failed)
+   * Accepts the WhatsApp messageId, a queuedId from a paced send, or the trackingId of a failed send
+   */
+  router.get("/messages/:messageId", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+    try {
+      const messageId = req.params.messageId as string;
+      const phoneNumber = req.query.phoneNumber as string;
+      const userId = req.user!.userId;
+
+      if (!phoneNumber) {
+        return res.status(400).json({ error: "Phone number required" });
+      }
+
+      const formattedPhone = formatPhoneNumberSafe(phoneNumber);
+      if (!formattedPhone) {
+        return res.status(400).json({ error: "Invalid phone number format" });
+      }
+
+      const record = await connectionPool.getMessageStatus(userId, formattedPhone, messageId);
+      if (!record) {
+        return res.status(404).json({ error: "Message not found" });
+      }
+
+      res.json(serializeMessageStatus(record));
+    } catch (error) {
+      logger.error({ error, userId: req.user?.userId }, "Failed to get message status");
+      return res.status(500).json({ error: "Failed to get message status" });
+    }
+  });
+
+  /**
+   * PATCH /messages/:messageId
+   * Edit the text of a sent message (WhatsApp allows edits for 15 minutes after sending)
+   */
+  router.patch("/messages/:messageId", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+    try {
+      const { phoneNumber, toNumber, text } = req.body;
+
+      if (typeof text !== "string" || !text.trim()) {
+        return res.status(400).json({ error: "text required" });
+      }
+
+      const own = await findOwnMessage(req, res, phoneNumber, toNumber, "edited");
+      if (!own) {
+        return;
+      }
+
+      const sentAt = own.target.data.timestamp?.toMillis?.();
+      if (sentAt && Date.now() - sentAt > MESSAGE_EDIT_WINDOW_MS) {
+        return res.status(409).json({ error: "Messages can only be edited within 15 minutes of sending" });
+      }
+
+      const editKey = await connectionPool.editMessage(own.userId, own.formattedPhone, own.formattedToNumber, own.target, text);
+      if (!editKey) {
+        return res.status(500).json({ error: "Failed to edit message" });
+      }
+
+      res.json({ success: true, messageId: own.messageId, text, editedAt: new Date().toISOString() });
+    } catch (error) {
+      logger.error({ error, userId: req.user?.userId }, "Failed to edit message");
+      return res.status(500).json({ error: "Failed to edit message" });
+    }
+  });
+
+  /**
+   * DELETE /messages/:messageId
+   * Delete (revoke for everyone) a sent message
+   */
+  router.delete("/messages/:messageId", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+    try {
+      const own = await findOwnMessage(req, res, req.query.phoneNumber, req.query.toNumber, "deleted");
+      if (!own) {
+        return;
+      }
+
+      const revokeKey = await connectionPool.revokeMessage(own.userId, own.formattedPhone, own.formattedToNumber, own.target);
+      if (!revokeKey) {
+        return res.status(500).json({ error: "Failed to delete message" });
+      }
+
+      res.json({ success: true, messageId: own.messageId, deleted: true });
+    } catch (error) {
+      logger.error({ error, userId: req.user?.userId }, "Failed to delete message");
+      return res.status(500).json({ error: "Failed to delete message" });
+    }
+  });
+
+  /**
+   * Validate the sender number and group id and return the open connection
+   * Sends the error response and returns null if the group can't be managed right now
+   */
+  const findGroupConnection = (req: AuthenticatedRequest, res: Response, phoneNumber: unknown) => {
+    const userId = req.user!.userId;
+
+    if (!phoneNumber) {
+      res.status(400).json({ error: "Phone number required" });
+      return null;
+    }
+
+    const formattedPhone = formatPhoneNumberSafe(String(phoneNumber));
+    if (!formattedPhone) {
+      res.status(400).json({ error: "Invalid phone number format" });
+      return null;
+    }
+
+    const groupJid = req.params.groupId ? toGroupJid(req.params.groupId as string) : null;
+    if (req.params.groupId && !groupJid) {
+      res.status(400).json({ error: "Invalid group id" });
+      return null;
+    }
+
+    const connection = connectionPool.getConnection(userId, formattedPhone);
+    if (!connection || connection.state.connection !== "open") {
+      res.status(404).json({ error: "No active connection" });
+      return null;
+    }
+
+    return { userId, formattedPhone, groupJid: groupJid!, socket: connection.socket };
+  };
+
+  /**
+   * Group metadata in the API response shape, with LID participants resolved to phone numbers where the mapping is known
+   */
+  const describeGroup = async (userId: string, metadata: GroupMetadata) => {
+    const participants = await connectionPool.resolveGroupParticipants(
+      userId,
+      metadata.participants.map((participant) => ({ jid: participant.id, alt: (participant as any).phoneNumber || participant.jid || participant.lid }))
+    );
+    return serializeGroupMetadata(metadata, participants);
+  };
+
+  /**
+   * Convert participant phone numbers into WhatsApp JIDs - returns the invalid entries separately
+   */
+  const toParticipantJids = (participants: unknown): { jids: string[]; invalid: unknown[] } | null => {
+    if (!Array.isArray(participants) || participants.length === 0) {
+      return null;
+    }
+
+    const jids: string[] = [];
+    const invalid: unknown[] = [];
+    for (const participant of participants) {
+      const formatted = typeof participant === "string" ? formatPhoneNumberSafe(participant) : null;
+      if (formatted) {
+        jids.push(`${formatted.substring(1)}@s.whatsapp.net`);
+      } else {
+        invalid.push(participant);
+      }
+    }
+
+    return { jids, invalid };
+  };
+
+  /**
+   * Send the response for a failed group operation
+   * WhatsApp answers 403 when we're not an admin of the group and 404 for groups we're not in
+   */
+  const sendGroupError = (req: AuthenticatedRequest, res: Response, error: unknown, action: string) => {
+    const statusCode = (error as any)?.output?.statusCode;
+    if (statusCode === 403 || statusCode === 404) {
+      return res.status(statusCode).json({ error: statusCode === 403 ? "Not allowed to manage this group" : "Group not found" });
+    }
+
+    logger.error({ error, userId: req.user?.userId, groupId: req.params.groupId }, `Failed to ${action}`);
+    return res.status(500).json({ error: `Failed to ${action}` });
+  };
+
+  /**
+   * POST /groups
+   * Create a group with the given subject and participants
+   * Body: { phoneNumber, subject, participants: ["+31612345678", ...] }
+   */
+  router.post("/groups", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+    try {
+      const { phoneNumber, subject, participants } = req.body;
+
+      if (typeof subject !== "string" || !subject.trim()) {
+        return res.status(400).json({ error: "subject required" });
+      }
+
+      const participantJids = toParticipantJids(participants);
+      if (!participantJids) {
+        return res.status(400).json({ error: "participants must be a non-empty array of phone numbers" });
+      }
+      if (participantJids.invalid.length > 0) {
+        return res.status(400).json({ error: "Invalid participant phone numbers", invalid: participantJids.invalid });
+      }
+
+      const group = findGroupConnection(req, res, phoneNumber);
+      if (!group) {
+        return;
+      }
+
+      const metadata = await group.socket.groupCreate(subject.trim(), participantJids.jids);
+      logger.info({ userId: group.userId, phoneNumber: group.formattedPhone, groupId: metadata.id }, "Group created");
+
+      res.status(201).json(await describeGroup(group.userId, metadata));
+    } catch (error) {
+      return sendGroupError(req, res, error, "create group");
+    }
+  });
+
+  /**
+   * GET /groups/:groupId?phoneNumber=...
+   * Group metadata and participants
+   */
+  router.get("/groups/:groupId", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+    try {
+      const group = findGroupConnection(req, res, req.query.phoneNumber);
+      if (!group) {
+        return;
+      }
+
+      const metadata = await group.socket.groupMetadata(group.groupJid);
+      res.json(await describeGroup(group.userId, metadata));
+    } catch (error) {
+      return sendGroupError(req, res, error, "get group");
+    }
+  });
+
+  /**
+   * PATCH /groups/:groupId
+   * Change the group subject and/or description (an empty description removes it)
+   * Body: { phoneNumber, subject?, description? }
+   */
+  router.patch("/groups/:groupId", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+    try {
+      const { phoneNumber, subject, description } = req.body;
+
+      if (subject === undefined && description === undefined) {
+        return res.status(400).json({ error: "subject or description required" });
+      }
+      if (subject !== undefined && (typeof subject !== "string" || !subject.trim())) {
+        return res.status(400).json({ error: "subject must be a non-empty string" });
+      }
+      if (description !== undefined && description !== null && typeof description !== "string") {
+        return res.status(400).json({ error: "description must be a string" });
+      }
+
+      const group = findGroupConnection(req, res, phoneNumber);
+      if (!group) {
+        return;
+      }
+
+      if (subject !== undefined) {
+        await group.socket.groupUpdateSubject(group.groupJid, subject.trim());
+      }
+      if (description !== undefined) {
+        await group.socket.groupUpdateDescription(group.groupJid, description || undefined);
+      }
+
+      res.json({ success: true, groupId: group.groupJid, subject: subject?.trim(), description });
+    } catch (error) {
+      return sendGroupError(req, res, error, "update group");
+    }
+  });
+
+  /**
+   * POST /groups/:groupId/participants
+   * Add, remove, promote or demote participants - the result is reported per participant
+   * Body: { phoneNumber, action: "add" | "remove" | "promote" | "demote", participants: ["+31612345678", ...] }
+   */
+  router.post("/groups/:groupId/participants", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+    try {
+      const { phoneNumber, action, participants } = req.body;
+
+      if (!GROUP_PARTICIPANT_ACTIONS.includes(action)) {
+        return res.status(400).json({ error: `action must be one of: ${GROUP_PARTICIPANT_ACTIONS.join(", ")}` });
+      }
+
+      const participantJids = toParticipantJids(participants);
+      if (!participantJids) {
+        return res.status(400).json({ error: "participants must be a non-empty array of phone numbers" });
+      }
+      if (participantJids.invalid.length > 0) {
+        return res.status(400).json({ error: "Invalid participant phone numbers", invalid: participantJids.invalid });
+      }
+
+      const group = findGroupConnection(req, res, phoneNumber);
+      if (!group) {
+        return;
+      }
+
+      const results = await group.socket.groupParticipantsUpdate(group.groupJid, participantJids.jids, action);
+      logger.info(
+        { userId: group.userId, phoneNumber: group.formattedPhone, groupId: group.groupJid, action, count: results.length },
+        "Group participants updated"
+      );
+
+      const resolved = await connectionPool.resolveGroupParticipants(
+        group.userId,
+        results.map((result) => ({ jid: result.jid || "" }))
+      );
+
+      res.json({
+        groupId: group.groupJid,
+        action,
+        results: results.map((result, index) => ({
+          jid: result.jid || null,
+          phoneNumber: result.jid ? resolved[index].phone_number : null,
+          lid: result.jid ? resolved[index].lid : null,
+          status: result.status,
+          success: result.status === "200",
+        })),
+      });
+    } catch (error) {
+      return sendGroupError(req, res, error, "update group participants");
+    }
+  });
+
+  /**
+   * GET /groups/:groupId/invite-code?phoneNumber=...
+   * Current invite link for the group (admins only)
+   */
+  router.get("/groups/:groupId/invite-code", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+    try {
+      const group = findGroupConnection(req, res, req.query.phoneNumber);
+      if (!group) {
+        return;
+      }
+
+      const inviteCode = await group.socket.groupInviteCode(group.groupJid);
+      res.json({ groupId: group.groupJid, inviteCode, inviteLink: inviteCode ? `https://chat.whatsapp.com/${inviteCode}` : null });
+    } catch (error) {
+      return sendGroupError(req, res, error, "get group invite code");
+    }
+  });
+
+  /**
+   * POST /groups/:groupId/invite-code/revoke
+   * Revoke the current invite link and return the new one
+   */
+  router.post("/groups/:groupId/invite-code/revoke", async (req: AuthenticatedRequest, res: Response): Promise<any> => {
+    try {
+      const group = findGroupConnection(req, res, req.body.phoneNumber);
+      if (!group) {
+        return;
+      }
+
+      const inviteCode = await group.socket.groupRevokeInvite(group.groupJid);
+      logger.info({ userId: group.userId, phoneNumber: group.formattedPhone, groupId: group.groupJid }, "Group invite link revoked");
+
+      res.json({ groupId: group.groupJid, inviteCode, inviteLink: inviteCode ? `https://chat.whatsapp.com/${inviteCode}` : null });
+    } catch (error) {
+      return sendGroupError(req, res, error, "revoke group invite code");
     }
   });
 
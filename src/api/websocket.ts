@@ -1,8 +1,11 @@
 import { Server as SocketServer, Socket } from "socket.io";
 import { ConnectionPool } from "../core/ConnectionPool";
 import { SessionManager } from "../core/SessionManager";
+import { CampaignService } from "../services/CampaignService";
+import { IdempotencyStore } from "../services/IdempotencyStore";
 import pino from "pino";
 import { formatPhoneNumberSafe } from "../utils/phoneNumber";
+import { applyReplyContext, QuotedMessageRef, toMentionJids } from "../utils/messageContent";
 
 const logger = pino({ name: "WebSocket" });
 
@@ -11,7 +14,13 @@ interface AuthenticatedSocket extends Socket {
   phoneNumber?: string;
 }
 
-export function createWebSocketHandlers(io: SocketServer, connectionPool: ConnectionPool, _sessionManager: SessionManager) {
+export function createWebSocketHandlers(
+  io: SocketServer,
+  connectionPool: ConnectionPool,
+  _sessionManager: SessionManager,
+  campaignService?: CampaignService,
+  idempotencyStore?: IdempotencyStore
+) {
   // Authentication middleware
   io.use((socket: AuthenticatedSocket, next) => {
     const token = socket.handshake.auth.token;
@@ -186,7 +195,7 @@ export function createWebSocketHandlers(io: SocketServer, connectionPool: Connec
      * Send message via WebSocket
      */
     socket.on("message:send", async (data) => {
-      const { phoneNumber: phone, toNumber, message, media } = data;
+      const { phoneNumber: phone, toNumber, message, media, idempotencyKey, quotedMessageId, mentions } = data;
       const wsMessageId = `ws_msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
       const startTime = Date.now();
 
@@ -227,7 +236,60 @@ export function createWebSocketHandlers(io: SocketServer, connectionPool: Connec
         return;
       }
 
+      // Results are recorded against the idempotency key (once claimed) so a retry replays them
+      let idempotencyClaimed = false;
+      const formattedPhone = formatPhoneNumberSafe(phone) || phone;
+      const formattedToNumber = formatPhoneNumberSafe(toNumber) || toNumber;
+      const emitResult = (event: "message:sent" | "message:failed", payload: Record<string, any>) => {
+        if (idempotencyClaimed) {
+          void idempotencyStore!.complete(userId, formattedPhone, String(idempotencyKey), event === "message:sent" ? 200 : 500, payload);
+        }
+        socket.emit(event, payload);
+      };
+
       try {
+        const mentionJids = Array.isArray(mentions) ? toMentionJids(mentions) : null;
+        if (mentions != null && !mentionJids) {
+          socket.emit("message:failed", { toNumber, error: "Invalid mentions", wsMessageId });
+          return;
+        }
+
+        // The quoted message must be part of this conversation
+        let quoted: QuotedMessageRef | null = null;
+        if (quotedMessageId) {
+          quoted = await connectionPool.getQuotedMessage(userId, formattedPhone, formattedToNumber, String(quotedMessageId));
+          if (!quoted) {
+            socket.emit("message:failed", { toNumber, error: "Quoted message not found", wsMessageId });
+            return;
+          }
+        }
+
+        if (idempotencyKey && idempotencyStore) {
+          const fingerprint = IdempotencyStore.fingerprint({ toNumber: formattedToNumber, message, media, quotedMessageId, mentions });
+          const claim = await idempotencyStore.begin(userId, formattedPhone, String(idempotencyKey), fingerprint);
+
+          if (claim.state === "replay") {
+            logger.info({ wsMessageId, userId, idempotencyKey }, "Replaying idempotent WebSocket message result");
+            socket.emit(claim.statusCode < 400 ? "message:sent" : "message:failed", { ...claim.body, wsMessageId, idempotencyKey, replayed: true });
+            return;
+          }
+
+          if (claim.state !== "acquired") {
+            socket.emit("message:failed", {
+              toNumber,
+              error:
+                claim.state === "in_progress"
+                  ? "A message with this idempotency key is still being processed"
+                  : "Idempotency key was already used with a different message",
+              wsMessageId,
+              idempotencyKey,
+            });
+            return;
+          }
+
+          idempotencyClaimed = true;
+        }
+
         let content: any;
 
         if (media) {
@@ -235,6 +297,7 @@ export function createWebSocketHandlers(io: SocketServer, connectionPool: Connec
           content = {
             [media.type]: { url: media.url },
             caption: message,
+            ...(media.type === "video" && media.thumbnail && { jpegThumbnail: media.thumbnail }),
           };
           logger.debug(
             {
@@ -247,6 +310,7 @@ export function createWebSocketHandlers(io: SocketServer, connectionPool: Connec
         } else {
           content = { text: message };
         }
+        content = applyReplyContext(content, quoted, mentionJids || undefined);
 
         const sendStart = Date.now();
         logger.debug(
@@ -281,7 +345,7 @@ export function createWebSocketHandlers(io: SocketServer, connectionPool: Connec
             "WebSocket message sent successfully"
           );
 
-          socket.emit("message:sent", {
+          emitResult("message:sent", {
             messageId: messageKey.id,
             toNumber,
             timestamp: new Date().toISOString(),
@@ -301,7 +365,7 @@ export function createWebSocketHandlers(io: SocketServer, connectionPool: Connec
             "WebSocket message failed - no key returned"
           );
 
-          socket.emit("message:failed", {
+          emitResult("message:failed", {
             toNumber,
             error: "Failed to send message",
             wsMessageId,
@@ -326,7 +390,7 @@ export function createWebSocketHandlers(io: SocketServer, connectionPool: Connec
           "Failed to send message via WebSocket"
         );
 
-        socket.emit("message:failed", {
+        emitResult("message:failed", {
           toNumber,
           error: "Failed to send message",
           wsMessageId,
@@ -519,7 +583,7 @@ export function createWebSocketHandlers(io: SocketServer, connectionPool: Connec
   });
 
   connectionPool.on("message-received", (data: any) => {
-    const { userId, phoneNumber, message } = data;
+    const { userId, phoneNumber, message, groupId, fromNumber, participantName } = data;
 
     // Extract message text for logging
     const messageText =
@@ -544,20 +608,100 @@ export function createWebSocketHandlers(io: SocketServer, connectionPool: Connec
     );
 
     // Emit to specific session room
+    // Group messages carry the group and the participant who sent them
     io.to(`session:${userId}:${phoneNumber}`).emit("message:received", {
       phoneNumber,
       message,
+      ...(groupId && { groupId, participant: fromNumber, participantName }),
+    });
+  });
+
+  connectionPool.on("group-updated", (data: any) => {
+    const { userId, phoneNumber, groupId, subject, timestamp } = data;
+
+    // Emit to specific session room
+    io.to(`session:${userId}:${phoneNumber}`).emit("group:updated", {
+      phoneNumber,
+      groupId,
+      subject,
+      timestamp,
     });
   });
 
   connectionPool.on("message-status", (data: any) => {
-    const { userId, phoneNumber, messageId, status } = data;
+    const { userId, phoneNumber, contactNumber, messageId, status, timestamp } = data;
 
     // Emit to specific session room
     io.to(`session:${userId}:${phoneNumber}`).emit("message:status", {
       phoneNumber,
+      contactNumber,
       messageId,
       status,
+      timestamp,
+    });
+  });
+
+  // Paced (queued) REST sends - outcome of a message accepted with a queuedId
+  connectionPool.on("queued-message-sent", (data: any) => {
+    const { userId, phoneNumber, queuedId, messageId, toNumber } = data;
+
+    io.to(`session:${userId}:${phoneNumber}`).emit("message:sent", {
+      phoneNumber,
+      messageId,
+      toNumber,
+      queuedId,
+      timestamp: new Date().toISOString(),
+    });
+  });
+
+  connectionPool.on("queued-message-failed", (data: any) => {
+    const { userId, phoneNumber, queuedId, toNumber, error } = data;
+
+    io.to(`session:${userId}:${phoneNumber}`).emit("message:failed", {
+      phoneNumber,
+      toNumber,
+      queuedId,
+      error,
+    });
+  });
+
+  connectionPool.on("message-reaction", (data: any) => {
+    const { userId, phoneNumber, contactNumber, messageId, direction, emoji, removed, timestamp } = data;
+
+    // Emit to specific session room
+    io.to(`session:${userId}:${phoneNumber}`).emit("message:reaction", {
+      phoneNumber,
+      contactNumber,
+      messageId,
+      direction,
+      emoji,
+      removed,
+      timestamp,
+    });
+  });
+
+  connectionPool.on("message-edited", (data: any) => {
+    const { userId, phoneNumber, contactNumber, messageId, body, timestamp } = data;
+
+    // Emit to specific session room
+    io.to(`session:${userId}:${phoneNumber}`).emit("message:edited", {
+      phoneNumber,
+      contactNumber,
+      messageId,
+      body,
+      timestamp,
+    });
+  });
+
+  connectionPool.on("message-deleted", (data: any) => {
+    const { userId, phoneNumber, contactNumber, messageId, timestamp } = data;
+
+    // Emit to specific session room
+    io.to(`session:${userId}:${phoneNumber}`).emit("message:deleted", {
+      phoneNumber,
+      contactNumber,
+      messageId,
+      timestamp,
     });
   });
 
@@ -573,13 +717,15 @@ export function createWebSocketHandlers(io: SocketServer, connectionPool: Connec
   });
 
   connectionPool.on("presence-update", (data: any) => {
-    const { userId, phoneNumber, jid, presence } = data;
+    const { userId, phoneNumber, jid, presence, contacts, timestamp } = data;
 
     // Emit to specific session room
     io.to(`session:${userId}:${phoneNumber}`).emit("presence:update", {
       phoneNumber,
       jid,
       presence,
+      contacts,
+      timestamp,
     });
   });
 
@@ -656,5 +802,34 @@ export function createWebSocketHandlers(io: SocketServer, connectionPool: Connec
     });
   });
 
+  // Broadcast campaign events
+  if (campaignService) {
+    campaignService.on("campaign-progress", (data: any) => {
+      const { userId, phoneNumber, campaignId, totals, recipient } = data;
+
+      io.to(`user:${userId}`).emit("campaign:progress", {
+        phoneNumber,
+        campaignId,
+        totals,
+        recipient,
+        timestamp: new Date().toISOString(),
+      });
+    });
+
+    campaignService.on("campaign-status", (data: any) => {
+      const { userId, phoneNumber, campaignId, status, reason } = data;
+
+      logger.info({ userId, phoneNumber, campaignId, status }, "Campaign status changed, notifying clients");
+
+      io.to(`user:${userId}`).emit("campaign:status", {
+        phoneNumber,
+        campaignId,
+        status,
+        reason,
+        timestamp: new Date().toISOString(),
+      });
+    });
+  }
+
   logger.info("WebSocket handlers initialized");
 }
@@ -1,4 +1,5 @@
 import { WASocket, DisconnectReason, ConnectionState, WAMessageContent, WAMessageKey, proto, downloadMediaMessage } from "@whiskeysockets/baileys";
+import type { GroupMetadata } from "@whiskeysockets/baileys";
 import pino from "pino";
 import { EventEmitter } from "events";
 import * as fs from "fs";
@@ -8,7 +9,7 @@ import { SessionManager } from "./SessionManager";
 import { Firestore } from "@google-cloud/firestore";
 import { PubSub } from "@google-cloud/pubsub";
 import { ConnectionStateManager } from "../services/connectionStateManager";
-import { MediaService } from "../services/MediaService";
+import { MediaService, MediaUploadResult } from "../services/MediaService";
 import { CloudRunWebSocketManager } from "../services/CloudRunWebSocketManager";
 import { ErrorHandler } from "../services/ErrorHandler";
 import { InstanceCoordinator } from "../services/InstanceCoordinator";
@@ -17,10 +18,31 @@ import * as admin from "firebase-admin";
 import { DocumentReference } from "@google-cloud/firestore";
 import { SessionRecoveryService } from "../services/SessionRecoveryService";
 import { LidMappingService } from "../services/LidMappingService";
+import { ContactProfileService, ContactProfileRecord } from "../services/ContactProfileService";
+import { PresenceService, PresenceRecord } from "../services/PresenceService";
+import { NumberCheckService, NumberCheckInput, NumberCheckJob, NumberCheckResult } from "../services/NumberCheckService";
+import { ChatStateService, ChatAction, ChatStateRecord } from "../services/ChatStateService";
+import { LabelService, LabelRecord } from "../services/LabelService";
+import { ConversationService, ChatSummary, ConversationMessage, Page } from "../services/ConversationService";
+import { MessageSearchService, IndexedMessage, MessageSearchOptions } from "../services/MessageSearchService";
+import { GroupConversationService, GroupMessageRecord, GroupParticipantRecord } from "../services/GroupConversationService";
+import type { AutoReplyService } from "../services/AutoReplyService";
+import { MessageStatusTracker, MessageStatusRecord, MessageStatusUpdate } from "../services/MessageStatusTracker";
+import { EventBus, PubSubEventSink } from "../services/EventBus";
 import { BaileysVersion, isV7 } from "./BaileysFactory";
+import {
+  extractContactCards,
+  extractJpegThumbnail,
+  extractLocation,
+  extractStructuredFields,
+  formatContactCardsText,
+  formatLocationText,
+  QuotedMessageRef,
+} from "../utils/messageContent";
 
 export interface QueuedMessage {
   toNumber: string;
+  trackingId?: string; // MessageStatusTracker id for the send
   content: WAMessageContent;
   timestamp: Date;
   timeoutId: NodeJS.Timeout;
@@ -28,6 +50,58 @@ export interface QueuedMessage {
   reject: (reason: any) => void;
 }
 
+/**
+ * Outbound message waiting in a sender's pacing queue
+ */
+export interface PacedMessage {
+  queuedId: string;
+  toNumber: string;
+  content: WAMessageContent;
+  delayMs: number; // Human-like delay to wait after the previous send (0 = send as soon as it's first in line)
+  queuedAt: Date;
+}
+
+/**
+ * Per-(userId, phoneNumber) outbound pacing queue
+ */
+interface OutboundQueue {
+  userId: string;
+  phoneNumber: string;
+  items: PacedMessage[];
+  processing: boolean;
+  lastSentAt: number;
+  timer?: NodeJS.Timeout;
+  wake?: () => void; // Ends the current pacing wait early (shutdown)
+}
+
+/**
+ * Receipt statuses persisted on stored messages, in delivery order - a message's status never moves backwards
+ */
+export type ReceiptStatus = "failed" | "sent" | "delivered" | "read" | "played";
+const RECEIPT_STATUS_RANK: Record<ReceiptStatus, number> = { failed: 0, sent: 1, delivered: 2, read: 3, played: 4 };
+
+/**
+ * Events that also go out through the event bus (Pub/Sub, webhooks, ...) - the rest are internal plumbing
+ * (sockets, health checks) and only reach local listeners
+ */
+const PUBLISHED_EVENTS = new Set([
+  "message-received",
+  "message-sent",
+  "message-update",
+  "message-status",
+  "message-reaction",
+  "message-edited",
+  "message-deleted",
+  "manual-message-stored",
+  "queued-message-sent",
+  "queued-message-failed",
+  "presence-update",
+  "typing-indicator",
+  "connection-update",
+  "qr-generated",
+  "history-synced",
+]);
+
 export interface WhatsAppConnection {
   connectionId: string; // Unique ID to prevent ghost handler interference
   userId: string;
@@ -66,7 +140,7 @@ export class ConnectionPool extends EventEmitter {
   private proxyManager: ProxyManager;
   private sessionManager: SessionManager;
   private firestore: Firestore;
-  private pubsub: PubSub;
+  private eventBus: EventBus; // Sinks for PUBLISHED_EVENTS - see setEventBus()
   private connectionStateManager?: ConnectionStateManager;
   private mediaService: MediaService;
   private wsManager: CloudRunWebSocketManager;
@@ -75,6 +149,7 @@ export class ConnectionPool extends EventEmitter {
   private healthCheckTimer?: NodeJS.Timeout;
   private cleanupTimer?: NodeJS.Timeout;
   private connectionVerificationTimer?: NodeJS.Timeout; // Periodic deep-health verification of open sockets
+  private profileRefreshTimer?: NodeJS.Timeout; // Periodic refresh of stale contact profiles
   private isShuttingDown: boolean = false;
   private importListRefs: Map<string, DocumentReference> = new Map(); // Store import list refs per user
   private pendingChatMetadata: Map<string, any> = new Map(); // Store chat metadata for contacts to be created
@@ -85,9 +160,21 @@ export class ConnectionPool extends EventEmitter {
   private reconnectionInProgress: Map<string, boolean> = new Map(); // Track ongoing reconnections to prevent conflicts
   private sessionRecoveryService?: SessionRecoveryService; // Reference to session recovery service for on-demand recovery
   private lidMappingService: LidMappingService; // LID to phone number mapping service
+  private messageStatusTracker: MessageStatusTracker; // Lifecycle records for API sends (queued -> sent -> delivered -> read)
+  private groupConversationService: GroupConversationService; // Group chats for phone numbers that opted in to group sync
+  private contactProfileService: ContactProfileService; // Contact pictures (cached in Cloud Storage) and about text
+  private presenceService: PresenceService; // Presence subscriptions and latest presence / last-seen per contact
+  private numberCheckService: NumberCheckService; // Bulk "is this number on WhatsApp" checks, cached per user
+  private chatStateService: ChatStateService; // Archive / mute / pin / mark-unread, applied on the phone and mirrored from it
+  private labelService: LabelService; // WhatsApp Business labels and the chats they're on
+  private conversationService: ConversationService; // Paginated chat list and message history reads
+  private messageSearchService: MessageSearchService; // Full-text index of message bodies, persisted to Cloud Storage
+  private autoReplyService?: AutoReplyService; // Auto-reply rules for inbound messages - see setAutoReplyService()
   private pendingRecoveryMessages: Map<string, QueuedMessage[]> = new Map(); // Queue messages while session is being recovered
   private recoveryInProgress: Map<string, Promise<boolean>> = new Map(); // Track ongoing recovery promises to avoid duplicate recovery
   private processedMessageSenders: Map<string, string> = new Map(); // Track messageId -> sender for LID mapping capture
+  private outboundQueues: Map<string, OutboundQueue> = new Map(); // Per-sender pacing queues for delayed (new contact) messages
+  private outboundLastSentAt: Map<string, number> = new Map(); // Last paced send per sender - outlives its queue, so separate API calls are paced too
 
   private readonly config: ConnectionPoolConfig = {
     maxConnections: parseInt(process.env.MAX_CONNECTIONS || "50"),
@@ -110,9 +197,9 @@ export class ConnectionPool extends EventEmitter {
     this.proxyManager = proxyManager;
     this.sessionManager = sessionManager;
     this.firestore = firestore;
-    this.pubsub = pubsub;
+    this.eventBus = new EventBus(process.env.ENABLE_PUBSUB_EVENTS ? [new PubSubEventSink(pubsub)] : []);
     this.connectionStateManager = connectionStateManager;
-    this.mediaService = new MediaService();
+    this.mediaService = new MediaService(firestore);
 
     // Use provided services or create new ones (for backwards compatibility)
     this.wsManager = wsManager || new CloudRunWebSocketManager();
@@ -122,6 +209,24 @@ export class ConnectionPool extends EventEmitter {
     // Initialize LID mapping service for handling WhatsApp LID vs phone number inconsistencies
     this.lidMappingService = new LidMappingService(firestore);
 
+    this.messageStatusTracker = new MessageStatusTracker(firestore);
+
+    this.groupConversationService = new GroupConversationService(firestore, this.lidMappingService);
+
+    this.contactProfileService = new ContactProfileService(firestore, this.mediaService);
+
+    this.presenceService = new PresenceService(firestore, this.lidMappingService);
+
+    this.numberCheckService = new NumberCheckService(firestore, this.lidMappingService);
+
+    this.chatStateService = new ChatStateService(firestore, this.lidMappingService);
+
+    this.labelService = new LabelService(firestore, this.lidMappingService);
+
+    this.conversationService = new ConversationService(firestore, this.lidMappingService);
+
+    this.messageSearchService = new MessageSearchService(this.lidMappingService);
+
     // Set up WebSocket manager event listeners
     this.setupWebSocketManagerListeners();
 
@@ -139,6 +244,33 @@ export class ConnectionPool extends EventEmitter {
     this.startHealthCheck();
     this.startCleanup();
     this.startConnectionVerification();
+    this.startProfileRefresh();
+    this.messageSearchService.start();
+  }
+
+  /**
+   * Replace the event bus (server.ts configures it from EVENT_SINKS once the webhook service exists)
+   */
+  setEventBus(eventBus: EventBus): void {
+    this.eventBus = eventBus;
+    this.logger.info({ sinks: eventBus.getSinkNames() }, "Event bus configured for connection pool");
+  }
+
+  /**
+   * Evaluate auto-reply rules for inbound messages (server.ts sets this up - the service sends through this pool)
+   */
+  setAutoReplyService(autoReplyService: AutoReplyService): void {
+    this.autoReplyService = autoReplyService;
+  }
+
+  /**
+   * Emit to local listeners; PUBLISHED_EVENTS are also published to the event bus
+   */
+  emit(eventName: string | symbol, ...args: any[]): boolean {
+    if (typeof eventName === "string" && PUBLISHED_EVENTS.has(eventName)) {
+      void this.publishEvent(eventName, args[0]);
+    }
+    return super.emit(eventName, ...args);
   }
 
   /**
@@ -743,6 +875,8 @@ export class ConnectionPool extends EventEmitter {
 
     // 🟢 Delete from map FIRST to prevent concurrent access during cleanup
     this.connections.delete(connectionKey);
+    this.contactProfileService.clearSession(userId, phoneNumber);
+    this.presenceService.clearSession(userId, phoneNumber);
 
     try {
       // Clear QR timeout if exists
@@ -868,12 +1002,151 @@ export class ConnectionPool extends EventEmitter {
     return this.mediaService;
   }
 
+  /**
+   * Look up a stored message in a contact's messages subcollection by its WhatsApp message id
+   */
+  async getStoredMessage(userId: string, contactNumber: string, messageId: string): Promise<{ ref: DocumentReference; data: Record<string, any> } | null> {
+    const userRef = this.firestore.collection("users").doc(userId);
+    const contacts = await this.firestore.collection("contacts").where("user", "==", userRef).where("phone_number", "==", contactNumber).limit(1).get();
+
+    if (contacts.empty) {
+      return null;
+    }
+
+    const messages = await contacts.docs[0].ref.collection("messages").where("message_sid", "==", messageId).limit(1).get();
+    if (messages.empty) {
+      return null;
+    }
+
+    return { ref: messages.docs[0].ref, data: messages.docs[0].data() };
+  }
+
+  /**
+   * Resolve a message id from the conversation with toNumber into a reference that can be quoted in a reply
+   * Returns null if the message isn't stored for that contact
+   */
+  async getQuotedMessage(userId: string, phoneNumber: string, toNumber: string, messageId: string): Promise<QuotedMessageRef | null> {
+    const stored = await this.getStoredMessage(userId, toNumber, messageId);
+    if (!stored) {
+      return null;
+    }
+
+    return {
+      id: messageId,
+      participant: this.formatJid(stored.data.direction === "outbound" ? phoneNumber : toNumber),
+      body: stored.data.body || null,
+    };
+  }
+
+  /**
+   * Send an emoji reaction (or remove ours with an empty emoji) on a stored message
+   * The reaction is recorded on the message document here, since our own echo is skipped as API-sent
+   */
+  async sendReaction(
+    userId: string,
+    phoneNumber: string,
+    toNumber: string,
+    target: { ref: DocumentReference; data: Record<string, any> },
+    emoji: string
+  ): Promise<WAMessageKey | null> {
+    const content = {
+      react: {
+        text: emoji,
+        key: {
+          remoteJid: this.formatJid(toNumber),
+          fromMe: target.data.direction === "outbound",
+          id: target.data.message_sid,
+        },
+      },
+    } as WAMessageContent;
+
+    const messageKey = await this.sendMessage(userId, phoneNumber, toNumber, content);
+    if (messageKey) {
+      await this.applyReaction(userId, phoneNumber, toNumber, target, "outbound", emoji);
+    }
+
+    return messageKey;
+  }
+
+  /**
+   * Edit the text of one of our sent messages (WhatsApp only accepts edits within 15 minutes)
+   * Uses the open socket directly - edits are not queued for recovery
+   */
+  async editMessage(
+    userId: string,
+    phoneNumber: string,
+    toNumber: string,
+    target: { ref: DocumentReference; data: Record<string, any> },
+    text: string
+  ): Promise<WAMessageKey | null> {
+    const messageKey = await this.sendProtocolMessage(userId, phoneNumber, toNumber, target, (key) => ({ text, edit: key }));
+    if (messageKey) {
+      await this.applyProtocolUpdate(userId, phoneNumber, toNumber, target, { type: "edit", text });
+    }
+    return messageKey;
+  }
+
+  /**
+   * Delete (revoke for everyone) one of our sent messages
+   */
+  async revokeMessage(
+    userId: string,
+    phoneNumber: string,
+    toNumber: string,
+    target: { ref: DocumentReference; data: Record<string, any> }
+  ): Promise<WAMessageKey | null> {
+    const messageKey = await this.sendProtocolMessage(userId, phoneNumber, toNumber, target, (key) => ({ delete: key }));
+    if (messageKey) {
+      await this.applyProtocolUpdate(userId, phoneNumber, toNumber, target, { type: "revoke" });
+    }
+    return messageKey;
+  }
+
+  /**
+   * Send an edit/revoke for a stored outbound message over the open socket
+   * The result id is tracked like an API send so its echo in messages.upsert is skipped
+   */
+  private async sendProtocolMessage(
+    userId: string,
+    phoneNumber: string,
+    toNumber: string,
+    target: { ref: DocumentReference; data: Record<string, any> },
+    buildContent: (key: WAMessageKey) => Record<string, any>
+  ): Promise<WAMessageKey | null> {
+    const connection = this.getConnection(userId, phoneNumber);
+    if (!connection || connection.state.connection !== "open") {
+      this.logger.warn({ userId, phoneNumber, messageId: target.data.message_sid }, "No open connection for message edit/revoke");
+      return null;
+    }
+
+    const jid = this.formatJid(toNumber);
+    const key: WAMessageKey = { remoteJid: jid, fromMe: true, id: target.data.message_sid };
+    const result = await connection.socket.sendMessage(jid, buildContent(key) as any);
+
+    if (!result?.key?.id) {
+      return null;
+    }
+
+    const protocolMessageId = result.key.id;
+    this.sentMessageIds.set(protocolMessageId, new Date());
+    setTimeout(
+      () => {
+        this.sentMessageIds.delete(protocolMessageId);
+      },
+      5 * 60 * 1000
+    );
+
+    connection.lastActivity = new Date();
+    return result.key;
+  }
+
   /**
    * Send a message using a connection from the pool
+   * Each step is recorded under trackingId (generated if not given) - see getMessageStatus()
    */
-  async sendMessage(userId: string, phoneNumber: string, toNumber: string, content: WAMessageContent): Promise<WAMessageKey | null> {
+  async sendMessage(userId: string, phoneNumber: string, toNumber: string, content: WAMessageContent, trackingId?: string): Promise<WAMessageKey | null> {
     const sendStartTime = Date.now();
-    const messageId = `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const messageId = trackingId || MessageStatusTracker.createTrackingId();
 
     // Log send attempt with details
     this.logger.debug(
@@ -915,6 +1188,7 @@ export class ConnectionPool extends EventEmitter {
         },
         "No connection found for phone number"
       );
+      this.trackMessage(userId, phoneNumber, messageId, { status: "failed", toNumber, reason: "no_connection" });
       return null;
     }
 
@@ -940,6 +1214,7 @@ export class ConnectionPool extends EventEmitter {
           },
           "Connection not established yet, cannot send message"
         );
+        this.trackMessage(userId, phoneNumber, messageId, { status: "failed", toNumber, reason: "connection_not_established" });
         return null;
       }
 
@@ -1013,20 +1288,23 @@ export class ConnectionPool extends EventEmitter {
         this.sentMessageIds.set(result.key.id, new Date());
 
         // Auto-cleanup after 5 minutes
-        const messageId = result.key.id; // Capture for closure
+        const sentMessageId = result.key.id; // Capture for closure
         setTimeout(
           () => {
-            this.sentMessageIds.delete(messageId);
+            this.sentMessageIds.delete(sentMessageId);
           },
           5 * 60 * 1000
         );
 
+        this.trackMessage(userId, phoneNumber, messageId, { status: "sent", toNumber, messageId: result.key.id });
+
         const publishStart = Date.now();
-        await this.publishEvent("message-sent", {
+        this.emit("message-sent", {
           userId,
           phoneNumber,
           toNumber,
           messageId: result.key.id,
+          trackingId: messageId,
           timestamp: new Date().toISOString(),
         });
 
@@ -1101,6 +1379,7 @@ export class ConnectionPool extends EventEmitter {
         "Message sent but no key returned"
       );
 
+      this.trackMessage(userId, phoneNumber, messageId, { status: "failed", toNumber, reason: "no_message_key" });
       return null;
     } catch (error: any) {
       const errorDuration = Date.now() - sendStartTime;
@@ -1138,10 +1417,353 @@ export class ConnectionPool extends EventEmitter {
         await this.handleProxyError(userId, phoneNumber);
       }
 
+      this.trackMessage(userId, phoneNumber, messageId, { status: "failed", toNumber, reason: error.message || "send_error" });
       return null;
     }
   }
 
+  /**
+   * Lifecycle of a message sent through sendMessage, by tracking id (queuedId / msg_ id) or WhatsApp message id
+   */
+  async getMessageStatus(userId: string, phoneNumber: string, id: string): Promise<MessageStatusRecord | null> {
+    return this.messageStatusTracker.get(userId, phoneNumber, id);
+  }
+
+  /**
+   * Opt a phone number in or out of group sync (group chats stored under users/{userId}/phone_numbers/{phoneNumber}/groups)
+   */
+  async setGroupSync(userId: string, phoneNumber: string, enabled: boolean): Promise<void> {
+    await this.groupConversationService.setEnabled(userId, phoneNumber, enabled);
+  }
+
+  async isGroupSyncEnabled(userId: string, phoneNumber: string): Promise<boolean> {
+    return this.groupConversationService.isEnabled(userId, phoneNumber);
+  }
+
+  /**
+   * Resolve group participant JIDs (phone number or LID, plus Baileys' alternate form when known) to phone number and LID
+   */
+  async resolveGroupParticipants(
+    userId: string,
+    participants: Array<{ jid: string; alt?: string | null }>
+  ): Promise<Array<Omit<GroupParticipantRecord, "admin">>> {
+    await this.lidMappingService.loadMappingsForUser(userId);
+    return participants.map(({ jid, alt }) => this.groupConversationService.resolveParticipant(userId, jid, alt));
+  }
+
+  /**
+   * Subscribe to a contact's presence through an open session (renewed automatically on reconnect)
+   */
+  async subscribePresence(userId: string, phoneNumber: string, contactNumber: string): Promise<void> {
+    const connection = this.getConnection(userId, phoneNumber);
+    if (!connection || connection.state.connection !== "open") {
+      throw new Error("No active connection");
+    }
+
+    await this.presenceService.subscribe(connection.socket, userId, phoneNumber, contactNumber);
+  }
+
+  /**
+   * Latest known presence and last-seen of a contact - null if none was ever received
+   */
+  async getPresence(userId: string, phoneNumber: string, contactNumber: string): Promise<(Partial<PresenceRecord> & { live: boolean }) | null> {
+    return this.presenceService.get(userId, phoneNumber, contactNumber);
+  }
+
+  /**
+   * Check which numbers are on WhatsApp through an open session - cached results are reused
+   */
+  async checkNumbers(userId: string, phoneNumber: string, inputs: NumberCheckInput[]): Promise<NumberCheckResult[]> {
+    const connection = this.getConnection(userId, phoneNumber);
+    if (!connection || connection.state.connection !== "open") {
+      throw new Error("No active connection");
+    }
+
+    return this.numberCheckService.check(connection.socket, userId, inputs);
+  }
+
+  /**
+   * Check a long number list in the background through an open session
+   */
+  async startNumberCheckJob(userId: string, phoneNumber: string, inputs: NumberCheckInput[]): Promise<NumberCheckJob> {
+    const connection = this.getConnection(userId, phoneNumber);
+    if (!connection || connection.state.connection !== "open") {
+      throw new Error("No active connection");
+    }
+
+    return this.numberCheckService.startJob(connection.socket, userId, phoneNumber, inputs);
+  }
+
+  /**
+   * A number check job with its results once it completed - null if it doesn't exist
+   */
+  async getNumberCheckJob(userId: string, jobId: string): Promise<{ job: NumberCheckJob; results: NumberCheckResult[] | null } | null> {
+    return this.numberCheckService.getJob(userId, jobId);
+  }
+
+  /**
+   * Archive, mute, pin or mark a contact's chat unread on the linked phone - null if the contact doesn't exist
+   */
+  async applyChatAction(
+    userId: string,
+    phoneNumber: string,
+    contactNumber: string,
+    action: ChatAction,
+    options: { muteSeconds?: number } = {}
+  ): Promise<Partial<ChatStateRecord> | null> {
+    const connection = this.getConnection(userId, phoneNumber);
+    if (!connection || connection.state.connection !== "open") {
+      throw new Error("No active connection");
+    }
+
+    return this.chatStateService.apply(connection.socket, userId, contactNumber, action, options);
+  }
+
+  /**
+   * A user's conversations, newest last message first (phone and LID halves of a contact merged)
+   */
+  async listChats(userId: string, options: { limit: number; cursor?: string }): Promise<Page<ChatSummary>> {
+    return this.conversationService.listChats(userId, options);
+  }
+
+  /**
+   * Messages of a conversation, newest first - null if there's no contact for the number
+   */
+  async listConversationMessages(
+    userId: string,
+    contactNumber: string,
+    options: { limit: number; cursor?: string; before?: Date; after?: Date }
+  ): Promise<Page<ConversationMessage> | null> {
+    return this.conversationService.listMessages(userId, contactNumber, options);
+  }
+
+  /**
+   * Search a user's message bodies - newest matches first
+   */
+  async searchMessages(userId: string, query: string, options: MessageSearchOptions): Promise<IndexedMessage[]> {
+    return this.messageSearchService.search(userId, query, options);
+  }
+
+  /**
+   * WhatsApp Business labels of a phone number
+   */
+  async listLabels(userId: string, phoneNumber: string): Promise<LabelRecord[]> {
+    return this.labelService.listLabels(userId, phoneNumber);
+  }
+
+  /**
+   * Add or remove a label on a contact's chat - false if the label doesn't exist on the phone
+   */
+  async setChatLabel(userId: string, phoneNumber: string, contactNumber: string, labelId: string, add: boolean): Promise<boolean> {
+    const connection = this.getConnection(userId, phoneNumber);
+    if (!connection || connection.state.connection !== "open") {
+      throw new Error("No active connection");
+    }
+
+    if (!(await this.labelService.hasLabel(userId, phoneNumber, labelId))) {
+      return false;
+    }
+
+    await this.labelService.setChatLabel(connection.socket, userId, phoneNumber, contactNumber, labelId, add);
+    return true;
+  }
+
+  /**
+   * Stored picture and about text of a contact - null if the contact doesn't exist
+   */
+  async getContactProfile(userId: string, contactPhone: string): Promise<Partial<ContactProfileRecord> | null> {
+    return this.contactProfileService.getProfile(userId, contactPhone);
+  }
+
+  /**
+   * Whether a stored contact profile should be fetched again
+   */
+  isContactProfileStale(profile: Partial<ContactProfileRecord>): boolean {
+    return this.contactProfileService.isStale(profile);
+  }
+
+  /**
+   * Fetch a contact's picture and about text through an open session and store them
+   * Returns null if the contact doesn't exist; throws if the session isn't connected
+   */
+  async refreshContactProfile(userId: string, phoneNumber: string, contactPhone: string): Promise<ContactProfileRecord | null> {
+    const connection = this.getConnection(userId, phoneNumber);
+    if (!connection || connection.state.connection !== "open") {
+      throw new Error("No active connection");
+    }
+
+    return this.contactProfileService.refresh(connection.socket, userId, phoneNumber, contactPhone);
+  }
+
+  /**
+   * Record a lifecycle step for a send (fire-and-forget - tracking never delays or fails a send)
+   */
+  private trackMessage(userId: string, phoneNumber: string, trackingId: string | undefined, update: MessageStatusUpdate): void {
+    if (trackingId) {
+      void this.messageStatusTracker.record(userId, phoneNumber, trackingId, update);
+    }
+  }
+
+  /**
+   * Queue a message on the sender's pacing queue and return immediately
+   * Messages are sent in order, each waiting its delayMs after the previous send, so new-contact
+   * messages are spaced like a human would without holding the caller open.
+   * Emits "queued-message-sent" / "queued-message-failed" with the queuedId once the outcome is known.
+   */
+  queueOutboundMessage(
+    userId: string,
+    phoneNumber: string,
+    toNumber: string,
+    content: WAMessageContent,
+    delayMs: number
+  ): { queuedId: string; position: number; estimatedSendAt: Date } {
+    const connectionKey = this.getConnectionKey(userId, phoneNumber);
+    const queuedId = MessageStatusTracker.createTrackingId("queued");
+
+    let queue = this.outboundQueues.get(connectionKey);
+    if (!queue) {
+      queue = { userId, phoneNumber, items: [], processing: false, lastSentAt: this.outboundLastSentAt.get(connectionKey) || 0 };
+      this.outboundQueues.set(connectionKey, queue);
+    }
+
+    queue.items.push({ queuedId, toNumber, content, delayMs: Math.max(0, delayMs), queuedAt: new Date() });
+    this.trackMessage(userId, phoneNumber, queuedId, { status: "queued", toNumber, path: "paced_queue" });
+
+    // Estimate when this message goes out: previous send + every delay ahead of (and including) it
+    let estimatedSendAt = queue.lastSentAt;
+    for (const item of queue.items) {
+      estimatedSendAt = Math.max(Date.now(), estimatedSendAt + item.delayMs);
+    }
+
+    this.logger.info(
+      {
+        queuedId,
+        userId,
+        phoneNumber,
+        toNumber,
+        delayMs,
+        position: queue.items.length,
+      },
+      "Message added to outbound pacing queue"
+    );
+
+    const position = queue.items.length;
+    this.processOutboundQueue(userId, phoneNumber);
+
+    return { queuedId, position, estimatedSendAt: new Date(estimatedSendAt) };
+  }
+
+  /**
+   * Number of messages waiting in a sender's pacing queue
+   */
+  getOutboundQueueLength(userId: string, phoneNumber: string): number {
+    return this.outboundQueues.get(this.getConnectionKey(userId, phoneNumber))?.items.length || 0;
+  }
+
+  /**
+   * Drain a sender's pacing queue one message at a time (no-op if already draining)
+   */
+  private async processOutboundQueue(userId: string, phoneNumber: string): Promise<void> {
+    const connectionKey = this.getConnectionKey(userId, phoneNumber);
+    const queue = this.outboundQueues.get(connectionKey);
+
+    if (!queue || queue.processing) {
+      return;
+    }
+
+    queue.processing = true;
+
+    try {
+      while (queue.items.length > 0 && !this.isShuttingDown) {
+        const next = queue.items[0];
+        const waitMs = Math.max(0, queue.lastSentAt + next.delayMs - Date.now());
+
+        if (waitMs > 0) {
+          await new Promise<void>((resolve) => {
+            queue.timer = setTimeout(resolve, waitMs);
+            queue.wake = resolve;
+          });
+          queue.timer = undefined;
+          queue.wake = undefined;
+
+          if (this.isShuttingDown) {
+            break;
+          }
+        }
+
+        queue.items.shift();
+
+        let messageKey: WAMessageKey | null = null;
+        let error: string | undefined;
+        try {
+          messageKey = await this.sendMessage(userId, phoneNumber, next.toNumber, next.content, next.queuedId);
+        } catch (sendError: any) {
+          error = sendError.message;
+          this.trackMessage(userId, phoneNumber, next.queuedId, { status: "failed", reason: error });
+        }
+        queue.lastSentAt = Date.now();
+        this.outboundLastSentAt.set(connectionKey, queue.lastSentAt);
+
+        if (messageKey?.id) {
+          this.emit("queued-message-sent", {
+            userId,
+            phoneNumber,
+            queuedId: next.queuedId,
+            messageId: messageKey.id,
+            toNumber: next.toNumber,
+            queueDuration: Date.now() - next.queuedAt.getTime(),
+          });
+        } else {
+          this.logger.error({ userId, phoneNumber, queuedId: next.queuedId, toNumber: next.toNumber, error }, "Queued message failed to send");
+          this.emit("queued-message-failed", {
+            userId,
+            phoneNumber,
+            queuedId: next.queuedId,
+            toNumber: next.toNumber,
+            error: error || "Failed to send message",
+          });
+        }
+      }
+    } finally {
+      queue.processing = false;
+      if (queue.items.length === 0) {
+        this.outboundQueues.delete(connectionKey);
+      }
+    }
+  }
+
+  /**
+   * Fail everything still waiting in the pacing queues (shutdown - the queues are in-memory only)
+   */
+  private failOutboundQueues(reason: string): void {
+    for (const queue of this.outboundQueues.values()) {
+      if (queue.timer) {
+        clearTimeout(queue.timer);
+      }
+
+      const { userId, phoneNumber } = queue;
+      const items = queue.items.splice(0);
+      for (const item of items) {
+        this.trackMessage(userId, phoneNumber, item.queuedId, { status: "failed", reason });
+        this.emit("queued-message-failed", {
+          userId,
+          phoneNumber,
+          queuedId: item.queuedId,
+          toNumber: item.toNumber,
+          error: reason,
+        });
+      }
+
+      if (items.length > 0) {
+        this.logger.warn({ userId, phoneNumber, dropped: items.length, reason }, "Dropped queued outbound messages");
+      }
+
+      queue.wake?.();
+    }
+
+    this.outboundQueues.clear();
+  }
+
   /**
    * Attempt on-demand recovery when a message is sent to a session that exists in Firestore but not in memory
    * Returns a Promise that resolves with message key when recovery completes and message is sent, or null if recovery fails
@@ -1241,6 +1863,7 @@ export class ConnectionPool extends EventEmitter {
             "On-demand recovery timeout - session did not recover in time"
           );
 
+          this.trackMessage(userId, phoneNumber, messageId, { status: "failed", reason: "recovery_timeout" });
           resolve(null);
         }, RECOVERY_TIMEOUT_MS);
 
@@ -1252,6 +1875,7 @@ export class ConnectionPool extends EventEmitter {
         // Add message to pending recovery queue
         this.pendingRecoveryMessages.get(connectionKey)!.push({
           toNumber,
+          trackingId: messageId,
           content,
           timestamp: new Date(),
           timeoutId,
@@ -1269,6 +1893,7 @@ export class ConnectionPool extends EventEmitter {
           },
           "Message queued for on-demand recovery"
         );
+        this.trackMessage(userId, phoneNumber, messageId, { status: "queued", toNumber, path: "recovery_queue" });
 
         // Wait for recovery to complete and then process queue
         recoveryPromise!.then(async (recovered) => {
@@ -1309,9 +1934,16 @@ export class ConnectionPool extends EventEmitter {
 
         try {
           const result = await this.sendMessageDirect(connection, queuedMsg.toNumber, queuedMsg.content);
+          this.trackMessage(
+            userId,
+            phoneNumber,
+            queuedMsg.trackingId,
+            result?.id ? { status: "sent", messageId: result.id } : { status: "failed", reason: "send_after_recovery_failed" }
+          );
           queuedMsg.resolve(result);
         } catch (error) {
           this.logger.error({ userId, phoneNumber, toNumber: queuedMsg.toNumber, error }, "Failed to send queued message after recovery");
+          this.trackMessage(userId, phoneNumber, queuedMsg.trackingId, { status: "failed", reason: "send_after_recovery_failed" });
           queuedMsg.resolve(null);
         }
       }
@@ -1338,6 +1970,7 @@ export class ConnectionPool extends EventEmitter {
 
     for (const queuedMsg of queue) {
       clearTimeout(queuedMsg.timeoutId);
+      this.trackMessage(userId, phoneNumber, queuedMsg.trackingId, { status: "failed", reason });
       queuedMsg.resolve(null);
     }
 
@@ -1388,6 +2021,7 @@ export class ConnectionPool extends EventEmitter {
         },
         "Message queue full, rejecting message"
       );
+      this.trackMessage(connection.userId, connection.phoneNumber, messageId, { status: "failed", toNumber, reason: "queue_full" });
       return Promise.resolve(null);
     }
 
@@ -1413,12 +2047,14 @@ export class ConnectionPool extends EventEmitter {
           "Message queue timeout - connection did not reopen in time"
         );
 
+        this.trackMessage(connection.userId, connection.phoneNumber, messageId, { status: "failed", reason: "queue_timeout" });
         resolve(null); // Resolve with null instead of rejecting to match API behavior
       }, QUEUE_TIMEOUT_MS);
 
       // Add to queue
       connection.messageQueue!.push({
         toNumber,
+        trackingId: messageId,
         content,
         timestamp: new Date(),
         timeoutId,
@@ -1438,6 +2074,7 @@ export class ConnectionPool extends EventEmitter {
         },
         "Message queued for sending when connection reopens"
       );
+      this.trackMessage(connection.userId, connection.phoneNumber, messageId, { status: "queued", toNumber, path: "reconnect_queue" });
     });
   }
 
@@ -1491,6 +2128,7 @@ export class ConnectionPool extends EventEmitter {
         const result = await connection.socket.sendMessage(jid, queuedMsg.content as any);
 
         if (result && result.key) {
+          this.trackMessage(connection.userId, connection.phoneNumber, queuedMsg.trackingId, { status: "sent", messageId: result.key.id || undefined });
           queuedMsg.resolve(result.key);
           sentCount++;
 
@@ -1505,6 +2143,7 @@ export class ConnectionPool extends EventEmitter {
             "Queued message sent successfully"
           );
         } else {
+          this.trackMessage(connection.userId, connection.phoneNumber, queuedMsg.trackingId, { status: "failed", reason: "no_message_key" });
           queuedMsg.resolve(null);
           failedCount++;
 
@@ -1519,6 +2158,7 @@ export class ConnectionPool extends EventEmitter {
           );
         }
       } catch (error: any) {
+        this.trackMessage(connection.userId, connection.phoneNumber, queuedMsg.trackingId, { status: "failed", reason: error.message || "send_error" });
         queuedMsg.resolve(null); // Resolve with null instead of rejecting
         failedCount++;
 
@@ -1802,6 +2442,16 @@ export class ConnectionPool extends EventEmitter {
           status: initialStatus,
         });
 
+        // Presence subscriptions end with the previous connection
+        this.presenceService
+          .resubscribe(socket, userId, phoneNumber)
+          .then((renewed) => {
+            if (renewed > 0) {
+              this.logger.info({ userId, phoneNumber, renewed }, "Renewed presence subscriptions");
+            }
+          })
+          .catch((error) => this.logger.warn({ userId, phoneNumber, error }, "Failed to renew presence subscriptions"));
+
         this.logger.info(
           {
             userId,
@@ -2328,13 +2978,40 @@ export class ConnectionPool extends EventEmitter {
       await this.handlePresenceUpdate(userId, phoneNumber, presenceUpdate);
     });
 
-    // Chat updates (typing indicators)
+    // Chat updates (typing indicators, and archive/pin/mute/unread changes made on the phone)
     socket.ev.on("chats.update", async (chats) => {
       for (const chat of chats) {
         if ((chat as any).typing) {
           await this.handleTypingIndicator(userId, phoneNumber, chat.id!, true);
         }
       }
+
+      await this.chatStateService.mirror(userId, phoneNumber, chats);
+    });
+
+    // WhatsApp Business labels - sent during the app state sync after connecting, and on every change
+    socket.ev.on("labels.edit", async (label) => {
+      await this.labelService.handleLabelsEdit(userId, phoneNumber, [label]);
+    });
+
+    socket.ev.on("labels.association", async (event) => {
+      await this.labelService.handleLabelAssociation(userId, phoneNumber, event as any);
+    });
+
+    // Group subject/settings changes and groups we've been added to (group sync only)
+    socket.ev.on("groups.update", async (updates) => {
+      await this.handleGroupsUpdate(userId, phoneNumber, updates);
+    });
+
+    socket.ev.on("groups.upsert", async (groups) => {
+      await this.handleGroupsUpdate(userId, phoneNumber, groups);
+    });
+
+    // Participant changes - refetch the participant list
+    socket.ev.on("group-participants.update", async (update) => {
+      if (await this.groupConversationService.isEnabled(userId, phoneNumber)) {
+        await this.refreshGroupMetadata(userId, phoneNumber, update.id, socket);
+      }
     });
 
     // History sync handler - process contacts and messages
@@ -2947,16 +3624,21 @@ export class ConnectionPool extends EventEmitter {
         this.processedMessageSenders.set(messageId, fromNumber);
       }
 
-      // Skip reaction messages (e.g. thumbs up, heart, etc.)
-      // Reactions have message.message.reactionMessage and are not real messages
+      // Reactions (e.g. thumbs up, heart) are not real messages - attach them to the message they react to
       if (message.message?.reactionMessage) {
-        this.logger.debug({ userId, phoneNumber, fromNumber, messageId: message.key.id }, "Skipping incoming reaction message");
+        await this.handleReactionMessage(userId, phoneNumber, message);
+        return;
+      }
+
+      // Edits and revokes update the stored message instead of creating a new one
+      if (this.getProtocolMessage(message)) {
+        await this.handleProtocolMessage(userId, phoneNumber, message);
         return;
       }
 
-      // Skip group messages
+      // Group messages go to the group conversation (only for phone numbers that opted in)
       if (isGroup) {
-        this.logger.debug({ userId, phoneNumber, fromJid }, "Skipping group message");
+        await this.handleGroupMessage(userId, phoneNumber, message, socket);
         return;
       }
 
@@ -3139,12 +3821,47 @@ export class ConnectionPool extends EventEmitter {
         ...(contactPhoneNumber && { contactPhoneNumber }),
         status: "received",
         mediaUrl: mediaInfo.media_url || undefined,
+        mediaId: mediaInfo.media_id || undefined,
         mediaContentType: mediaInfo.media_content_type || undefined,
+        thumbnailUrl: mediaInfo.thumbnail_url || undefined,
+        thumbnailMediaId: mediaInfo.thumbnail_media_id || undefined,
         body: messageText,
         timestamp: message.messageTimestamp * 1000, // Convert to milliseconds
         messageType: mediaInfo.type,
+        location: extractLocation(message.message) || undefined,
+        contacts: extractContactCards(message.message) || undefined,
       };
 
+      // Rules are matched before the Cloud Function creates the contact, so a first message is still recognisable;
+      // the reply itself is sent in the background
+      if (this.autoReplyService) {
+        const autoReplyRule = await this.autoReplyService.match(userId, phoneNumber, {
+          fromNumber: formattedFromPhone,
+          body: messageText,
+          receivedAt: new Date(messagePayload.timestamp),
+        });
+        if (autoReplyRule) {
+          void this.autoReplyService.reply(userId, phoneNumber, formattedFromPhone, autoReplyRule);
+        }
+      }
+
+      this.emit("message-received", {
+        userId,
+        phoneNumber,
+        message,
+        messageId: message.key.id,
+        fromNumber: formattedFromPhone,
+        body: messageText,
+        messageType: mediaInfo.type,
+        mediaUrl: mediaInfo.media_url || null,
+        mediaId: mediaInfo.media_id || null,
+        thumbnailUrl: mediaInfo.thumbnail_url || null,
+        thumbnailMediaId: mediaInfo.thumbnail_media_id || null,
+        location: messagePayload.location || null,
+        contacts: messagePayload.contacts || null,
+        timestamp: new Date(messagePayload.timestamp).toISOString(),
+      });
+
       // Call HTTP Cloud Function endpoint
       const functionUrl =
         process.env.INCOMING_WHATSAPP_WEB_MESSAGE_URL ||
@@ -3179,6 +3896,20 @@ export class ConnectionPool extends EventEmitter {
         },
         "WhatsApp Web message sent to Cloud Function successfully"
       );
+
+      this.indexMessageForSearch(userId, {
+        id: message.key.id,
+        phoneNumber,
+        contactNumber: formattedFromPhone,
+        direction: "inbound",
+        body: messageText,
+        timestamp: messagePayload.timestamp,
+      });
+
+      // The Cloud Function has created the contact by now - fill in its picture and about text
+      if (socket && (!isLid || wasLidResolved)) {
+        this.contactProfileService.enqueue(socket, userId, phoneNumber, formattedFromPhone);
+      }
     } catch (error) {
       this.logger.error({ userId, phoneNumber, error }, "Failed to send message to Cloud Function");
     }
@@ -3193,7 +3924,19 @@ export class ConnectionPool extends EventEmitter {
       const isApiSent = this.sentMessageIds.has(message.key.id);
 
       if (isApiSent) {
-        // Message sent via DM Champ - already processed
+        // Message sent via DM Champ - already processed, but it still belongs in the search index
+        const chatJid: string = message.key.remoteJid || "";
+        if (!chatJid.includes("@g.us") && !this.isSpecialWhatsAppIdentifier(chatJid)) {
+          this.indexMessageForSearch(userId, {
+            id: message.key.id,
+            phoneNumber,
+            contactNumber: LidMappingService.isLid(chatJid) ? this.lidMappingService.resolveLidToPhone(userId, chatJid) || chatJid : `+${chatJid.split("@")[0]}`,
+            direction: "outbound",
+            body: this.extractMessageText(message),
+            timestamp: Number(message.messageTimestamp) * 1000,
+          });
+        }
+
         this.logger.debug(
           {
             userId,
@@ -3221,16 +3964,21 @@ export class ConnectionPool extends EventEmitter {
         toNumber = toJid.replace("@s.whatsapp.net", "").replace("@g.us", "");
       }
 
-      // Skip reaction messages (e.g. thumbs up, heart, etc.)
-      // Reactions have message.message.reactionMessage and are not real messages
+      // Reactions (e.g. thumbs up, heart) are not real messages - attach them to the message they react to
       if (message.message?.reactionMessage) {
-        this.logger.debug({ userId, phoneNumber, toNumber, messageId: message.key.id }, "Skipping outgoing reaction message");
+        await this.handleReactionMessage(userId, phoneNumber, message);
+        return;
+      }
+
+      // Edits and revokes update the stored message instead of creating a new one
+      if (this.getProtocolMessage(message)) {
+        await this.handleProtocolMessage(userId, phoneNumber, message);
         return;
       }
 
-      // Skip group messages
+      // Group messages go to the group conversation (only for phone numbers that opted in)
       if (isGroup) {
-        this.logger.debug({ userId, phoneNumber, toJid }, "Skipping group message");
+        await this.handleGroupMessage(userId, phoneNumber, message, socket);
         return;
       }
 
@@ -3493,7 +4241,11 @@ export class ConnectionPool extends EventEmitter {
 
         // Standard fields
         media_url: mediaInfo.media_url,
+        media_id: mediaInfo.media_id,
         media_content_type: mediaInfo.media_content_type,
+        thumbnail_url: mediaInfo.thumbnail_url,
+        thumbnail_media_id: mediaInfo.thumbnail_media_id,
+        ...extractStructuredFields(message.message),
         completion_tokens: 0,
         prompt_tokens: 0,
         total_tokens: 0,
@@ -3525,6 +4277,15 @@ export class ConnectionPool extends EventEmitter {
         // Add message to contact's messages subcollection
         const messageRef = await contactRef.collection("messages").add(messageData);
 
+        this.indexMessageForSearch(userId, {
+          id: message.key.id,
+          phoneNumber,
+          contactNumber: formattedToPhone,
+          direction: "outbound",
+          body: messageText,
+          timestamp: message.messageTimestamp * 1000,
+        });
+
         // Update last_message
         await contactRef.update({
           last_message: {
@@ -3575,33 +4336,261 @@ export class ConnectionPool extends EventEmitter {
     }
   }
 
+  /**
+   * Store a real-time group message in its group conversation and emit it with the groupId
+   * Group messages never reach the incoming-message Cloud Function - the bot doesn't answer groups.
+   */
+  private async handleGroupMessage(userId: string, phoneNumber: string, message: any, socket?: WASocket) {
+    const groupJid = message.key.remoteJid as string;
+
+    if (!(await this.groupConversationService.isEnabled(userId, phoneNumber))) {
+      this.logger.debug({ userId, phoneNumber, groupJid }, "Skipping group message - group sync not enabled");
+      return;
+    }
+
+    await this.syncGroupMetadata(userId, phoneNumber, groupJid, socket);
+
+    const mediaInfo = await this.handleMediaMessage(message, userId, phoneNumber);
+    const record = this.buildGroupMessageRecord(userId, phoneNumber, message, mediaInfo, false);
+
+    const stored = await this.groupConversationService.storeMessage(userId, phoneNumber, groupJid, record);
+    if (!stored) {
+      this.logger.debug({ userId, phoneNumber, groupJid, messageId: message.key.id }, "Skipped duplicate group message");
+      return;
+    }
+
+    this.logger.info(
+      { userId, phoneNumber, groupJid, messageId: message.key.id, participant: record.participant_phone_number || record.participant_jid },
+      "Group message stored"
+    );
+
+    const timestamp = new Date(Number(message.messageTimestamp || 0) * 1000).toISOString();
+    if (record.direction === "inbound") {
+      this.emit("message-received", {
+        userId,
+        phoneNumber,
+        message,
+        messageId: message.key.id,
+        groupId: groupJid,
+        fromNumber: record.participant_phone_number || record.participant_jid,
+        participantName: record.participant_name,
+        body: record.body,
+        messageType: record.type,
+        mediaUrl: record.media_url,
+        mediaId: record.media_id,
+        thumbnailUrl: record.thumbnail_url,
+        thumbnailMediaId: record.thumbnail_media_id,
+        location: record.location ?? null,
+        contacts: record.contacts ?? null,
+        timestamp,
+      });
+    } else {
+      this.emit("manual-message-stored", {
+        userId,
+        phoneNumber,
+        messageId: message.key.id,
+        groupId: groupJid,
+        timestamp,
+      });
+    }
+  }
+
+  /**
+   * Build the stored form of a group message, with the sender resolved to a participant
+   */
+  private buildGroupMessageRecord(userId: string, phoneNumber: string, message: any, mediaInfo: any, fromHistory: boolean): GroupMessageRecord {
+    const fromMe = message.key.fromMe === true;
+    const participant = fromMe
+      ? { jid: `${phoneNumber.replace(/\D/g, "")}@s.whatsapp.net`, phone_number: phoneNumber.startsWith("+") ? phoneNumber : `+${phoneNumber}`, lid: null }
+      : this.groupConversationService.resolveParticipant(
+          userId,
+          message.key.participant || "",
+          (message.key as any).participantAlt || (message.key as any).participantPn
+        );
+
+    return {
+      message_sid: message.key.id,
+      direction: fromMe ? "outbound" : "inbound",
+      participant_jid: participant.jid,
+      participant_phone_number: participant.phone_number,
+      participant_lid: participant.lid,
+      participant_name: fromMe ? null : message.pushName || null,
+      body: this.extractMessageText(message),
+      type: mediaInfo.type,
+      media_url: mediaInfo.media_url || null,
+      media_id: mediaInfo.media_id || null,
+      media_content_type: mediaInfo.media_content_type || null,
+      thumbnail_url: mediaInfo.thumbnail_url || null,
+      thumbnail_media_id: mediaInfo.thumbnail_media_id || null,
+      ...extractStructuredFields(message.message),
+      timestamp: admin.firestore.Timestamp.fromMillis(Number(message.messageTimestamp || 0) * 1000),
+      synced_from_history: fromHistory,
+    };
+  }
+
+  /**
+   * Fetch and store a group's subject and participants when they're missing or stale (never throws)
+   */
+  private async syncGroupMetadata(userId: string, phoneNumber: string, groupJid: string, socket?: WASocket) {
+    if (!socket || typeof socket.groupMetadata !== "function") {
+      return;
+    }
+
+    try {
+      if (await this.groupConversationService.needsMetadata(userId, phoneNumber, groupJid)) {
+        await this.refreshGroupMetadata(userId, phoneNumber, groupJid, socket);
+      }
+    } catch (error) {
+      this.logger.warn({ userId, phoneNumber, groupJid, error: (error as any)?.message }, "Failed to check group metadata");
+    }
+  }
+
+  /**
+   * Fetch a group's metadata from WhatsApp and store it (never throws)
+   */
+  private async refreshGroupMetadata(userId: string, phoneNumber: string, groupJid: string, socket: WASocket) {
+    try {
+      const metadata = await socket.groupMetadata(groupJid);
+      await this.groupConversationService.upsertMetadata(userId, phoneNumber, groupJid, metadata);
+      this.logger.info({ userId, phoneNumber, groupJid, subject: metadata.subject, participants: metadata.participants?.length }, "Group metadata synced");
+    } catch (error) {
+      this.logger.warn({ userId, phoneNumber, groupJid, error: (error as any)?.message }, "Failed to sync group metadata");
+    }
+  }
+
+  /**
+   * Apply groups.update / groups.upsert metadata to stored group conversations
+   */
+  private async handleGroupsUpdate(userId: string, phoneNumber: string, updates: Partial<GroupMetadata>[]) {
+    try {
+      if (!(await this.groupConversationService.isEnabled(userId, phoneNumber))) {
+        return;
+      }
+
+      for (const update of updates) {
+        if (!update.id) continue;
+        await this.groupConversationService.upsertMetadata(userId, phoneNumber, update.id, update);
+        this.emit("group-updated", {
+          userId,
+          phoneNumber,
+          groupId: update.id,
+          subject: update.subject,
+          timestamp: new Date().toISOString(),
+        });
+      }
+    } catch (error) {
+      this.logger.warn({ userId, phoneNumber, error: (error as any)?.message }, "Failed to apply group metadata update");
+    }
+  }
+
   /**
    * Handle message status updates
    */
   private async handleMessageUpdate(userId: string, phoneNumber: string, update: any) {
     try {
-      await this.publishEvent("message-update", {
+      this.emit("message-update", {
         userId,
         phoneNumber,
         messageId: update.key.id,
         status: update.update?.status,
         timestamp: new Date().toISOString(),
       });
+
+      // Receipts for our own messages in 1:1 chats are persisted on the stored message
+      const status = this.toReceiptStatus(update.update?.status);
+      const chatJid: string = update.key?.remoteJid || "";
+      if (status && update.key?.id && update.key.fromMe && !chatJid.includes("@g.us") && !this.isSpecialWhatsAppIdentifier(chatJid)) {
+        // The tracker keeps "sent" for when the socket accepted the message, so WhatsApp's server ack is "server_ack"
+        void this.messageStatusTracker.recordReceipt(userId, phoneNumber, update.key.id, status === "sent" ? "server_ack" : status);
+        await this.applyReceipt(userId, phoneNumber, update.key, status, true);
+      }
     } catch (error) {
       this.logger.error({ userId, phoneNumber, error }, "Failed to handle message update");
     }
   }
 
+  /**
+   * Map a Baileys message status to the receipt status we store (null for statuses we don't persist)
+   */
+  private toReceiptStatus(status: number | null | undefined): ReceiptStatus | null {
+    switch (status) {
+      case proto.WebMessageInfo.Status.ERROR:
+        return "failed";
+      case proto.WebMessageInfo.Status.SERVER_ACK:
+        return "sent";
+      case proto.WebMessageInfo.Status.DELIVERY_ACK:
+        return "delivered";
+      case proto.WebMessageInfo.Status.READ:
+        return "read";
+      case proto.WebMessageInfo.Status.PLAYED:
+        return "played";
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Write a receipt onto the stored message (status + per-status timestamp) and emit "message-status"
+   * Receipts can beat the message document into Firestore (API sends are stored by the caller),
+   * so a receipt for an unknown message is retried once after RECEIPT_RETRY_DELAY_MS
+   */
+  private async applyReceipt(userId: string, phoneNumber: string, key: WAMessageKey, status: ReceiptStatus, retryIfMissing: boolean): Promise<void> {
+    const RECEIPT_RETRY_DELAY_MS = 5000;
+    const contactNumber = this.resolveChatContactNumber(userId, key);
+    const target = await this.getStoredMessage(userId, contactNumber, key.id!);
+
+    if (!target) {
+      if (retryIfMissing && !this.isShuttingDown) {
+        setTimeout(() => {
+          this.applyReceipt(userId, phoneNumber, key, status, false).catch((error) => {
+            this.logger.error({ userId, phoneNumber, messageId: key.id, error }, "Failed to apply delayed receipt");
+          });
+        }, RECEIPT_RETRY_DELAY_MS);
+      } else {
+        this.logger.debug({ userId, phoneNumber, contactNumber, messageId: key.id, status }, "Receipt for unknown message - ignoring");
+      }
+      return;
+    }
+
+    const now = admin.firestore.Timestamp.now();
+    const currentRank = RECEIPT_STATUS_RANK[target.data.status as ReceiptStatus] ?? -1;
+    const update: Record<string, any> = {
+      [`${status}_at`]: target.data[`${status}_at`] || now,
+      status_updated_at: now,
+    };
+
+    // Late receipts (e.g. delivered after read) only fill in their timestamp
+    if (RECEIPT_STATUS_RANK[status] > currentRank || target.data.status === "failed") {
+      update.status = status;
+    }
+
+    await target.ref.update(update);
+
+    this.logger.debug({ userId, phoneNumber, contactNumber, messageId: key.id, status, statusChanged: !!update.status }, "Message receipt stored");
+
+    this.emit("message-status", {
+      userId,
+      phoneNumber,
+      contactNumber,
+      messageId: key.id,
+      status,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
   /**
    * Handle presence updates
    */
   private async handlePresenceUpdate(userId: string, phoneNumber: string, presence: any) {
     try {
-      await this.publishEvent("presence-update", {
+      const changes = await this.presenceService.record(userId, phoneNumber, presence.presences);
+
+      this.emit("presence-update", {
         userId,
         phoneNumber,
         jid: presence.id,
         presence: presence.presences,
+        contacts: changes,
         timestamp: new Date().toISOString(),
       });
     } catch (error) {
@@ -3614,7 +4603,7 @@ export class ConnectionPool extends EventEmitter {
    */
   private async handleTypingIndicator(userId: string, phoneNumber: string, chatId: string, isTyping: boolean) {
     try {
-      await this.publishEvent("typing-indicator", {
+      this.emit("typing-indicator", {
         userId,
         phoneNumber,
         chatId,
@@ -3720,6 +4709,200 @@ export class ConnectionPool extends EventEmitter {
     }
   }
 
+  /**
+   * Attach an incoming reaction, or one made from the phone, to the message it reacts to
+   */
+  private async handleReactionMessage(userId: string, phoneNumber: string, message: any): Promise<void> {
+    const reaction = message.message.reactionMessage;
+    const chatJid: string = message.key.remoteJid || "";
+
+    if (!reaction?.key?.id || chatJid.includes("@g.us") || this.isSpecialWhatsAppIdentifier(chatJid)) {
+      this.logger.debug({ userId, phoneNumber, chatJid, messageId: message.key.id }, "Skipping reaction outside a 1:1 chat");
+      return;
+    }
+
+    const contactNumber = this.resolveChatContactNumber(userId, message.key);
+    const target = await this.getStoredMessage(userId, contactNumber, reaction.key.id);
+    if (!target) {
+      this.logger.debug({ userId, phoneNumber, contactNumber, reactedMessageId: reaction.key.id }, "Reacted message not stored - ignoring reaction");
+      return;
+    }
+
+    await this.applyReaction(userId, phoneNumber, contactNumber, target, message.key.fromMe ? "outbound" : "inbound", reaction.text || "");
+  }
+
+  /**
+   * Contact number for a 1:1 chat key - contacts are stored by phone number, so LIDs are resolved where the mapping is known
+   */
+  private resolveChatContactNumber(userId: string, key: any): string {
+    const chatJid: string = key.remoteJid || "";
+
+    if (chatJid.includes("@lid")) {
+      const remoteJidAlt: string | undefined = key.remoteJidAlt;
+      return (
+        this.lidMappingService.resolveLidToPhone(userId, chatJid) ||
+        (remoteJidAlt?.includes("@s.whatsapp.net") ? `+${remoteJidAlt.replace("@s.whatsapp.net", "")}` : chatJid)
+      );
+    }
+
+    return `+${chatJid.replace("@s.whatsapp.net", "")}`;
+  }
+
+  /**
+   * Get the protocol message (edit, revoke, and other notifications) carried by a message, if any
+   * Edits can arrive wrapped in editedMessage depending on the sending client
+   */
+  private getProtocolMessage(message: any): proto.Message.IProtocolMessage | null {
+    return message.message?.protocolMessage || message.message?.editedMessage?.message?.protocolMessage || null;
+  }
+
+  /**
+   * Apply an incoming (or made-from-phone) edit or revoke to the stored message
+   * Other protocol notifications (ephemeral settings, key shares, etc.) are ignored
+   */
+  private async handleProtocolMessage(userId: string, phoneNumber: string, message: any): Promise<void> {
+    const protocolMessage = this.getProtocolMessage(message)!;
+    const chatJid: string = message.key.remoteJid || "";
+    const isEdit = protocolMessage.type === proto.Message.ProtocolMessage.Type.MESSAGE_EDIT;
+    const isRevoke = protocolMessage.type === proto.Message.ProtocolMessage.Type.REVOKE;
+
+    if ((!isEdit && !isRevoke) || !protocolMessage.key?.id || chatJid.includes("@g.us") || this.isSpecialWhatsAppIdentifier(chatJid)) {
+      this.logger.debug({ userId, phoneNumber, chatJid, messageId: message.key.id, protocolType: protocolMessage.type }, "Skipping protocol message");
+      return;
+    }
+
+    const contactNumber = this.resolveChatContactNumber(userId, message.key);
+    const target = await this.getStoredMessage(userId, contactNumber, protocolMessage.key.id);
+    if (!target) {
+      this.logger.debug({ userId, phoneNumber, contactNumber, targetMessageId: protocolMessage.key.id }, "Edited/revoked message not stored - ignoring");
+      return;
+    }
+
+    // Only the author can edit or revoke a message - a contact must not rewrite one of ours, or we one of theirs
+    const senderDirection = message.key.fromMe ? "outbound" : "inbound";
+    if (target.data.direction !== senderDirection) {
+      this.logger.warn(
+        { userId, phoneNumber, contactNumber, targetMessageId: protocolMessage.key.id, senderDirection, targetDirection: target.data.direction },
+        "Edit/revoke from someone other than the message's author - ignoring"
+      );
+      return;
+    }
+
+    if (isRevoke) {
+      await this.applyProtocolUpdate(userId, phoneNumber, contactNumber, target, { type: "revoke" });
+      return;
+    }
+
+    const editedMessage = protocolMessage.editedMessage;
+    const text =
+      editedMessage?.conversation || editedMessage?.extendedTextMessage?.text || editedMessage?.imageMessage?.caption || editedMessage?.videoMessage?.caption;
+    if (text == null) {
+      this.logger.debug({ userId, phoneNumber, targetMessageId: protocolMessage.key.id }, "Edit without text content - ignoring");
+      return;
+    }
+
+    await this.applyProtocolUpdate(userId, phoneNumber, contactNumber, target, { type: "edit", text });
+  }
+
+  /**
+   * Update a stored message for an edit (new body, original kept) or revoke (flagged deleted)
+   * and emit "message-edited" / "message-deleted"
+   */
+  private async applyProtocolUpdate(
+    userId: string,
+    phoneNumber: string,
+    contactNumber: string,
+    target: { ref: DocumentReference; data: Record<string, any> },
+    update: { type: "edit"; text: string } | { type: "revoke" }
+  ): Promise<void> {
+    const messageId = target.data.message_sid;
+    const now = admin.firestore.Timestamp.now();
+
+    try {
+      if (update.type === "edit") {
+        await target.ref.update({
+          body: update.text,
+          edited: true,
+          edited_at: now,
+          ...(target.data.original_body === undefined ? { original_body: target.data.body ?? null } : {}),
+        });
+      } else {
+        await target.ref.update({
+          deleted: true,
+          deleted_at: now,
+        });
+      }
+    } catch (error) {
+      this.logger.error({ userId, phoneNumber, contactNumber, messageId, type: update.type, error }, "Failed to store message edit/revoke");
+      return;
+    }
+
+    this.logger.info({ userId, phoneNumber, contactNumber, messageId, type: update.type }, update.type === "edit" ? "Message edited" : "Message deleted");
+
+    const searchUpdate =
+      update.type === "edit"
+        ? this.messageSearchService.updateBody(userId, phoneNumber, messageId, update.text)
+        : this.messageSearchService.remove(userId, phoneNumber, messageId);
+    searchUpdate.catch((error) => this.logger.warn({ userId, messageId, error }, "Failed to update search index"));
+
+    this.emit(update.type === "edit" ? "message-edited" : "message-deleted", {
+      userId,
+      phoneNumber,
+      contactNumber,
+      messageId,
+      ...(update.type === "edit" ? { body: update.text } : {}),
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Record a reaction on a message document and emit "message-reaction"
+   * Reactions are keyed by direction ("inbound" = the contact's, "outbound" = ours) since 1:1 chats
+   * have one reaction per side; an empty emoji removes it
+   */
+  private async applyReaction(
+    userId: string,
+    phoneNumber: string,
+    contactNumber: string,
+    target: { ref: DocumentReference; data: Record<string, any> },
+    direction: "inbound" | "outbound",
+    emoji: string
+  ): Promise<void> {
+    try {
+      await target.ref.update({
+        [`reactions.${direction}`]: emoji ? { emoji, reacted_at: admin.firestore.Timestamp.now() } : admin.firestore.FieldValue.delete(),
+      });
+    } catch (error) {
+      this.logger.error({ userId, phoneNumber, contactNumber, messageId: target.data.message_sid, error }, "Failed to store reaction");
+      return;
+    }
+
+    this.logger.info(
+      { userId, phoneNumber, contactNumber, messageId: target.data.message_sid, direction, emoji },
+      emoji ? "Reaction stored" : "Reaction removed"
+    );
+
+    this.emit("message-reaction", {
+      userId,
+      phoneNumber,
+      contactNumber,
+      messageId: target.data.message_sid,
+      direction,
+      emoji: emoji || null,
+      removed: !emoji,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Add a stored message to the search index in the background
+   */
+  private indexMessageForSearch(userId: string, message: IndexedMessage): void {
+    this.messageSearchService.add(userId, message).catch((error) => {
+      this.logger.warn({ userId, messageId: message.id, error }, "Failed to index message for search");
+    });
+  }
+
   /**
    * Extract message text with better media type labels
    */
@@ -3752,11 +4935,19 @@ export class ConnectionPool extends EventEmitter {
     if (message.message?.stickerMessage) {
       return "[Sticker]";
     }
-    if (message.message?.locationMessage) {
-      return "[Location]";
+
+    // Location and contact cards keep their data readable in the body (structured copies are stored alongside)
+    const location = extractLocation(message.message);
+    if (location) {
+      return formatLocationText(location);
+    }
+    const contactCards = extractContactCards(message.message);
+    if (contactCards) {
+      return formatContactCardsText(contactCards);
     }
-    if (message.message?.contactMessage) {
-      return "[Contact]";
+    const poll = message.message?.pollCreationMessage || message.message?.pollCreationMessageV3;
+    if (poll) {
+      return `[Poll: ${poll.name || ""}]`;
     }
 
     // Default fallback
@@ -3772,14 +4963,17 @@ export class ConnectionPool extends EventEmitter {
     phoneNumber: string
   ): Promise<{
     media_url: string | null;
+    media_id: string | null;
     media_content_type: string | null;
+    thumbnail_url: string | null;
+    thumbnail_media_id: string | null;
     type: string;
   }> {
     try {
       // Check if message has media
       const messageContent = message.message;
       if (!messageContent) {
-        return { media_url: null, media_content_type: null, type: "text" };
+        return { media_url: null, media_id: null, media_content_type: null, thumbnail_url: null, thumbnail_media_id: null, type: "text" };
       }
 
       let mediaType: string | null = null;
@@ -3803,7 +4997,7 @@ export class ConnectionPool extends EventEmitter {
         mimetype = "image/webp";
       } else {
         // Not a media message
-        return { media_url: null, media_content_type: null, type: "text" };
+        return { media_url: null, media_id: null, media_content_type: null, thumbnail_url: null, thumbnail_media_id: null, type: "text" };
       }
 
       this.logger.info(
@@ -3817,6 +5011,9 @@ export class ConnectionPool extends EventEmitter {
         "Processing media message"
       );
 
+      // WhatsApp's embedded preview is stored next to the media, so inboxes can show videos without loading them
+      const thumbnail = await this.uploadMessageThumbnail(message, userId, phoneNumber);
+
       // Download media from WhatsApp
       const mediaBuffer = (await downloadMediaMessage(message, "buffer", {})) as Buffer;
 
@@ -3832,7 +5029,10 @@ export class ConnectionPool extends EventEmitter {
         );
         return {
           media_url: null,
+          media_id: null,
           media_content_type: mimetype,
+          thumbnail_url: thumbnail?.url || null,
+          thumbnail_media_id: thumbnail?.mediaId || null,
           type: mediaType,
         };
       }
@@ -3863,7 +5063,10 @@ export class ConnectionPool extends EventEmitter {
 
       return {
         media_url: uploadResult.url,
+        media_id: uploadResult.mediaId,
         media_content_type: mimetype,
+        thumbnail_url: thumbnail?.url || null,
+        thumbnail_media_id: thumbnail?.mediaId || null,
         type: mediaType,
       };
     } catch (error) {
@@ -3896,7 +5099,34 @@ export class ConnectionPool extends EventEmitter {
         mimetype = messageContent.documentMessage.mimetype;
       }
 
-      return { media_url: null, media_content_type: mimetype, type: mediaType };
+      return { media_url: null, media_id: null, media_content_type: mimetype, thumbnail_url: null, thumbnail_media_id: null, type: mediaType };
+    }
+  }
+
+  /**
+   * Upload the JPEG preview embedded in an image, video or document message - null if it has none or the upload fails
+   */
+  private async uploadMessageThumbnail(message: any, userId: string, phoneNumber: string): Promise<MediaUploadResult | null> {
+    const thumbnail = extractJpegThumbnail(message.message);
+    if (!thumbnail) {
+      return null;
+    }
+
+    try {
+      const uploadResult = await this.mediaService.uploadMedia(
+        {
+          buffer: thumbnail,
+          mimetype: "image/jpeg",
+          size: thumbnail.length,
+          originalname: `whatsapp_thumbnail_${message.key.id}`,
+        },
+        userId,
+        phoneNumber
+      );
+      return uploadResult;
+    } catch (error) {
+      this.logger.warn({ error, userId, phoneNumber, messageId: message.key.id }, "Failed to upload media thumbnail");
+      return null;
     }
   }
 
@@ -4027,6 +5257,9 @@ export class ConnectionPool extends EventEmitter {
         "Loaded existing contacts for batch processing"
       );
 
+      // Pictures and about text are fetched in the background, paced by the profile service
+      const profileSocket = this.connections.get(this.getConnectionKey(userId, phoneNumber))?.socket;
+
       // Collect batch updates
       const batchUpdates: Array<{
         docRef: FirebaseFirestore.DocumentReference;
@@ -4078,6 +5311,10 @@ export class ConnectionPool extends EventEmitter {
           // Extract first and last name from WhatsApp name if current name is Unknown
           const { firstName, lastName } = this.extractNames(contact.name || contact.notify);
 
+          if (profileSocket && this.contactProfileService.isStale(existingData)) {
+            this.contactProfileService.enqueue(profileSocket, userId, phoneNumber, formattedPhone);
+          }
+
           batchUpdates.push({
             docRef: existingDoc.ref,
             data: {
@@ -4191,13 +5428,21 @@ export class ConnectionPool extends EventEmitter {
       // Get the import list reference if it exists
       const sessionKey = `${userId}-${phoneNumber}`;
       const importListRef = this.importListRefs.get(sessionKey);
+      const syncGroups = await this.groupConversationService.isEnabled(userId, phoneNumber);
 
       for (const chat of chats) {
         const chatJid = chat.id || "";
         const isGroup = chatJid.includes("@g.us");
 
-        // Skip groups for now
-        if (isGroup) continue;
+        // Groups aren't contacts - keep their subject on the group conversation when group sync is on
+        if (isGroup) {
+          if (syncGroups) {
+            await this.groupConversationService
+              .upsertMetadata(userId, phoneNumber, chatJid, chat.name ? { subject: chat.name } : {})
+              .catch((error) => this.logger.warn({ userId, phoneNumber, chatJid, error: error.message }, "Failed to store synced group chat"));
+          }
+          continue;
+        }
 
         const contactNumber = chatJid.replace("@s.whatsapp.net", "");
 
@@ -4333,6 +5578,11 @@ export class ConnectionPool extends EventEmitter {
 
           await contactRef.update(updateData);
 
+          // Labels that arrived with the app state sync before this contact existed
+          await this.labelService
+            .applyToContact(userId, phoneNumber, formattedPhone, contactRef)
+            .catch((error) => this.logger.warn({ userId, phoneNumber, contactPhone: formattedPhone, error: error.message }, "Failed to apply chat labels"));
+
           this.logger.info(
             {
               userId,
@@ -4469,18 +5719,24 @@ export class ConnectionPool extends EventEmitter {
       }
       const processedContacts = this.processedContactsCache.get(sessionKey)!;
 
-      // Group messages by contact
+      // Group messages by contact (group chats by group, when group sync is on)
       const messagesByContact = new Map<string, any[]>();
+      const messagesByGroup = new Map<string, any[]>();
+      const syncGroups = await this.groupConversationService.isEnabled(userId, phoneNumber);
 
       for (const msg of messages) {
-        // Skip reaction messages (thumbs up, heart, etc.) — not real messages
-        if (msg.message?.reactionMessage) continue;
+        // Skip reaction messages (thumbs up, heart, etc.) and edit/revoke notifications — not real messages
+        if (msg.message?.reactionMessage || this.getProtocolMessage(msg)) continue;
 
         const fromJid = msg.key?.remoteJid || "";
         const isGroup = fromJid.includes("@g.us");
 
-        // Skip groups for now
-        if (isGroup) continue;
+        if (isGroup) {
+          if (syncGroups) {
+            messagesByGroup.set(fromJid, [...(messagesByGroup.get(fromJid) || []), msg]);
+          }
+          continue;
+        }
 
         const contactNumber = fromJid.replace("@s.whatsapp.net", "");
         if (!contactNumber) continue;
@@ -4786,7 +6042,13 @@ export class ConnectionPool extends EventEmitter {
 
             // Media fields
             media_url: mediaInfo.media_url,
+            media_id: mediaInfo.media_id,
             media_content_type: mediaInfo.media_content_type,
+            thumbnail_url: mediaInfo.thumbnail_url,
+            thumbnail_media_id: mediaInfo.thumbnail_media_id,
+
+            // Structured location / contact card data
+            ...extractStructuredFields(msg.message),
 
             // Bot/AI fields
             bot_reply: false,
@@ -4825,6 +6087,15 @@ export class ConnectionPool extends EventEmitter {
           batch.set(messageDocRef, messageData);
           batchCount++;
 
+          this.indexMessageForSearch(userId, {
+            id: msg.key.id,
+            phoneNumber,
+            contactNumber: formattedContactPhone,
+            direction: msg.key.fromMe ? "outbound" : "inbound",
+            body: messageText,
+            timestamp: msg.messageTimestamp * 1000,
+          });
+
           // Track the last message for this contact
           if (!lastMessageData || msg.messageTimestamp > lastMessageData.messageTimestamp) {
             lastMessageData = msg;
@@ -4874,25 +6145,10 @@ export class ConnectionPool extends EventEmitter {
           await contactRef.update(lastMessageUpdate);
         }
 
-        // Try to fetch profile picture if we have a socket connection
+        // Fetch profile picture and about text in the background if we have a socket connection
         const connection = this.connections.get(`${userId}-${phoneNumber}`);
         if (connection?.socket && contactRef) {
-          try {
-            const contactJid = formattedContactPhone.replace("+", "") + "@s.whatsapp.net";
-            const profilePicUrl = await connection.socket.profilePictureUrl(contactJid, "image");
-
-            if (profilePicUrl) {
-              await contactRef.update({
-                avatar_url: profilePicUrl,
-                avatar_fetched_at: currentTimestamp,
-              });
-
-              this.logger.debug({ userId, contactPhone: formattedContactPhone }, "Profile picture fetched and saved");
-            }
-          } catch (error) {
-            // Profile picture might be private or unavailable
-            this.logger.debug({ userId, contactPhone: formattedContactPhone, error }, "Could not fetch profile picture");
-          }
+          this.contactProfileService.enqueue(connection.socket, userId, phoneNumber, formattedContactPhone);
         }
 
         // Add contact to deduplication cache after successful processing
@@ -4908,6 +6164,30 @@ export class ConnectionPool extends EventEmitter {
         );
       }
 
+      // Store group chats in their group conversations
+      const groupSocket = this.connections.get(this.getConnectionKey(userId, phoneNumber))?.socket;
+      for (const [groupJid, groupMessages] of messagesByGroup) {
+        await this.syncGroupMetadata(userId, phoneNumber, groupJid, groupSocket);
+
+        let storedForGroup = 0;
+        for (const msg of groupMessages) {
+          try {
+            const mediaInfo = await this.handleMediaMessage(msg, userId, phoneNumber);
+            const record = this.buildGroupMessageRecord(userId, phoneNumber, msg, mediaInfo, true);
+            if (await this.groupConversationService.storeMessage(userId, phoneNumber, groupJid, record)) {
+              storedForGroup++;
+            }
+          } catch (error) {
+            this.logger.warn({ userId, phoneNumber, groupJid, messageId: msg.key?.id, error: (error as any)?.message }, "Failed to store synced group message");
+          }
+        }
+
+        if (storedForGroup > 0) {
+          syncedCount++;
+        }
+        this.logger.debug({ userId, phoneNumber, groupJid, stored: storedForGroup, total: groupMessages.length }, "Group messages synced");
+      }
+
       this.logger.info({ userId, phoneNumber, totalSynced: syncedCount }, "Messages sync completed");
 
       // Emit event for UI updates
@@ -5433,26 +6713,15 @@ export class ConnectionPool extends EventEmitter {
   }
 
   /**
-   * Publish events to Pub/Sub
+   * Publish an event to the event bus sinks (see EventBus / EVENT_SINKS)
    *
-   * TODO: The following Pub/Sub topics need to be created in GCP and Cloud Function
-   * handlers need to be implemented to consume these events:
-   * - whatsapp-web-message-update (message delivery/read status)
-   * - whatsapp-web-presence-update (online/offline status)
-   * - whatsapp-web-message-sent (outbound message confirmation)
-   * - whatsapp-web-typing-indicator (typing status)
+   * The Pub/Sub sink publishes to whatsapp-web-{eventType} topics, which are not yet created in GCP -
+   * it's only enabled via EVENT_SINKS=pubsub (or the older ENABLE_PUBSUB_EVENTS=true) to avoid
+   * hundreds of failed API calls per day against non-existent topics.
    */
   private async publishEvent(eventType: string, data: any) {
-    // Pub/Sub topics not yet created in GCP — publishing is disabled by default
-    // to avoid hundreds of failed API calls per day against non-existent topics.
-    // To enable: set ENABLE_PUBSUB_EVENTS=true and create the topics listed above.
-    if (!process.env.ENABLE_PUBSUB_EVENTS) {
-      return;
-    }
-
     try {
-      const topic = this.pubsub.topic(`whatsapp-web-${eventType}`);
-      await topic.publishMessage({ data: Buffer.from(JSON.stringify(data)) });
+      await this.eventBus.publish(eventType, data);
     } catch (error) {
       this.logger.warn({ eventType, error }, "Failed to publish event");
     }
@@ -5498,6 +6767,30 @@ export class ConnectionPool extends EventEmitter {
     }, this.config.sessionCleanupInterval);
   }
 
+  /**
+   * Periodically queue profile refreshes for contacts whose picture and about text are stale
+   */
+  private startProfileRefresh() {
+    const PROFILE_REFRESH_INTERVAL_MS = parseInt(process.env.CONTACT_PROFILE_REFRESH_INTERVAL_MS || String(6 * 60 * 60 * 1000));
+
+    this.profileRefreshTimer = setInterval(async () => {
+      if (this.isShuttingDown) return;
+
+      for (const connection of this.connections.values()) {
+        if (connection.state.connection !== "open") continue;
+
+        try {
+          const queued = await this.contactProfileService.refreshStale(connection.socket, connection.userId, connection.phoneNumber);
+          if (queued > 0) {
+            this.logger.info({ userId: connection.userId, phoneNumber: connection.phoneNumber, queued }, "Queued stale contact profiles for refresh");
+          }
+        } catch (error) {
+          this.logger.warn({ userId: connection.userId, phoneNumber: connection.phoneNumber, error }, "Failed to queue stale contact profiles");
+        }
+      }
+    }, PROFILE_REFRESH_INTERVAL_MS);
+  }
+
   /**
    * Start periodic deep-health verification of connections believed to be "open".
    *
@@ -5608,6 +6901,13 @@ export class ConnectionPool extends EventEmitter {
         }
       }
 
+      // Clean pacing timestamps for inactive users
+      for (const key of this.outboundLastSentAt.keys()) {
+        if (!activeUserIds.has(key.split(":")[0]) && !this.outboundQueues.has(key)) {
+          this.outboundLastSentAt.delete(key);
+        }
+      }
+
       // Clean stale sentMessageIds (older than 10 minutes - extra safety)
       const staleThreshold = Date.now() - 10 * 60 * 1000;
       let staleMessagesCleared = 0;
@@ -5851,9 +7151,12 @@ export class ConnectionPool extends EventEmitter {
         reconnectionInProgress: this.reconnectionInProgress.size,
         pendingRecoveryMessages: this.pendingRecoveryMessages.size,
         recoveryInProgress: this.recoveryInProgress.size,
+        outboundQueues: this.outboundQueues.size,
+        outboundQueuedMessages: Array.from(this.outboundQueues.values()).reduce((sum, q) => sum + q.items.length, 0),
       },
       uptime: process.uptime(),
       proxyMetrics: this.proxyManager.getMetrics(),
+      mediaMetrics: this.mediaService.getMetrics(),
       webSocketHealth: {
         healthyConnections: wsMetrics.healthyConnections,
         degradedConnections: wsMetrics.degradedConnections,
@@ -5894,6 +7197,12 @@ export class ConnectionPool extends EventEmitter {
     if (this.connectionVerificationTimer) {
       clearInterval(this.connectionVerificationTimer);
     }
+    if (this.profileRefreshTimer) {
+      clearInterval(this.profileRefreshTimer);
+    }
+
+    // Paced messages only live in memory - report them as failed so clients can retry
+    this.failOutboundQueues("Service shutting down");
 
     // Clear memory maps
     this.syncedContactInfo.clear();
@@ -5927,6 +7236,9 @@ export class ConnectionPool extends EventEmitter {
     // Shutdown session manager (performs final backups in hybrid mode)
     await this.sessionManager.shutdown();
 
+    // Write out search index changes since the last flush
+    await this.messageSearchService.stop();
+
     this.logger.info("Connection pool shutdown complete");
   }
 
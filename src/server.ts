@@ -22,6 +22,13 @@ import { ReconnectionService } from "./services/ReconnectionService";
 import { InstanceCoordinator } from "./services/InstanceCoordinator";
 import { CloudRunWebSocketManager } from "./services/CloudRunWebSocketManager";
 import { ErrorHandler } from "./services/ErrorHandler";
+import { MessageScheduler } from "./services/MessageScheduler";
+import { CampaignService } from "./services/CampaignService";
+import { WebhookService } from "./services/WebhookService";
+import { AutoReplyService } from "./services/AutoReplyService";
+import { createEventBus } from "./services/EventBus";
+import { IdempotencyStore } from "./services/IdempotencyStore";
+import { MediaRetentionService } from "./services/MediaRetentionService";
 // import { CloudRunSessionOptimizer } from "./services/CloudRunSessionOptimizer"; // Commented out - not currently used
 
 // API routes
@@ -144,6 +151,29 @@ statusReconciliationService.setConnectionPool(connectionPool);
 
 // Set connection pool reference for reconnection service
 (reconnectionService as any).connectionPool = connectionPool;
+
+// Initialize message scheduler (schedules are persisted in Firestore and survive redeploys)
+const messageScheduler = new MessageScheduler(firestore, connectionPool);
+
+// Initialize broadcast campaigns (paced sends, resumed by another instance after a redeploy)
+const campaignService = new CampaignService(firestore, connectionPool, `instance_${process.env.HOSTNAME || "unknown"}_${Date.now()}`);
+
+// Idempotency keys for message sends (results persisted so client retries don't send twice)
+const idempotencyStore = new IdempotencyStore(firestore);
+
+// Auto-reply rules, evaluated by the connection pool for inbound messages
+const autoReplyService = new AutoReplyService(firestore, connectionPool);
+connectionPool.setAutoReplyService(autoReplyService);
+
+// Media retention sweep and media id migration (stored media is served through GET /api/media/:id)
+const mediaRetentionService = new MediaRetentionService(firestore, connectionPool.getMediaService());
+
+// Customer webhooks (signed deliveries, retries persisted in Firestore)
+const webhookService = new WebhookService(firestore);
+
+// Where ConnectionPool events go (EVENT_SINKS: pubsub, webhook, emitter, file)
+const eventBus = createEventBus(process.env.EVENT_SINKS, { pubsub, webhookService, filePath: process.env.EVENT_LOG_FILE });
+connectionPool.setEventBus(eventBus);
 // const sessionOptimizer = new CloudRunSessionOptimizer(storage, firestore); // Commented out - not currently used
 
 // Connect services to connection pool events
@@ -212,7 +242,8 @@ const corsOptions = {
   },
   credentials: true,
   methods: ["GET", "POST", "PUT", "DELETE", "PATCH", "OPTIONS"],
-  allowedHeaders: ["Content-Type", "Authorization", "x-api-key", "x-user-id"],
+  allowedHeaders: ["Content-Type", "Authorization", "x-api-key", "x-user-id", "Idempotency-Key"],
+  exposedHeaders: ["Idempotent-Replayed"],
   preflightContinue: false,
   optionsSuccessStatus: 204,
   maxAge: 86400, // Cache preflight response for 24 hours
@@ -409,6 +440,9 @@ app.get("/health", async (_req: Request, res: Response) => {
       // Proxy metrics
       proxy: metrics.proxyMetrics,
 
+      // Media storage deduplication
+      media: metrics.mediaMetrics,
+
       // Reconciliation metrics (status sync monitoring)
       reconciliation: {
         totalChecks: reconciliationMetrics.totalChecks,
@@ -532,10 +566,26 @@ app.get("/readiness", (_req: Request, res: Response) => {
 });
 
 // API Routes
-app.use("/api", createApiRoutes(connectionPool, sessionManager, proxyManager, connectionStateManager, reconnectionService, firestore));
+app.use(
+  "/api",
+  createApiRoutes(
+    connectionPool,
+    sessionManager,
+    proxyManager,
+    connectionStateManager,
+    reconnectionService,
+    firestore,
+    messageScheduler,
+    campaignService,
+    idempotencyStore,
+    webhookService,
+    autoReplyService,
+    mediaRetentionService
+  )
+);
 
 // WebSocket handlers
-createWebSocketHandlers(io, connectionPool, sessionManager);
+createWebSocketHandlers(io, connectionPool, sessionManager, campaignService, idempotencyStore);
 
 // Enhanced error handling middleware with detailed logging
 app.use((err: Error, req: Request, res: Response, _next: NextFunction) => {
@@ -618,6 +668,18 @@ const gracefulShutdown = async (signal: string) => {
   // Stop status reconciliation service
   statusReconciliationService.stop();
 
+  // Stop firing scheduled messages (pending ones are picked up by the next instance)
+  messageScheduler.stop();
+
+  // Stop campaign runners (running campaigns are taken over by the next instance)
+  campaignService.stop();
+
+  // Stop retrying webhooks (due retries are picked up by the next instance)
+  webhookService.stop();
+
+  // Stop the media retention sweep (the next instance sweeps on its own schedule)
+  mediaRetentionService.stop();
+
   // Mark sessions for graceful shutdown
   if (sessionRecoveryService) {
     await sessionRecoveryService.shutdown();
@@ -629,6 +691,9 @@ const gracefulShutdown = async (signal: string) => {
   // Shutdown connection pool with session preservation for deployments
   await connectionPool.shutdown(true); // preserveSessions = true
 
+  // Flush events still being written (file sink)
+  await eventBus.close();
+
   // Exit process
   process.exit(0);
 };
@@ -671,6 +736,19 @@ server.listen(PORT, async () => {
       // This ensures initial state is synced before starting periodic checks
       logger.info("Starting status reconciliation service");
       statusReconciliationService.start();
+
+      // Start message scheduler once sessions are recovered so due messages can be sent right away
+      logger.info("Starting message scheduler");
+      messageScheduler.start();
+
+      logger.info("Starting campaign service");
+      campaignService.start();
+
+      logger.info("Starting webhook retry poller");
+      webhookService.start();
+
+      logger.info("Starting media retention sweep");
+      mediaRetentionService.start();
     } catch (error) {
       logger.error({ error }, "Failed to recover connections on startup");
     }
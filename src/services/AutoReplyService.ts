@@ -0,0 +1,444 @@
+import { Firestore, Timestamp, FieldValue } from "@google-cloud/firestore";
+import pino from "pino";
+import { RE2JS } from "re2js";
+import type { ConnectionPool } from "../core/ConnectionPool";
+import { LimitChecker } from "./limitChecker";
+import { buildMessageContent } from "../utils/messageContent";
+
+export const AUTO_REPLY_TRIGGERS = ["keyword", "regex", "new_contact", "outside_business_hours"] as const;
+
+export type AutoReplyTrigger = (typeof AUTO_REPLY_TRIGGERS)[number];
+
+/**
+ * Opening hours in the business's own timezone - a window whose end is before its start runs past midnight
+ */
+export interface BusinessHours {
+  timezone: string; // IANA name, e.g. "Europe/Amsterdam"
+  days: number[]; // 0 = Sunday ... 6 = Saturday
+  start: string; // "09:00"
+  end: string; // "17:30"
+}
+
+/**
+ * Auto-reply rule as stored in users/{userId}/phone_numbers/{phoneNumber}/auto_reply_rules
+ */
+export interface AutoReplyRule {
+  id: string;
+  user_id: string;
+  phone_number: string;
+  name: string;
+  trigger: AutoReplyTrigger;
+  keywords: string[] | null; // keyword: case-insensitive, any keyword found in the message matches
+  pattern: string | null; // regex: case-insensitive RE2 syntax
+  business_hours: BusinessHours | null; // outside_business_hours
+  reply: string;
+  cooldown_minutes: number; // Per contact - a contact gets this rule's reply at most once per cooldown
+  priority: number; // Lowest first; only the first matching rule replies
+  active: boolean;
+  reply_count: number;
+  last_triggered_at: Timestamp | null;
+  created_at: Timestamp;
+  updated_at: Timestamp;
+}
+
+export interface AutoReplyRuleInput {
+  name: string;
+  trigger: AutoReplyTrigger;
+  keywords?: string[] | null;
+  pattern?: string | null;
+  businessHours?: BusinessHours | null;
+  reply: string;
+  cooldownMinutes?: number;
+  priority?: number;
+  active?: boolean;
+}
+
+export interface InboundMessageContext {
+  fromNumber: string;
+  body: string;
+  receivedAt: Date;
+}
+
+const MAX_PATTERN_LENGTH = 200;
+const MAX_REPLY_LENGTH = 4096; // WhatsApp's text message limit
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/**
+ * Auto-reply rules for inbound messages
+ *
+ * ConnectionPool.handleIncomingMessage asks match() for the first active rule (by priority) that matches
+ * a 1:1 inbound message - before the message reaches the Cloud Function, so a first message from a new
+ * contact can still be recognised - and then sends the reply with reply(). Replies go through
+ * LimitChecker like any other send, and each rule has a per-contact cooldown (claimed in a transaction,
+ * so two instances can't both answer) to keep two auto-responders from replying to each other forever.
+ */
+export class AutoReplyService {
+  private firestore: Firestore;
+  private connectionPool: ConnectionPool;
+  private limitChecker: LimitChecker;
+  private logger = pino({ name: "AutoReplyService" });
+  private ruleCache: Map<string, { rules: AutoReplyRule[]; loadedAt: number }> = new Map(); // userId:phoneNumber -> active rules
+
+  private readonly CACHE_TTL_MS = 60 * 1000; // Rule changes made on another instance apply within a minute
+  private readonly DEFAULT_COOLDOWN_MINUTES = 60;
+
+  constructor(firestore: Firestore, connectionPool: ConnectionPool, limitChecker?: LimitChecker) {
+    this.firestore = firestore;
+    this.connectionPool = connectionPool;
+    this.limitChecker = limitChecker || new LimitChecker();
+  }
+
+  /**
+   * Validate a complete rule - returns an error message, or null if it's usable
+   */
+  static validate(input: Partial<AutoReplyRuleInput>): string | null {
+    if (typeof input.name !== "string" || !input.name.trim()) {
+      return "name required";
+    }
+    if (!AUTO_REPLY_TRIGGERS.includes(input.trigger as AutoReplyTrigger)) {
+      return `trigger must be one of: ${AUTO_REPLY_TRIGGERS.join(", ")}`;
+    }
+    if (typeof input.reply !== "string" || !input.reply.trim()) {
+      return "reply required";
+    }
+    if (input.reply.length > MAX_REPLY_LENGTH) {
+      return `reply must be at most ${MAX_REPLY_LENGTH} characters`;
+    }
+    if (input.cooldownMinutes !== undefined && (typeof input.cooldownMinutes !== "number" || !(input.cooldownMinutes >= 1))) {
+      return "cooldownMinutes must be at least 1";
+    }
+    if (input.priority !== undefined && !Number.isInteger(input.priority)) {
+      return "priority must be an integer";
+    }
+    if (input.active !== undefined && typeof input.active !== "boolean") {
+      return "active must be a boolean";
+    }
+
+    switch (input.trigger) {
+      case "keyword":
+        if (!Array.isArray(input.keywords) || input.keywords.length === 0 || input.keywords.some((keyword) => typeof keyword !== "string" || !keyword.trim())) {
+          return "keywords must be a non-empty array of strings";
+        }
+        return null;
+      case "regex":
+        if (typeof input.pattern !== "string" || !input.pattern || input.pattern.length > MAX_PATTERN_LENGTH) {
+          return `pattern must be a regular expression of at most ${MAX_PATTERN_LENGTH} characters`;
+        }
+        if (!AutoReplyService.compilePattern(input.pattern)) {
+          return "pattern is not a valid regular expression (lookarounds and backreferences aren't supported)";
+        }
+        return null;
+      case "outside_business_hours":
+        return AutoReplyService.validateBusinessHours(input.businessHours);
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Compile a regex rule's pattern with RE2, or null if it isn't valid RE2 syntax
+   * RE2 matches in time linear in the message length, so no pattern can stall the shared event loop
+   * the way a backtracking RegExp like a*a*a*b can
+   */
+  static compilePattern(pattern: string): RE2JS | null {
+    try {
+      return RE2JS.compile(pattern, RE2JS.CASE_INSENSITIVE);
+    } catch {
+      return null;
+    }
+  }
+
+  private static validateBusinessHours(hours: BusinessHours | null | undefined): string | null {
+    if (!hours || typeof hours !== "object") {
+      return "businessHours required";
+    }
+
+    try {
+      if (typeof hours.timezone !== "string") {
+        throw new RangeError("timezone missing");
+      }
+      new Intl.DateTimeFormat("en-US", { timeZone: hours.timezone });
+    } catch {
+      return "businessHours.timezone must be an IANA timezone, e.g. Europe/Amsterdam";
+    }
+
+    if (!Array.isArray(hours.days) || hours.days.length === 0 || hours.days.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+      return "businessHours.days must be a non-empty array of weekdays (0 = Sunday ... 6 = Saturday)";
+    }
+    if (!TIME_PATTERN.test(hours.start) || !TIME_PATTERN.test(hours.end) || hours.start === hours.end) {
+      return "businessHours.start and businessHours.end must be different HH:MM times";
+    }
+
+    return null;
+  }
+
+  /**
+   * Whether a moment falls within business hours (an overnight window counts from the day it starts)
+   */
+  static isWithinBusinessHours(hours: BusinessHours, at: Date): boolean {
+    const parts = new Intl.DateTimeFormat("en-US", {
+      timeZone: hours.timezone,
+      weekday: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    }).formatToParts(at);
+    const part = (type: string) => parts.find((p) => p.type === type)?.value || "";
+
+    const day = WEEKDAYS.indexOf(part("weekday"));
+    const time = `${part("hour")}:${part("minute")}`;
+
+    if (hours.start < hours.end) {
+      return hours.days.includes(day) && time >= hours.start && time < hours.end;
+    }
+
+    // Overnight: the late part belongs to today, the early part to yesterday's window
+    return (hours.days.includes(day) && time >= hours.start) || (hours.days.includes((day + 6) % 7) && time < hours.end);
+  }
+
+  /**
+   * Whether a rule's message condition matches (new_contact needs a contact lookup - see match())
+   */
+  static matchesMessage(rule: AutoReplyRule, body: string, receivedAt: Date): boolean {
+    switch (rule.trigger) {
+      case "keyword": {
+        const text = body.toLowerCase();
+        return (rule.keywords || []).some((keyword) => text.includes(keyword.toLowerCase()));
+      }
+      case "regex": {
+        // Rules stored before patterns were compiled with RE2 may use syntax it lacks - they never match
+        const compiled = rule.pattern ? AutoReplyService.compilePattern(rule.pattern) : null;
+        return !!compiled && compiled.test(body);
+      }
+      case "outside_business_hours":
+        return !!rule.business_hours && !AutoReplyService.isWithinBusinessHours(rule.business_hours, receivedAt);
+      default:
+        return false;
+    }
+  }
+
+  private getRulesCollection(userId: string, phoneNumber: string) {
+    return this.firestore.collection("users").doc(userId).collection("phone_numbers").doc(phoneNumber).collection("auto_reply_rules");
+  }
+
+  private getCooldownCollection(userId: string, phoneNumber: string) {
+    return this.firestore.collection("users").doc(userId).collection("phone_numbers").doc(phoneNumber).collection("auto_reply_cooldowns");
+  }
+
+  /**
+   * Create a rule (input must have passed validate())
+   */
+  async create(userId: string, phoneNumber: string, input: AutoReplyRuleInput): Promise<AutoReplyRule> {
+    const docRef = this.getRulesCollection(userId, phoneNumber).doc();
+    const now = Timestamp.now();
+
+    const rule: AutoReplyRule = {
+      id: docRef.id,
+      user_id: userId,
+      phone_number: phoneNumber,
+      name: input.name.trim(),
+      trigger: input.trigger,
+      keywords: input.trigger === "keyword" ? input.keywords!.map((keyword) => keyword.trim()) : null,
+      pattern: input.trigger === "regex" ? input.pattern! : null,
+      business_hours: input.trigger === "outside_business_hours" ? input.businessHours! : null,
+      reply: input.reply,
+      cooldown_minutes: input.cooldownMinutes ?? this.DEFAULT_COOLDOWN_MINUTES,
+      priority: input.priority ?? 0,
+      active: input.active ?? true,
+      reply_count: 0,
+      last_triggered_at: null,
+      created_at: now,
+      updated_at: now,
+    };
+
+    await docRef.set(rule);
+    this.ruleCache.delete(`${userId}:${phoneNumber}`);
+
+    this.logger.info({ userId, phoneNumber, ruleId: rule.id, trigger: rule.trigger }, "Auto-reply rule created");
+    return rule;
+  }
+
+  /**
+   * List rules for a phone number in evaluation order
+   */
+  async list(userId: string, phoneNumber: string): Promise<AutoReplyRule[]> {
+    const snapshot = await this.getRulesCollection(userId, phoneNumber).get();
+    return AutoReplyService.sortRules(snapshot.docs.map((doc) => doc.data() as AutoReplyRule));
+  }
+
+  async get(userId: string, phoneNumber: string, ruleId: string): Promise<AutoReplyRule | null> {
+    const doc = await this.getRulesCollection(userId, phoneNumber).doc(ruleId).get();
+    return doc.exists ? (doc.data() as AutoReplyRule) : null;
+  }
+
+  /**
+   * Replace a rule's settings (input is the full, validated rule - see toInput())
+   */
+  async update(userId: string, phoneNumber: string, ruleId: string, input: AutoReplyRuleInput): Promise<AutoReplyRule | null> {
+    const docRef = this.getRulesCollection(userId, phoneNumber).doc(ruleId);
+    const doc = await docRef.get();
+    if (!doc.exists) {
+      return null;
+    }
+
+    const update = {
+      name: input.name.trim(),
+      trigger: input.trigger,
+      keywords: input.trigger === "keyword" ? input.keywords!.map((keyword) => keyword.trim()) : null,
+      pattern: input.trigger === "regex" ? input.pattern! : null,
+      business_hours: input.trigger === "outside_business_hours" ? input.businessHours! : null,
+      reply: input.reply,
+      cooldown_minutes: input.cooldownMinutes ?? this.DEFAULT_COOLDOWN_MINUTES,
+      priority: input.priority ?? 0,
+      active: input.active ?? true,
+      updated_at: Timestamp.now(),
+    };
+
+    await docRef.update(update);
+    this.ruleCache.delete(`${userId}:${phoneNumber}`);
+
+    return { ...(doc.data() as AutoReplyRule), ...update };
+  }
+
+  async delete(userId: string, phoneNumber: string, ruleId: string): Promise<boolean> {
+    const docRef = this.getRulesCollection(userId, phoneNumber).doc(ruleId);
+    const doc = await docRef.get();
+    if (!doc.exists) {
+      return false;
+    }
+
+    await docRef.delete();
+    this.ruleCache.delete(`${userId}:${phoneNumber}`);
+
+    this.logger.info({ userId, phoneNumber, ruleId }, "Auto-reply rule deleted");
+    return true;
+  }
+
+  /**
+   * A stored rule as input, for applying partial changes before validate()
+   */
+  static toInput(rule: AutoReplyRule): AutoReplyRuleInput {
+    return {
+      name: rule.name,
+      trigger: rule.trigger,
+      keywords: rule.keywords,
+      pattern: rule.pattern,
+      businessHours: rule.business_hours,
+      reply: rule.reply,
+      cooldownMinutes: rule.cooldown_minutes,
+      priority: rule.priority,
+      active: rule.active,
+    };
+  }
+
+  private static sortRules(rules: AutoReplyRule[]): AutoReplyRule[] {
+    return rules.sort((a, b) => a.priority - b.priority || a.created_at.toMillis() - b.created_at.toMillis());
+  }
+
+  /**
+   * Active rules for a phone number, cached for CACHE_TTL_MS - most numbers have no rules
+   */
+  private async getActiveRules(userId: string, phoneNumber: string): Promise<AutoReplyRule[]> {
+    const cacheKey = `${userId}:${phoneNumber}`;
+    const cached = this.ruleCache.get(cacheKey);
+    if (cached && Date.now() - cached.loadedAt < this.CACHE_TTL_MS) {
+      return cached.rules;
+    }
+
+    const snapshot = await this.getRulesCollection(userId, phoneNumber).where("active", "==", true).get();
+    const rules = AutoReplyService.sortRules(snapshot.docs.map((doc) => doc.data() as AutoReplyRule));
+    this.ruleCache.set(cacheKey, { rules, loadedAt: Date.now() });
+
+    return rules;
+  }
+
+  /**
+   * First active rule that matches an inbound message, or null (never throws)
+   */
+  async match(userId: string, phoneNumber: string, message: InboundMessageContext): Promise<AutoReplyRule | null> {
+    try {
+      const rules = await this.getActiveRules(userId, phoneNumber);
+
+      let isNewContact: boolean | undefined;
+      for (const rule of rules) {
+        if (rule.trigger === "new_contact") {
+          isNewContact = isNewContact ?? (await this.isNewContact(userId, message.fromNumber));
+          if (isNewContact) {
+            return rule;
+          }
+        } else if (AutoReplyService.matchesMessage(rule, message.body, message.receivedAt)) {
+          return rule;
+        }
+      }
+
+      return null;
+    } catch (error) {
+      this.logger.warn({ error, userId, phoneNumber, fromNumber: message.fromNumber }, "Failed to evaluate auto-reply rules");
+      return null;
+    }
+  }
+
+  /**
+   * No contact document yet - the Cloud Function creates it for the contact's first message
+   */
+  private async isNewContact(userId: string, fromNumber: string): Promise<boolean> {
+    const userRef = this.firestore.collection("users").doc(userId);
+    const existing = await this.firestore.collection("contacts").where("user", "==", userRef).where("phone_number", "==", fromNumber).limit(1).get();
+    return existing.empty;
+  }
+
+  /**
+   * Send a rule's reply unless the contact is within the rule's cooldown or the sender is over its limits
+   * Returns whether the reply was sent (never throws)
+   */
+  async reply(userId: string, phoneNumber: string, toNumber: string, rule: AutoReplyRule): Promise<boolean> {
+    try {
+      if (!(await this.claimCooldown(userId, phoneNumber, toNumber, rule))) {
+        this.logger.debug({ userId, phoneNumber, toNumber, ruleId: rule.id }, "Auto-reply skipped - contact within cooldown");
+        return false;
+      }
+
+      const limitCheck = await this.limitChecker.checkLimits(userId, phoneNumber, toNumber);
+      if (!limitCheck.allowed) {
+        this.logger.warn({ userId, phoneNumber, toNumber, ruleId: rule.id, error: limitCheck.error }, "Auto-reply blocked by limits");
+        return false;
+      }
+
+      const messageKey = await this.connectionPool.sendMessage(userId, phoneNumber, toNumber, buildMessageContent(rule.reply)!);
+      if (!messageKey) {
+        this.logger.warn({ userId, phoneNumber, toNumber, ruleId: rule.id }, "Failed to send auto-reply");
+        return false;
+      }
+
+      await this.getRulesCollection(userId, phoneNumber)
+        .doc(rule.id)
+        .update({ reply_count: FieldValue.increment(1), last_triggered_at: Timestamp.now() })
+        .catch((error) => this.logger.warn({ error, ruleId: rule.id }, "Failed to record auto-reply stats"));
+
+      this.logger.info({ userId, phoneNumber, toNumber, ruleId: rule.id, trigger: rule.trigger, messageId: messageKey.id }, "Auto-reply sent");
+      return true;
+    } catch (error: any) {
+      this.logger.error({ userId, phoneNumber, toNumber, ruleId: rule.id, error: error.message }, "Auto-reply failed");
+      return false;
+    }
+  }
+
+  /**
+   * Start the rule's cooldown for the contact - false if it's still running
+   */
+  private async claimCooldown(userId: string, phoneNumber: string, toNumber: string, rule: AutoReplyRule): Promise<boolean> {
+    const docRef = this.getCooldownCollection(userId, phoneNumber).doc(`${rule.id}_${toNumber.replace(/[^\dA-Za-z]/g, "")}`);
+
+    return this.firestore.runTransaction(async (transaction) => {
+      const doc = await transaction.get(docRef);
+      const lastRepliedAt = doc.exists ? (doc.data()!.last_replied_at as Timestamp) : null;
+      if (lastRepliedAt && Date.now() - lastRepliedAt.toMillis() < rule.cooldown_minutes * 60 * 1000) {
+        return false;
+      }
+
+      transaction.set(docRef, { rule_id: rule.id, contact_number: toNumber, last_replied_at: Timestamp.now() });
+      return true;
+    });
+  }
+}
@@ -0,0 +1,478 @@
+import { Firestore, Timestamp, FieldValue, DocumentReference } from "@google-cloud/firestore";
+import pino from "pino";
+import { EventEmitter } from "events";
+import type { ConnectionPool } from "../core/ConnectionPool";
+import { LimitChecker } from "./limitChecker";
+import { buildMessageContent, PersistedMedia } from "../utils/messageContent";
+
+export type CampaignStatus = "draft" | "running" | "paused" | "completed" | "cancelled";
+export type CampaignRecipientStatus = "pending" | "sending" | "sent" | "failed";
+
+export interface CampaignTotals {
+  total: number;
+  sent: number;
+  failed: number;
+}
+
+/**
+ * Broadcast campaign as stored in users/{userId}/phone_numbers/{phoneNumber}/campaigns
+ * Recipients live in the campaign's `recipients` subcollection (one doc per number)
+ */
+export interface Campaign {
+  id: string;
+  user_id: string;
+  phone_number: string;
+  name: string;
+  message: string | null;
+  media: PersistedMedia | null;
+  status: CampaignStatus;
+  totals: CampaignTotals;
+  pause_reason?: string | null;
+  runner_instance?: string | null;
+  next_send_at?: Timestamp | null;
+  created_at: Timestamp;
+  updated_at: Timestamp;
+  started_at?: Timestamp | null;
+  completed_at?: Timestamp | null;
+}
+
+export interface CampaignRecipient {
+  to_number: string;
+  position: number;
+  status: CampaignRecipientStatus;
+  message_id?: string | null;
+  error?: string | null;
+  sent_at?: Timestamp | null;
+}
+
+export interface CreateCampaignInput {
+  name: string;
+  message?: string;
+  media?: Campaign["media"];
+  recipients: string[];
+}
+
+export type CampaignAction = "start" | "pause" | "resume" | "cancel";
+
+/**
+ * Broadcast campaign service
+ *
+ * Sends one message to a list of recipients, paced by the user's delay_between_new_messages
+ * and delay_random_variation settings. Campaign state lives in Firestore so any instance can
+ * pause/resume/cancel it, and a campaign whose runner disappeared (crash/redeploy) is picked up
+ * by another instance once its `next_send_at` is overdue.
+ *
+ * Emits:
+ * - "campaign-progress" after every recipient
+ * - "campaign-status" when the campaign status changes
+ */
+export class CampaignService extends EventEmitter {
+  private firestore: Firestore;
+  private connectionPool: ConnectionPool;
+  private limitChecker: LimitChecker;
+  private instanceId: string;
+  private logger = pino({ name: "CampaignService" });
+  private takeoverInterval: NodeJS.Timeout | null = null;
+
+  // Campaigns running on this instance: campaign path -> wake-up function for the pacing sleep
+  private runners: Map<string, () => void> = new Map();
+
+  private readonly TAKEOVER_INTERVAL = 60000; // 1 minute
+  private readonly STALE_RUNNER_MS = 2 * 60 * 1000; // Runner is considered dead 2 minutes after a missed send
+  private readonly MAX_RECIPIENTS = 5000;
+  private readonly BATCH_WRITE_SIZE = 400; // Firestore batches are limited to 500 writes
+
+  constructor(firestore: Firestore, connectionPool: ConnectionPool, instanceId?: string, limitChecker?: LimitChecker) {
+    super();
+    this.firestore = firestore;
+    this.connectionPool = connectionPool;
+    this.instanceId = instanceId || `instance_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    this.limitChecker = limitChecker || new LimitChecker();
+  }
+
+  /**
+   * Get the campaigns collection for a phone number
+   */
+  private getCampaignsCollection(userId: string, phoneNumber: string) {
+    return this.firestore.collection("users").doc(userId).collection("phone_numbers").doc(phoneNumber).collection("campaigns");
+  }
+
+  /**
+   * Start watching for running campaigns without a live runner
+   */
+  start(): void {
+    if (this.takeoverInterval) {
+      this.logger.warn("Campaign service already running");
+      return;
+    }
+
+    this.logger.info({ instanceId: this.instanceId, intervalMs: this.TAKEOVER_INTERVAL }, "Starting campaign service");
+
+    // Run immediately on start to continue campaigns interrupted by a redeploy
+    this.takeOverStaleCampaigns().catch((error) => {
+      this.logger.error({ error }, "Error during initial campaign takeover");
+    });
+
+    this.takeoverInterval = setInterval(async () => {
+      try {
+        await this.takeOverStaleCampaigns();
+      } catch (error) {
+        this.logger.error({ error }, "Error during campaign takeover check");
+      }
+    }, this.TAKEOVER_INTERVAL);
+  }
+
+  /**
+   * Stop all local runners
+   * Running campaigns stay "running" in Firestore so another instance takes them over
+   */
+  stop(): void {
+    if (this.takeoverInterval) {
+      clearInterval(this.takeoverInterval);
+      this.takeoverInterval = null;
+    }
+
+    for (const [path, wake] of this.runners) {
+      this.runners.delete(path);
+      wake();
+    }
+
+    this.logger.info("Stopped campaign service");
+  }
+
+  /**
+   * Create a campaign in draft status
+   * Recipients are de-duplicated, order is preserved
+   */
+  async create(userId: string, phoneNumber: string, input: CreateCampaignInput): Promise<Campaign> {
+    const recipients = Array.from(new Set(input.recipients));
+    if (recipients.length > this.MAX_RECIPIENTS) {
+      throw new Error(`Campaign cannot have more than ${this.MAX_RECIPIENTS} recipients`);
+    }
+
+    const campaignRef = this.getCampaignsCollection(userId, phoneNumber).doc();
+    const now = Timestamp.now();
+
+    const campaign: Campaign = {
+      id: campaignRef.id,
+      user_id: userId,
+      phone_number: phoneNumber,
+      name: input.name,
+      message: input.message || null,
+      media: input.media || null,
+      status: "draft",
+      totals: { total: recipients.length, sent: 0, failed: 0 },
+      created_at: now,
+      updated_at: now,
+    };
+
+    await campaignRef.set(campaign);
+
+    for (let i = 0; i < recipients.length; i += this.BATCH_WRITE_SIZE) {
+      const batch = this.firestore.batch();
+      recipients.slice(i, i + this.BATCH_WRITE_SIZE).forEach((toNumber, offset) => {
+        const recipient: CampaignRecipient = { to_number: toNumber, position: i + offset, status: "pending" };
+        batch.set(campaignRef.collection("recipients").doc(toNumber), recipient);
+      });
+      await batch.commit();
+    }
+
+    this.logger.info({ userId, phoneNumber, campaignId: campaignRef.id, recipients: recipients.length }, "Campaign created");
+
+    return campaign;
+  }
+
+  /**
+   * Get a campaign
+   */
+  async get(userId: string, phoneNumber: string, campaignId: string): Promise<Campaign | null> {
+    const doc = await this.getCampaignsCollection(userId, phoneNumber).doc(campaignId).get();
+    return doc.exists ? (doc.data() as Campaign) : null;
+  }
+
+  /**
+   * List campaigns for a phone number, newest first
+   */
+  async list(userId: string, phoneNumber: string): Promise<Campaign[]> {
+    const snapshot = await this.getCampaignsCollection(userId, phoneNumber).orderBy("created_at", "desc").get();
+    return snapshot.docs.map((doc) => doc.data() as Campaign);
+  }
+
+  /**
+   * Get per-recipient delivery results in recipient order
+   */
+  async getRecipients(userId: string, phoneNumber: string, campaignId: string, status?: CampaignRecipientStatus): Promise<CampaignRecipient[]> {
+    let query = this.getCampaignsCollection(userId, phoneNumber).doc(campaignId).collection("recipients").orderBy("position", "asc");
+    if (status) {
+      query = query.where("status", "==", status);
+    }
+
+    const snapshot = await query.get();
+    return snapshot.docs.map((doc) => doc.data() as CampaignRecipient);
+  }
+
+  /**
+   * Apply a start/pause/resume/cancel action
+   * Returns null if the campaign doesn't exist, or { changed: false } if the action isn't valid in the current status
+   */
+  async applyAction(
+    userId: string,
+    phoneNumber: string,
+    campaignId: string,
+    action: CampaignAction
+  ): Promise<{ changed: boolean; status: CampaignStatus } | null> {
+    const campaignRef = this.getCampaignsCollection(userId, phoneNumber).doc(campaignId);
+
+    const allowedFrom: Record<CampaignAction, CampaignStatus[]> = {
+      start: ["draft"],
+      pause: ["running"],
+      resume: ["paused"],
+      cancel: ["draft", "running", "paused"],
+    };
+    const nextStatus: Record<CampaignAction, CampaignStatus> = {
+      start: "running",
+      pause: "paused",
+      resume: "running",
+      cancel: "cancelled",
+    };
+
+    const result = await this.firestore.runTransaction(async (transaction) => {
+      const doc = await transaction.get(campaignRef);
+      if (!doc.exists) {
+        return null;
+      }
+
+      const campaign = doc.data() as Campaign;
+      if (!allowedFrom[action].includes(campaign.status)) {
+        return { changed: false, status: campaign.status };
+      }
+
+      const status = nextStatus[action];
+      const update: Record<string, any> = {
+        status,
+        updated_at: Timestamp.now(),
+        pause_reason: null,
+      };
+
+      if (status === "running") {
+        update.runner_instance = this.instanceId;
+        update.next_send_at = Timestamp.now();
+        if (action === "start") {
+          update.started_at = Timestamp.now();
+        }
+      } else if (status === "cancelled") {
+        update.completed_at = Timestamp.now();
+      }
+
+      transaction.update(campaignRef, update);
+      return { changed: true, status };
+    });
+
+    if (!result || !result.changed) {
+      return result;
+    }
+
+    this.logger.info({ userId, phoneNumber, campaignId, action, status: result.status }, "Campaign status changed");
+    this.emit("campaign-status", { userId, phoneNumber, campaignId, status: result.status });
+
+    if (result.status === "running") {
+      this.runCampaign(campaignRef);
+    } else {
+      // Wake the local runner (if any) so it notices the status change immediately
+      this.runners.get(campaignRef.path)?.();
+    }
+
+    return result;
+  }
+
+  /**
+   * Take over running campaigns whose runner missed its next send (instance crashed or was redeployed)
+   */
+  private async takeOverStaleCampaigns(): Promise<void> {
+    const staleBefore = Timestamp.fromMillis(Date.now() - this.STALE_RUNNER_MS);
+    const snapshot = await this.firestore
+      .collectionGroup("campaigns")
+      .where("status", "==", "running")
+      .where("next_send_at", "<=", staleBefore)
+      .limit(20)
+      .get();
+
+    for (const doc of snapshot.docs) {
+      if (this.runners.has(doc.ref.path)) {
+        continue;
+      }
+
+      const claimed = await this.firestore.runTransaction(async (transaction) => {
+        const current = await transaction.get(doc.ref);
+        const campaign = current.data() as Campaign | undefined;
+
+        if (!campaign || campaign.status !== "running" || !campaign.next_send_at || campaign.next_send_at.toMillis() > staleBefore.toMillis()) {
+          return false;
+        }
+
+        transaction.update(doc.ref, {
+          runner_instance: this.instanceId,
+          next_send_at: Timestamp.now(),
+          updated_at: Timestamp.now(),
+        });
+        return true;
+      });
+
+      if (claimed) {
+        this.logger.info({ campaignId: doc.id, path: doc.ref.path }, "Took over running campaign without a live runner");
+        this.runCampaign(doc.ref);
+      }
+    }
+  }
+
+  /**
+   * Start a local runner for a campaign (no-op if one is already running)
+   */
+  private runCampaign(campaignRef: DocumentReference): void {
+    if (this.runners.has(campaignRef.path)) {
+      return;
+    }
+
+    this.runners.set(campaignRef.path, () => {});
+
+    this.runLoop(campaignRef)
+      .catch((error) => {
+        this.logger.error({ error, campaignId: campaignRef.id }, "Campaign runner crashed");
+      })
+      .finally(() => {
+        this.runners.delete(campaignRef.path);
+      });
+  }
+
+  /**
+   * Send to pending recipients one at a time until the campaign completes or is paused/cancelled
+   * Campaign status is re-read before every send so actions from other instances take effect
+   */
+  private async runLoop(campaignRef: DocumentReference): Promise<void> {
+    while (this.runners.has(campaignRef.path)) {
+      const campaignDoc = await campaignRef.get();
+      const campaign = campaignDoc.data() as Campaign | undefined;
+
+      if (!campaign || campaign.status !== "running" || campaign.runner_instance !== this.instanceId) {
+        return;
+      }
+
+      const { user_id: userId, phone_number: phoneNumber } = campaign;
+
+      // Recipients left in "sending" were interrupted mid-send - fail them rather than risk a duplicate
+      const interrupted = await campaignRef.collection("recipients").where("status", "==", "sending").get();
+      for (const doc of interrupted.docs) {
+        await this.recordResult(campaignRef, campaign, doc.ref, { status: "failed", error: "Interrupted before send was confirmed" });
+      }
+
+      const nextSnapshot = await campaignRef.collection("recipients").where("status", "==", "pending").orderBy("position", "asc").limit(1).get();
+
+      if (nextSnapshot.empty) {
+        await campaignRef.update({
+          status: "completed",
+          completed_at: Timestamp.now(),
+          updated_at: Timestamp.now(),
+          next_send_at: null,
+        });
+        this.logger.info({ userId, phoneNumber, campaignId: campaign.id }, "Campaign completed");
+        this.emit("campaign-status", { userId, phoneNumber, campaignId: campaign.id, status: "completed" });
+        return;
+      }
+
+      const recipientRef = nextSnapshot.docs[0].ref;
+      const recipient = nextSnapshot.docs[0].data() as CampaignRecipient;
+
+      const limitCheck = await this.limitChecker.checkLimits(userId, phoneNumber, recipient.to_number);
+      if (!limitCheck.allowed) {
+        // Daily/monthly limit reached - pause instead of failing every remaining recipient
+        await campaignRef.update({
+          status: "paused",
+          pause_reason: limitCheck.error || "Rate limit exceeded",
+          updated_at: Timestamp.now(),
+          next_send_at: null,
+        });
+        this.logger.warn({ userId, phoneNumber, campaignId: campaign.id, error: limitCheck.error }, "Campaign paused by limits");
+        this.emit("campaign-status", { userId, phoneNumber, campaignId: campaign.id, status: "paused", reason: limitCheck.error });
+        return;
+      }
+
+      await recipientRef.update({ status: "sending" });
+
+      const content = buildMessageContent(campaign.message || undefined, campaign.media || undefined, campaign.media?.url);
+      let messageId: string | null | undefined = null;
+      let sendError: string | null = null;
+
+      if (!content) {
+        sendError = "Unsupported media type";
+      } else {
+        try {
+          const messageKey = await this.connectionPool.sendMessage(userId, phoneNumber, recipient.to_number, content);
+          messageId = messageKey?.id;
+          if (!messageId) {
+            sendError = "Failed to send message";
+          }
+        } catch (error: any) {
+          sendError = error.message || "Unknown error";
+        }
+      }
+
+      await this.recordResult(
+        campaignRef,
+        campaign,
+        recipientRef,
+        sendError ? { status: "failed", error: sendError } : { status: "sent", message_id: messageId, sent_at: Timestamp.now() }
+      );
+
+      // Pace the next send like a human would
+      const delayMs = await this.limitChecker.getPacingDelayMs(userId);
+      await campaignRef.update({ next_send_at: Timestamp.fromMillis(Date.now() + delayMs) });
+      await this.sleep(campaignRef.path, delayMs);
+    }
+  }
+
+  /**
+   * Persist a recipient result, bump campaign counters and emit progress
+   */
+  private async recordResult(
+    campaignRef: DocumentReference,
+    campaign: Campaign,
+    recipientRef: DocumentReference,
+    result: Partial<CampaignRecipient> & { status: "sent" | "failed" }
+  ): Promise<void> {
+    await recipientRef.update(result);
+    await campaignRef.update({
+      [`totals.${result.status}`]: FieldValue.increment(1),
+      updated_at: Timestamp.now(),
+    });
+
+    const totals = ((await campaignRef.get()).data() as Campaign | undefined)?.totals;
+    this.emit("campaign-progress", {
+      userId: campaign.user_id,
+      phoneNumber: campaign.phone_number,
+      campaignId: campaign.id,
+      totals,
+      recipient: {
+        toNumber: recipientRef.id,
+        status: result.status,
+        messageId: result.message_id || null,
+        error: result.error || null,
+      },
+    });
+  }
+
+  /**
+   * Sleep for the pacing delay, waking early if the campaign is paused/cancelled on this instance
+   */
+  private sleep(path: string, ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const timeoutId = setTimeout(done, ms);
+      function done() {
+        clearTimeout(timeoutId);
+        resolve();
+      }
+      if (this.runners.has(path)) {
+        this.runners.set(path, done);
+      }
+    });
+  }
+}
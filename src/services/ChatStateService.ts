@@ -0,0 +1,198 @@
+import { Firestore, Timestamp, DocumentReference } from "@google-cloud/firestore";
+import type { WASocket, ChatModification } from "@whiskeysockets/baileys";
+import pino from "pino";
+import { LidMappingService } from "./LidMappingService";
+import { findContactRef, toContactJid } from "../utils/contacts";
+
+export const CHAT_ACTIONS = ["archive", "unarchive", "mute", "unmute", "pin", "unpin", "mark_unread", "mark_read"] as const;
+export type ChatAction = (typeof CHAT_ACTIONS)[number];
+
+/**
+ * Chat state fields stored on a contact document (contacts/{contactId})
+ */
+export interface ChatStateRecord {
+  chat_archived: boolean;
+  chat_pinned: boolean;
+  chat_muted: boolean;
+  chat_muted_until: Timestamp | null; // null while muted means muted indefinitely
+  chat_marked_unread: boolean;
+  chat_read_at: Timestamp; // Last time the chat was read on the phone or marked read - unread counts start here
+  chat_state_updated_at: Timestamp;
+}
+
+/**
+ * Archive, mute, pin and mark-unread for contact chats
+ *
+ * Changes made through the API are applied on the linked phone with chatModify and stored on the
+ * contact. Changes made on the phone arrive as chats.update app-state events and are mirrored onto the
+ * contact the same way, so the inbox and the phone show the same state. chats.update also fires for
+ * every new message (unread counts, timestamps) - only updates carrying one of the flags are written.
+ */
+export class ChatStateService {
+  private firestore: Firestore;
+  private lidMappingService: LidMappingService;
+  private logger = pino({ name: "ChatStateService" });
+
+  static readonly DEFAULT_MUTE_SECONDS = 8 * 60 * 60; // WhatsApp's shortest mute option
+
+  constructor(firestore: Firestore, lidMappingService: LidMappingService) {
+    this.firestore = firestore;
+    this.lidMappingService = lidMappingService;
+  }
+
+  /**
+   * Apply a chat action on the linked phone and store the resulting state on the contact
+   * Returns null if the contact doesn't exist
+   */
+  async apply(
+    socket: WASocket,
+    userId: string,
+    contactNumber: string,
+    action: ChatAction,
+    options: { muteSeconds?: number } = {}
+  ): Promise<Partial<ChatStateRecord> | null> {
+    const contactRef = await findContactRef(this.firestore, userId, contactNumber);
+    if (!contactRef) {
+      return null;
+    }
+
+    const jid = toContactJid(contactNumber);
+    const muteUntil = action === "mute" ? Date.now() + (options.muteSeconds ?? ChatStateService.DEFAULT_MUTE_SECONDS) * 1000 : null;
+
+    let modification: ChatModification;
+    switch (action) {
+      case "archive":
+      case "unarchive":
+        modification = { archive: action === "archive", lastMessages: await this.getLastMessages(contactRef, jid) };
+        break;
+      case "mute":
+      case "unmute":
+        modification = { mute: muteUntil };
+        break;
+      case "pin":
+      case "unpin":
+        modification = { pin: action === "pin" };
+        break;
+      case "mark_unread":
+      case "mark_read":
+        modification = { markRead: action === "mark_read", lastMessages: await this.getLastMessages(contactRef, jid) };
+        break;
+    }
+
+    await socket.chatModify(modification, jid);
+
+    const state: Partial<ChatStateRecord> = { chat_state_updated_at: Timestamp.now() };
+    if (action === "archive" || action === "unarchive") {
+      state.chat_archived = action === "archive";
+    } else if (action === "mute" || action === "unmute") {
+      state.chat_muted = action === "mute";
+      state.chat_muted_until = muteUntil ? Timestamp.fromMillis(muteUntil) : null;
+    } else if (action === "pin" || action === "unpin") {
+      state.chat_pinned = action === "pin";
+    } else {
+      state.chat_marked_unread = action === "mark_unread";
+      if (action === "mark_read") {
+        state.chat_read_at = state.chat_state_updated_at;
+      }
+    }
+
+    await contactRef.update({ ...state });
+    this.logger.info({ userId, contactNumber, action }, "Applied chat action");
+
+    return state;
+  }
+
+  /**
+   * Mirror archive/pin/mute/unread changes from a chats.update event onto the contacts
+   */
+  async mirror(userId: string, phoneNumber: string, updates: Array<Record<string, any>>): Promise<number> {
+    let mirrored = 0;
+
+    for (const update of updates || []) {
+      const state = ChatStateService.toChatState(update);
+      if (!state) {
+        continue;
+      }
+
+      const contactNumber = this.lidMappingService.resolveJidToPhone(userId, update.id || "");
+      if (!contactNumber) {
+        continue;
+      }
+
+      try {
+        const contactRef = await findContactRef(this.firestore, userId, contactNumber);
+        if (!contactRef) {
+          continue;
+        }
+
+        await contactRef.update({ ...state });
+        mirrored++;
+      } catch (error) {
+        this.logger.warn({ error, userId, phoneNumber, contactNumber }, "Failed to mirror chat state");
+      }
+    }
+
+    if (mirrored > 0) {
+      this.logger.debug({ userId, phoneNumber, mirrored }, "Mirrored chat state from phone");
+    }
+
+    return mirrored;
+  }
+
+  /**
+   * Chat state fields carried by a chats.update entry - null if it carries none
+   */
+  static toChatState(update: Record<string, any>): Partial<ChatStateRecord> | null {
+    const state: Partial<ChatStateRecord> = {};
+
+    if (typeof update.archived === "boolean") {
+      state.chat_archived = update.archived;
+    }
+    if (update.pinned !== undefined) {
+      state.chat_pinned = !!update.pinned; // Pin timestamp, or null/0 when unpinned
+    }
+    if (update.muteEndTime !== undefined) {
+      const muteEndTime = update.muteEndTime == null ? 0 : Number(update.muteEndTime); // May be a protobuf Long
+      state.chat_muted = muteEndTime !== 0 && (muteEndTime < 0 || muteEndTime > Date.now());
+      state.chat_muted_until = state.chat_muted && muteEndTime > 0 ? Timestamp.fromMillis(muteEndTime) : null;
+    }
+    if (typeof update.markedAsUnread === "boolean") {
+      state.chat_marked_unread = update.markedAsUnread;
+    } else if (update.unreadCount === -1 || update.unreadCount === 0) {
+      // Mark-as-read/unread app-state actions come through as unreadCount -1 (unread) or 0 (read)
+      state.chat_marked_unread = update.unreadCount === -1;
+    }
+    if (update.unreadCount === 0) {
+      state.chat_read_at = Timestamp.now();
+    }
+
+    if (Object.keys(state).length === 0) {
+      return null;
+    }
+
+    state.chat_state_updated_at = Timestamp.now();
+    return state;
+  }
+
+  /**
+   * The chat's last stored message - archive and mark-read patches have to name the message range they cover
+   */
+  private async getLastMessages(contactRef: DocumentReference, jid: string): Promise<Array<{ key: { remoteJid: string; fromMe: boolean; id: string }; messageTimestamp: number }>> {
+    const snapshot = await contactRef.collection("messages").orderBy("timestamp", "desc").limit(1).get();
+    if (snapshot.empty) {
+      return [];
+    }
+
+    const data = snapshot.docs[0].data();
+    if (!data.message_sid || !data.timestamp) {
+      return [];
+    }
+
+    return [
+      {
+        key: { remoteJid: jid, fromMe: data.direction === "outbound", id: data.message_sid },
+        messageTimestamp: Math.floor(data.timestamp.toMillis() / 1000),
+      },
+    ];
+  }
+}
@@ -0,0 +1,255 @@
+import { Firestore, Timestamp } from "@google-cloud/firestore";
+import type { WASocket } from "@whiskeysockets/baileys";
+import pino from "pino";
+import { MediaService } from "./MediaService";
+import { findContactRef, toContactJid } from "../utils/contacts";
+
+/**
+ * Profile fields stored on a contact document (contacts/{contactId})
+ */
+export interface ContactProfileRecord {
+  avatar_url: string | null; // Signed Cloud Storage URL, re-signed on every refresh
+  avatar_media_id: string | null; // Stable id for GET /api/media/:id
+  about: string | null;
+  about_set_at: Timestamp | null;
+  profile_fetched_at: Timestamp;
+}
+
+interface ProfileRefreshJob {
+  socket: WASocket;
+  userId: string;
+  phoneNumber: string;
+  contactPhone: string;
+}
+
+/**
+ * Contact profile pictures and about text
+ *
+ * WhatsApp's profile picture URLs expire within days, so pictures are downloaded and cached in
+ * Cloud Storage through MediaService (unchanged pictures dedupe to the same object). Profiles are
+ * refreshed once they are older than CONTACT_PROFILE_TTL_HOURS - that is shorter than a signed URL
+ * lives, so avatar_url stays usable while the session is connected.
+ *
+ * Background refreshes (contact sync, first messages, the periodic sweep) go through a queue that
+ * fetches one profile every CONTACT_PROFILE_FETCH_DELAY_MS, so syncing thousands of contacts doesn't
+ * fire thousands of queries at WhatsApp at once.
+ */
+export class ContactProfileService {
+  private firestore: Firestore;
+  private mediaService: MediaService;
+  private logger = pino({ name: "ContactProfileService" });
+  private queue: ProfileRefreshJob[] = [];
+  private queuedKeys: Set<string> = new Set();
+  private nextRefreshAt: Map<string, number> = new Map(); // userId:contactPhone -> earliest next background refresh
+  private isProcessing = false;
+
+  private readonly PROFILE_TTL_MS = parseFloat(process.env.CONTACT_PROFILE_TTL_HOURS || "72") * 60 * 60 * 1000;
+  private readonly FETCH_DELAY_MS = parseInt(process.env.CONTACT_PROFILE_FETCH_DELAY_MS || "1000");
+  private readonly DOWNLOAD_TIMEOUT_MS = 10000;
+  private readonly FAILURE_BACKOFF_MS = 15 * 60 * 1000; // Retry wait after a failed fetch (download timeout, 5xx)
+  private readonly MAX_QUEUE_SIZE = 5000;
+  private readonly STALE_BATCH_SIZE = 200;
+
+  constructor(firestore: Firestore, mediaService: MediaService) {
+    this.firestore = firestore;
+    this.mediaService = mediaService;
+  }
+
+  /**
+   * Whether a stored profile is missing or older than the refresh TTL
+   */
+  isStale(contactData: Partial<ContactProfileRecord> | undefined): boolean {
+    const fetchedAt = contactData?.profile_fetched_at;
+    return !fetchedAt || Date.now() - fetchedAt.toMillis() > this.PROFILE_TTL_MS;
+  }
+
+  /**
+   * Stored profile fields of a contact - null if the contact doesn't exist
+   */
+  async getProfile(userId: string, contactPhone: string): Promise<Partial<ContactProfileRecord> | null> {
+    const contactRef = await findContactRef(this.firestore, userId, contactPhone);
+    if (!contactRef) {
+      return null;
+    }
+
+    const data = (await contactRef.get()).data() || {};
+    return {
+      avatar_url: data.avatar_url ?? null,
+      avatar_media_id: data.avatar_media_id ?? null,
+      about: data.about ?? null,
+      about_set_at: data.about_set_at ?? null,
+      profile_fetched_at: data.profile_fetched_at,
+    };
+  }
+
+  /**
+   * Fetch a contact's picture and about text now and store them on the contact
+   * Returns null if the contact doesn't exist
+   */
+  async refresh(socket: WASocket, userId: string, phoneNumber: string, contactPhone: string): Promise<ContactProfileRecord | null> {
+    const contactRef = await findContactRef(this.firestore, userId, contactPhone);
+    if (!contactRef) {
+      return null;
+    }
+
+    // Holds off background refreshes while this one runs, and for a short back-off if it fails
+    const key = `${userId}:${contactPhone}`;
+    this.nextRefreshAt.set(key, Date.now() + this.FAILURE_BACKOFF_MS);
+
+    const jid = toContactJid(contactPhone);
+    const [avatar, about] = await Promise.all([this.cacheProfilePicture(socket, jid, userId, phoneNumber), this.fetchAbout(socket, jid)]);
+
+    const record: ContactProfileRecord = {
+      avatar_url: avatar?.url || null,
+      avatar_media_id: avatar?.mediaId || null,
+      about: about?.status || null,
+      about_set_at: about?.setAt ? Timestamp.fromDate(about.setAt) : null,
+      profile_fetched_at: Timestamp.now(),
+    };
+
+    // avatar_fetched_at predates profile_fetched_at and is still written for clients that read it
+    await contactRef.update({ ...record, ...(avatar ? { avatar_fetched_at: record.profile_fetched_at } : {}) });
+    this.nextRefreshAt.set(key, Date.now() + this.PROFILE_TTL_MS);
+    this.logger.debug({ userId, contactPhone, hasAvatar: !!avatar, hasAbout: !!about?.status }, "Contact profile refreshed");
+
+    return record;
+  }
+
+  /**
+   * Queue a background refresh, unless the contact was refreshed within the TTL, failed within the back-off, or is already queued
+   */
+  enqueue(socket: WASocket, userId: string, phoneNumber: string, contactPhone: string): void {
+    const key = `${userId}:${contactPhone}`;
+    const nextRefreshAt = this.nextRefreshAt.get(key);
+    if (this.queuedKeys.has(key) || (nextRefreshAt && Date.now() < nextRefreshAt)) {
+      return;
+    }
+    if (this.queue.length >= this.MAX_QUEUE_SIZE) {
+      return; // Picked up by a later sweep
+    }
+
+    this.queue.push({ socket, userId, phoneNumber, contactPhone });
+    this.queuedKeys.add(key);
+    void this.processQueue();
+  }
+
+  /**
+   * Queue refreshes for a user's contacts whose profile is older than the TTL
+   * Contacts that were never fetched are queued by contact sync and incoming messages instead
+   */
+  async refreshStale(socket: WASocket, userId: string, phoneNumber: string): Promise<number> {
+    const userRef = this.firestore.collection("users").doc(userId);
+    const cutoff = Timestamp.fromMillis(Date.now() - this.PROFILE_TTL_MS);
+    const snapshot = await this.firestore
+      .collection("contacts")
+      .where("user", "==", userRef)
+      .where("profile_fetched_at", "<", cutoff)
+      .limit(this.STALE_BATCH_SIZE)
+      .get();
+
+    for (const doc of snapshot.docs) {
+      const contactPhone = doc.data().phone_number;
+      if (typeof contactPhone === "string" && contactPhone.startsWith("+")) {
+        this.enqueue(socket, userId, phoneNumber, contactPhone);
+      }
+    }
+
+    return snapshot.size;
+  }
+
+  /**
+   * Drop queued refreshes for a session that disconnected
+   */
+  clearSession(userId: string, phoneNumber: string): void {
+    this.queue = this.queue.filter((job) => {
+      const keep = job.userId !== userId || job.phoneNumber !== phoneNumber;
+      if (!keep) {
+        this.queuedKeys.delete(`${job.userId}:${job.contactPhone}`);
+      }
+      return keep;
+    });
+  }
+
+  private async processQueue(): Promise<void> {
+    if (this.isProcessing) {
+      return;
+    }
+
+    this.isProcessing = true;
+    try {
+      let job: ProfileRefreshJob | undefined;
+      while ((job = this.queue.shift())) {
+        this.queuedKeys.delete(`${job.userId}:${job.contactPhone}`);
+
+        try {
+          await this.refresh(job.socket, job.userId, job.phoneNumber, job.contactPhone);
+        } catch (error: any) {
+          this.logger.debug({ userId: job.userId, contactPhone: job.contactPhone, error: error.message }, "Failed to refresh contact profile");
+        }
+
+        await new Promise((resolve) => setTimeout(resolve, this.FETCH_DELAY_MS));
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * Download the contact's profile picture and store it in Cloud Storage
+   * Null when the contact has no picture or hides it from us
+   */
+  private async cacheProfilePicture(socket: WASocket, jid: string, userId: string, phoneNumber: string): Promise<{ url: string; mediaId: string } | null> {
+    let pictureUrl: string | undefined;
+    try {
+      pictureUrl = await socket.profilePictureUrl(jid, "image");
+    } catch (error: any) {
+      // 401 (privacy settings) and 404 (no picture) are normal answers
+      const statusCode = error?.output?.statusCode ?? error?.data;
+      if (statusCode !== 401 && statusCode !== 404) {
+        throw error;
+      }
+      return null;
+    }
+    if (!pictureUrl) {
+      return null;
+    }
+
+    const response = await fetch(pictureUrl, { signal: AbortSignal.timeout(this.DOWNLOAD_TIMEOUT_MS) });
+    if (!response.ok) {
+      throw new Error(`Profile picture download failed: HTTP ${response.status}`);
+    }
+
+    const buffer = Buffer.from(await response.arrayBuffer());
+    const uploadResult = await this.mediaService.uploadMedia(
+      {
+        buffer,
+        mimetype: response.headers.get("content-type") || "image/jpeg",
+        size: buffer.length,
+        originalname: `profile_${jid.split("@")[0]}`,
+      },
+      userId,
+      phoneNumber
+    );
+
+    return { url: uploadResult.url, mediaId: uploadResult.mediaId };
+  }
+
+  /**
+   * Fetch the contact's about text - Baileys 6 returns one result, Baileys 7 a USync result list
+   */
+  private async fetchAbout(socket: WASocket, jid: string): Promise<{ status: string | null; setAt: Date | null } | null> {
+    try {
+      const result: any = await socket.fetchStatus(jid);
+      const entry = Array.isArray(result) ? result[0]?.status : result;
+      if (!entry) {
+        return null;
+      }
+
+      const setAt = entry.setAt ? new Date(entry.setAt) : null;
+      return { status: entry.status || null, setAt: setAt && !isNaN(setAt.getTime()) ? setAt : null };
+    } catch (error: any) {
+      this.logger.debug({ jid, error: error.message }, "Could not fetch about text");
+      return null;
+    }
+  }
+}
@@ -0,0 +1,330 @@
+import { Firestore, Timestamp, FieldPath, DocumentReference, DocumentSnapshot, QueryDocumentSnapshot } from "@google-cloud/firestore";
+import pino from "pino";
+import { LidMappingService } from "./LidMappingService";
+
+/**
+ * One conversation in the chat list - a contact, or a phone contact and its LID contact merged
+ */
+export interface ChatSummary {
+  contactNumber: string;
+  lid: string | null;
+  name: string | null;
+  lastMessage: { direction: string; body: string | null; status: string | null; timestamp: string | null } | null;
+  unreadCount: number; // Capped at UNREAD_SCAN_LIMIT
+  archived: boolean;
+  pinned: boolean;
+  muted: boolean;
+  labels: Record<string, string[]>; // Linked phone number -> WhatsApp Business label ids on the chat
+  avatarMediaId: string | null;
+}
+
+/**
+ * A stored message as returned by the read API
+ */
+export interface ConversationMessage {
+  id: string;
+  direction: string;
+  body: string | null;
+  status: string | null;
+  timestamp: string | null;
+  mediaId: string | null;
+  mediaContentType: string | null;
+  thumbnailMediaId: string | null;
+  location: unknown;
+  contacts: unknown;
+  reactions: unknown;
+  edited: boolean;
+  deleted: boolean;
+}
+
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+/**
+ * Read API over the conversations ConnectionPool stores in contacts/{contactId}/messages
+ *
+ * A contact can be stored twice: once under its phone number and once under its LID, when messages
+ * arrived before the mapping was known. Both are resolved with LidMappingService the way
+ * handleIncomingMessage resolves senders and read as one thread: the chat list shows the pair once,
+ * at the position of whichever contact had the latest message, and messages are merged from both.
+ *
+ * Chat pages can hold fewer than `limit` items when a merged pair's other half is skipped - keep
+ * paging until nextCursor is null.
+ */
+export class ConversationService {
+  private firestore: Firestore;
+  private lidMappingService: LidMappingService;
+  private logger = pino({ name: "ConversationService" });
+
+  static readonly MAX_PAGE_SIZE = 100;
+  private readonly UNREAD_SCAN_LIMIT = 50;
+  private readonly IN_FILTER_LIMIT = 30; // Values per Firestore "in" filter
+
+  constructor(firestore: Firestore, lidMappingService: LidMappingService) {
+    this.firestore = firestore;
+    this.lidMappingService = lidMappingService;
+  }
+
+  private getUserRef(userId: string): DocumentReference {
+    return this.firestore.collection("users").doc(userId);
+  }
+
+  /**
+   * Contacts by number, looked up with as few queries as the "in" filter allows
+   */
+  private async findContacts(userId: string, contactNumbers: string[]): Promise<Map<string, QueryDocumentSnapshot>> {
+    const unique = [...new Set(contactNumbers)];
+    const chunks: string[][] = [];
+    for (let i = 0; i < unique.length; i += this.IN_FILTER_LIMIT) {
+      chunks.push(unique.slice(i, i + this.IN_FILTER_LIMIT));
+    }
+
+    const snapshots = await Promise.all(
+      chunks.map((chunk) => this.firestore.collection("contacts").where("user", "==", this.getUserRef(userId)).where("phone_number", "in", chunk).get())
+    );
+
+    const contacts = new Map<string, QueryDocumentSnapshot>();
+    for (const doc of snapshots.flatMap((snapshot) => snapshot.docs)) {
+      if (!contacts.has(doc.data().phone_number)) {
+        contacts.set(doc.data().phone_number, doc);
+      }
+    }
+    return contacts;
+  }
+
+  /**
+   * Phone number and LID of a conversation, as far as the mappings know them
+   */
+  private resolveIdentity(userId: string, contactNumber: string): { phone: string | null; lid: string | null } {
+    if (LidMappingService.isLid(contactNumber)) {
+      return { phone: this.lidMappingService.resolveLidToPhone(userId, contactNumber), lid: contactNumber };
+    }
+    return { phone: contactNumber, lid: this.lidMappingService.resolvePhoneToLid(userId, contactNumber) };
+  }
+
+  /**
+   * Conversations ordered by their last message, newest first
+   */
+  async listChats(userId: string, options: { limit: number; cursor?: string }): Promise<Page<ChatSummary>> {
+    await this.lidMappingService.loadMappingsForUser(userId);
+
+    let query = this.firestore
+      .collection("contacts")
+      .where("user", "==", this.getUserRef(userId))
+      .orderBy("last_message_timestamp", "desc")
+      .limit(options.limit);
+    if (options.cursor) {
+      const cursorDoc = await this.firestore.collection("contacts").doc(ConversationService.decodeCursor(options.cursor).id).get();
+      if (!cursorDoc.exists || cursorDoc.data()?.user?.id !== userId) {
+        throw new Error("Invalid cursor");
+      }
+      query = query.startAfter(cursorDoc);
+    }
+
+    const snapshot = await query.get();
+
+    const rows = snapshot.docs
+      .filter((doc) => typeof doc.data().channel !== "string" || doc.data().channel.startsWith("whatsapp"))
+      .map((doc) => {
+        const { phone, lid } = this.resolveIdentity(userId, doc.data().phone_number);
+        return { doc, phone, lid, otherNumber: LidMappingService.isLid(doc.data().phone_number) ? phone : lid };
+      });
+
+    // The other halves of merged pairs, fetched for the whole page at once
+    const otherNumbers = rows.map((row) => row.otherNumber).filter((number): number is string => !!number);
+    const others = await this.findContacts(userId, otherNumbers);
+
+    const chats = rows.flatMap(({ doc, phone, lid, otherNumber }) => {
+      const other = otherNumber ? others.get(otherNumber) : undefined;
+      // A merged pair is listed once, at the half with the newer last message
+      if (other && ConversationService.compareByLastMessage(other, doc) < 0) {
+        return [];
+      }
+      return [{ contactNumber: phone || doc.data().phone_number, lid, docs: other ? [doc, other] : [doc] }];
+    });
+    const items = await Promise.all(chats.map((chat) => this.toChatSummary(chat.contactNumber, chat.lid, chat.docs)));
+
+    const lastDoc = snapshot.docs[snapshot.docs.length - 1];
+    return {
+      items,
+      nextCursor: snapshot.size === options.limit && lastDoc ? ConversationService.encodeCursor({ id: lastDoc.id }) : null,
+    };
+  }
+
+  /**
+   * Messages of a conversation, newest first - null if there's no contact for the number
+   * before/after bound the message timestamps (exclusive)
+   */
+  async listMessages(
+    userId: string,
+    contactNumber: string,
+    options: { limit: number; cursor?: string; before?: Date; after?: Date }
+  ): Promise<Page<ConversationMessage> | null> {
+    await this.lidMappingService.loadMappingsForUser(userId);
+
+    const { phone, lid } = this.resolveIdentity(userId, contactNumber);
+    const numbers = [phone, lid].filter((number): number is string => !!number);
+    const contacts = [...(await this.findContacts(userId, numbers)).values()];
+    if (contacts.length === 0) {
+      return null;
+    }
+
+    const cursor = options.cursor ? ConversationService.decodeCursor(options.cursor) : null;
+    if (cursor && cursor.ts === undefined) {
+      throw new Error("Invalid cursor"); // A chat list cursor
+    }
+
+    const pages = await Promise.all(
+      contacts.map(async (contact) => {
+        let query = contact.ref.collection("messages").orderBy("timestamp", "desc").orderBy(FieldPath.documentId(), "desc");
+        if (options.before) {
+          query = query.where("timestamp", "<", Timestamp.fromDate(options.before));
+        }
+        if (options.after) {
+          query = query.where("timestamp", ">", Timestamp.fromDate(options.after));
+        }
+        if (cursor) {
+          query = query.startAfter(Timestamp.fromMillis(cursor.ts!), cursor.id);
+        }
+        return (await query.limit(options.limit + 1).get()).docs;
+      })
+    );
+
+    // Merge both halves of a split conversation in the order Firestore pages them: timestamp, then document id
+    const merged = pages.flat().sort((a, b) => {
+      const byTime = (b.data().timestamp?.toMillis() ?? 0) - (a.data().timestamp?.toMillis() ?? 0);
+      return byTime !== 0 ? byTime : b.id < a.id ? -1 : b.id > a.id ? 1 : 0;
+    });
+
+    const pageDocs = merged.slice(0, options.limit);
+    const lastDoc = pageDocs[pageDocs.length - 1];
+
+    return {
+      items: pageDocs.map((doc) => ConversationService.toMessage(doc)),
+      nextCursor:
+        merged.length > options.limit && lastDoc ? ConversationService.encodeCursor({ ts: lastDoc.data().timestamp?.toMillis() ?? 0, id: lastDoc.id }) : null,
+    };
+  }
+
+  private async toChatSummary(contactNumber: string, lid: string | null, docs: QueryDocumentSnapshot[]): Promise<ChatSummary> {
+    const byNewest = [...docs].sort(ConversationService.compareByLastMessage);
+    const data = byNewest[0].data();
+    const merged = Object.assign({}, ...byNewest.reverse().map((doc) => doc.data())); // Newest half wins
+
+    const name = [merged.first_name, merged.last_name].filter((part) => part && part !== "Unknown").join(" ") || merged.whatsapp_name || null;
+    const lastMessage = data.last_message
+      ? {
+          direction: data.last_message.direction,
+          body: data.last_message.body ?? null,
+          status: data.last_message.status ?? null,
+          timestamp: data.last_message.timestamp ? data.last_message.timestamp.toDate().toISOString() : null,
+        }
+      : null;
+
+    const unreadCounts = await Promise.all(docs.map((doc) => this.countUnread(doc)));
+    const unreadCount = Math.min(
+      this.UNREAD_SCAN_LIMIT,
+      unreadCounts.reduce((sum, count) => sum + count, 0)
+    );
+
+    return {
+      contactNumber,
+      lid,
+      name,
+      lastMessage,
+      unreadCount: merged.chat_marked_unread ? Math.max(unreadCount, 1) : unreadCount,
+      archived: !!merged.chat_archived,
+      pinned: !!merged.chat_pinned,
+      muted: !!merged.chat_muted,
+      labels: ConversationService.mergeLabels(docs),
+      avatarMediaId: merged.avatar_media_id ?? null,
+    };
+  }
+
+  /**
+   * Inbound messages since the chat was last read or answered
+   * Chats whose last message is ours, or that were read since it, are read without looking at their messages
+   */
+  private async countUnread(contact: QueryDocumentSnapshot): Promise<number> {
+    const data = contact.data();
+    if (!data.last_message || data.last_message.direction !== "inbound") {
+      return 0;
+    }
+    if (data.chat_read_at && data.last_message_timestamp && data.chat_read_at.toMillis() >= data.last_message_timestamp.toMillis()) {
+      return 0;
+    }
+
+    let query = contact.ref.collection("messages").orderBy("timestamp", "desc").limit(this.UNREAD_SCAN_LIMIT);
+    if (data.chat_read_at) {
+      query = query.where("timestamp", ">", data.chat_read_at);
+    }
+
+    try {
+      const snapshot = await query.get();
+      let unread = 0;
+      for (const doc of snapshot.docs) {
+        if (doc.data().direction !== "inbound") {
+          break;
+        }
+        unread++;
+      }
+      return unread;
+    } catch (error) {
+      this.logger.warn({ error, contactId: contact.id }, "Failed to count unread messages");
+      return 0;
+    }
+  }
+
+  private static mergeLabels(docs: QueryDocumentSnapshot[]): Record<string, string[]> {
+    const labels: Record<string, string[]> = {};
+    for (const doc of docs) {
+      for (const [phoneNumber, labelIds] of Object.entries<string[]>(doc.data().whatsapp_labels || {})) {
+        labels[phoneNumber] = [...new Set([...(labels[phoneNumber] || []), ...labelIds])];
+      }
+    }
+    return labels;
+  }
+
+  private static compareByLastMessage(a: DocumentSnapshot, b: DocumentSnapshot): number {
+    const byTime = (b.data()?.last_message_timestamp?.toMillis() ?? 0) - (a.data()?.last_message_timestamp?.toMillis() ?? 0);
+    return byTime !== 0 ? byTime : a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+  }
+
+  private static toMessage(doc: QueryDocumentSnapshot): ConversationMessage {
+    const data = doc.data();
+    return {
+      id: data.message_sid,
+      direction: data.direction,
+      body: data.body ?? null,
+      status: data.status ?? null,
+      timestamp: data.timestamp ? data.timestamp.toDate().toISOString() : null,
+      mediaId: data.media_id ?? null,
+      mediaContentType: data.media_content_type ?? null,
+      thumbnailMediaId: data.thumbnail_media_id ?? null,
+      location: data.location ?? null,
+      contacts: data.contacts ?? null,
+      reactions: data.reactions ?? null,
+      edited: !!data.edited,
+      deleted: !!data.deleted,
+    };
+  }
+
+  private static encodeCursor(cursor: { ts?: number; id: string }): string {
+    return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+  }
+
+  private static decodeCursor(cursor: string): { ts?: number; id: string } {
+    try {
+      const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+      // Ids end up in .doc() - an empty id or a path would make Firestore throw instead of failing the cursor
+      if (typeof parsed?.id === "string" && parsed.id !== "" && !parsed.id.includes("/") && (parsed.ts === undefined || typeof parsed.ts === "number")) {
+        return parsed;
+      }
+    } catch {
+      // Fall through
+    }
+    throw new Error("Invalid cursor");
+  }
+}
@@ -0,0 +1,230 @@
+import { EventEmitter } from "events";
+import { randomUUID } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import pino from "pino";
+import type { PubSub } from "@google-cloud/pubsub";
+import type { WebhookService, WebhookEventType } from "./WebhookService";
+
+/**
+ * Event as delivered to every sink
+ */
+export interface BusEvent {
+  id: string;
+  type: string; // ConnectionPool event name, e.g. "message-update", "connection-update"
+  userId: string | null;
+  phoneNumber: string | null;
+  timestamp: string;
+  data: Record<string, any>;
+}
+
+/**
+ * Destination for ConnectionPool events
+ * publish() may reject - the bus logs the failure and carries on with the other sinks
+ */
+export interface EventSink {
+  readonly name: string;
+  publish(event: BusEvent): Promise<void>;
+  close?(): Promise<void>;
+}
+
+export type EventSinkName = "pubsub" | "webhook" | "emitter" | "file";
+
+/**
+ * Fans every published event out to the configured sinks
+ */
+export class EventBus {
+  private sinks: EventSink[];
+  private logger = pino({ name: "EventBus" });
+
+  constructor(sinks: EventSink[] = []) {
+    this.sinks = sinks;
+  }
+
+  getSinkNames(): string[] {
+    return this.sinks.map((sink) => sink.name);
+  }
+
+  /**
+   * Publish an event to all sinks (never throws - sink failures are logged)
+   */
+  async publish(type: string, data: Record<string, any>): Promise<void> {
+    if (this.sinks.length === 0) {
+      return;
+    }
+
+    const event: BusEvent = {
+      id: randomUUID(),
+      type,
+      userId: data?.userId ?? null,
+      phoneNumber: data?.phoneNumber ?? null,
+      timestamp: new Date().toISOString(),
+      data,
+    };
+
+    const results = await Promise.allSettled(this.sinks.map((sink) => sink.publish(event)));
+    results.forEach((result, index) => {
+      if (result.status === "rejected") {
+        this.logger.warn({ sink: this.sinks[index].name, eventType: type, error: result.reason }, "Failed to publish event");
+      }
+    });
+  }
+
+  /**
+   * Flush and close sinks that hold resources (shutdown)
+   */
+  async close(): Promise<void> {
+    await Promise.allSettled(this.sinks.map((sink) => sink.close?.()));
+  }
+}
+
+/**
+ * Google Pub/Sub - one topic per event type (whatsapp-web-{type}), message body is the event data
+ * The topics have to exist in GCP
+ */
+export class PubSubEventSink implements EventSink {
+  readonly name = "pubsub";
+  private pubsub: PubSub;
+
+  constructor(pubsub: PubSub) {
+    this.pubsub = pubsub;
+  }
+
+  async publish(event: BusEvent): Promise<void> {
+    await this.pubsub.topic(`whatsapp-web-${event.type}`).publishMessage({ data: Buffer.from(JSON.stringify(event.data)) });
+  }
+}
+
+/**
+ * ConnectionPool event -> webhook event type (events without a webhook type aren't delivered)
+ */
+const WEBHOOK_EVENTS: Record<string, WebhookEventType> = {
+  "message-received": "message:received",
+  "message-sent": "message:sent",
+  "queued-message-sent": "message:sent",
+  "queued-message-failed": "message:failed",
+  "message-status": "message:status",
+  "message-reaction": "message:reaction",
+  "message-edited": "message:edited",
+  "message-deleted": "message:deleted",
+  "qr-generated": "qr:code",
+  "connection-update": "connection:status",
+};
+
+/**
+ * Customer webhooks - see WebhookService
+ */
+export class WebhookEventSink implements EventSink {
+  readonly name = "webhook";
+  private webhookService: WebhookService;
+
+  constructor(webhookService: WebhookService) {
+    this.webhookService = webhookService;
+  }
+
+  async publish(event: BusEvent): Promise<void> {
+    const webhookEvent = WEBHOOK_EVENTS[event.type];
+    if (!webhookEvent || !event.userId) {
+      return;
+    }
+
+    // Paced sends are delivered once, as queued-message-sent with their queuedId
+    if (event.type === "message-sent" && String(event.data.trackingId || "").startsWith("queued_")) {
+      return;
+    }
+
+    // Raw Baileys messages stay out of customer payloads
+    const { userId: _userId, message: _message, ...payload } = event.data;
+    await this.webhookService.dispatch(event.userId, webhookEvent, payload);
+  }
+}
+
+/**
+ * In-process EventEmitter - emits each event under its type and under "event"
+ */
+export class EmitterEventSink implements EventSink {
+  readonly name = "emitter";
+  readonly emitter: EventEmitter;
+
+  constructor(emitter?: EventEmitter) {
+    this.emitter = emitter || new EventEmitter();
+  }
+
+  async publish(event: BusEvent): Promise<void> {
+    this.emitter.emit(event.type, event);
+    this.emitter.emit("event", event);
+  }
+}
+
+/**
+ * Local append-only NDJSON file, one event per line (local development)
+ */
+export class NdjsonFileEventSink implements EventSink {
+  readonly name = "file";
+  private filePath: string;
+  private writeChain: Promise<void> = Promise.resolve(); // Keeps lines in publish order
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async publish(event: BusEvent): Promise<void> {
+    const line = `${JSON.stringify(event)}\n`;
+
+    this.writeChain = this.writeChain
+      .catch(() => undefined)
+      .then(async () => {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.promises.appendFile(this.filePath, line);
+      });
+
+    return this.writeChain;
+  }
+
+  async close(): Promise<void> {
+    await this.writeChain.catch(() => undefined);
+  }
+}
+
+/**
+ * Build the event bus from EVENT_SINKS (comma-separated: pubsub, webhook, emitter, file)
+ * Without EVENT_SINKS, webhooks are always on and Pub/Sub follows the older ENABLE_PUBSUB_EVENTS flag.
+ */
+export function createEventBus(
+  sinkNames: string | undefined,
+  deps: { pubsub?: PubSub; webhookService?: WebhookService; emitter?: EventEmitter; filePath?: string }
+): EventBus {
+  const logger = pino({ name: "EventBus" });
+  const names = (sinkNames ?? (process.env.ENABLE_PUBSUB_EVENTS ? "pubsub,webhook" : "webhook"))
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+  const sinks: EventSink[] = [];
+  for (const name of new Set(names)) {
+    switch (name as EventSinkName) {
+      case "pubsub":
+        if (deps.pubsub) {
+          sinks.push(new PubSubEventSink(deps.pubsub));
+        }
+        break;
+      case "webhook":
+        if (deps.webhookService) {
+          sinks.push(new WebhookEventSink(deps.webhookService));
+        }
+        break;
+      case "emitter":
+        sinks.push(new EmitterEventSink(deps.emitter));
+        break;
+      case "file":
+        sinks.push(new NdjsonFileEventSink(deps.filePath || "events.ndjson"));
+        break;
+      default:
+        logger.warn({ sink: name }, "Unknown event sink - ignoring");
+    }
+  }
+
+  logger.info({ sinks: sinks.map((sink) => sink.name) }, "Event bus configured");
+
+  return new EventBus(sinks);
+}
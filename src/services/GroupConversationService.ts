@@ -0,0 +1,242 @@
+import { Firestore, Timestamp } from "@google-cloud/firestore";
+import type { GroupMetadata } from "@whiskeysockets/baileys";
+import pino from "pino";
+import { LidMappingService } from "./LidMappingService";
+import type { ContactCardData, LocationData } from "../utils/messageContent";
+
+/**
+ * Group member as stored on the group conversation document
+ */
+export interface GroupParticipantRecord {
+  jid: string;
+  phone_number: string | null; // E.164, when the participant's LID could be resolved
+  lid: string | null;
+  admin: "admin" | "superadmin" | null;
+}
+
+/**
+ * Group conversation as stored in users/{userId}/phone_numbers/{phoneNumber}/groups/{groupJid}
+ */
+export interface GroupConversation {
+  group_id: string;
+  subject: string | null;
+  description: string | null;
+  owner: string | null;
+  announce: boolean;
+  restrict: boolean;
+  participants: GroupParticipantRecord[];
+  participant_count: number;
+  group_created_at: Timestamp | null;
+  metadata_synced_at: Timestamp | null;
+  last_message?: { direction: "inbound" | "outbound"; body: string; participant_phone_number: string | null; timestamp: Timestamp };
+  last_message_timestamp?: Timestamp;
+  created_at: Timestamp;
+  updated_at: Timestamp;
+}
+
+/**
+ * Message stored in a group conversation's messages subcollection (doc id = WhatsApp message id)
+ */
+export interface GroupMessageRecord {
+  message_sid: string;
+  direction: "inbound" | "outbound";
+  participant_jid: string;
+  participant_phone_number: string | null;
+  participant_lid: string | null;
+  participant_name: string | null; // WhatsApp push name
+  body: string;
+  type: string;
+  media_url: string | null; // Signed URL at receive time - expires, use media_id for display
+  media_id: string | null; // Stable id for GET /api/media/:id
+  media_content_type: string | null;
+  thumbnail_url: string | null;
+  thumbnail_media_id: string | null;
+  location?: LocationData; // Only set on location messages
+  contacts?: ContactCardData[]; // Only set on contact card messages
+  timestamp: Timestamp;
+  synced_from_history: boolean;
+}
+
+/**
+ * Stores group conversations for phone numbers that opted in to group sync
+ *
+ * Group chats are kept apart from the contacts collection (a group is not a contact, and the bot must
+ * never answer one): each group gets a conversation document with its subject and participants, and
+ * each message records which participant sent it, resolved from LID to phone number where possible.
+ *
+ * Opt-in is stored per phone number as `whatsapp_web.sync_groups` on users/{userId}/phone_numbers/{phoneNumber}
+ * and cached for GROUP_SYNC_CACHE_TTL_MS.
+ */
+export class GroupConversationService {
+  private firestore: Firestore;
+  private lidMappingService: LidMappingService;
+  private logger = pino({ name: "GroupConversationService" });
+  private enabledCache: Map<string, { enabled: boolean; loadedAt: number }> = new Map();
+
+  private readonly CACHE_TTL_MS = parseInt(process.env.GROUP_SYNC_CACHE_TTL_MS || "60000");
+  private readonly METADATA_TTL_MS = parseInt(process.env.GROUP_METADATA_TTL_MS || String(24 * 60 * 60 * 1000));
+
+  constructor(firestore: Firestore, lidMappingService: LidMappingService) {
+    this.firestore = firestore;
+    this.lidMappingService = lidMappingService;
+  }
+
+  static isGroupJid(jid: string | null | undefined): boolean {
+    return !!jid && jid.endsWith("@g.us");
+  }
+
+  private getPhoneNumberDoc(userId: string, phoneNumber: string) {
+    return this.firestore.collection("users").doc(userId).collection("phone_numbers").doc(phoneNumber);
+  }
+
+  private getGroupDoc(userId: string, phoneNumber: string, groupJid: string) {
+    return this.getPhoneNumberDoc(userId, phoneNumber).collection("groups").doc(groupJid);
+  }
+
+  /**
+   * Whether group sync is switched on for the phone number (false when the setting can't be read)
+   */
+  async isEnabled(userId: string, phoneNumber: string): Promise<boolean> {
+    const cacheKey = `${userId}:${phoneNumber}`;
+    const cached = this.enabledCache.get(cacheKey);
+    if (cached && Date.now() - cached.loadedAt < this.CACHE_TTL_MS) {
+      return cached.enabled;
+    }
+
+    try {
+      const doc = await this.getPhoneNumberDoc(userId, phoneNumber).get();
+      const enabled = doc.data()?.whatsapp_web?.sync_groups === true;
+      this.enabledCache.set(cacheKey, { enabled, loadedAt: Date.now() });
+      return enabled;
+    } catch (error) {
+      this.logger.warn({ error, userId, phoneNumber }, "Failed to load group sync setting");
+      return false;
+    }
+  }
+
+  async setEnabled(userId: string, phoneNumber: string, enabled: boolean): Promise<void> {
+    await this.getPhoneNumberDoc(userId, phoneNumber).set({ whatsapp_web: { sync_groups: enabled } }, { merge: true });
+    this.enabledCache.set(`${userId}:${phoneNumber}`, { enabled, loadedAt: Date.now() });
+
+    this.logger.info({ userId, phoneNumber, enabled }, "Group sync setting updated");
+  }
+
+  /**
+   * Resolve a group participant to phone number and LID
+   * Uses the stored LID mappings, and learns new ones when Baileys supplies both forms (participantAlt)
+   */
+  resolveParticipant(userId: string, participantJid: string, participantAlt?: string | null): Omit<GroupParticipantRecord, "admin"> {
+    const toPhone = (jid: string) => `+${jid.split("@")[0].split(":")[0]}`;
+    const jids = [participantJid, participantAlt].filter((jid): jid is string => !!jid);
+    const lid = jids.find((jid) => LidMappingService.isLid(jid)) || null;
+    const phoneJid = jids.find((jid) => LidMappingService.isPhoneJid(jid));
+
+    let phone = phoneJid ? toPhone(phoneJid) : null;
+    if (lid && phone) {
+      if (this.lidMappingService.resolveLidToPhone(userId, lid) !== phone) {
+        void this.lidMappingService.saveLidMapping(userId, lid, phone);
+      }
+    } else if (lid) {
+      phone = this.lidMappingService.resolveLidToPhone(userId, lid);
+    }
+
+    return {
+      jid: participantJid,
+      phone_number: phone,
+      lid: lid || (phone ? this.lidMappingService.resolvePhoneToLid(userId, phone) : null),
+    };
+  }
+
+  /**
+   * Whether the group's stored metadata is missing or older than GROUP_METADATA_TTL_MS
+   */
+  async needsMetadata(userId: string, phoneNumber: string, groupJid: string): Promise<boolean> {
+    const doc = await this.getGroupDoc(userId, phoneNumber, groupJid).get();
+    const syncedAt = doc.exists ? (doc.data() as GroupConversation).metadata_synced_at : null;
+    return !syncedAt || Date.now() - syncedAt.toMillis() > this.METADATA_TTL_MS;
+  }
+
+  /**
+   * Create or update a group conversation from (partial) Baileys group metadata
+   * Partial updates (groups.update, a chat name from history sync) only touch the fields they carry;
+   * a participant list marks the metadata as fully synced.
+   */
+  async upsertMetadata(userId: string, phoneNumber: string, groupJid: string, metadata: Partial<GroupMetadata>): Promise<void> {
+    const docRef = this.getGroupDoc(userId, phoneNumber, groupJid);
+    const now = Timestamp.now();
+    const changes: Record<string, any> = { group_id: groupJid, updated_at: now };
+
+    if (metadata.subject !== undefined) changes.subject = metadata.subject || null;
+    if (metadata.desc !== undefined) changes.description = metadata.desc || null;
+    if (metadata.owner !== undefined) changes.owner = metadata.owner || null;
+    if (metadata.announce !== undefined) changes.announce = !!metadata.announce;
+    if (metadata.restrict !== undefined) changes.restrict = !!metadata.restrict;
+    if (metadata.creation) changes.group_created_at = Timestamp.fromMillis(metadata.creation * 1000);
+
+    if (metadata.participants) {
+      changes.participants = metadata.participants.map((participant) => ({
+        ...this.resolveParticipant(userId, participant.id, (participant as any).phoneNumber || participant.jid || participant.lid),
+        admin: participant.admin || null,
+      }));
+      changes.participant_count = metadata.participants.length;
+      changes.metadata_synced_at = now;
+    }
+
+    const doc = await docRef.get();
+    if (doc.exists) {
+      await docRef.update(changes);
+    } else {
+      await docRef.set({
+        subject: null,
+        description: null,
+        owner: null,
+        announce: false,
+        restrict: false,
+        participants: [],
+        participant_count: 0,
+        group_created_at: null,
+        metadata_synced_at: null,
+        created_at: now,
+        ...changes,
+      });
+    }
+  }
+
+  /**
+   * Store a group message and update the conversation's last message
+   * Returns false for duplicates (the message id is the document id)
+   */
+  async storeMessage(userId: string, phoneNumber: string, groupJid: string, record: GroupMessageRecord): Promise<boolean> {
+    const groupRef = this.getGroupDoc(userId, phoneNumber, groupJid);
+    const messageRef = groupRef.collection("messages").doc(record.message_sid);
+
+    const existing = await messageRef.get();
+    if (existing.exists) {
+      return false;
+    }
+
+    await messageRef.set(record);
+
+    const group = await groupRef.get();
+    const lastTimestamp = group.exists ? (group.data() as GroupConversation).last_message_timestamp : undefined;
+    if (!group.exists) {
+      await this.upsertMetadata(userId, phoneNumber, groupJid, {});
+    }
+
+    // History sync can deliver older messages after newer ones
+    if (!lastTimestamp || lastTimestamp.toMillis() <= record.timestamp.toMillis()) {
+      await groupRef.update({
+        last_message: {
+          direction: record.direction,
+          body: record.body,
+          participant_phone_number: record.participant_phone_number,
+          timestamp: record.timestamp,
+        },
+        last_message_timestamp: record.timestamp,
+        updated_at: Timestamp.now(),
+      });
+    }
+
+    return true;
+  }
+}
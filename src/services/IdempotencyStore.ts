@@ -0,0 +1,122 @@
+import { Firestore, Timestamp } from "@google-cloud/firestore";
+import { createHash } from "crypto";
+import pino from "pino";
+
+/**
+ * Idempotency record as stored in users/{userId}/phone_numbers/{phoneNumber}/idempotency_keys
+ * Document ids are a hash of the client key, so any header value is a valid id
+ */
+export interface IdempotencyRecord {
+  key: string;
+  fingerprint: string;
+  status: "in_progress" | "completed";
+  status_code: number | null;
+  response_body: string | null; // JSON - keeps undefined fields and nested arrays out of Firestore's way
+  created_at: Timestamp;
+  completed_at: Timestamp | null;
+  expires_at: Timestamp;
+}
+
+export type IdempotencyClaim = { state: "acquired" } | { state: "replay"; statusCode: number; body: any } | { state: "in_progress" } | { state: "mismatch" };
+
+/**
+ * Idempotency key store for message sends
+ *
+ * The first request with a given key claims it in a transaction and records its final result
+ * (success or error). Retries with the same key replay that result instead of sending again,
+ * across instances and restarts. Unlike ConnectionPool's sentMessageIds (which tracks our own
+ * outgoing ids to skip echoes), this is keyed by the client's intent.
+ *
+ * Records expire after IDEMPOTENCY_TTL_HOURS. An in-progress claim expires after
+ * IN_PROGRESS_TTL_MS so a crashed request doesn't block its key for the whole window.
+ * Configure a Firestore TTL policy on `expires_at` to have expired records deleted.
+ */
+export class IdempotencyStore {
+  private firestore: Firestore;
+  private logger = pino({ name: "IdempotencyStore" });
+
+  private readonly TTL_MS = parseFloat(process.env.IDEMPOTENCY_TTL_HOURS || "24") * 60 * 60 * 1000;
+  private readonly IN_PROGRESS_TTL_MS = 2 * 60 * 1000; // Sends wait at most ~30s on recovery
+  static readonly MAX_KEY_LENGTH = 255;
+
+  constructor(firestore: Firestore) {
+    this.firestore = firestore;
+  }
+
+  /**
+   * Hash a request payload so a reused key with a different payload can be rejected
+   */
+  static fingerprint(payload: unknown): string {
+    return createHash("sha256")
+      .update(JSON.stringify(payload) || "")
+      .digest("hex");
+  }
+
+  private getKeyDoc(userId: string, phoneNumber: string, key: string) {
+    const docId = createHash("sha256").update(key).digest("hex");
+    return this.firestore.collection("users").doc(userId).collection("phone_numbers").doc(phoneNumber).collection("idempotency_keys").doc(docId);
+  }
+
+  /**
+   * Claim a key before sending
+   * Returns "acquired" if the caller should proceed and later call complete(),
+   * "replay" with the recorded response, "in_progress" if another request holds the key,
+   * or "mismatch" if the key was used with a different payload
+   */
+  async begin(userId: string, phoneNumber: string, key: string, fingerprint: string): Promise<IdempotencyClaim> {
+    const docRef = this.getKeyDoc(userId, phoneNumber, key);
+
+    return this.firestore.runTransaction(async (transaction) => {
+      const doc = await transaction.get(docRef);
+      const existing = doc.data() as IdempotencyRecord | undefined;
+
+      if (existing && existing.expires_at.toMillis() > Date.now()) {
+        if (existing.fingerprint !== fingerprint) {
+          return { state: "mismatch" } as IdempotencyClaim;
+        }
+
+        if (existing.status === "completed" && existing.status_code !== null) {
+          return {
+            state: "replay",
+            statusCode: existing.status_code,
+            body: existing.response_body ? JSON.parse(existing.response_body) : null,
+          } as IdempotencyClaim;
+        }
+
+        return { state: "in_progress" } as IdempotencyClaim;
+      }
+
+      const record: IdempotencyRecord = {
+        key,
+        fingerprint,
+        status: "in_progress",
+        status_code: null,
+        response_body: null,
+        created_at: Timestamp.now(),
+        completed_at: null,
+        expires_at: Timestamp.fromMillis(Date.now() + this.IN_PROGRESS_TTL_MS),
+      };
+      transaction.set(docRef, record);
+
+      return { state: "acquired" } as IdempotencyClaim;
+    });
+  }
+
+  /**
+   * Record the final response for a claimed key
+   */
+  async complete(userId: string, phoneNumber: string, key: string, statusCode: number, body: unknown): Promise<void> {
+    try {
+      await this.getKeyDoc(userId, phoneNumber, key).update({
+        status: "completed",
+        status_code: statusCode,
+        response_body: body === undefined ? null : JSON.stringify(body),
+        completed_at: Timestamp.now(),
+        expires_at: Timestamp.fromMillis(Date.now() + this.TTL_MS),
+      });
+    } catch (error) {
+      // The send already happened - a missing record only means a retry could send again
+      this.logger.error({ error, userId, phoneNumber, key }, "Failed to record idempotent response");
+    }
+  }
+}
@@ -0,0 +1,186 @@
+import { Firestore, Timestamp, FieldValue, FieldPath, DocumentReference } from "@google-cloud/firestore";
+import type { WASocket } from "@whiskeysockets/baileys";
+import pino from "pino";
+import { LidMappingService } from "./LidMappingService";
+import { findContactRef, toContactJid } from "../utils/contacts";
+
+/**
+ * A WhatsApp Business label (users/{userId}/phone_numbers/{phoneNumber}/labels/{labelId})
+ */
+export interface LabelRecord {
+  id: string;
+  name: string;
+  color: number; // Index into WhatsApp's label color palette
+  predefined_id: string | null; // Set for the labels WhatsApp Business creates by default ("New customer", ...)
+  deleted: boolean;
+  updated_at: Timestamp;
+}
+
+/**
+ * WhatsApp Business labels and the chats they're on
+ *
+ * Labels live in app state on the phone; Baileys emits labels.edit and labels.association while the
+ * app state syncs after connecting and whenever labels change later. The label ids on each chat are kept
+ * per phone number in chat_labels/{contactNumber} - associations often arrive before the contact exists -
+ * and copied onto the contact as whatsapp_labels.{phoneNumber}. processSyncedChats applies them to
+ * contacts that already exist, live events update contacts directly.
+ *
+ * Label ids are only unique per linked phone ("1", "2", ... on every phone), so everything is keyed by the
+ * phone number; use the label list of the phone number to resolve names.
+ */
+export class LabelService {
+  private firestore: Firestore;
+  private lidMappingService: LidMappingService;
+  private logger = pino({ name: "LabelService" });
+
+  private readonly BATCH_SIZE = 400;
+
+  constructor(firestore: Firestore, lidMappingService: LidMappingService) {
+    this.firestore = firestore;
+    this.lidMappingService = lidMappingService;
+  }
+
+  private getPhoneRef(userId: string, phoneNumber: string) {
+    return this.firestore.collection("users").doc(userId).collection("phone_numbers").doc(phoneNumber);
+  }
+
+  /**
+   * Labels of a phone number, without deleted ones
+   */
+  async listLabels(userId: string, phoneNumber: string): Promise<LabelRecord[]> {
+    const snapshot = await this.getPhoneRef(userId, phoneNumber).collection("labels").where("deleted", "==", false).get();
+    return snapshot.docs.map((doc) => doc.data() as LabelRecord);
+  }
+
+  /**
+   * Whether a label exists (and isn't deleted) on a phone number
+   */
+  async hasLabel(userId: string, phoneNumber: string, labelId: string): Promise<boolean> {
+    const doc = await this.getPhoneRef(userId, phoneNumber).collection("labels").doc(labelId).get();
+    return doc.exists && !(doc.data() as LabelRecord).deleted;
+  }
+
+  /**
+   * Add or remove a label on a contact's chat through the linked phone
+   */
+  async setChatLabel(socket: WASocket, userId: string, phoneNumber: string, contactNumber: string, labelId: string, add: boolean): Promise<void> {
+    const jid = toContactJid(contactNumber);
+    if (add) {
+      await socket.addChatLabel(jid, labelId);
+    } else {
+      await socket.removeChatLabel(jid, labelId);
+    }
+
+    // The phone echoes the change as labels.association - record it now so the API reflects it immediately
+    await this.recordAssociation(userId, phoneNumber, contactNumber, labelId, add);
+  }
+
+  /**
+   * Store labels from a labels.edit event; deleted labels are removed from chats and contacts
+   */
+  async handleLabelsEdit(userId: string, phoneNumber: string, labels: Array<{ id: string; name?: string; color?: number; deleted?: boolean; predefinedId?: string }>): Promise<void> {
+    const labelsCollection = this.getPhoneRef(userId, phoneNumber).collection("labels");
+
+    for (const label of labels || []) {
+      if (!label?.id) {
+        continue;
+      }
+
+      try {
+        const record: LabelRecord = {
+          id: label.id,
+          name: label.name || "",
+          color: label.color ?? 0,
+          predefined_id: label.predefinedId ?? null,
+          deleted: !!label.deleted,
+          updated_at: Timestamp.now(),
+        };
+        await labelsCollection.doc(label.id).set(record, { merge: true });
+
+        if (record.deleted) {
+          await this.removeDeletedLabel(userId, phoneNumber, label.id);
+        }
+      } catch (error) {
+        this.logger.warn({ error, userId, phoneNumber, labelId: label.id }, "Failed to store label");
+      }
+    }
+  }
+
+  /**
+   * Apply a labels.association event - message labels are ignored, only chat labels are kept
+   */
+  async handleLabelAssociation(userId: string, phoneNumber: string, event: { type: "add" | "remove"; association: { type: string; chatId: string; labelId: string } }): Promise<void> {
+    const { association } = event;
+    if (association?.type !== "label_jid") {
+      return;
+    }
+
+    const contactNumber = this.lidMappingService.resolveJidToPhone(userId, association.chatId);
+    if (!contactNumber) {
+      return;
+    }
+
+    try {
+      await this.recordAssociation(userId, phoneNumber, contactNumber, association.labelId, event.type === "add");
+    } catch (error) {
+      this.logger.warn({ error, userId, phoneNumber, contactNumber, labelId: association.labelId }, "Failed to store label association");
+    }
+  }
+
+  /**
+   * Copy the labels recorded for a chat onto its contact (used by chat sync for contacts that already exist)
+   */
+  async applyToContact(userId: string, phoneNumber: string, contactNumber: string, contactRef: DocumentReference): Promise<void> {
+    const doc = await this.getPhoneRef(userId, phoneNumber).collection("chat_labels").doc(contactNumber).get();
+    const labelIds: string[] = doc.data()?.label_ids || [];
+    if (labelIds.length > 0) {
+      await contactRef.update(LabelService.contactLabelsField(phoneNumber), FieldValue.arrayUnion(...labelIds));
+    }
+  }
+
+  private async recordAssociation(userId: string, phoneNumber: string, contactNumber: string, labelId: string, add: boolean): Promise<void> {
+    const change = add ? FieldValue.arrayUnion(labelId) : FieldValue.arrayRemove(labelId);
+
+    await this.getPhoneRef(userId, phoneNumber)
+      .collection("chat_labels")
+      .doc(contactNumber)
+      .set({ contact_number: contactNumber, label_ids: change, updated_at: Timestamp.now() }, { merge: true });
+
+    const contactRef = await findContactRef(this.firestore, userId, contactNumber);
+    if (contactRef) {
+      await contactRef.update(LabelService.contactLabelsField(phoneNumber), change);
+    }
+
+    this.logger.debug({ userId, phoneNumber, contactNumber, labelId, add }, "Chat label association updated");
+  }
+
+  /**
+   * Contact field holding the label ids a phone number put on the chat
+   */
+  static contactLabelsField(phoneNumber: string): FieldPath {
+    return new FieldPath("whatsapp_labels", phoneNumber);
+  }
+
+  private async removeDeletedLabel(userId: string, phoneNumber: string, labelId: string): Promise<void> {
+    const userRef = this.firestore.collection("users").doc(userId);
+    const contactLabelsField = LabelService.contactLabelsField(phoneNumber);
+    const [chatLabels, contacts] = await Promise.all([
+      this.getPhoneRef(userId, phoneNumber).collection("chat_labels").where("label_ids", "array-contains", labelId).get(),
+      this.firestore.collection("contacts").where("user", "==", userRef).where(contactLabelsField, "array-contains", labelId).get(),
+    ]);
+
+    const updates: Array<[DocumentReference, string | FieldPath]> = [
+      ...chatLabels.docs.map((doc): [DocumentReference, string] => [doc.ref, "label_ids"]),
+      ...contacts.docs.map((doc): [DocumentReference, FieldPath] => [doc.ref, contactLabelsField]),
+    ];
+
+    // A label can be on more chats than fit in one batch
+    for (let i = 0; i < updates.length; i += this.BATCH_SIZE) {
+      const batch = this.firestore.batch();
+      for (const [ref, field] of updates.slice(i, i + this.BATCH_SIZE)) {
+        batch.update(ref, field, FieldValue.arrayRemove(labelId));
+      }
+      await batch.commit();
+    }
+  }
+}
@@ -156,6 +156,20 @@ export class LidMappingService {
     return userCache.get(lid) || null;
   }
 
+  /**
+   * Phone number for a user JID, phone or LID
+   * Returns null for groups, broadcasts and LIDs without a mapping
+   */
+  resolveJidToPhone(userId: string, jid: string): string | null {
+    if (LidMappingService.isPhoneJid(jid)) {
+      return `+${jid.split("@")[0].split(":")[0]}`;
+    }
+    if (LidMappingService.isLid(jid)) {
+      return this.resolveLidToPhone(userId, jid);
+    }
+    return null;
+  }
+
   /**
    * Resolve a phone number to its associated LID
    * Returns null if no mapping exists
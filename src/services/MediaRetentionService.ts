@@ -0,0 +1,250 @@
+import { Firestore, Timestamp, CollectionReference } from "@google-cloud/firestore";
+import pino from "pino";
+import { MediaService } from "./MediaService";
+
+export interface MediaMigrationResult {
+  scanned: number;
+  migrated: number;
+  skipped: number; // media_url that wasn't one of our signed URLs (e.g. caller-provided links)
+}
+
+/**
+ * Media retention and stable media references
+ *
+ * Users can set a retention period in users/{userId}.whatsapp_web.media_retention_days. A background
+ * sweep deletes their stored media older than that with MediaService.deleteMedia. Deduplication hands
+ * existing objects out again, so an object counts from its last reuse (media_hashes last_used_at), not
+ * from when it was created, and its hash records are dropped with it. The sweep runs on one
+ * instance at a time: each run takes a lease in service_locks/media_retention, so instances polling
+ * together don't list and delete the same objects twice.
+ *
+ * Messages stored before media ids existed only have a (by now expired) signed media_url.
+ * migrateLegacyMediaUrls() derives media_id / thumbnail_media_id from those URLs.
+ */
+export class MediaRetentionService {
+  private firestore: Firestore;
+  private mediaService: MediaService;
+  private logger = pino({ name: "MediaRetentionService" });
+  private sweepInterval: NodeJS.Timeout | null = null;
+  private isSweeping = false;
+
+  private readonly SWEEP_INTERVAL = parseInt(process.env.MEDIA_RETENTION_SWEEP_INTERVAL_MS || String(6 * 60 * 60 * 1000));
+  private readonly MAX_DELETES_PER_USER = 1000; // Per sweep - the rest is picked up by the next one
+  private readonly MIGRATION_BATCH_SIZE = 400;
+  static readonly MAX_RETENTION_DAYS = 3650;
+
+  constructor(firestore: Firestore, mediaService: MediaService) {
+    this.firestore = firestore;
+    this.mediaService = mediaService;
+  }
+
+  /**
+   * Start the periodic retention sweep
+   */
+  start(): void {
+    if (this.sweepInterval) {
+      this.logger.warn("Media retention sweep already running");
+      return;
+    }
+
+    this.logger.info({ intervalMs: this.SWEEP_INTERVAL }, "Starting media retention sweep");
+
+    this.sweepInterval = setInterval(async () => {
+      try {
+        await this.sweep();
+      } catch (error) {
+        this.logger.error({ error }, "Error during media retention sweep");
+      }
+    }, this.SWEEP_INTERVAL);
+  }
+
+  /**
+   * Stop the periodic sweep
+   */
+  stop(): void {
+    if (this.sweepInterval) {
+      clearInterval(this.sweepInterval);
+      this.sweepInterval = null;
+      this.logger.info("Stopped media retention sweep");
+    }
+  }
+
+  /**
+   * A user's media retention in days, or null to keep media indefinitely
+   */
+  async getRetentionDays(userId: string): Promise<number | null> {
+    const doc = await this.firestore.collection("users").doc(userId).get();
+    const days = doc.data()?.whatsapp_web?.media_retention_days;
+    return typeof days === "number" && days > 0 ? days : null;
+  }
+
+  /**
+   * Set (or clear, with null) a user's media retention
+   */
+  async setRetentionDays(userId: string, days: number | null): Promise<void> {
+    await this.firestore
+      .collection("users")
+      .doc(userId)
+      .set({ whatsapp_web: { media_retention_days: days } }, { merge: true });
+
+    this.logger.info({ userId, days }, "Media retention setting updated");
+  }
+
+  /**
+   * Delete expired media for every user with a retention period
+   */
+  async sweep(): Promise<void> {
+    if (this.isSweeping) {
+      return;
+    }
+
+    this.isSweeping = true;
+    try {
+      if (!(await this.acquireLease())) {
+        this.logger.debug("Media retention sweep ran recently on another instance, skipping");
+        return;
+      }
+
+      const usersSnapshot = await this.firestore.collection("users").where("whatsapp_web.media_retention_days", ">", 0).get();
+
+      let deleted = 0;
+      for (const userDoc of usersSnapshot.docs) {
+        try {
+          deleted += await this.sweepUser(userDoc.id, userDoc.data().whatsapp_web.media_retention_days);
+        } catch (error) {
+          this.logger.error({ error, userId: userDoc.id }, "Failed to apply media retention");
+        }
+      }
+
+      this.logger.info({ users: usersSnapshot.size, deleted }, "Media retention sweep completed");
+    } finally {
+      this.isSweeping = false;
+    }
+  }
+
+  /**
+   * Take the sweep lease unless another instance took it within the current interval
+   */
+  private async acquireLease(): Promise<boolean> {
+    const lockRef = this.firestore.collection("service_locks").doc("media_retention");
+    const now = Timestamp.now();
+
+    return this.firestore.runTransaction(async (transaction) => {
+      const doc = await transaction.get(lockRef);
+      const lastSweepAt = doc.data()?.last_sweep_at as Timestamp | undefined;
+      if (lastSweepAt && now.toMillis() - lastSweepAt.toMillis() < this.SWEEP_INTERVAL / 2) {
+        return false;
+      }
+
+      transaction.set(lockRef, { last_sweep_at: now });
+      return true;
+    });
+  }
+
+  /**
+   * Delete one user's media created and last reused more than retentionDays ago - returns the number of objects deleted
+   */
+  private async sweepUser(userId: string, retentionDays: number): Promise<number> {
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+    const reused = await this.mediaService.listMediaReusedSince(userId, cutoff);
+    let deleted = 0;
+    let pageToken: string | undefined;
+
+    do {
+      const page = await this.mediaService.listUserMediaBefore(userId, cutoff, pageToken);
+
+      for (const filename of page.filenames) {
+        if (deleted >= this.MAX_DELETES_PER_USER) {
+          return deleted;
+        }
+        if (reused.has(filename)) {
+          continue;
+        }
+
+        try {
+          await this.mediaService.deleteMedia(filename);
+          deleted++;
+        } catch (error: any) {
+          // Already gone - deleted by hand or by an earlier, interrupted sweep
+          if (error.code !== 404) {
+            throw error;
+          }
+        }
+        await this.mediaService.forgetStoredMedia(userId, filename);
+      }
+
+      pageToken = page.nextPageToken || undefined;
+    } while (pageToken);
+
+    if (deleted > 0) {
+      this.logger.info({ userId, retentionDays, deleted }, "Deleted media past retention");
+    }
+
+    return deleted;
+  }
+
+  /**
+   * Add media_id / thumbnail_media_id to a user's messages that only have a signed URL
+   * Covers contact conversations (contacts/{contactId}/messages) and synced group chats. Safe to run repeatedly.
+   */
+  async migrateLegacyMediaUrls(userId: string): Promise<MediaMigrationResult> {
+    const result: MediaMigrationResult = { scanned: 0, migrated: 0, skipped: 0 };
+    const userRef = this.firestore.collection("users").doc(userId);
+
+    const messageCollections: CollectionReference[] = [];
+    const contactsSnapshot = await this.firestore.collection("contacts").where("user", "==", userRef).get();
+    for (const contactDoc of contactsSnapshot.docs) {
+      messageCollections.push(contactDoc.ref.collection("messages"));
+    }
+    const phoneNumbersSnapshot = await userRef.collection("phone_numbers").get();
+    for (const phoneDoc of phoneNumbersSnapshot.docs) {
+      const groupsSnapshot = await phoneDoc.ref.collection("groups").get();
+      for (const groupDoc of groupsSnapshot.docs) {
+        messageCollections.push(groupDoc.ref.collection("messages"));
+      }
+    }
+
+    for (const collection of messageCollections) {
+      const snapshot = await collection.where("media_url", "!=", null).get();
+
+      let batch = this.firestore.batch();
+      let batchCount = 0;
+
+      for (const doc of snapshot.docs) {
+        const data = doc.data();
+        result.scanned++;
+        if (data.media_id) {
+          continue;
+        }
+
+        const mediaPath = MediaService.objectPathFromUrl(data.media_url);
+        if (!mediaPath || !MediaService.isOwnedBy(mediaPath, userId)) {
+          result.skipped++;
+          continue;
+        }
+
+        const thumbnailPath = data.thumbnail_url ? MediaService.objectPathFromUrl(data.thumbnail_url) : null;
+        batch.update(doc.ref, {
+          media_id: MediaService.toMediaId(mediaPath),
+          thumbnail_media_id: thumbnailPath && MediaService.isOwnedBy(thumbnailPath, userId) ? MediaService.toMediaId(thumbnailPath) : null,
+        });
+        batchCount++;
+        result.migrated++;
+
+        if (batchCount >= this.MIGRATION_BATCH_SIZE) {
+          await batch.commit();
+          batch = this.firestore.batch();
+          batchCount = 0;
+        }
+      }
+
+      if (batchCount > 0) {
+        await batch.commit();
+      }
+    }
+
+    this.logger.info({ userId, ...result }, "Migrated legacy media URLs to media ids");
+
+    return result;
+  }
+}
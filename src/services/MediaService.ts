@@ -1,12 +1,26 @@
 import { Storage } from "@google-cloud/storage";
+import { Firestore, Timestamp, FieldValue } from "@google-cloud/firestore";
 import { v4 as uuidv4 } from "uuid";
 import { Jimp } from "jimp";
 import pino from "pino";
+import { execFile } from "child_process";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { promisify } from "util";
+import { createHash } from "crypto";
 
 const logger = pino({ name: "MediaService" });
+const execFileAsync = promisify(execFile);
+
+const VIDEO_THUMBNAIL_WIDTH = 240;
+const VIDEO_THUMBNAIL_TIMEOUT_MS = 15000;
+const MEDIA_PREFIX = "whatsapp-media/";
+const UPLOAD_URL_TTL_MS = 7 * 24 * 60 * 60 * 1000; // Longest a v4 signed URL can live
 
 export interface MediaUploadResult {
-  url: string;
+  url: string; // Signed URL, valid for 7 days - store mediaId for anything that outlives that
+  mediaId: string; // Stable reference, resolved to a fresh signed URL by GET /api/media/:id
   filename: string;
   contentType: string;
   size: number;
@@ -20,12 +34,41 @@ export interface MediaFile {
   size: number;
 }
 
+/**
+ * Stored object for a media hash, in users/{userId}/media_hashes/{sha256}
+ * Signed URLs expire, so the object's filename is kept and a fresh URL is signed on reuse
+ */
+export interface MediaHashRecord {
+  hash: string;
+  filename: string;
+  bucket: string;
+  content_type: string;
+  size: number; // Stored size (after compression)
+  hits: number;
+  created_at: Timestamp;
+  last_used_at: Timestamp;
+}
+
+export interface MediaDedupMetrics {
+  uploads: number; // Objects written to Cloud Storage
+  deduplicated: number; // Uploads served by an existing object
+  dedupRatio: number; // deduplicated / (uploads + deduplicated)
+  bytesSaved: number;
+}
+
 export class MediaService {
   private storage: Storage;
+  private firestore?: Firestore;
   private bucket: string;
   private maxFileSizeMB: number;
+  private dedupMetrics = { uploads: 0, deduplicated: 0, bytesSaved: 0 };
+
+  /**
+   * Pass Firestore to deduplicate uploads by content hash - without it every upload writes a new object
+   */
+  constructor(firestore?: Firestore) {
+    this.firestore = firestore;
 
-  constructor() {
     this.storage = new Storage({
       projectId: process.env.GOOGLE_CLOUD_PROJECT,
     });
@@ -49,6 +92,7 @@ export class MediaService {
         bucket: this.bucket,
         projectId: process.env.GOOGLE_CLOUD_PROJECT,
         maxFileSizeMB: this.maxFileSizeMB,
+        deduplication: !!this.firestore,
       },
       "MediaService initialized"
     );
@@ -56,6 +100,7 @@ export class MediaService {
 
   /**
    * Upload media file to Cloud Storage
+   * Content already stored for this user (same SHA-256) reuses the existing object
    */
   async uploadMedia(file: MediaFile, userId: string, phoneNumber: string, maxRetries: number = 3): Promise<MediaUploadResult> {
     const uploadStartTime = Date.now();
@@ -66,9 +111,19 @@ export class MediaService {
       throw new Error(`File size ${file.size} exceeds maximum ${maxSizeBytes} bytes`);
     }
 
+    // Hash the original bytes, so duplicates skip compression as well as the upload
+    const hash = createHash("sha256").update(file.buffer).digest("hex");
+    const existing = await this.findStoredMedia(userId, hash);
+    if (existing) {
+      this.dedupMetrics.deduplicated++;
+      this.dedupMetrics.bytesSaved += existing.size;
+      logger.info({ userId, phoneNumber, hash, filename: existing.filename, size: existing.size }, "Reusing stored media with identical content");
+      return existing;
+    }
+
     // Generate unique filename
     const fileExtension = this.getFileExtension(file.mimetype);
-    const filename = `whatsapp-media/${userId}/${phoneNumber}/${Date.now()}_${uuidv4()}${fileExtension}`;
+    const filename = `${MEDIA_PREFIX}${userId}/${phoneNumber}/${Date.now()}_${uuidv4()}${fileExtension}`;
 
     // Process image if needed (compress large images)
     let processedBuffer = file.buffer;
@@ -111,17 +166,21 @@ export class MediaService {
         // Make file publicly accessible with signed URL (expires in 7 days)
         const [url] = await fileObject.getSignedUrl({
           action: "read",
-          expires: Date.now() + 7 * 24 * 60 * 60 * 1000, // 7 days
+          expires: Date.now() + UPLOAD_URL_TTL_MS,
         });
 
         const result: MediaUploadResult = {
           url,
+          mediaId: MediaService.toMediaId(filename),
           filename,
           contentType: file.mimetype,
           size: processedBuffer.length,
           bucket: this.bucket,
         };
 
+        this.dedupMetrics.uploads++;
+        await this.recordStoredMedia(userId, hash, result);
+
         logger.info(
           {
             userId,
@@ -172,6 +231,200 @@ export class MediaService {
     throw lastError;
   }
 
+  /**
+   * Stable media id for a stored object - the object path, base64url encoded so it fits in a URL segment
+   */
+  static toMediaId(filename: string): string {
+    return Buffer.from(filename, "utf8").toString("base64url");
+  }
+
+  /**
+   * Object path for a media id, or null if the id doesn't decode to a path under a user's media folder
+   */
+  static parseMediaId(mediaId: string): string | null {
+    if (!/^[A-Za-z0-9_-]+$/.test(mediaId)) {
+      return null;
+    }
+
+    const filename = Buffer.from(mediaId, "base64url").toString("utf8");
+    return filename.startsWith(MEDIA_PREFIX) && !filename.includes("..") ? filename : null;
+  }
+
+  /**
+   * Whether a stored object belongs to a user (objects live under whatsapp-media/{userId}/)
+   */
+  static isOwnedBy(filename: string, userId: string): boolean {
+    return filename.startsWith(`${MEDIA_PREFIX}${userId}/`);
+  }
+
+  /**
+   * Object path from a signed URL issued by uploadMedia (path-style or virtual-hosted), or null for other URLs
+   * Used to give messages stored before media ids existed a stable reference
+   */
+  static objectPathFromUrl(url: string): string | null {
+    try {
+      const parsed = new URL(url);
+      const segments = parsed.pathname.split("/").filter(Boolean);
+      if (parsed.hostname === "storage.googleapis.com") {
+        segments.shift(); // Bucket name
+      } else if (!parsed.hostname.endsWith(".storage.googleapis.com")) {
+        return null;
+      }
+
+      const filename = segments.map((segment) => decodeURIComponent(segment)).join("/");
+      return filename.startsWith(MEDIA_PREFIX) ? filename : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Sign a read URL for a stored object - null if the object no longer exists (e.g. removed by retention)
+   */
+  async getSignedUrl(filename: string, ttlMs: number): Promise<string | null> {
+    const fileObject = this.storage.bucket(this.bucket).file(filename);
+    const [exists] = await fileObject.exists();
+    if (!exists) {
+      return null;
+    }
+
+    const [url] = await fileObject.getSignedUrl({
+      action: "read",
+      expires: Date.now() + Math.min(ttlMs, UPLOAD_URL_TTL_MS),
+    });
+    return url;
+  }
+
+  /**
+   * Object paths of a user's media created before the cutoff, one page at a time
+   */
+  async listUserMediaBefore(userId: string, cutoff: Date, pageToken?: string): Promise<{ filenames: string[]; nextPageToken: string | null }> {
+    const [files, nextQuery] = await this.storage.bucket(this.bucket).getFiles({
+      prefix: `${MEDIA_PREFIX}${userId}/`,
+      autoPaginate: false,
+      maxResults: 500,
+      pageToken,
+    });
+
+    return {
+      filenames: files.filter((file) => file.metadata.timeCreated && new Date(file.metadata.timeCreated) < cutoff).map((file) => file.name),
+      nextPageToken: (nextQuery as { pageToken?: string } | null)?.pageToken || null,
+    };
+  }
+
+  /**
+   * Objects handed out again by deduplication since the cutoff - still in use, however long ago they were created
+   */
+  async listMediaReusedSince(userId: string, cutoff: Date): Promise<Set<string>> {
+    if (!this.firestore) {
+      return new Set();
+    }
+
+    const snapshot = await this.firestore.collection("users").doc(userId).collection("media_hashes").where("last_used_at", ">=", Timestamp.fromDate(cutoff)).get();
+    return new Set(snapshot.docs.map((doc) => (doc.data() as MediaHashRecord).filename));
+  }
+
+  /**
+   * Drop the hash records of a deleted object, so its content is uploaded again instead of reused
+   */
+  async forgetStoredMedia(userId: string, filename: string): Promise<void> {
+    if (!this.firestore) {
+      return;
+    }
+
+    const snapshot = await this.firestore.collection("users").doc(userId).collection("media_hashes").where("filename", "==", filename).get();
+    await Promise.all(snapshot.docs.map((doc) => doc.ref.delete()));
+  }
+
+  private getHashDoc(userId: string, hash: string) {
+    return this.firestore!.collection("users").doc(userId).collection("media_hashes").doc(hash);
+  }
+
+  /**
+   * Look up an object already stored for this content and sign a fresh URL for it
+   * Returns null on a miss, when the object was deleted, or when the index can't be read (the caller uploads instead)
+   */
+  private async findStoredMedia(userId: string, hash: string): Promise<MediaUploadResult | null> {
+    if (!this.firestore) {
+      return null;
+    }
+
+    try {
+      const docRef = this.getHashDoc(userId, hash);
+      const doc = await docRef.get();
+      if (!doc.exists) {
+        return null;
+      }
+
+      const record = doc.data() as MediaHashRecord;
+      const fileObject = this.storage.bucket(record.bucket).file(record.filename);
+      const [exists] = await fileObject.exists();
+      if (!exists) {
+        await docRef.delete();
+        return null;
+      }
+
+      const [url] = await fileObject.getSignedUrl({
+        action: "read",
+        expires: Date.now() + UPLOAD_URL_TTL_MS,
+      });
+
+      await docRef.update({ hits: FieldValue.increment(1), last_used_at: Timestamp.now() });
+
+      return {
+        url,
+        mediaId: MediaService.toMediaId(record.filename),
+        filename: record.filename,
+        contentType: record.content_type,
+        size: record.size,
+        bucket: record.bucket,
+      };
+    } catch (error: any) {
+      logger.warn({ error: error.message, userId, hash }, "Failed to look up stored media, uploading instead");
+      return null;
+    }
+  }
+
+  /**
+   * Index a freshly uploaded object by content hash - failures only cost a future duplicate upload
+   */
+  private async recordStoredMedia(userId: string, hash: string, result: MediaUploadResult): Promise<void> {
+    if (!this.firestore) {
+      return;
+    }
+
+    try {
+      const now = Timestamp.now();
+      const record: MediaHashRecord = {
+        hash,
+        filename: result.filename,
+        bucket: result.bucket,
+        content_type: result.contentType,
+        size: result.size,
+        hits: 0,
+        created_at: now,
+        last_used_at: now,
+      };
+      await this.getHashDoc(userId, hash).set(record);
+    } catch (error: any) {
+      logger.warn({ error: error.message, userId, hash, filename: result.filename }, "Failed to index stored media");
+    }
+  }
+
+  /**
+   * Upload counts and how many were served by an existing object
+   */
+  getMetrics(): MediaDedupMetrics {
+    const { uploads, deduplicated, bytesSaved } = this.dedupMetrics;
+    const total = uploads + deduplicated;
+    return {
+      uploads,
+      deduplicated,
+      dedupRatio: total > 0 ? deduplicated / total : 0,
+      bytesSaved,
+    };
+  }
+
   /**
    * Download media from WhatsApp and upload to Cloud Storage
    */
@@ -288,13 +541,29 @@ export class MediaService {
   }
 
   /**
-   * Generate thumbnail for video files (future enhancement)
+   * Generate a JPEG thumbnail from a video's first frame using ffmpeg
+   * Returns null when ffmpeg isn't installed or can't read the video - the send goes out without a preview
    */
-  async generateVideoThumbnail(_buffer: Buffer): Promise<Buffer | null> {
-    // TODO: Implement video thumbnail generation using ffmpeg
-    // For now, return null to indicate no thumbnail
-    logger.info("Video thumbnail generation not implemented yet");
-    return null;
+  async generateVideoThumbnail(buffer: Buffer): Promise<Buffer | null> {
+    // ffmpeg needs a seekable input (mp4 often has its index at the end), so go through a temp file
+    const basePath = path.join(os.tmpdir(), `video_thumb_${uuidv4()}`);
+    const videoPath = `${basePath}.video`;
+    const thumbnailPath = `${basePath}.jpg`;
+
+    try {
+      await fs.writeFile(videoPath, buffer);
+      await execFileAsync(
+        "ffmpeg",
+        ["-y", "-loglevel", "error", "-ss", "00:00:00", "-i", videoPath, "-frames:v", "1", "-vf", `scale=${VIDEO_THUMBNAIL_WIDTH}:-2`, thumbnailPath],
+        { timeout: VIDEO_THUMBNAIL_TIMEOUT_MS }
+      );
+      return await fs.readFile(thumbnailPath);
+    } catch (error: any) {
+      logger.warn({ error: error.code === "ENOENT" ? "ffmpeg not installed" : error.message, size: buffer.length }, "Failed to generate video thumbnail");
+      return null;
+    } finally {
+      await Promise.all([fs.rm(videoPath, { force: true }), fs.rm(thumbnailPath, { force: true })]);
+    }
   }
 
   /**
@@ -0,0 +1,376 @@
+import { Firestore, Timestamp, DocumentReference } from "@google-cloud/firestore";
+import pino from "pino";
+import type { ConnectionPool } from "../core/ConnectionPool";
+import { LimitChecker } from "./limitChecker";
+import { buildMessageContent, PersistedMedia } from "../utils/messageContent";
+
+export type ScheduledMessageStatus = "pending" | "processing" | "sent" | "failed" | "cancelled";
+
+/**
+ * Scheduled message as stored in users/{userId}/phone_numbers/{phoneNumber}/scheduled_messages
+ * Media is always stored by URL - buffers are uploaded before the schedule is created
+ */
+export interface ScheduledMessage {
+  id: string;
+  user_id: string;
+  phone_number: string;
+  to_number: string;
+  message: string | null;
+  media: PersistedMedia | null;
+  send_at: Timestamp;
+  status: ScheduledMessageStatus;
+  created_at: Timestamp;
+  updated_at: Timestamp;
+  claimed_at?: Timestamp | null;
+  sent_at?: Timestamp | null;
+  message_id?: string | null;
+  queued_id?: string | null; // Set when the send went through the sender's pacing queue
+  error?: string | null;
+}
+
+export interface ScheduleMessageInput {
+  toNumber: string;
+  message?: string;
+  media?: ScheduledMessage["media"];
+  sendAt: Date;
+}
+
+/**
+ * Message scheduler
+ *
+ * Persists scheduled messages in Firestore and fires them when due. Because the schedule
+ * lives in Firestore (not in memory), pending messages survive redeploys and instance restarts:
+ * whichever instance polls first after `send_at` claims the message in a transaction and sends it.
+ *
+ * Each fired message goes through LimitChecker.checkLimits. Messages the limits want paced (or that
+ * would overtake messages already waiting) go through the sender's pacing queue and are marked sent
+ * or failed when the queue reports the outcome. The rest go straight to ConnectionPool.sendMessage,
+ * which queues them on the pending-recovery queue when the session is not currently in memory.
+ */
+export class MessageScheduler {
+  private firestore: Firestore;
+  private connectionPool: ConnectionPool;
+  private limitChecker: LimitChecker;
+  private logger = pino({ name: "MessageScheduler" });
+  private pollInterval: NodeJS.Timeout | null = null;
+  private isPolling = false;
+  private queuedSends = new Map<string, DocumentReference>(); // queuedId -> scheduled message waiting in a pacing queue
+
+  private readonly POLL_INTERVAL = parseInt(process.env.SCHEDULER_POLL_INTERVAL_MS || "15000"); // 15 seconds
+  private readonly BATCH_SIZE = 50; // Max due messages claimed per poll
+  private readonly STALE_CLAIM_MS = 5 * 60 * 1000; // Claims older than this were interrupted (crash/redeploy)
+
+  constructor(firestore: Firestore, connectionPool: ConnectionPool, limitChecker?: LimitChecker) {
+    this.firestore = firestore;
+    this.connectionPool = connectionPool;
+    this.limitChecker = limitChecker || new LimitChecker();
+
+    this.connectionPool.on("queued-message-sent", (data: { queuedId: string; messageId: string }) => {
+      const docRef = this.takeQueuedSend(data.queuedId);
+      if (docRef) {
+        this.markSent(docRef, data.messageId).catch((error) => {
+          this.logger.error({ error, scheduleId: docRef.id }, "Failed to mark queued scheduled message as sent");
+        });
+      }
+    });
+    this.connectionPool.on("queued-message-failed", (data: { queuedId: string; error: string }) => {
+      const docRef = this.takeQueuedSend(data.queuedId);
+      if (docRef) {
+        this.markFailed(docRef, data.error);
+      }
+    });
+  }
+
+  /**
+   * Get the scheduled messages collection for a phone number
+   */
+  private getScheduleCollection(userId: string, phoneNumber: string) {
+    return this.firestore.collection("users").doc(userId).collection("phone_numbers").doc(phoneNumber).collection("scheduled_messages");
+  }
+
+  /**
+   * Start polling for due messages
+   */
+  start(): void {
+    if (this.pollInterval) {
+      this.logger.warn("Message scheduler already running");
+      return;
+    }
+
+    this.logger.info({ intervalMs: this.POLL_INTERVAL }, "Starting message scheduler");
+
+    // Run immediately on start to pick up messages that became due during a redeploy
+    this.poll().catch((error) => {
+      this.logger.error({ error }, "Error during initial scheduler poll");
+    });
+
+    this.pollInterval = setInterval(async () => {
+      try {
+        await this.poll();
+      } catch (error) {
+        this.logger.error({ error }, "Error during scheduled poll");
+      }
+    }, this.POLL_INTERVAL);
+  }
+
+  /**
+   * Stop polling
+   */
+  stop(): void {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = null;
+      this.logger.info("Stopped message scheduler");
+    }
+  }
+
+  /**
+   * Create a scheduled message
+   */
+  async schedule(userId: string, phoneNumber: string, input: ScheduleMessageInput): Promise<ScheduledMessage> {
+    const docRef = this.getScheduleCollection(userId, phoneNumber).doc();
+    const now = Timestamp.now();
+
+    const scheduled: ScheduledMessage = {
+      id: docRef.id,
+      user_id: userId,
+      phone_number: phoneNumber,
+      to_number: input.toNumber,
+      message: input.message || null,
+      media: input.media || null,
+      send_at: Timestamp.fromDate(input.sendAt),
+      status: "pending",
+      created_at: now,
+      updated_at: now,
+    };
+
+    await docRef.set(scheduled);
+
+    this.logger.info({ userId, phoneNumber, scheduleId: docRef.id, toNumber: input.toNumber, sendAt: input.sendAt.toISOString() }, "Message scheduled");
+
+    return scheduled;
+  }
+
+  /**
+   * List scheduled messages for a phone number, ordered by send time
+   */
+  async list(userId: string, phoneNumber: string, status?: ScheduledMessageStatus): Promise<ScheduledMessage[]> {
+    let query = this.getScheduleCollection(userId, phoneNumber).orderBy("send_at", "asc");
+    if (status) {
+      query = query.where("status", "==", status);
+    }
+
+    const snapshot = await query.get();
+    return snapshot.docs.map((doc) => doc.data() as ScheduledMessage);
+  }
+
+  /**
+   * Cancel a pending scheduled message
+   * Returns null if it doesn't exist, or the current status if it can no longer be cancelled
+   */
+  async cancel(userId: string, phoneNumber: string, scheduleId: string): Promise<{ cancelled: boolean; status: ScheduledMessageStatus } | null> {
+    const docRef = this.getScheduleCollection(userId, phoneNumber).doc(scheduleId);
+
+    return this.firestore.runTransaction(async (transaction) => {
+      const doc = await transaction.get(docRef);
+      if (!doc.exists) {
+        return null;
+      }
+
+      const data = doc.data() as ScheduledMessage;
+      if (data.status !== "pending") {
+        return { cancelled: false, status: data.status };
+      }
+
+      transaction.update(docRef, {
+        status: "cancelled",
+        updated_at: Timestamp.now(),
+      });
+
+      this.logger.info({ userId, phoneNumber, scheduleId }, "Scheduled message cancelled");
+      return { cancelled: true, status: "cancelled" as ScheduledMessageStatus };
+    });
+  }
+
+  /**
+   * Find due messages across all users and fire them
+   */
+  async poll(): Promise<void> {
+    // Skip if previous poll is still sending (sends can wait up to 30s on recovery)
+    if (this.isPolling) {
+      return;
+    }
+    this.isPolling = true;
+
+    try {
+      await this.releaseStaleClaims();
+
+      const dueSnapshot = await this.firestore
+        .collectionGroup("scheduled_messages")
+        .where("status", "==", "pending")
+        .where("send_at", "<=", Timestamp.now())
+        .orderBy("send_at", "asc")
+        .limit(this.BATCH_SIZE)
+        .get();
+
+      if (dueSnapshot.empty) {
+        return;
+      }
+
+      this.logger.info({ dueCount: dueSnapshot.size }, "Found due scheduled messages");
+
+      for (const doc of dueSnapshot.docs) {
+        const claimed = await this.claim(doc.ref);
+        if (claimed) {
+          await this.fire(doc.ref, claimed);
+        }
+      }
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  /**
+   * Atomically move a message from pending to processing
+   * Returns null if another instance already claimed (or the user cancelled) it
+   */
+  private async claim(docRef: DocumentReference): Promise<ScheduledMessage | null> {
+    try {
+      return await this.firestore.runTransaction(async (transaction) => {
+        const doc = await transaction.get(docRef);
+        const data = doc.data() as ScheduledMessage | undefined;
+
+        if (!data || data.status !== "pending") {
+          return null;
+        }
+
+        transaction.update(docRef, {
+          status: "processing",
+          claimed_at: Timestamp.now(),
+          updated_at: Timestamp.now(),
+        });
+
+        return data;
+      });
+    } catch (error) {
+      this.logger.warn({ error, scheduleId: docRef.id }, "Failed to claim scheduled message");
+      return null;
+    }
+  }
+
+  /**
+   * Send a claimed message and record the outcome
+   */
+  private async fire(docRef: DocumentReference, scheduled: ScheduledMessage): Promise<void> {
+    const { user_id: userId, phone_number: phoneNumber, to_number: toNumber } = scheduled;
+
+    try {
+      const limitCheck = await this.limitChecker.checkLimits(userId, phoneNumber, toNumber);
+      if (!limitCheck.allowed) {
+        this.logger.warn({ userId, phoneNumber, toNumber, scheduleId: scheduled.id, error: limitCheck.error }, "Scheduled message blocked by limits");
+        await this.markFailed(docRef, limitCheck.error || "Rate limit exceeded");
+        return;
+      }
+
+      const content = buildMessageContent(scheduled.message || undefined, scheduled.media || undefined, scheduled.media?.url);
+      if (!content) {
+        await this.markFailed(docRef, "Unsupported media type");
+        return;
+      }
+
+      // Paced like /messages/send - the outcome arrives as queued-message-sent / queued-message-failed
+      if (limitCheck.delayMs > 0 || this.connectionPool.getOutboundQueueLength(userId, phoneNumber) > 0) {
+        const queued = this.connectionPool.queueOutboundMessage(userId, phoneNumber, toNumber, content, limitCheck.delayMs);
+        this.queuedSends.set(queued.queuedId, docRef);
+
+        // The claim only goes stale STALE_CLAIM_MS after the estimated send, not after it was claimed
+        await docRef.update({
+          queued_id: queued.queuedId,
+          claimed_at: Timestamp.fromDate(queued.estimatedSendAt),
+          updated_at: Timestamp.now(),
+        });
+
+        this.logger.info(
+          { userId, phoneNumber, toNumber, scheduleId: scheduled.id, queuedId: queued.queuedId, delayMs: limitCheck.delayMs },
+          "Scheduled message queued for paced delivery"
+        );
+        return;
+      }
+
+      // sendMessage falls back to on-demand recovery (pending-recovery queue) if the session is not in memory
+      const messageKey = await this.connectionPool.sendMessage(userId, phoneNumber, toNumber, content);
+
+      if (!messageKey) {
+        await this.markFailed(docRef, "Failed to send message");
+        return;
+      }
+
+      await this.markSent(docRef, messageKey.id || null);
+
+      this.logger.info({ userId, phoneNumber, toNumber, scheduleId: scheduled.id, messageId: messageKey.id }, "Scheduled message sent");
+    } catch (error: any) {
+      this.logger.error({ userId, phoneNumber, toNumber, scheduleId: scheduled.id, error: error.message }, "Failed to fire scheduled message");
+      await this.markFailed(docRef, error.message || "Unknown error");
+    }
+  }
+
+  /**
+   * Scheduled message waiting on a pacing queue outcome - null if the queued send isn't one of ours
+   */
+  private takeQueuedSend(queuedId: string): DocumentReference | null {
+    const docRef = this.queuedSends.get(queuedId);
+    if (!docRef) {
+      return null;
+    }
+    this.queuedSends.delete(queuedId);
+    return docRef;
+  }
+
+  /**
+   * Mark a scheduled message as sent
+   */
+  private async markSent(docRef: DocumentReference, messageId: string | null): Promise<void> {
+    await docRef.update({
+      status: "sent",
+      message_id: messageId,
+      sent_at: Timestamp.now(),
+      updated_at: Timestamp.now(),
+      error: null,
+    });
+  }
+
+  /**
+   * Mark a scheduled message as failed
+   */
+  private async markFailed(docRef: DocumentReference, reason: string): Promise<void> {
+    try {
+      await docRef.update({
+        status: "failed",
+        error: reason,
+        updated_at: Timestamp.now(),
+      });
+    } catch (error) {
+      this.logger.error({ error, scheduleId: docRef.id }, "Failed to mark scheduled message as failed");
+    }
+  }
+
+  /**
+   * Fail messages whose claim is older than STALE_CLAIM_MS
+   * The instance holding the claim died mid-send, so we can't know whether WhatsApp received it -
+   * failing is safer than re-sending a possible duplicate
+   */
+  private async releaseStaleClaims(): Promise<void> {
+    const staleBefore = Timestamp.fromMillis(Date.now() - this.STALE_CLAIM_MS);
+    const staleSnapshot = await this.firestore
+      .collectionGroup("scheduled_messages")
+      .where("status", "==", "processing")
+      .where("claimed_at", "<=", staleBefore)
+      .limit(this.BATCH_SIZE)
+      .get();
+
+    for (const doc of staleSnapshot.docs) {
+      this.logger.warn({ scheduleId: doc.id, path: doc.ref.path }, "Scheduled message claim expired - marking as failed");
+      await this.markFailed(doc.ref, "Interrupted before send was confirmed");
+    }
+  }
+}
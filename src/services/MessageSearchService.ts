@@ -0,0 +1,420 @@
+import { Storage } from "@google-cloud/storage";
+import { gzipSync, gunzipSync } from "zlib";
+import pino from "pino";
+import { LidMappingService } from "./LidMappingService";
+
+/**
+ * A message in the search index
+ */
+export interface IndexedMessage {
+  id: string; // WhatsApp message id (message_sid)
+  phoneNumber: string; // Session that sent or received it
+  contactNumber: string; // Phone number, or the LID when it wasn't resolved
+  direction: "inbound" | "outbound";
+  body: string;
+  timestamp: number; // ms
+}
+
+export interface MessageSearchOptions {
+  phoneNumber?: string;
+  contactNumber?: string;
+  before?: Date;
+  after?: Date;
+  limit: number;
+}
+
+interface SessionIndex {
+  messages: Map<string, IndexedMessage>;
+  postings: Map<string, Set<string>>; // token -> message ids
+  dirty: boolean;
+  indexing: boolean; // This instance adds messages to it - otherwise it's a read-only copy that goes stale
+  lastUsedAt: number;
+}
+
+/**
+ * Full-text search over a user's messages
+ *
+ * Firestore can't match words inside message bodies, so messages are indexed here as they're stored
+ * (incoming, outgoing and history-synced). Each session (user + phone number) has its own in-memory
+ * inverted index, loaded from Cloud Storage (search-index/{userId}/{phone digits}.json.gz) on first use
+ * and written back every SEARCH_INDEX_FLUSH_INTERVAL_MS when it changed. Only message bodies are
+ * persisted - the token postings are rebuilt on load. A search without a phone number covers every
+ * index stored for the user.
+ *
+ * Query words match any indexed word containing them ("voice" finds "invoice"), and every query word
+ * has to match. Indexes keep the newest SEARCH_MAX_MESSAGES_PER_NUMBER messages. Memory is budgeted by
+ * message count across all loaded indexes (SEARCH_MAX_LOADED_MESSAGES): written indexes that weren't
+ * used since the previous flush are unloaded, then the least recently used ones until the loaded
+ * messages fit the budget. InstanceCoordinator runs each session on one instance at a time, so each
+ * index has a single writer - a user's numbers can run on different instances without overwriting
+ * each other's messages. An instance that takes over a session loads the index the previous one
+ * flushed. Instances that only serve searches for a session drop their copy on every flush, so they
+ * see the writer's changes one flush interval later.
+ */
+export class MessageSearchService {
+  private storage: Storage;
+  private bucket: string;
+  private lidMappingService: LidMappingService;
+  private logger = pino({ name: "MessageSearchService" });
+  private indexes: Map<string, SessionIndex> = new Map(); // userId:phoneNumber -> index
+  private loading: Map<string, Promise<SessionIndex>> = new Map();
+  private flushInterval: NodeJS.Timeout | null = null;
+  private isFlushing = false;
+
+  private readonly FLUSH_INTERVAL = parseInt(process.env.SEARCH_INDEX_FLUSH_INTERVAL_MS || "60000");
+  private readonly MAX_MESSAGES_PER_INDEX = parseInt(process.env.SEARCH_MAX_MESSAGES_PER_NUMBER || "100000");
+  private readonly MAX_LOADED_MESSAGES = parseInt(process.env.SEARCH_MAX_LOADED_MESSAGES || "300000");
+  private readonly MIN_TOKEN_LENGTH = 2;
+  private readonly MAX_TOKEN_LENGTH = 40;
+  private readonly INDEX_PREFIX = "search-index";
+
+  constructor(lidMappingService: LidMappingService) {
+    this.lidMappingService = lidMappingService;
+    this.storage = new Storage({
+      projectId: process.env.GOOGLE_CLOUD_PROJECT,
+    });
+    this.bucket = process.env.SEARCH_INDEX_BUCKET || process.env.STORAGE_BUCKET || "whatsapp-web-sessions";
+  }
+
+  /**
+   * Start flushing changed indexes to Cloud Storage
+   */
+  start(): void {
+    if (this.flushInterval) {
+      this.logger.warn("Search index flush already running");
+      return;
+    }
+
+    this.flushInterval = setInterval(async () => {
+      try {
+        await this.flush();
+      } catch (error) {
+        this.logger.error({ error }, "Error flushing search indexes");
+      }
+    }, this.FLUSH_INTERVAL);
+  }
+
+  /**
+   * Stop the periodic flush and write out pending changes
+   */
+  async stop(): Promise<void> {
+    if (this.flushInterval) {
+      clearInterval(this.flushInterval);
+      this.flushInterval = null;
+    }
+
+    await this.flush();
+  }
+
+  /**
+   * Split text into lowercase, accent-free words
+   */
+  static tokenize(text: string): string[] {
+    return text
+      .normalize("NFKD")
+      .replace(/\p{M}/gu, "")
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(Boolean);
+  }
+
+  /**
+   * Add a message to the index, or replace its text if it's already indexed
+   */
+  async add(userId: string, message: IndexedMessage): Promise<void> {
+    if (!message.id || !message.body?.trim()) {
+      return;
+    }
+
+    const key = this.getIndexKey(userId, message.phoneNumber);
+    const index = await this.getIndex(key);
+    this.removeFromIndex(index, message.id);
+    this.addToIndex(index, message);
+    this.markChanged(key, index);
+
+    if (index.messages.size > this.MAX_MESSAGES_PER_INDEX * 1.1) {
+      this.trim(index);
+    }
+  }
+
+  /**
+   * Update the text of an indexed message after an edit - ignored if the message isn't indexed
+   */
+  async updateBody(userId: string, phoneNumber: string, messageId: string, body: string): Promise<void> {
+    const index = await this.getIndex(this.getIndexKey(userId, phoneNumber));
+    const existing = index.messages.get(messageId);
+    if (existing) {
+      await this.add(userId, { ...existing, body });
+    }
+  }
+
+  /**
+   * Drop a message from the index (deleted for everyone)
+   */
+  async remove(userId: string, phoneNumber: string, messageId: string): Promise<void> {
+    const key = this.getIndexKey(userId, phoneNumber);
+    const index = await this.getIndex(key);
+    if (this.removeFromIndex(index, messageId)) {
+      this.markChanged(key, index);
+    }
+  }
+
+  /**
+   * Messages matching every word of the query, newest first
+   */
+  async search(userId: string, query: string, options: MessageSearchOptions): Promise<IndexedMessage[]> {
+    const terms = [...new Set(MessageSearchService.tokenize(query))].filter((term) => term.length >= this.MIN_TOKEN_LENGTH);
+    if (terms.length === 0) {
+      return [];
+    }
+
+    const phoneNumbers = options.phoneNumber ? [options.phoneNumber] : await this.listPhoneNumbers(userId);
+    const indexes = await Promise.all(phoneNumbers.map((phoneNumber) => this.getIndex(this.getIndexKey(userId, phoneNumber))));
+
+    const found: IndexedMessage[] = [];
+    for (const index of indexes) {
+      found.push(...this.findMatches(index, terms));
+    }
+    if (found.length === 0) {
+      return [];
+    }
+
+    // A contact's messages can be stored under its phone number and its LID
+    const contactNumbers = options.contactNumber ? await this.resolveContactNumbers(userId, options.contactNumber) : null;
+    const before = options.before?.getTime();
+    const after = options.after?.getTime();
+
+    return found
+      .filter(
+        (message) =>
+          (!contactNumbers || contactNumbers.includes(message.contactNumber)) &&
+          (before === undefined || message.timestamp < before) &&
+          (after === undefined || message.timestamp > after)
+      )
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .slice(0, options.limit);
+  }
+
+  /**
+   * Messages of one index that match every term
+   */
+  private findMatches(index: SessionIndex, terms: string[]): IndexedMessage[] {
+    let matches: Set<string> | undefined;
+    for (const term of terms) {
+      const termMatches = new Set<string>();
+      for (const [token, ids] of index.postings) {
+        if (token.includes(term)) {
+          ids.forEach((id) => termMatches.add(id));
+        }
+      }
+
+      matches = matches ? new Set(Array.from(matches).filter((id: string) => termMatches.has(id))) : termMatches;
+      if (matches.size === 0) {
+        return [];
+      }
+    }
+
+    return [...matches!].map((id) => index.messages.get(id)!);
+  }
+
+  /**
+   * Write changed indexes to Cloud Storage, drop read-only copies and idle written indexes, and unload the
+   * least recently used indexes until the loaded messages fit MAX_LOADED_MESSAGES
+   */
+  async flush(): Promise<void> {
+    if (this.isFlushing) {
+      return;
+    }
+
+    this.isFlushing = true;
+    const idleBefore = Date.now() - this.FLUSH_INTERVAL;
+    try {
+      for (const [key, index] of this.indexes) {
+        if (!index.indexing) {
+          this.indexes.delete(key);
+          continue;
+        }
+        if (!index.dirty) {
+          continue;
+        }
+
+        index.dirty = false; // Set first - messages added during the upload mark it dirty again
+        try {
+          const payload = gzipSync(JSON.stringify({ version: 1, messages: [...index.messages.values()] }));
+          await this.storage.bucket(this.bucket).file(this.getIndexPath(key)).save(payload, { contentType: "application/gzip", resumable: false });
+        } catch (error) {
+          index.dirty = true;
+          this.logger.error({ error, key }, "Failed to write search index");
+        }
+      }
+
+      // Written and not used since the last flush - the next add or search loads it again
+      for (const [key, index] of this.indexes) {
+        if (!index.dirty && index.lastUsedAt < idleBefore) {
+          this.indexes.delete(key);
+        }
+      }
+
+      this.evictOverBudget();
+    } finally {
+      this.isFlushing = false;
+    }
+  }
+
+  /**
+   * Unload the least recently used written indexes until the loaded messages fit MAX_LOADED_MESSAGES
+   * Unwritten changes stay loaded until a flush writes them
+   */
+  private evictOverBudget(keepKey?: string): void {
+    let loaded = 0;
+    for (const index of this.indexes.values()) {
+      loaded += index.messages.size;
+    }
+    if (loaded <= this.MAX_LOADED_MESSAGES) {
+      return;
+    }
+
+    const evictable = [...this.indexes.entries()].filter(([key, index]) => !index.dirty && key !== keepKey).sort(([, a], [, b]) => a.lastUsedAt - b.lastUsedAt);
+    for (const [key, index] of evictable) {
+      if (loaded <= this.MAX_LOADED_MESSAGES) {
+        break;
+      }
+      this.indexes.delete(key);
+      loaded -= index.messages.size;
+    }
+
+    if (loaded > this.MAX_LOADED_MESSAGES) {
+      this.logger.warn({ loaded, budget: this.MAX_LOADED_MESSAGES }, "Search indexes with unwritten changes exceed the memory budget");
+    }
+  }
+
+  /**
+   * Mark an index as changed by this instance - and keep it loaded if it was unloaded while we waited for it
+   */
+  private markChanged(key: string, index: SessionIndex): void {
+    index.dirty = true;
+    index.indexing = true;
+    if (!this.indexes.has(key) && !this.loading.has(key)) {
+      this.indexes.set(key, index);
+    }
+  }
+
+  private getIndexKey(userId: string, phoneNumber: string): string {
+    return `${userId}:${phoneNumber.startsWith("+") ? phoneNumber : `+${phoneNumber}`}`;
+  }
+
+  private getIndexPath(key: string): string {
+    const separator = key.lastIndexOf(":");
+    return `${this.INDEX_PREFIX}/${key.slice(0, separator)}/${key.slice(separator + 1).replace("+", "")}.json.gz`;
+  }
+
+  /**
+   * Phone numbers with a search index for the user - written ones from Cloud Storage, plus any not written yet
+   */
+  private async listPhoneNumbers(userId: string): Promise<string[]> {
+    const prefix = `${this.INDEX_PREFIX}/${userId}/`;
+    const [files] = await this.storage.bucket(this.bucket).getFiles({ prefix });
+    const phoneNumbers = new Set(files.map((file) => `+${file.name.slice(prefix.length).replace(".json.gz", "")}`));
+
+    for (const key of [...this.indexes.keys(), ...this.loading.keys()]) {
+      if (key.startsWith(`${userId}:`)) {
+        phoneNumbers.add(key.slice(userId.length + 1));
+      }
+    }
+    return [...phoneNumbers];
+  }
+
+  private async getIndex(key: string): Promise<SessionIndex> {
+    const loaded = this.indexes.get(key);
+    if (loaded) {
+      loaded.lastUsedAt = Date.now();
+      return loaded;
+    }
+
+    let loading = this.loading.get(key);
+    if (!loading) {
+      loading = this.loadIndex(key).finally(() => this.loading.delete(key));
+      this.loading.set(key, loading);
+    }
+    return loading;
+  }
+
+  /**
+   * Load a session's index from Cloud Storage - an empty index if none was written yet
+   * Fails (and is retried on the next call) when the stored index can't be read, so a flush can't overwrite it
+   */
+  private async loadIndex(key: string): Promise<SessionIndex> {
+    const index: SessionIndex = { messages: new Map(), postings: new Map(), dirty: false, indexing: false, lastUsedAt: Date.now() };
+
+    try {
+      const [contents] = await this.storage.bucket(this.bucket).file(this.getIndexPath(key)).download();
+      const stored = JSON.parse(gunzipSync(contents).toString("utf8")) as { messages: IndexedMessage[] };
+      for (const message of stored.messages || []) {
+        this.addToIndex(index, message);
+      }
+      this.logger.info({ key, messages: index.messages.size }, "Loaded search index");
+    } catch (error: any) {
+      if (error.code !== 404) {
+        throw error;
+      }
+    }
+
+    this.indexes.set(key, index);
+    this.evictOverBudget(key);
+    return index;
+  }
+
+  private addToIndex(index: SessionIndex, message: IndexedMessage): void {
+    index.messages.set(message.id, message);
+
+    for (const token of new Set(MessageSearchService.tokenize(message.body))) {
+      if (token.length < this.MIN_TOKEN_LENGTH || token.length > this.MAX_TOKEN_LENGTH) {
+        continue;
+      }
+
+      let ids = index.postings.get(token);
+      if (!ids) {
+        ids = new Set();
+        index.postings.set(token, ids);
+      }
+      ids.add(message.id);
+    }
+  }
+
+  private removeFromIndex(index: SessionIndex, messageId: string): boolean {
+    const existing = index.messages.get(messageId);
+    if (!existing) {
+      return false;
+    }
+
+    for (const token of MessageSearchService.tokenize(existing.body)) {
+      const ids = index.postings.get(token);
+      if (ids) {
+        ids.delete(messageId);
+        if (ids.size === 0) {
+          index.postings.delete(token);
+        }
+      }
+    }
+    index.messages.delete(messageId);
+    return true;
+  }
+
+  /**
+   * Drop the oldest messages once an index grows past its cap
+   */
+  private trim(index: SessionIndex): void {
+    const oldest = [...index.messages.values()].sort((a, b) => a.timestamp - b.timestamp).slice(0, index.messages.size - this.MAX_MESSAGES_PER_INDEX);
+    for (const message of oldest) {
+      this.removeFromIndex(index, message.id);
+    }
+  }
+
+  private async resolveContactNumbers(userId: string, contactNumber: string): Promise<string[]> {
+    await this.lidMappingService.loadMappingsForUser(userId);
+    const other = LidMappingService.isLid(contactNumber)
+      ? this.lidMappingService.resolveLidToPhone(userId, contactNumber)
+      : this.lidMappingService.resolvePhoneToLid(userId, contactNumber);
+    return other ? [contactNumber, other] : [contactNumber];
+  }
+}
@@ -0,0 +1,215 @@
+import { Firestore, Timestamp, FieldValue, DocumentReference, Transaction } from "@google-cloud/firestore";
+import pino from "pino";
+
+export type MessageLifecycleStatus = "queued" | "sent" | "server_ack" | "delivered" | "read" | "played" | "failed";
+
+/**
+ * How a message left the service: sent straight away, held while the connection reopened
+ * (ConnectionPool messageQueue), held while the session was recovered (pendingRecoveryMessages),
+ * or paced behind earlier new-contact messages (outbound pacing queue)
+ */
+export type MessageSendPath = "direct" | "reconnect_queue" | "recovery_queue" | "paced_queue";
+
+/**
+ * Lifecycle record as stored in users/{userId}/phone_numbers/{phoneNumber}/message_status/{trackingId}
+ */
+export interface MessageStatusRecord {
+  tracking_id: string;
+  message_id: string | null; // WhatsApp message id, once sent
+  to_number: string | null;
+  path: MessageSendPath;
+  status: MessageLifecycleStatus;
+  failure_reason: string | null;
+  queued_at: Timestamp | null;
+  sent_at: Timestamp | null;
+  server_ack_at: Timestamp | null;
+  delivered_at: Timestamp | null;
+  read_at: Timestamp | null;
+  played_at: Timestamp | null;
+  failed_at: Timestamp | null;
+  events: Array<{ status: MessageLifecycleStatus; at: Timestamp; reason?: string }>;
+  created_at: Timestamp;
+  updated_at: Timestamp;
+  expires_at: Timestamp;
+}
+
+// The per-status timestamp fields of a record (sent_at, delivered_at, ...)
+type MessageStatusTimestampField = `${MessageLifecycleStatus}_at`;
+
+export interface MessageStatusUpdate {
+  status: MessageLifecycleStatus;
+  toNumber?: string;
+  path?: MessageSendPath;
+  messageId?: string;
+  reason?: string;
+}
+
+// A message's status only moves forward (a failed message can still turn out to have been sent)
+const STATUS_RANK: Record<MessageLifecycleStatus, number> = {
+  failed: -1,
+  queued: 0,
+  sent: 1,
+  server_ack: 2,
+  delivered: 3,
+  read: 4,
+  played: 5,
+};
+
+/**
+ * Tracks the lifecycle of messages sent through ConnectionPool.sendMessage
+ *
+ * Every send gets a tracking id up front (the pacing queue's queuedId, or a msg_ id otherwise), so a
+ * message can be looked up whether it went out directly, waited in a queue, or never went out at all.
+ * Once WhatsApp accepts the message its id is stored too, and receipts are matched by that id.
+ *
+ * Writes never throw - tracking must not fail a send. Records expire after MESSAGE_STATUS_TTL_DAYS;
+ * configure a Firestore TTL policy on `expires_at` to have them deleted.
+ */
+export class MessageStatusTracker {
+  private firestore: Firestore;
+  private logger = pino({ name: "MessageStatusTracker" });
+
+  private readonly TTL_MS = parseFloat(process.env.MESSAGE_STATUS_TTL_DAYS || "30") * 24 * 60 * 60 * 1000;
+  private readonly RECEIPT_RETRY_DELAY_MS = 5000;
+
+  constructor(firestore: Firestore) {
+    this.firestore = firestore;
+  }
+
+  static createTrackingId(prefix: "msg" | "queued" = "msg"): string {
+    return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  private getStatusCollection(userId: string, phoneNumber: string) {
+    return this.firestore.collection("users").doc(userId).collection("phone_numbers").doc(phoneNumber).collection("message_status");
+  }
+
+  /**
+   * Record a lifecycle step for a tracked send (creates the record on first use)
+   */
+  async record(userId: string, phoneNumber: string, trackingId: string, update: MessageStatusUpdate): Promise<void> {
+    try {
+      const docRef = this.getStatusCollection(userId, phoneNumber).doc(trackingId);
+
+      await this.firestore.runTransaction(async (transaction) => {
+        const doc = await transaction.get(docRef);
+        this.applyUpdate(transaction, docRef, trackingId, doc.exists ? (doc.data() as MessageStatusRecord) : null, update);
+      });
+    } catch (error) {
+      this.logger.warn({ error, userId, phoneNumber, trackingId, status: update.status }, "Failed to record message status");
+    }
+  }
+
+  /**
+   * Record a WhatsApp receipt for a sent message (no-op for messages we didn't track, e.g. sent from the phone)
+   * The sent record is written without holding up the send, so a fast receipt can arrive before it - a
+   * receipt without a record is retried once after RECEIPT_RETRY_DELAY_MS
+   */
+  async recordReceipt(userId: string, phoneNumber: string, messageId: string, status: MessageLifecycleStatus, retryIfMissing: boolean = true): Promise<void> {
+    try {
+      const query = this.getStatusCollection(userId, phoneNumber).where("message_id", "==", messageId).limit(1);
+
+      const recorded = await this.firestore.runTransaction(async (transaction) => {
+        const snapshot = await transaction.get(query);
+        if (snapshot.empty) {
+          return false;
+        }
+
+        const doc = snapshot.docs[0];
+        this.applyUpdate(transaction, doc.ref, doc.id, doc.data() as MessageStatusRecord, { status, messageId });
+        return true;
+      });
+
+      if (!recorded && retryIfMissing) {
+        setTimeout(() => {
+          void this.recordReceipt(userId, phoneNumber, messageId, status, false);
+        }, this.RECEIPT_RETRY_DELAY_MS);
+      }
+    } catch (error) {
+      this.logger.warn({ error, userId, phoneNumber, messageId, status }, "Failed to record message receipt");
+    }
+  }
+
+  /**
+   * Look up a record by tracking id (queuedId / msg_ id) or WhatsApp message id
+   */
+  async get(userId: string, phoneNumber: string, id: string): Promise<MessageStatusRecord | null> {
+    const collection = this.getStatusCollection(userId, phoneNumber);
+
+    const doc = await collection.doc(id).get();
+    if (doc.exists) {
+      return doc.data() as MessageStatusRecord;
+    }
+
+    const snapshot = await collection.where("message_id", "==", id).limit(1).get();
+    return snapshot.empty ? null : (snapshot.docs[0].data() as MessageStatusRecord);
+  }
+
+  private applyUpdate(
+    transaction: Transaction,
+    docRef: DocumentReference,
+    trackingId: string,
+    existing: MessageStatusRecord | null,
+    update: MessageStatusUpdate
+  ): void {
+    const now = Timestamp.now();
+    const timestampField: MessageStatusTimestampField = `${update.status}_at`;
+    const event = update.reason ? { status: update.status, at: now, reason: update.reason } : { status: update.status, at: now };
+
+    if (!existing) {
+      const timestamps: Pick<MessageStatusRecord, MessageStatusTimestampField> = {
+        queued_at: null,
+        sent_at: null,
+        server_ack_at: null,
+        delivered_at: null,
+        read_at: null,
+        played_at: null,
+        failed_at: null,
+      };
+      timestamps[timestampField] = now;
+
+      const record: MessageStatusRecord = {
+        tracking_id: trackingId,
+        message_id: update.messageId || null,
+        to_number: update.toNumber || null,
+        path: update.path || "direct",
+        status: update.status,
+        failure_reason: update.status === "failed" ? update.reason || null : null,
+        ...timestamps,
+        events: [event],
+        created_at: now,
+        updated_at: now,
+        expires_at: Timestamp.fromMillis(Date.now() + this.TTL_MS),
+      };
+      transaction.set(docRef, record);
+      return;
+    }
+
+    const changes: Record<string, any> = {
+      events: FieldValue.arrayUnion(event),
+      updated_at: now,
+    };
+    if (!existing[timestampField]) {
+      changes[timestampField] = now;
+    }
+    if (update.messageId && !existing.message_id) {
+      changes.message_id = update.messageId;
+    }
+    if (update.path) {
+      changes.path = update.path;
+    }
+
+    if (update.status === "failed") {
+      // A message WhatsApp already delivered can't fail anymore, and the first (most specific) reason is kept
+      if (STATUS_RANK[existing.status] < STATUS_RANK.delivered) {
+        changes.status = "failed";
+        changes.failure_reason = (existing.status === "failed" && existing.failure_reason) || update.reason || null;
+      }
+    } else if (STATUS_RANK[update.status] > STATUS_RANK[existing.status]) {
+      // Late receipts (e.g. delivered after read) only fill in their timestamp
+      changes.status = update.status;
+    }
+
+    transaction.update(docRef, changes);
+  }
+}
@@ -0,0 +1,368 @@
+import { Firestore, Timestamp } from "@google-cloud/firestore";
+import type { WASocket } from "@whiskeysockets/baileys";
+import { randomUUID } from "crypto";
+import pino from "pino";
+import { LidMappingService } from "./LidMappingService";
+
+/**
+ * Cached result of a WhatsApp existence check (users/{userId}/number_checks/{phoneNumber})
+ */
+export interface NumberCheckRecord {
+  phone_number: string;
+  exists: boolean;
+  jid: string | null;
+  lid: string | null;
+  checked_at: Timestamp;
+}
+
+/**
+ * Result for one number of a bulk check, in the order the numbers were given
+ */
+export interface NumberCheckResult {
+  input: string;
+  phoneNumber: string | null; // Normalized number - null if the input isn't a valid phone number
+  exists: boolean | null; // null when the lookup failed - unknown, not "not on WhatsApp"
+  error: "lookup_failed" | null;
+  jid: string | null;
+  lid: string | null;
+  cached: boolean;
+  checkedAt: string | null;
+}
+
+export interface NumberCheckInput {
+  input: string;
+  phoneNumber: string | null;
+}
+
+export type NumberCheckJobStatus = "running" | "completed" | "failed";
+
+/**
+ * Background check of a large number list (users/{userId}/number_check_jobs/{jobId})
+ * Results aren't stored on the job - they're read back from the number_checks cache when the job is fetched
+ */
+export interface NumberCheckJob {
+  id: string;
+  user_id: string;
+  phone_number: string; // Session the lookups run through
+  status: NumberCheckJobStatus;
+  inputs: NumberCheckInput[];
+  total: number; // Unique valid numbers
+  checked: number;
+  failed_numbers: string[]; // Numbers whose lookup failed - reported as lookup_failed
+  error: string | null;
+  created_at: Timestamp;
+  updated_at: Timestamp;
+  completed_at: Timestamp | null;
+  expires_at: Timestamp;
+}
+
+/**
+ * Bulk "is this number on WhatsApp" checks
+ *
+ * Numbers are looked up with onWhatsApp in batches of NUMBER_CHECK_BATCH_SIZE, NUMBER_CHECK_BATCH_DELAY_MS
+ * apart, so checking a lead list doesn't look like a scraping burst to WhatsApp. Results are cached per user
+ * for NUMBER_CHECK_CACHE_TTL_DAYS - whether a number is on WhatsApp doesn't depend on which of the user's
+ * sessions asked. LIDs returned by the lookup are saved as LID mappings.
+ *
+ * Lists of up to MAX_SYNC_NUMBERS are checked within the request. Longer ones (up to MAX_NUMBERS) run as a
+ * job on the instance holding the session, with progress kept in Firestore. A job whose instance went away
+ * is reported as failed - submitting the list again answers the numbers it already checked from the cache.
+ */
+export class NumberCheckService {
+  private firestore: Firestore;
+  private lidMappingService: LidMappingService;
+  private logger = pino({ name: "NumberCheckService" });
+
+  private readonly CACHE_TTL_MS = parseFloat(process.env.NUMBER_CHECK_CACHE_TTL_DAYS || "30") * 24 * 60 * 60 * 1000;
+  private readonly BATCH_SIZE = parseInt(process.env.NUMBER_CHECK_BATCH_SIZE || "50");
+  private readonly BATCH_DELAY_MS = parseInt(process.env.NUMBER_CHECK_BATCH_DELAY_MS || "1000");
+  private readonly CACHE_READ_CHUNK = 300;
+  private readonly JOB_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+  private readonly STALE_JOB_MS = 5 * 60 * 1000; // A running job updates its progress after every batch
+  static readonly MAX_SYNC_NUMBERS = 1000; // Uncached numbers take about BATCH_DELAY_MS per BATCH_SIZE - keep the request well inside timeouts
+  static readonly MAX_NUMBERS = 10000; // The inputs are kept on the job document, which Firestore caps at 1 MB
+
+  constructor(firestore: Firestore, lidMappingService: LidMappingService) {
+    this.firestore = firestore;
+    this.lidMappingService = lidMappingService;
+  }
+
+  private getChecksCollection(userId: string) {
+    return this.firestore.collection("users").doc(userId).collection("number_checks");
+  }
+
+  private getJobsCollection(userId: string) {
+    return this.firestore.collection("users").doc(userId).collection("number_check_jobs");
+  }
+
+  /**
+   * Check which numbers are on WhatsApp - cached results are reused, the rest are looked up through the socket
+   * Inputs that aren't valid phone numbers are returned with phoneNumber: null
+   */
+  async check(socket: WASocket, userId: string, inputs: NumberCheckInput[]): Promise<NumberCheckResult[]> {
+    const uniqueNumbers = NumberCheckService.uniqueNumbers(inputs);
+
+    const records = await this.readCache(userId, uniqueNumbers);
+    const cached = new Set(records.keys());
+    const failed = await this.lookupMissing(socket, userId, uniqueNumbers, records);
+
+    return NumberCheckService.toResults(inputs, records, failed, (phone) => cached.has(phone));
+  }
+
+  /**
+   * Start checking a long list in the background - poll getJob() for progress and results
+   */
+  async startJob(socket: WASocket, userId: string, phoneNumber: string, inputs: NumberCheckInput[]): Promise<NumberCheckJob> {
+    const now = Timestamp.now();
+    const job: NumberCheckJob = {
+      id: randomUUID(),
+      user_id: userId,
+      phone_number: phoneNumber,
+      status: "running",
+      inputs,
+      total: NumberCheckService.uniqueNumbers(inputs).length,
+      checked: 0,
+      failed_numbers: [],
+      error: null,
+      created_at: now,
+      updated_at: now,
+      completed_at: null,
+      expires_at: Timestamp.fromMillis(now.toMillis() + this.JOB_TTL_MS),
+    };
+
+    await this.getJobsCollection(userId).doc(job.id).set(job);
+    this.logger.info({ userId, phoneNumber, jobId: job.id, numbers: job.total }, "Started number check job");
+
+    this.runJob(socket, job).catch((error) => {
+      this.logger.error({ error, userId, jobId: job.id }, "Number check job failed");
+    });
+
+    return job;
+  }
+
+  /**
+   * A job with its results once it completed - null if it doesn't exist
+   */
+  async getJob(userId: string, jobId: string): Promise<{ job: NumberCheckJob; results: NumberCheckResult[] | null } | null> {
+    const doc = await this.getJobsCollection(userId).doc(jobId).get();
+    if (!doc.exists) {
+      return null;
+    }
+
+    const job = doc.data() as NumberCheckJob;
+    if (job.status === "running" && Date.now() - job.updated_at.toMillis() > this.STALE_JOB_MS) {
+      return { job: { ...job, status: "failed", error: "interrupted" }, results: null };
+    }
+    if (job.status !== "completed") {
+      return { job, results: null };
+    }
+
+    // Numbers cached before the job started were answered from the cache
+    const records = await this.readCache(userId, NumberCheckService.uniqueNumbers(job.inputs));
+    const createdAt = job.created_at.toMillis();
+    const results = NumberCheckService.toResults(job.inputs, records, new Set(job.failed_numbers), (phone) => {
+      const record = records.get(phone);
+      return !!record && record.checked_at.toMillis() < createdAt;
+    });
+    return { job, results };
+  }
+
+  private async runJob(socket: WASocket, job: NumberCheckJob): Promise<void> {
+    const docRef = this.getJobsCollection(job.user_id).doc(job.id);
+    const uniqueNumbers = NumberCheckService.uniqueNumbers(job.inputs);
+
+    try {
+      const records = await this.readCache(job.user_id, uniqueNumbers);
+      const failed = await this.lookupMissing(socket, job.user_id, uniqueNumbers, records, async (checked) => {
+        await docRef.update({ checked: records.size + checked, updated_at: Timestamp.now() });
+      });
+
+      await docRef.update({
+        status: "completed",
+        checked: uniqueNumbers.length,
+        failed_numbers: [...failed],
+        updated_at: Timestamp.now(),
+        completed_at: Timestamp.now(),
+      });
+    } catch (error: any) {
+      await docRef.update({ status: "failed", error: error.message || "Check failed", updated_at: Timestamp.now() });
+      throw error;
+    }
+  }
+
+  private static uniqueNumbers(inputs: NumberCheckInput[]): string[] {
+    return [...new Set(inputs.map((entry) => entry.phoneNumber).filter((phone): phone is string => !!phone))];
+  }
+
+  /**
+   * Look up the numbers missing from records in paced batches, adding what's found to records
+   * Returns the numbers whose lookup failed; onProgress gets the count looked up so far after each batch
+   */
+  private async lookupMissing(
+    socket: WASocket,
+    userId: string,
+    phoneNumbers: string[],
+    records: Map<string, NumberCheckRecord>,
+    onProgress?: (lookedUp: number) => Promise<void>
+  ): Promise<Set<string>> {
+    const cachedCount = records.size;
+    const toLookup = phoneNumbers.filter((phone) => !records.has(phone));
+    const failed = new Set<string>();
+
+    for (let i = 0; i < toLookup.length; i += this.BATCH_SIZE) {
+      if (i > 0) {
+        await new Promise((resolve) => setTimeout(resolve, this.BATCH_DELAY_MS));
+      }
+
+      const batch = toLookup.slice(i, i + this.BATCH_SIZE);
+      const batchRecords = await this.lookupBatch(socket, userId, batch);
+      if (!batchRecords) {
+        batch.forEach((phone) => failed.add(phone));
+      } else {
+        for (const record of batchRecords) {
+          records.set(record.phone_number, record);
+        }
+      }
+
+      await onProgress?.(i + batch.length);
+    }
+
+    this.logger.info(
+      { userId, numbers: phoneNumbers.length, cached: cachedCount, lookedUp: toLookup.length, failed: failed.size },
+      "Checked numbers on WhatsApp"
+    );
+    return failed;
+  }
+
+  /**
+   * Results in input order
+   */
+  private static toResults(
+    inputs: NumberCheckInput[],
+    records: Map<string, NumberCheckRecord>,
+    failed: Set<string>,
+    wasCached: (phoneNumber: string) => boolean
+  ): NumberCheckResult[] {
+    return inputs.map(({ input, phoneNumber }) => {
+      const record = phoneNumber ? records.get(phoneNumber) : undefined;
+      const lookupFailed = !!phoneNumber && failed.has(phoneNumber);
+      return {
+        input,
+        phoneNumber,
+        exists: lookupFailed ? null : (record?.exists ?? false),
+        error: lookupFailed ? "lookup_failed" : null,
+        jid: record?.jid ?? null,
+        lid: record?.lid ?? null,
+        cached: !!phoneNumber && wasCached(phoneNumber),
+        checkedAt: record ? record.checked_at.toDate().toISOString() : null,
+      };
+    });
+  }
+
+  /**
+   * Cached results that are still within the TTL
+   */
+  private async readCache(userId: string, phoneNumbers: string[]): Promise<Map<string, NumberCheckRecord>> {
+    const records = new Map<string, NumberCheckRecord>();
+    const collection = this.getChecksCollection(userId);
+
+    for (let i = 0; i < phoneNumbers.length; i += this.CACHE_READ_CHUNK) {
+      const refs = phoneNumbers.slice(i, i + this.CACHE_READ_CHUNK).map((phone) => collection.doc(phone));
+      const docs = await this.firestore.getAll(...refs);
+
+      for (const doc of docs) {
+        const data = doc.data() as NumberCheckRecord | undefined;
+        if (data?.checked_at && Date.now() - data.checked_at.toMillis() < this.CACHE_TTL_MS) {
+          records.set(doc.id, data);
+        }
+      }
+    }
+
+    return records;
+  }
+
+  /**
+   * Look up one batch with onWhatsApp and cache the results
+   * Returns null when the lookup fails - a failed batch isn't cached, so the numbers are looked up again on the next check
+   */
+  private async lookupBatch(socket: WASocket, userId: string, phoneNumbers: string[]): Promise<NumberCheckRecord[] | null> {
+    let found: Map<string, { jid: string; lid: string | null }>;
+    try {
+      found = await this.queryOnWhatsApp(socket, phoneNumbers);
+    } catch (error: any) {
+      this.logger.warn({ userId, batchSize: phoneNumbers.length, error: error.message }, "onWhatsApp lookup failed for batch");
+      return null;
+    }
+
+    const now = Timestamp.now();
+    const records: NumberCheckRecord[] = phoneNumbers.map((phone) => ({
+      phone_number: phone,
+      exists: found.has(phone),
+      jid: found.get(phone)?.jid ?? null,
+      lid: found.get(phone)?.lid ?? null,
+      checked_at: now,
+    }));
+
+    const batch = this.firestore.batch();
+    const collection = this.getChecksCollection(userId);
+    for (const record of records) {
+      batch.set(collection.doc(record.phone_number), record);
+      if (record.lid) {
+        await this.lidMappingService.saveLidMapping(userId, record.lid, record.phone_number);
+      }
+    }
+
+    try {
+      await batch.commit();
+    } catch (error) {
+      this.logger.warn({ error, userId }, "Failed to cache number check results");
+    }
+
+    return records;
+  }
+
+  /**
+   * Ask WhatsApp which numbers have an account, keyed by the number as queried
+   * WhatsApp answers with its own form of each number (Mexican and Argentinian mobile numbers gain or lose
+   * a "1"/"9"), so results that don't match a queried number are paired with the numbers left over: directly
+   * when there's one of each, otherwise by asking about each leftover number on its own, at the batch pace.
+   */
+  private async queryOnWhatsApp(socket: WASocket, phoneNumbers: string[]): Promise<Map<string, { jid: string; lid: string | null }>> {
+    const results = ((await socket.onWhatsApp(...phoneNumbers.map((phone) => `${phone.replace("+", "")}@s.whatsapp.net`))) || []).filter(
+      (result) => result.exists && result.jid
+    );
+    const toFound = (result: { jid: string; lid?: unknown }) => ({
+      jid: result.jid,
+      lid: typeof result.lid === "string" && result.lid.includes("@lid") ? result.lid : null,
+    });
+
+    const found = new Map<string, { jid: string; lid: string | null }>();
+    const unmatched: typeof results = [];
+    for (const result of results) {
+      const phone = `+${result.jid.split("@")[0].split(":")[0]}`;
+      if (phoneNumbers.includes(phone) && !found.has(phone)) {
+        found.set(phone, toFound(result));
+      } else {
+        unmatched.push(result);
+      }
+    }
+
+    const leftover = phoneNumbers.filter((phone) => !found.has(phone));
+    if (unmatched.length === 0 || leftover.length === 0) {
+      return found;
+    }
+    if (leftover.length === 1) {
+      found.set(leftover[0], toFound(unmatched[0]));
+      return found;
+    }
+
+    for (const phone of leftover) {
+      await new Promise((resolve) => setTimeout(resolve, this.BATCH_DELAY_MS / this.BATCH_SIZE));
+      const [result] = ((await socket.onWhatsApp(`${phone.replace("+", "")}@s.whatsapp.net`)) || []).filter((entry) => entry.exists && entry.jid);
+      if (result) {
+        found.set(phone, toFound(result));
+      }
+    }
+    return found;
+  }
+}
@@ -0,0 +1,162 @@
+import { Firestore, Timestamp } from "@google-cloud/firestore";
+import type { WASocket } from "@whiskeysockets/baileys";
+import pino from "pino";
+import { LidMappingService } from "./LidMappingService";
+import { toContactJid } from "../utils/contacts";
+
+export type PresenceState = "available" | "unavailable" | "composing" | "recording" | "paused";
+
+/**
+ * Latest presence of a contact as stored in users/{userId}/phone_numbers/{phoneNumber}/presence/{contactNumber}
+ */
+export interface PresenceRecord {
+  jid: string;
+  contact_number: string;
+  presence: PresenceState | null;
+  last_seen_at: Timestamp | null; // Only shared by contacts whose privacy settings allow it
+  subscribed: boolean; // Re-subscribed whenever the session reconnects
+  subscribed_at: Timestamp | null;
+  updated_at: Timestamp;
+}
+
+/**
+ * Presence change for one contact, as emitted on "presence-update"
+ */
+export interface PresenceChange {
+  contactNumber: string;
+  jid: string;
+  presence: PresenceState;
+  lastSeen: string | null;
+}
+
+/**
+ * Contact presence and last-seen
+ *
+ * WhatsApp only sends presence for contacts we subscribed to, and subscriptions end with the connection,
+ * so subscriptions are stored and renewed when a session comes back. The latest presence is kept in
+ * memory; online/offline changes and last-seen are also written to Firestore so they survive restarts.
+ * Typing states (composing, recording, paused) change every few seconds and stay in memory only.
+ */
+export class PresenceService {
+  private firestore: Firestore;
+  private lidMappingService: LidMappingService;
+  private logger = pino({ name: "PresenceService" });
+  private cache: Map<string, Omit<PresenceRecord, "subscribed" | "subscribed_at">> = new Map(); // userId:phoneNumber:contactNumber
+
+  private readonly MAX_CACHE_SIZE = 10000;
+
+  constructor(firestore: Firestore, lidMappingService: LidMappingService) {
+    this.firestore = firestore;
+    this.lidMappingService = lidMappingService;
+  }
+
+  private getPresenceCollection(userId: string, phoneNumber: string) {
+    return this.firestore.collection("users").doc(userId).collection("phone_numbers").doc(phoneNumber).collection("presence");
+  }
+
+  /**
+   * Subscribe to a contact's presence and remember the subscription for reconnects
+   */
+  async subscribe(socket: WASocket, userId: string, phoneNumber: string, contactNumber: string): Promise<void> {
+    await socket.presenceSubscribe(toContactJid(contactNumber));
+
+    const now = Timestamp.now();
+    await this.getPresenceCollection(userId, phoneNumber)
+      .doc(contactNumber)
+      .set({ jid: toContactJid(contactNumber), contact_number: contactNumber, subscribed: true, subscribed_at: now, updated_at: now }, { merge: true });
+
+    this.logger.debug({ userId, phoneNumber, contactNumber }, "Subscribed to contact presence");
+  }
+
+  /**
+   * Renew stored subscriptions after a session (re)connects - returns how many were renewed
+   */
+  async resubscribe(socket: WASocket, userId: string, phoneNumber: string): Promise<number> {
+    const snapshot = await this.getPresenceCollection(userId, phoneNumber).where("subscribed", "==", true).get();
+
+    let renewed = 0;
+    for (const doc of snapshot.docs) {
+      try {
+        await socket.presenceSubscribe((doc.data() as PresenceRecord).jid);
+        renewed++;
+      } catch (error: any) {
+        this.logger.debug({ userId, phoneNumber, contactNumber: doc.id, error: error.message }, "Failed to renew presence subscription");
+      }
+    }
+
+    return renewed;
+  }
+
+  /**
+   * Record a Baileys presence.update event - returns the changes for contacts we could identify
+   */
+  async record(userId: string, phoneNumber: string, presences: Record<string, { lastKnownPresence: PresenceState; lastSeen?: number }>): Promise<PresenceChange[]> {
+    const changes: PresenceChange[] = [];
+
+    for (const [jid, data] of Object.entries(presences || {})) {
+      const contactNumber = this.lidMappingService.resolveJidToPhone(userId, jid);
+      if (!contactNumber || !data?.lastKnownPresence) {
+        continue;
+      }
+
+      const key = `${userId}:${phoneNumber}:${contactNumber}`;
+      const previous = this.cache.get(key);
+      const now = Timestamp.now();
+      // Going offline without a last-seen (hidden, or not sent) still means we saw the contact online until now
+      const lastSeenAt = data.lastSeen
+        ? Timestamp.fromMillis(data.lastSeen * 1000)
+        : data.lastKnownPresence === "unavailable" && previous && previous.presence !== "unavailable"
+          ? now
+          : previous?.last_seen_at || null;
+
+      const record = { jid, contact_number: contactNumber, presence: data.lastKnownPresence, last_seen_at: lastSeenAt, updated_at: now };
+      this.cache.delete(key); // Re-insert so the oldest entry is evicted first
+      this.cache.set(key, record);
+      if (this.cache.size > this.MAX_CACHE_SIZE) {
+        this.cache.delete(this.cache.keys().next().value!);
+      }
+
+      const onlineChanged = (data.lastKnownPresence === "available" || data.lastKnownPresence === "unavailable") && previous?.presence !== data.lastKnownPresence;
+      const lastSeenChanged = lastSeenAt?.toMillis() !== previous?.last_seen_at?.toMillis();
+      if (onlineChanged || lastSeenChanged) {
+        try {
+          await this.getPresenceCollection(userId, phoneNumber).doc(contactNumber).set(record, { merge: true });
+        } catch (error) {
+          this.logger.warn({ error, userId, phoneNumber, contactNumber }, "Failed to store presence");
+        }
+      }
+
+      changes.push({ contactNumber, jid, presence: data.lastKnownPresence, lastSeen: lastSeenAt ? lastSeenAt.toDate().toISOString() : null });
+    }
+
+    return changes;
+  }
+
+  /**
+   * Latest known presence of a contact - from memory, else Firestore; null if nothing was ever recorded
+   * `live` is false when the presence wasn't seen on the current connection and may be outdated
+   */
+  async get(userId: string, phoneNumber: string, contactNumber: string): Promise<(Partial<PresenceRecord> & { live: boolean }) | null> {
+    const doc = await this.getPresenceCollection(userId, phoneNumber).doc(contactNumber).get();
+    const stored = doc.exists ? (doc.data() as PresenceRecord) : null;
+    const cached = this.cache.get(`${userId}:${phoneNumber}:${contactNumber}`);
+
+    if (!stored && !cached) {
+      return null;
+    }
+
+    return { ...stored, ...cached, live: !!cached };
+  }
+
+  /**
+   * Forget the in-memory presence of a session's contacts (it's stale once the connection is gone)
+   */
+  clearSession(userId: string, phoneNumber: string): void {
+    const prefix = `${userId}:${phoneNumber}:`;
+    for (const key of this.cache.keys()) {
+      if (key.startsWith(prefix)) {
+        this.cache.delete(key);
+      }
+    }
+  }
+}
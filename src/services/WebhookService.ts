@@ -0,0 +1,563 @@
+import { Firestore, Timestamp, DocumentReference } from "@google-cloud/firestore";
+import { createHmac, randomBytes } from "crypto";
+import { lookup } from "dns/promises";
+import { BlockList } from "net";
+import pino from "pino";
+
+/**
+ * Event types a webhook can subscribe to - the same names clients get over the websocket
+ */
+export const WEBHOOK_EVENT_TYPES = [
+  "message:received",
+  "message:sent",
+  "message:failed",
+  "message:status",
+  "message:reaction",
+  "message:edited",
+  "message:deleted",
+  "qr:code",
+  "connection:status",
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+export type WebhookDeliveryStatus = "pending" | "delivering" | "delivered" | "dead_letter";
+
+/**
+ * Webhook endpoint as stored in users/{userId}/webhooks
+ */
+export interface Webhook {
+  id: string;
+  user_id: string;
+  url: string;
+  secret: string; // HMAC-SHA256 signing key, only returned to the client when the webhook is created
+  events: WebhookEventType[];
+  description: string | null;
+  active: boolean;
+  created_at: Timestamp;
+  updated_at: Timestamp;
+}
+
+/**
+ * Delivery attempt log as stored in users/{userId}/webhooks/{webhookId}/webhook_deliveries
+ */
+export interface WebhookDelivery {
+  id: string;
+  user_id: string;
+  webhook_id: string;
+  event: WebhookEventType;
+  body: string; // Exact JSON that is signed and POSTed
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: Timestamp | null;
+  claimed_at: Timestamp | null;
+  last_status_code: number | null;
+  last_error: string | null;
+  created_at: Timestamp;
+  updated_at: Timestamp;
+  delivered_at: Timestamp | null;
+  expires_at: Timestamp;
+}
+
+/**
+ * Addresses a webhook may never be delivered to: loopback, private, link-local (cloud metadata endpoints),
+ * carrier-grade NAT, multicast and reserved ranges (BlockList applies the IPv4 ranges to IPv4-mapped IPv6 too)
+ */
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+export interface WebhookInput {
+  url: string;
+  events: WebhookEventType[];
+  description?: string;
+}
+
+/**
+ * Customer webhooks
+ *
+ * Users register HTTPS endpoints with the event types they want. Events arrive through the event bus
+ * (WebhookEventSink). Every matching event is written to the endpoint's delivery log first and then
+ * POSTed, signed with the endpoint's secret:
+ *
+ *   X-Webhook-Signature: sha256=<hex HMAC-SHA256 of "{X-Webhook-Timestamp}.{raw body}">
+ *
+ * Endpoints must resolve to public addresses only - checked when a webhook is saved and again before
+ * every delivery, since DNS can change in between - and redirects aren't followed, so a tenant can't
+ * point deliveries at internal services.
+ *
+ * Non-2xx responses and network errors are retried with exponential backoff (WEBHOOK_RETRY_BASE_MS,
+ * doubling, capped at an hour). After WEBHOOK_MAX_ATTEMPTS failures the delivery moves to the dead-letter
+ * list, from where it can be redelivered. Retries are picked up by polling Firestore, so they survive
+ * redeploys the same way scheduled messages do.
+ */
+export class WebhookService {
+  private firestore: Firestore;
+  private logger = pino({ name: "WebhookService" });
+  private pollInterval: NodeJS.Timeout | null = null;
+  private isPolling = false;
+  private webhookCache: Map<string, { webhooks: Webhook[]; loadedAt: number }> = new Map(); // userId -> active webhooks
+
+  private readonly POLL_INTERVAL = parseInt(process.env.WEBHOOK_POLL_INTERVAL_MS || "15000");
+  private readonly MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || "6");
+  private readonly RETRY_BASE_MS = parseInt(process.env.WEBHOOK_RETRY_BASE_MS || "30000");
+  private readonly MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+  private readonly REQUEST_TIMEOUT_MS = 10000;
+  private readonly DELIVERY_TTL_MS = parseFloat(process.env.WEBHOOK_DELIVERY_TTL_DAYS || "7") * 24 * 60 * 60 * 1000;
+  private readonly CACHE_TTL_MS = 60 * 1000; // Webhook changes made on another instance apply within a minute
+  private readonly BATCH_SIZE = 50;
+  private readonly STALE_CLAIM_MS = 2 * 60 * 1000;
+
+  constructor(firestore: Firestore) {
+    this.firestore = firestore;
+  }
+
+  /**
+   * Sign a delivery body the way receivers should verify it
+   */
+  static sign(secret: string, timestamp: number, body: string): string {
+    return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+  }
+
+  /**
+   * Validate a webhook URL - returns an error message, or null if it's usable
+   */
+  static async validateUrl(url: unknown): Promise<string | null> {
+    if (typeof url !== "string") {
+      return "url required";
+    }
+
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return "url is not a valid URL";
+    }
+    if (parsed.protocol !== "https:" && !(parsed.protocol === "http:" && process.env.NODE_ENV === "development")) {
+      return "url must use https";
+    }
+
+    return WebhookService.checkHost(parsed);
+  }
+
+  /**
+   * Whether a URL's host resolves to public addresses only - returns an error message, or null if it does
+   * Local endpoints are allowed in development
+   */
+  static async checkHost(url: URL): Promise<string | null> {
+    if (process.env.NODE_ENV === "development") {
+      return null;
+    }
+
+    let addresses: Array<{ address: string; family: number }>;
+    try {
+      addresses = await lookup(url.hostname.replace(/^\[|\]$/g, ""), { all: true, verbatim: true });
+    } catch {
+      return "url host could not be resolved";
+    }
+
+    const blocked = addresses.some(({ address, family }) => BLOCKED_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4"));
+    return blocked ? "url must not point to a private, loopback or link-local address" : null;
+  }
+
+  private getWebhookCollection(userId: string) {
+    return this.firestore.collection("users").doc(userId).collection("webhooks");
+  }
+
+  private getDeliveryCollection(userId: string, webhookId: string) {
+    return this.getWebhookCollection(userId).doc(webhookId).collection("webhook_deliveries");
+  }
+
+  /**
+   * Start polling for deliveries that are due for a retry
+   */
+  start(): void {
+    if (this.pollInterval) {
+      this.logger.warn("Webhook service already running");
+      return;
+    }
+
+    this.logger.info({ intervalMs: this.POLL_INTERVAL, maxAttempts: this.MAX_ATTEMPTS }, "Starting webhook retry poller");
+
+    this.pollInterval = setInterval(async () => {
+      try {
+        await this.poll();
+      } catch (error) {
+        this.logger.error({ error }, "Error during webhook retry poll");
+      }
+    }, this.POLL_INTERVAL);
+  }
+
+  /**
+   * Stop polling
+   */
+  stop(): void {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = null;
+      this.logger.info("Stopped webhook retry poller");
+    }
+  }
+
+  /**
+   * Register a webhook endpoint
+   */
+  async create(userId: string, input: WebhookInput): Promise<Webhook> {
+    const docRef = this.getWebhookCollection(userId).doc();
+    const now = Timestamp.now();
+
+    const webhook: Webhook = {
+      id: docRef.id,
+      user_id: userId,
+      url: input.url,
+      secret: `whsec_${randomBytes(24).toString("hex")}`,
+      events: input.events,
+      description: input.description || null,
+      active: true,
+      created_at: now,
+      updated_at: now,
+    };
+
+    await docRef.set(webhook);
+    this.webhookCache.delete(userId);
+
+    this.logger.info({ userId, webhookId: docRef.id, events: input.events }, "Webhook created");
+
+    return webhook;
+  }
+
+  /**
+   * List a user's webhooks, oldest first
+   */
+  async list(userId: string): Promise<Webhook[]> {
+    const snapshot = await this.getWebhookCollection(userId).orderBy("created_at", "asc").get();
+    return snapshot.docs.map((doc) => doc.data() as Webhook);
+  }
+
+  /**
+   * Get a webhook by id
+   */
+  async get(userId: string, webhookId: string): Promise<Webhook | null> {
+    const doc = await this.getWebhookCollection(userId).doc(webhookId).get();
+    return doc.exists ? (doc.data() as Webhook) : null;
+  }
+
+  /**
+   * Change a webhook's url, events, description or active flag
+   */
+  async update(userId: string, webhookId: string, changes: Partial<WebhookInput> & { active?: boolean }): Promise<Webhook | null> {
+    const docRef = this.getWebhookCollection(userId).doc(webhookId);
+    const doc = await docRef.get();
+    if (!doc.exists) {
+      return null;
+    }
+
+    const update: Record<string, any> = { updated_at: Timestamp.now() };
+    if (changes.url !== undefined) {
+      update.url = changes.url;
+    }
+    if (changes.events !== undefined) {
+      update.events = changes.events;
+    }
+    if (changes.description !== undefined) {
+      update.description = changes.description || null;
+    }
+    if (changes.active !== undefined) {
+      update.active = changes.active;
+    }
+
+    await docRef.update(update);
+    this.webhookCache.delete(userId);
+
+    return { ...(doc.data() as Webhook), ...update };
+  }
+
+  /**
+   * Delete a webhook (its delivery log expires on its own)
+   */
+  async delete(userId: string, webhookId: string): Promise<boolean> {
+    const docRef = this.getWebhookCollection(userId).doc(webhookId);
+    const doc = await docRef.get();
+    if (!doc.exists) {
+      return false;
+    }
+
+    await docRef.delete();
+    this.webhookCache.delete(userId);
+
+    this.logger.info({ userId, webhookId }, "Webhook deleted");
+    return true;
+  }
+
+  /**
+   * Delivery log for a webhook, newest first
+   */
+  async listDeliveries(userId: string, webhookId: string, status?: WebhookDeliveryStatus, limit: number = 50): Promise<WebhookDelivery[]> {
+    let query = this.getDeliveryCollection(userId, webhookId).orderBy("created_at", "desc");
+    if (status) {
+      query = query.where("status", "==", status);
+    }
+
+    const snapshot = await query.limit(limit).get();
+    return snapshot.docs.map((doc) => doc.data() as WebhookDelivery);
+  }
+
+  /**
+   * Queue a dead-lettered delivery for another round of attempts
+   * Returns null if it doesn't exist, or false if it isn't dead-lettered
+   */
+  async redeliver(userId: string, webhookId: string, deliveryId: string): Promise<boolean | null> {
+    const docRef = this.getDeliveryCollection(userId, webhookId).doc(deliveryId);
+    const doc = await docRef.get();
+    if (!doc.exists) {
+      return null;
+    }
+
+    if ((doc.data() as WebhookDelivery).status !== "dead_letter") {
+      return false;
+    }
+
+    await docRef.update({ status: "pending", attempts: 0, next_attempt_at: Timestamp.now(), updated_at: Timestamp.now() });
+    this.attempt(docRef).catch((error) => {
+      this.logger.error({ error, userId, webhookId, deliveryId }, "Webhook redelivery failed");
+    });
+
+    return true;
+  }
+
+  /**
+   * Log and send an event to every active webhook of the user subscribed to it
+   */
+  async dispatch(userId: string, event: WebhookEventType, data: Record<string, any>): Promise<void> {
+    const webhooks = (await this.getActiveWebhooks(userId)).filter((webhook) => webhook.events.includes(event));
+    if (webhooks.length === 0) {
+      return;
+    }
+
+    const now = Timestamp.now();
+
+    for (const webhook of webhooks) {
+      const docRef = this.getDeliveryCollection(userId, webhook.id).doc();
+      const delivery: WebhookDelivery = {
+        id: docRef.id,
+        user_id: userId,
+        webhook_id: webhook.id,
+        event,
+        body: JSON.stringify({ id: docRef.id, event, createdAt: now.toDate().toISOString(), data }),
+        status: "pending",
+        attempts: 0,
+        next_attempt_at: now,
+        claimed_at: null,
+        last_status_code: null,
+        last_error: null,
+        created_at: now,
+        updated_at: now,
+        delivered_at: null,
+        expires_at: Timestamp.fromMillis(Date.now() + this.DELIVERY_TTL_MS),
+      };
+
+      await docRef.set(delivery);
+      await this.attempt(docRef, webhook);
+    }
+  }
+
+  /**
+   * Active webhooks for a user, cached for CACHE_TTL_MS - most events belong to users without webhooks
+   */
+  private async getActiveWebhooks(userId: string): Promise<Webhook[]> {
+    const cached = this.webhookCache.get(userId);
+    if (cached && Date.now() - cached.loadedAt < this.CACHE_TTL_MS) {
+      return cached.webhooks;
+    }
+
+    const snapshot = await this.getWebhookCollection(userId).where("active", "==", true).get();
+    const webhooks = snapshot.docs.map((doc) => doc.data() as Webhook);
+    this.webhookCache.set(userId, { webhooks, loadedAt: Date.now() });
+
+    return webhooks;
+  }
+
+  /**
+   * Retry deliveries whose backoff has elapsed, across all users
+   */
+  async poll(): Promise<void> {
+    if (this.isPolling) {
+      return;
+    }
+    this.isPolling = true;
+
+    try {
+      await this.releaseStaleClaims();
+
+      const dueSnapshot = await this.firestore
+        .collectionGroup("webhook_deliveries")
+        .where("status", "==", "pending")
+        .where("next_attempt_at", "<=", Timestamp.now())
+        .orderBy("next_attempt_at", "asc")
+        .limit(this.BATCH_SIZE)
+        .get();
+
+      for (const doc of dueSnapshot.docs) {
+        await this.attempt(doc.ref);
+      }
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  /**
+   * Claim a pending delivery, POST it and record the outcome
+   */
+  private async attempt(docRef: DocumentReference, knownWebhook?: Webhook): Promise<void> {
+    const delivery = await this.claim(docRef);
+    if (!delivery) {
+      return;
+    }
+
+    const webhook = knownWebhook || (await this.get(delivery.user_id, delivery.webhook_id));
+    if (!webhook || !webhook.active) {
+      await this.recordFailure(docRef, delivery, null, webhook ? "Webhook disabled" : "Webhook deleted", true);
+      return;
+    }
+
+    const hostError = await WebhookService.checkHost(new URL(webhook.url));
+    if (hostError) {
+      this.logger.warn(
+        { userId: delivery.user_id, webhookId: delivery.webhook_id, url: webhook.url, hostError },
+        "Refusing webhook delivery to a blocked host"
+      );
+      await this.recordFailure(docRef, delivery, null, hostError, false);
+      return;
+    }
+
+    const timestamp = Math.floor(Date.now() / 1000);
+    let statusCode: number | null = null;
+
+    try {
+      const response = await fetch(webhook.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "whatsapp-web-service-webhooks",
+          "X-Webhook-Id": delivery.id,
+          "X-Webhook-Event": delivery.event,
+          "X-Webhook-Timestamp": String(timestamp),
+          "X-Webhook-Signature": WebhookService.sign(webhook.secret, timestamp, delivery.body),
+        },
+        body: delivery.body,
+        redirect: "manual", // A redirect could point at an internal host - it counts as a failed delivery
+        signal: AbortSignal.timeout(this.REQUEST_TIMEOUT_MS),
+      });
+      statusCode = response.status;
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+    } catch (error: any) {
+      await this.recordFailure(docRef, delivery, statusCode, error.message || "Delivery failed", false);
+      return;
+    }
+
+    await docRef.update({
+      status: "delivered",
+      attempts: delivery.attempts + 1,
+      next_attempt_at: null,
+      last_status_code: statusCode,
+      last_error: null,
+      delivered_at: Timestamp.now(),
+      updated_at: Timestamp.now(),
+    });
+
+    this.logger.debug({ userId: delivery.user_id, webhookId: delivery.webhook_id, deliveryId: delivery.id, event: delivery.event }, "Webhook delivered");
+  }
+
+  /**
+   * Atomically move a delivery from pending to delivering so only one instance sends it
+   */
+  private async claim(docRef: DocumentReference): Promise<WebhookDelivery | null> {
+    try {
+      return await this.firestore.runTransaction(async (transaction) => {
+        const doc = await transaction.get(docRef);
+        const data = doc.data() as WebhookDelivery | undefined;
+
+        if (!data || data.status !== "pending") {
+          return null;
+        }
+
+        transaction.update(docRef, { status: "delivering", claimed_at: Timestamp.now(), updated_at: Timestamp.now() });
+        return data;
+      });
+    } catch (error) {
+      this.logger.warn({ error, deliveryId: docRef.id }, "Failed to claim webhook delivery");
+      return null;
+    }
+  }
+
+  /**
+   * Schedule the next attempt with exponential backoff, or dead-letter the delivery
+   */
+  private async recordFailure(
+    docRef: DocumentReference,
+    delivery: WebhookDelivery,
+    statusCode: number | null,
+    reason: string,
+    permanent: boolean
+  ): Promise<void> {
+    const attempts = delivery.attempts + 1;
+    const deadLetter = permanent || attempts >= this.MAX_ATTEMPTS;
+    const retryDelayMs = Math.min(this.RETRY_BASE_MS * 2 ** (attempts - 1), this.MAX_RETRY_DELAY_MS);
+
+    await docRef.update({
+      status: deadLetter ? "dead_letter" : "pending",
+      attempts,
+      next_attempt_at: deadLetter ? null : Timestamp.fromMillis(Date.now() + retryDelayMs),
+      last_status_code: statusCode,
+      last_error: reason,
+      updated_at: Timestamp.now(),
+    });
+
+    const logContext = { userId: delivery.user_id, webhookId: delivery.webhook_id, deliveryId: delivery.id, event: delivery.event, attempts, reason };
+    if (deadLetter) {
+      this.logger.warn(logContext, "Webhook delivery moved to dead-letter list");
+    } else {
+      this.logger.info({ ...logContext, retryDelayMs }, "Webhook delivery failed - will retry");
+    }
+  }
+
+  /**
+   * Put deliveries back in line whose sending instance died mid-request
+   * Receivers dedupe on X-Webhook-Id, so a second attempt is safe
+   */
+  private async releaseStaleClaims(): Promise<void> {
+    const staleSnapshot = await this.firestore
+      .collectionGroup("webhook_deliveries")
+      .where("status", "==", "delivering")
+      .where("claimed_at", "<=", Timestamp.fromMillis(Date.now() - this.STALE_CLAIM_MS))
+      .limit(this.BATCH_SIZE)
+      .get();
+
+    for (const doc of staleSnapshot.docs) {
+      await doc.ref.update({ status: "pending", next_attempt_at: Timestamp.now(), updated_at: Timestamp.now() });
+    }
+  }
+}
@@ -339,8 +339,8 @@ export class LimitChecker {
           whatsapp_web_usage: usage,
         });
 
-        // No delay applied - send messages immediately
-        const delayMs = 0;
+        // Only new contacts are paced - replies and existing conversations send immediately
+        const delayMs = isNewContact ? this.calculateDelayMs(settings) : 0;
 
         // Calculate usage stats for new contacts
         const remaining = dailyLimit - usage.new_contacts_today;
@@ -424,7 +424,34 @@ export class LimitChecker {
   }
 
   /**
-   * Apply delay if needed (DEPRECATED - no longer applies delays)
+   * Calculate a human-like pacing delay from the user's WhatsApp Web settings
+   * delay_between_new_messages +/- a random delay_random_variation (both in seconds)
+   * Returns 0 when limits are disabled for the user
+   */
+  async getPacingDelayMs(userId: string): Promise<number> {
+    const userDoc = await this.db.collection("users").doc(userId).get();
+    const settings: WhatsAppWebSettings | undefined = userDoc.data()?.whatsapp_web_settings;
+
+    if (settings && !settings.enabled) {
+      return 0;
+    }
+
+    return this.calculateDelayMs(settings);
+  }
+
+  /**
+   * delay_between_new_messages +/- random delay_random_variation, in milliseconds (never negative)
+   */
+  private calculateDelayMs(settings?: WhatsAppWebSettings): number {
+    const baseSeconds = this.sanitizeCounter(settings?.delay_between_new_messages ?? 45);
+    const variationSeconds = this.sanitizeCounter(settings?.delay_random_variation ?? 30);
+    const offsetSeconds = (Math.random() * 2 - 1) * variationSeconds;
+
+    return Math.round(Math.max(0, baseSeconds + offsetSeconds) * 1000);
+  }
+
+  /**
+   * Apply delay if needed (DEPRECATED - no longer applies delays, use ConnectionPool.queueOutboundMessage)
    */
   async applyDelay(_delayMs: number): Promise<void> {
     // Delay functionality has been removed - messages now send immediately
@@ -0,0 +1,23 @@
+import { Firestore, DocumentReference } from "@google-cloud/firestore";
+import { formatWhatsAppJid } from "./phoneNumber";
+
+/**
+ * Find a user's contact document by its stored number (phone number or LID)
+ *
+ * @returns The contact's reference, or null if the user has no contact with that number
+ */
+export async function findContactRef(firestore: Firestore, userId: string, contactNumber: string): Promise<DocumentReference | null> {
+  const userRef = firestore.collection("users").doc(userId);
+  const snapshot = await firestore.collection("contacts").where("user", "==", userRef).where("phone_number", "==", contactNumber).limit(1).get();
+  return snapshot.empty ? null : snapshot.docs[0].ref;
+}
+
+/**
+ * WhatsApp JID of a contact's phone number
+ * Numbers the formatter rejects fall back to their digits, the way ConnectionPool formats JIDs
+ *
+ * @returns WhatsApp JID format (e.g., "31658015937@s.whatsapp.net")
+ */
+export function toContactJid(contactNumber: string): string {
+  return formatWhatsAppJid(contactNumber) || `${contactNumber.replace(/\D/g, "")}@s.whatsapp.net`;
+}
@@ -0,0 +1,428 @@
+import { WAMessageContent } from "@whiskeysockets/baileys";
+import { formatPhoneNumberSafe, formatWhatsAppJid, isWhatsAppJid } from "./phoneNumber";
+
+/**
+ * Media attachment as accepted by the send APIs (REST and WebSocket)
+ * Either `url` or `buffer` (base64 string or Buffer) must be provided
+ */
+export interface OutboundMedia {
+  type: "image" | "video" | "document" | "audio";
+  url?: string;
+  buffer?: string | Buffer;
+  mimetype?: string;
+  fileName?: string;
+  voiceNote?: boolean;
+  thumbnail?: string | Buffer; // JPEG preview for videos (base64 string or Buffer) - generated from the buffer when omitted
+}
+
+/**
+ * Media attachment persisted with deferred sends (scheduled messages, campaigns)
+ * Buffers are uploaded up-front so only the URL is stored
+ */
+export interface PersistedMedia {
+  type: OutboundMedia["type"];
+  url: string;
+  mimetype: string | null;
+  fileName: string | null;
+  voiceNote: boolean;
+  thumbnail?: string | null; // Base64 JPEG preview for videos
+}
+
+/**
+ * Get the default mimetype for a media type when the caller didn't provide one
+ */
+export function getDefaultMimetype(mediaType: string): string {
+  switch (mediaType) {
+    case "image":
+      return "image/jpeg";
+    case "video":
+      return "video/mp4";
+    case "audio":
+      return "audio/ogg";
+    case "document":
+      return "application/octet-stream";
+    default:
+      return "application/octet-stream";
+  }
+}
+
+/**
+ * Build Baileys message content from a text message and/or a media attachment
+ *
+ * @param message - Text body (used as caption for media messages)
+ * @param media - Optional media attachment
+ * @param mediaUrl - Resolved media URL (uploaded or provided by the caller)
+ * @returns Message content, or null if the media type is unsupported
+ */
+export function buildMessageContent(
+  message: string | undefined,
+  media?: { type: string; fileName?: string | null; voiceNote?: boolean | null; thumbnail?: string | Buffer | null },
+  mediaUrl?: string | null
+): WAMessageContent | null {
+  if (!media) {
+    return { text: message } as WAMessageContent;
+  }
+
+  switch (media.type) {
+    case "image":
+      return {
+        image: { url: mediaUrl },
+        caption: message,
+      } as WAMessageContent;
+    case "video":
+      return {
+        video: { url: mediaUrl },
+        caption: message,
+        ...(media.thumbnail && { jpegThumbnail: Buffer.isBuffer(media.thumbnail) ? media.thumbnail.toString("base64") : media.thumbnail }),
+      } as WAMessageContent;
+    case "document":
+      return {
+        document: { url: mediaUrl },
+        fileName: media.fileName || "document",
+        caption: message,
+      } as WAMessageContent;
+    case "audio":
+      return {
+        audio: { url: mediaUrl },
+        ptt: media.voiceNote || false,
+      } as WAMessageContent;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Stored message being replied to (looked up from the contact's messages subcollection)
+ */
+export interface QuotedMessageRef {
+  id: string; // WhatsApp message id (message_sid)
+  participant: string; // JID of the quoted message's author
+  body: string | null;
+}
+
+/**
+ * Convert mention phone numbers (or JIDs) into WhatsApp JIDs
+ * Returns null if any entry is not a valid phone number
+ */
+export function toMentionJids(mentions: unknown[]): string[] | null {
+  const jids: string[] = [];
+
+  for (const mention of mentions) {
+    if (typeof mention !== "string") {
+      return null;
+    }
+
+    if (isWhatsAppJid(mention)) {
+      jids.push(mention);
+      continue;
+    }
+
+    const formatted = formatPhoneNumberSafe(mention);
+    const jid = formatted ? formatWhatsAppJid(formatted) : null;
+    if (!jid) {
+      return null;
+    }
+    jids.push(jid);
+  }
+
+  return jids;
+}
+
+/**
+ * Attach a quoted message and/or mentions to message content
+ * Baileys copies `contextInfo` and `mentions` onto the generated message, so the reply context
+ * travels with the content through every send path (direct, recovery queue, pacing queue)
+ */
+export function applyReplyContext(content: WAMessageContent, quoted?: QuotedMessageRef | null, mentions?: string[]): WAMessageContent {
+  const withContext: Record<string, any> = { ...content };
+
+  if (quoted) {
+    withContext.contextInfo = {
+      stanzaId: quoted.id,
+      participant: quoted.participant,
+      quotedMessage: { conversation: quoted.body || "" },
+    };
+  }
+
+  if (mentions && mentions.length > 0) {
+    withContext.mentions = mentions;
+  }
+
+  return withContext as WAMessageContent;
+}
+
+/**
+ * Location as accepted by the send API
+ */
+export interface OutboundLocation {
+  latitude: number;
+  longitude: number;
+  name?: string;
+  address?: string;
+}
+
+/**
+ * Contact card as accepted by the send API (converted to a vCard)
+ */
+export interface OutboundContact {
+  name: string;
+  phoneNumber: string;
+  organization?: string;
+  email?: string;
+}
+
+/**
+ * Poll as accepted by the send API
+ * selectableCount 0 lets people pick any number of options
+ */
+export interface OutboundPoll {
+  question: string;
+  options: string[];
+  selectableCount?: number;
+}
+
+/**
+ * Location extracted from an incoming/outgoing location or live location message
+ */
+export interface LocationData {
+  latitude: number;
+  longitude: number;
+  name: string | null;
+  address: string | null;
+  url: string | null;
+  live: boolean;
+}
+
+/**
+ * Contact card extracted from a contact or contacts-array message
+ */
+export interface ContactCardData {
+  name: string | null;
+  phoneNumbers: string[];
+  vcard: string;
+}
+
+const MAX_POLL_OPTIONS = 12;
+const MAX_CONTACT_CARDS = 10;
+
+/**
+ * Escape a value for use in a vCard property
+ */
+function escapeVCardValue(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/\n/g, "\\n")
+    .replace(/([,;])/g, "\\$1");
+}
+
+/**
+ * Build a vCard 3.0 for a contact - the waid parameter makes WhatsApp show "Message" / "Add" buttons
+ */
+export function buildVCard(contact: OutboundContact): string {
+  const waid = contact.phoneNumber.replace(/\D/g, "");
+  const lines = ["BEGIN:VCARD", "VERSION:3.0", `FN:${escapeVCardValue(contact.name)}`];
+
+  if (contact.organization) {
+    lines.push(`ORG:${escapeVCardValue(contact.organization)}`);
+  }
+  lines.push(`TEL;type=CELL;type=VOICE;waid=${waid}:${contact.phoneNumber}`);
+  if (contact.email) {
+    lines.push(`EMAIL:${escapeVCardValue(contact.email)}`);
+  }
+  lines.push("END:VCARD");
+
+  return lines.join("\n");
+}
+
+/**
+ * Build Baileys content for a location, contact card(s) or poll from a send request
+ * Returns null content when the request has none of them, or an error for invalid input
+ */
+export function buildStructuredContent(payload: { location?: unknown; contacts?: unknown; poll?: unknown }): {
+  content: WAMessageContent | null;
+  error?: string;
+} {
+  const { location, contacts, poll } = payload as { location?: any; contacts?: any; poll?: any };
+  const provided = [location, contacts, poll].filter((value) => value != null).length;
+
+  if (provided === 0) {
+    return { content: null };
+  }
+  if (provided > 1) {
+    return { content: null, error: "Only one of location, contacts or poll can be sent per message" };
+  }
+
+  if (location != null) {
+    const { latitude, longitude, name, address } = location;
+    if (typeof latitude !== "number" || typeof longitude !== "number" || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+      return { content: null, error: "location requires numeric latitude (-90 to 90) and longitude (-180 to 180)" };
+    }
+
+    return {
+      content: {
+        location: {
+          degreesLatitude: latitude,
+          degreesLongitude: longitude,
+          ...(typeof name === "string" && name ? { name } : {}),
+          ...(typeof address === "string" && address ? { address } : {}),
+        },
+      } as WAMessageContent,
+    };
+  }
+
+  if (contacts != null) {
+    if (!Array.isArray(contacts) || contacts.length === 0 || contacts.length > MAX_CONTACT_CARDS) {
+      return { content: null, error: `contacts must be an array of 1 to ${MAX_CONTACT_CARDS} contacts` };
+    }
+
+    const cards: Array<{ displayName: string; vcard: string }> = [];
+    for (const contact of contacts) {
+      const phoneNumber = typeof contact?.phoneNumber === "string" ? formatPhoneNumberSafe(contact.phoneNumber) : null;
+      if (typeof contact?.name !== "string" || !contact.name.trim() || !phoneNumber) {
+        return { content: null, error: "Each contact requires a name and a valid phoneNumber with country code" };
+      }
+      cards.push({ displayName: contact.name, vcard: buildVCard({ ...contact, phoneNumber }) });
+    }
+
+    return {
+      content: {
+        contacts: {
+          displayName: cards.length === 1 ? cards[0].displayName : `${cards.length} contacts`,
+          contacts: cards,
+        },
+      } as WAMessageContent,
+    };
+  }
+
+  const { question, options, selectableCount = 1 } = poll;
+  if (typeof question !== "string" || !question.trim()) {
+    return { content: null, error: "poll requires a question" };
+  }
+  if (
+    !Array.isArray(options) ||
+    options.length < 2 ||
+    options.length > MAX_POLL_OPTIONS ||
+    options.some((option) => typeof option !== "string" || !option.trim()) ||
+    new Set(options).size !== options.length
+  ) {
+    return { content: null, error: `poll requires 2 to ${MAX_POLL_OPTIONS} unique options` };
+  }
+  if (!Number.isInteger(selectableCount) || selectableCount < 0 || selectableCount > options.length) {
+    return { content: null, error: "poll selectableCount must be between 0 (any number) and the number of options" };
+  }
+
+  return {
+    content: {
+      poll: { name: question, values: options, selectableCount },
+    } as WAMessageContent,
+  };
+}
+
+/**
+ * Phone numbers in a vCard, preferring the WhatsApp id (waid) over the display value
+ */
+export function parseVCardPhoneNumbers(vcard: string): string[] {
+  const phoneNumbers: string[] = [];
+
+  for (const line of vcard.split(/\r?\n/)) {
+    const match = line.match(/^(?:item\d+\.)?TEL([^:]*):(.*)$/i);
+    if (!match) {
+      continue;
+    }
+
+    const waid = match[1].match(/waid=(\d+)/i);
+    const number = waid ? `+${waid[1]}` : match[2].replace(/[^\d+]/g, "");
+    if (number && !phoneNumbers.includes(number)) {
+      phoneNumbers.push(number);
+    }
+  }
+
+  return phoneNumbers;
+}
+
+/**
+ * Extract the location from a (live) location message, or null for other messages
+ */
+export function extractLocation(content: any): LocationData | null {
+  const location = content?.locationMessage || content?.liveLocationMessage;
+  if (!location || typeof location.degreesLatitude !== "number" || typeof location.degreesLongitude !== "number") {
+    return null;
+  }
+
+  return {
+    latitude: location.degreesLatitude,
+    longitude: location.degreesLongitude,
+    name: location.name || null,
+    address: location.address || null,
+    url: location.url || null,
+    live: !!content.liveLocationMessage,
+  };
+}
+
+/**
+ * Extract contact cards from a contact or contacts-array message, or null for other messages
+ */
+export function extractContactCards(content: any): ContactCardData[] | null {
+  const contactMessages = content?.contactMessage ? [content.contactMessage] : content?.contactsArrayMessage?.contacts;
+  if (!contactMessages || contactMessages.length === 0) {
+    return null;
+  }
+
+  return contactMessages.map((contact: any) => {
+    const vcard: string = contact.vcard || "";
+    const fullName = vcard.match(/^FN[^:]*:(.*)$/im)?.[1]?.trim();
+
+    return {
+      name: contact.displayName || fullName || null,
+      phoneNumbers: parseVCardPhoneNumbers(vcard),
+      vcard,
+    };
+  });
+}
+
+/**
+ * Structured location / contact card fields for a stored message
+ * Only the fields the message actually carries are returned, so other messages don't get null fields
+ */
+export function extractStructuredFields(content: any): { location?: LocationData; contacts?: ContactCardData[] } {
+  const location = extractLocation(content);
+  const contacts = extractContactCards(content);
+
+  return {
+    ...(location ? { location } : {}),
+    ...(contacts ? { contacts } : {}),
+  };
+}
+
+/**
+ * Extract the embedded JPEG preview from an image, video or document message, or null if it has none
+ */
+export function extractJpegThumbnail(content: any): Buffer | null {
+  const media = content?.imageMessage || content?.videoMessage || content?.documentMessage;
+  const thumbnail = media?.jpegThumbnail;
+  if (!thumbnail || thumbnail.length === 0) {
+    return null;
+  }
+
+  // Protobuf bytes arrive as Uint8Array; messages restored from JSON (history sync, stores) carry base64
+  return typeof thumbnail === "string" ? Buffer.from(thumbnail, "base64") : Buffer.from(thumbnail);
+}
+
+/**
+ * Readable message body for a location, e.g. "[Location: Central Station, Stationsplein 1 (52.3791, 4.9003)]"
+ */
+export function formatLocationText(location: LocationData): string {
+  const label = [location.name, location.address].filter(Boolean).join(", ");
+  const coordinates = `${location.latitude}, ${location.longitude}`;
+  const prefix = location.live ? "Live location" : "Location";
+
+  return label ? `[${prefix}: ${label} (${coordinates})]` : `[${prefix}: ${coordinates}]`;
+}
+
+/**
+ * Readable message body for contact cards, e.g. "[Contact: Jane Doe +31612345678]"
+ */
+export function formatContactCardsText(cards: ContactCardData[]): string {
+  const described = cards.map((card) => [card.name, ...card.phoneNumbers].filter(Boolean).join(" ") || "Unknown");
+  return `[${cards.length === 1 ? "Contact" : "Contacts"}: ${described.join("; ")}]`;
+}